@@ -16,6 +16,7 @@ import PnL from "@/pages/pnl";
 import Configuration from "@/pages/config";
 import Logs from "@/pages/logs";
 import DualEntry5m from "@/pages/dual-entry-5m";
+import Strategies from "@/pages/strategies";
 
 function Router() {
   return (
@@ -26,6 +27,7 @@ function Router() {
       <Route path="/pnl" component={PnL} />
       <Route path="/config" component={Configuration} />
       <Route path="/logs" component={Logs} />
+      <Route path="/strategies" component={Strategies} />
       <Route path="/strategies/dual-entry-5m" component={DualEntry5m} />
       <Route component={NotFound} />
     </Switch>
@@ -8,6 +8,7 @@ import {
   Activity,
   Zap,
   ArrowUpDown,
+  Layers,
 } from "lucide-react";
 import { useLocation, Link } from "wouter";
 import {
@@ -36,6 +37,7 @@ const navItems = [
 ];
 
 const strategyItems = [
+  { title: "All Strategies", url: "/strategies", icon: Layers },
   { title: "5m Dual-Entry", url: "/strategies/dual-entry-5m", icon: ArrowUpDown },
 ];
 
@@ -107,7 +109,7 @@ export function AppSidebar() {
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton
                     asChild
-                    isActive={location.startsWith(item.url)}
+                    isActive={location === item.url}
                   >
                     <Link href={item.url} data-testid={`link-nav-${item.title.toLowerCase().replace(/\s/g, "-")}`}>
                       <item.icon className="w-4 h-4" />
@@ -28,8 +28,33 @@ import {
   RefreshCw,
   Bell,
   Send,
+  Plus,
+  Trash2,
+  Play,
+  Square,
+  Timer,
+  Filter,
+  ArrowUp,
+  ArrowDown,
+  LogOut,
 } from "lucide-react";
-import type { BotConfig } from "@shared/schema";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, Tooltip } from "recharts";
+import {
+  DEFAULT_FSM_PHASE_SCHEDULE,
+  fsmPhaseScheduleSchema,
+  type BotConfig,
+  type EntryEvaluation,
+  type EntryFilterInfo,
+  type ExitPolicyMode,
+  type ExitPolicyStatus,
+  type PositionExit,
+  type FsmPhaseBounds,
+  type FsmPhaseSchedule,
+  type OptimizationJob,
+  type OptimizerStrategy,
+  type OptimizerValidation,
+} from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useEffect } from "react";
@@ -336,6 +361,338 @@ function MarketSelector({ currentMarketId, currentMarketSlug }: { currentMarketI
   );
 }
 
+const PHASE_INTERVALS = [
+  { key: "5m", label: "5 min", windowSec: 300 },
+  { key: "15m", label: "15 min", windowSec: 900 },
+] as const;
+
+const PHASE_FIELDS = [
+  { key: "unwind", label: "Unwind", hint: "deja de entrar, cancela BUYs" },
+  { key: "closeOnly", label: "Close Only", hint: "cancela todas las órdenes" },
+  { key: "hedgeLock", label: "Hedge Lock", hint: "mantiene hasta la resolución" },
+] as const;
+
+function PhaseScheduleCard({ value, onChange }: { value: FsmPhaseSchedule; onChange: (v: FsmPhaseSchedule) => void }) {
+  const setBounds = (interval: keyof FsmPhaseSchedule, bounds: FsmPhaseBounds) => onChange({ ...value, [interval]: bounds });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2">
+          <Timer className="w-4 h-4 text-muted-foreground" />
+          <CardTitle className="text-sm font-medium">FSM Phase Schedule</CardTitle>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Inicio de cada fase contado hacia atrás desde el cierre del mercado — en segundos o como fracción de la ventana
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {PHASE_INTERVALS.map(({ key, label, windowSec }) => {
+          const bounds = value[key];
+          const isFraction = bounds.mode === "fraction";
+          return (
+            <div key={key} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-1.5">
+                <Label>{label} markets</Label>
+                <Select
+                  value={bounds.mode}
+                  onValueChange={(mode) => setBounds(key, { ...bounds, mode: mode as FsmPhaseBounds["mode"] })}
+                >
+                  <SelectTrigger data-testid={`select-phase-mode-${key}`}><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="seconds">Seconds</SelectItem>
+                    <SelectItem value="fraction">Fraction of window</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {PHASE_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1.5">
+                  <Label htmlFor={`phase-${key}-${field.key}`}>{field.label} {isFraction ? "(fraction)" : "(s)"}</Label>
+                  <Input
+                    id={`phase-${key}-${field.key}`}
+                    type="number"
+                    step={isFraction ? "0.01" : "1"}
+                    min="0"
+                    max={isFraction ? "1" : String(windowSec)}
+                    value={bounds[field.key]}
+                    onChange={(e) => setBounds(key, { ...bounds, [field.key]: parseFloat(e.target.value) || 0 })}
+                    data-testid={`input-phase-${key}-${field.key}`}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {isFraction ? `${Math.round(bounds[field.key] * windowSec)}s — ` : ""}{field.hint}
+                  </p>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
+function EntryFilterRow({ filter, index, count, onMove, moving }: {
+  filter: EntryFilterInfo;
+  index: number;
+  count: number;
+  onMove: (from: number, to: number) => void;
+  moving: boolean;
+}) {
+  const { toast } = useToast();
+  const [params, setParams] = useState<Record<string, number>>(filter.params);
+  const [dirty, setDirty] = useState(false);
+
+  useEffect(() => {
+    if (!dirty) setParams(filter.params);
+  }, [filter.params, dirty]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: { enabled?: boolean; params?: Record<string, number> }) => {
+      return apiRequest("PATCH", `/api/bot/entry-filters/${filter.id}`, updates);
+    },
+    onSuccess: (_res, updates) => {
+      if (updates.params) setDirty(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/bot/entry-filters"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bot/config"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bot/status"] });
+    },
+    onError: (err: Error) => toast({ title: "Failed to save", description: err.message, variant: "destructive" }),
+  });
+
+  return (
+    <div className="flex flex-col gap-2 p-3 rounded-md border" data-testid={`entry-filter-${filter.id}`}>
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-xs font-mono text-muted-foreground w-4">{index + 1}</span>
+          <div className="min-w-0">
+            <div className="text-sm font-medium">{filter.name}</div>
+            <p className="text-xs text-muted-foreground">{filter.description}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <Button size="icon" variant="ghost" className="h-7 w-7" disabled={index === 0 || moving} onClick={() => onMove(index, index - 1)} data-testid={`button-filter-up-${filter.id}`}>
+            <ArrowUp className="w-3.5 h-3.5" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-7 w-7" disabled={index === count - 1 || moving} onClick={() => onMove(index, index + 1)} data-testid={`button-filter-down-${filter.id}`}>
+            <ArrowDown className="w-3.5 h-3.5" />
+          </Button>
+          <Switch
+            checked={filter.enabled}
+            disabled={updateMutation.isPending}
+            onCheckedChange={(enabled) => updateMutation.mutate({ enabled })}
+            data-testid={`switch-filter-${filter.id}`}
+          />
+        </div>
+      </div>
+      {filter.paramSchema.length > 0 && (
+        <div className="flex flex-wrap items-end gap-3 pl-6">
+          {filter.paramSchema.map((field) => (
+            <div key={field.key} className="space-y-1 w-36">
+              <Label htmlFor={`filter-${filter.id}-${field.key}`} className="text-xs">
+                {field.label}
+                {filter.configBindings[field.key] && <span className="text-muted-foreground"> (bot config)</span>}
+              </Label>
+              <Input
+                id={`filter-${filter.id}-${field.key}`}
+                type="number"
+                className="h-8 font-mono"
+                min={field.min}
+                max={field.max}
+                step={field.step ?? "any"}
+                value={params[field.key] ?? ""}
+                onChange={(e) => {
+                  setParams((p) => ({ ...p, [field.key]: parseFloat(e.target.value) || 0 }));
+                  setDirty(true);
+                }}
+                data-testid={`input-filter-${filter.id}-${field.key}`}
+              />
+            </div>
+          ))}
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!dirty || updateMutation.isPending}
+            onClick={() => updateMutation.mutate({ params })}
+            data-testid={`button-save-filter-${filter.id}`}
+          >
+            <Save className="w-3.5 h-3.5 mr-1" />
+            Save
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function EntryFiltersCard() {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<{ filters: EntryFilterInfo[]; lastEvaluation: EntryEvaluation | null }>({
+    queryKey: ["/api/bot/entry-filters"],
+  });
+  const filters = data?.filters ?? [];
+
+  const reorderMutation = useMutation({
+    mutationFn: async (order: string[]) => apiRequest("PUT", "/api/bot/entry-filters/order", { order }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/bot/entry-filters"] }),
+    onError: (err: Error) => toast({ title: "Error", description: err.message, variant: "destructive" }),
+  });
+
+  const move = (from: number, to: number) => {
+    const order = filters.map((f) => f.id);
+    const [id] = order.splice(from, 1);
+    order.splice(to, 0, id);
+    reorderMutation.mutate(order);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2">
+          <Filter className="w-4 h-4 text-muted-foreground" />
+          <CardTitle className="text-sm font-medium">FSM Entry Filters</CardTitle>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Se evalúan en este orden en cada tick; el primer filtro activo que bloquea decide
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          filters.map((filter, i) => (
+            <EntryFilterRow key={filter.id} filter={filter} index={i} count={filters.length} onMove={move} moving={reorderMutation.isPending} />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const EXIT_MODE_LABELS: Record<ExitPolicyMode, string> = {
+  hold: "Hold to resolution",
+  stop_loss: "Stop-loss",
+  take_profit: "Take-profit",
+  both: "Stop-loss + Take-profit",
+};
+
+function ExitPolicyRow({ policy }: { policy: ExitPolicyStatus }) {
+  const { toast } = useToast();
+  const [values, setValues] = useState({ takeProfitPct: policy.takeProfitPct, maxSlippage: policy.maxSlippage });
+  const [dirty, setDirty] = useState(false);
+
+  useEffect(() => {
+    if (!dirty) setValues({ takeProfitPct: policy.takeProfitPct, maxSlippage: policy.maxSlippage });
+  }, [policy.takeProfitPct, policy.maxSlippage, dirty]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: Partial<Pick<ExitPolicyStatus, "mode" | "takeProfitPct" | "maxSlippage">>) => {
+      return apiRequest("PATCH", `/api/bot/exit-policies/${policy.strategyId}`, updates);
+    },
+    onSuccess: (_res, updates) => {
+      if (updates.takeProfitPct !== undefined) setDirty(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/bot/exit-policies"] });
+    },
+    onError: (err: Error) => toast({ title: "Failed to save", description: err.message, variant: "destructive" }),
+  });
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 p-3 rounded-md border" data-testid={`exit-policy-${policy.strategyId}`}>
+      <div className="min-w-32">
+        <div className="text-sm font-medium">{policy.name}</div>
+        <p className="text-xs text-muted-foreground font-mono">{policy.strategyId}</p>
+      </div>
+      <div className="space-y-1 w-52">
+        <Label className="text-xs">Exit Policy</Label>
+        <Select
+          value={policy.mode}
+          disabled={updateMutation.isPending}
+          onValueChange={(mode) => updateMutation.mutate({ mode: mode as ExitPolicyMode })}
+        >
+          <SelectTrigger className="h-8" data-testid={`select-exit-mode-${policy.strategyId}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(EXIT_MODE_LABELS) as ExitPolicyMode[]).map((mode) => (
+              <SelectItem key={mode} value={mode}>{EXIT_MODE_LABELS[mode]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1 w-32">
+        <Label htmlFor={`exit-tp-${policy.strategyId}`} className="text-xs">Take-profit (%)</Label>
+        <Input
+          id={`exit-tp-${policy.strategyId}`}
+          type="number"
+          className="h-8 font-mono"
+          min={1}
+          max={500}
+          step={1}
+          value={Math.round(values.takeProfitPct * 100)}
+          onChange={(e) => {
+            setValues((v) => ({ ...v, takeProfitPct: (parseFloat(e.target.value) || 0) / 100 }));
+            setDirty(true);
+          }}
+          data-testid={`input-exit-tp-${policy.strategyId}`}
+        />
+      </div>
+      <div className="space-y-1 w-32">
+        <Label htmlFor={`exit-slippage-${policy.strategyId}`} className="text-xs">Max Slippage ($)</Label>
+        <Input
+          id={`exit-slippage-${policy.strategyId}`}
+          type="number"
+          className="h-8 font-mono"
+          min={0}
+          max={0.2}
+          step={0.005}
+          value={values.maxSlippage}
+          onChange={(e) => {
+            setValues((v) => ({ ...v, maxSlippage: parseFloat(e.target.value) || 0 }));
+            setDirty(true);
+          }}
+          data-testid={`input-exit-slippage-${policy.strategyId}`}
+        />
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={!dirty || updateMutation.isPending}
+        onClick={() => updateMutation.mutate(values)}
+        data-testid={`button-save-exit-${policy.strategyId}`}
+      >
+        <Save className="w-3.5 h-3.5 mr-1" />
+        Save
+      </Button>
+    </div>
+  );
+}
+
+function ExitPoliciesCard() {
+  const { data, isLoading } = useQuery<{ policies: ExitPolicyStatus[]; exits: { active: PositionExit[]; recent: PositionExit[] } }>({
+    queryKey: ["/api/bot/exit-policies"],
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2">
+          <LogOut className="w-4 h-4 text-muted-foreground" />
+          <CardTitle className="text-sm font-medium">Exit Policies</CardTitle>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Por estrategia: mantener hasta la resolución o vender con stop-loss / take-profit. Los disparadores de stop-loss son los del módulo Stop-Loss; la venta es una orden límite al bid menos el slippage máximo
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          (data?.policies ?? []).map((policy) => <ExitPolicyRow key={policy.strategyId} policy={policy} />)
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function Configuration() {
   const { toast } = useToast();
 
@@ -352,6 +709,9 @@ export default function Configuration() {
     maxDailyLoss: 50,
     maxConsecutiveLosses: 3,
     orderSize: 10,
+    edgeFilterEnabled: false,
+    minEdge: 0.03,
+    phaseSchedule: DEFAULT_FSM_PHASE_SCHEDULE,
   });
 
   useEffect(() => {
@@ -365,6 +725,9 @@ export default function Configuration() {
         maxDailyLoss: config.maxDailyLoss,
         maxConsecutiveLosses: config.maxConsecutiveLosses,
         orderSize: config.orderSize,
+        edgeFilterEnabled: config.edgeFilterEnabled,
+        minEdge: config.minEdge,
+        phaseSchedule: config.phaseSchedule ?? DEFAULT_FSM_PHASE_SCHEDULE,
       });
     }
   }, [config]);
@@ -403,6 +766,15 @@ export default function Configuration() {
   }
 
   const handleSave = () => {
+    const phases = fsmPhaseScheduleSchema.safeParse(formState.phaseSchedule);
+    if (!phases.success) {
+      toast({
+        title: "Invalid phase schedule",
+        description: phases.error.issues.map((i) => i.message).join("; "),
+        variant: "destructive",
+      });
+      return;
+    }
     updateMutation.mutate(formState);
   };
 
@@ -554,9 +926,49 @@ export default function Configuration() {
               </p>
             </div>
           </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+            <div className="flex items-center gap-3">
+              <Switch
+                id="edgeFilterEnabled"
+                checked={formState.edgeFilterEnabled}
+                onCheckedChange={(v) => setFormState((s) => ({ ...s, edgeFilterEnabled: v }))}
+                data-testid="switch-edge-filter"
+              />
+              <div>
+                <Label htmlFor="edgeFilterEnabled">Edge Filter</Label>
+                <p className="text-xs text-muted-foreground">Entrar solo si el precio mejora el fair value del oracle</p>
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="minEdge">Min Edge (decimal)</Label>
+              <Input
+                id="minEdge"
+                type="number"
+                step="0.01"
+                min="0"
+                max="0.5"
+                value={formState.minEdge}
+                disabled={!formState.edgeFilterEnabled}
+                onChange={(e) => setFormState((s) => ({ ...s, minEdge: parseFloat(e.target.value) || 0 }))}
+                data-testid="input-min-edge"
+              />
+              <p className="text-xs text-muted-foreground">
+                fair − entry ≥ {(formState.minEdge * 100).toFixed(1)}¢
+              </p>
+            </div>
+          </div>
         </CardContent>
       </Card>
 
+      <EntryFiltersCard />
+
+      <ExitPoliciesCard />
+
+      <PhaseScheduleCard
+        value={formState.phaseSchedule}
+        onChange={(phaseSchedule) => setFormState((s) => ({ ...s, phaseSchedule }))}
+      />
+
       <Card>
         <CardHeader className="pb-3">
           <div className="flex items-center gap-2">
@@ -640,6 +1052,7 @@ export default function Configuration() {
       <ApprovalCard />
       <LiveTestCard config={config} />
       <OptimizationPanel />
+      <ParameterSweepCard />
       <RateLimiterCard />
       <TelegramConfigCard />
     </div>
@@ -1088,6 +1501,432 @@ function OptimizationPanel() {
   );
 }
 
+interface SweepParamRow {
+  name: string;
+  min: string;
+  max: string;
+  step: string;
+}
+
+function ParameterSweepCard() {
+  const { toast } = useToast();
+  const [strategy, setStrategy] = useState<OptimizerStrategy>("dual_entry_5m");
+  const [mode, setMode] = useState<"grid" | "random">("grid");
+  const [objective, setObjective] = useState<"pnl" | "sharpe" | "maxDrawdown">("pnl");
+  const [samples, setSamples] = useState("50");
+  const [minTrades, setMinTrades] = useState("5");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [rows, setRows] = useState<SweepParamRow[]>([{ name: "entryPrice", min: "0.40", max: "0.48", step: "0.02" }]);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [validation, setValidation] = useState<OptimizerValidation>("none");
+  const [trainFraction, setTrainFraction] = useState("0.7");
+  const [trainSessions, setTrainSessions] = useState("48");
+  const [testSessions, setTestSessions] = useState("12");
+  const [anchored, setAnchored] = useState(false);
+
+  const { data: sweepable } = useQuery<Record<OptimizerStrategy, string[]>>({
+    queryKey: ["/api/optimizer/params"],
+  });
+
+  const { data: jobs } = useQuery<OptimizationJob[]>({
+    queryKey: ["/api/optimizer/jobs"],
+    refetchInterval: 10000,
+  });
+
+  const activeJobId = jobId ?? jobs?.[0]?.id ?? null;
+  const { data: job } = useQuery<OptimizationJob>({
+    queryKey: ["/api/optimizer/jobs", activeJobId],
+    enabled: !!activeJobId,
+    refetchInterval: (query) => (query.state.data?.status === "running" ? 2000 : false),
+  });
+
+  const paramNames = sweepable?.[strategy] ?? [];
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const resp = await apiRequest("POST", "/api/optimizer/jobs", {
+        strategy,
+        mode,
+        objective,
+        samples: parseInt(samples) || 50,
+        minTrades: parseInt(minTrades) || 0,
+        sessions: {
+          ...(from ? { from: new Date(from).toISOString() } : {}),
+          ...(to ? { to: new Date(to).toISOString() } : {}),
+        },
+        validation: {
+          mode: validation,
+          trainFraction: parseFloat(trainFraction) || 0.7,
+          trainSessions: parseInt(trainSessions) || undefined,
+          testSessions: parseInt(testSessions) || undefined,
+          anchored,
+        },
+        parameters: rows.map(r => ({
+          name: r.name,
+          min: parseFloat(r.min),
+          max: parseFloat(r.max),
+          ...(r.step ? { step: parseFloat(r.step) } : {}),
+        })),
+      });
+      return resp.json() as Promise<OptimizationJob>;
+    },
+    onSuccess: (data) => {
+      setJobId(data.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/optimizer/jobs"] });
+      toast({ title: `Optimización iniciada: ${data.total} combinaciones` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("POST", `/api/optimizer/jobs/${id}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/optimizer/jobs"] });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async ({ id, candidateId }: { id: string; candidateId: number }) => {
+      const resp = await apiRequest("POST", `/api/optimizer/jobs/${id}/apply`, { candidateId });
+      return resp.json();
+    },
+    onSuccess: (data: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/optimizer/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bot/config"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies/dual-entry-5m/config"] });
+      toast({
+        title: `Parámetros aplicados a ${data.target}`,
+        description: data.runtimeOnly?.length
+          ? `Solo en memoria (se pierden al reiniciar): ${data.runtimeOnly.join(", ")}`
+          : undefined,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error al aplicar", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const updateRow = (i: number, patch: Partial<SweepParamRow>) => {
+    setRows(rows.map((r, idx) => (idx === i ? { ...r, ...patch } : r)));
+  };
+
+  const changeStrategy = (value: OptimizerStrategy) => {
+    setStrategy(value);
+    const first = sweepable?.[value]?.[0] ?? "";
+    setRows([{ name: first, min: "", max: "", step: "" }]);
+  };
+
+  const running = job?.status === "running";
+  const progress = job && job.total > 0 ? ((job.completed + job.failed) / job.total) * 100 : 0;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="w-4 h-4 text-muted-foreground" />
+          <CardTitle className="text-sm font-medium">Optimizador (Backtests)</CardTitle>
+          {job && (
+            <Badge variant={running ? "default" : "secondary"} className="ml-auto font-mono" data-testid="badge-optimizer-status">
+              {job.status} {job.completed + job.failed}/{job.total}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Estrategia</Label>
+            <Select value={strategy} onValueChange={(v) => changeStrategy(v as OptimizerStrategy)}>
+              <SelectTrigger data-testid="select-optimizer-strategy"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="dual_entry_5m">Dual-Entry 5m</SelectItem>
+                <SelectItem value="fsm">FSM</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Modo</Label>
+            <Select value={mode} onValueChange={(v) => setMode(v as "grid" | "random")}>
+              <SelectTrigger data-testid="select-optimizer-mode"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="grid">Grid</SelectItem>
+                <SelectItem value="random">Aleatorio</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Objetivo</Label>
+            <Select value={objective} onValueChange={(v) => setObjective(v as "pnl" | "sharpe" | "maxDrawdown")}>
+              <SelectTrigger data-testid="select-optimizer-objective"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pnl">PnL</SelectItem>
+                <SelectItem value="sharpe">Sharpe</SelectItem>
+                <SelectItem value="maxDrawdown">Max Drawdown</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">{mode === "random" ? "Muestras" : "Min. trades"}</Label>
+            {mode === "random" ? (
+              <Input type="number" value={samples} onChange={(e) => setSamples(e.target.value)} data-testid="input-optimizer-samples" />
+            ) : (
+              <Input type="number" value={minTrades} onChange={(e) => setMinTrades(e.target.value)} data-testid="input-optimizer-min-trades" />
+            )}
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Sesiones desde</Label>
+            <Input type="datetime-local" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-optimizer-from" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Sesiones hasta</Label>
+            <Input type="datetime-local" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-optimizer-to" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-1">
+            <Label className="text-xs">Validación</Label>
+            <Select value={validation} onValueChange={(v) => setValidation(v as OptimizerValidation)}>
+              <SelectTrigger data-testid="select-optimizer-validation"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Ninguna (in-sample)</SelectItem>
+                <SelectItem value="split">Train/Test</SelectItem>
+                <SelectItem value="walk_forward">Walk-forward</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {validation === "split" && (
+            <div className="space-y-1">
+              <Label className="text-xs">Fracción train</Label>
+              <Input type="number" step="0.05" value={trainFraction} onChange={(e) => setTrainFraction(e.target.value)} data-testid="input-optimizer-train-fraction" />
+            </div>
+          )}
+          {validation === "walk_forward" && (
+            <>
+              <div className="space-y-1">
+                <Label className="text-xs">Sesiones train</Label>
+                <Input type="number" value={trainSessions} onChange={(e) => setTrainSessions(e.target.value)} data-testid="input-optimizer-train-sessions" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Sesiones test</Label>
+                <Input type="number" value={testSessions} onChange={(e) => setTestSessions(e.target.value)} data-testid="input-optimizer-test-sessions" />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch checked={anchored} onCheckedChange={setAnchored} data-testid="switch-optimizer-anchored" />
+                <Label className="text-xs">Ventana anclada</Label>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {rows.map((row, i) => (
+            <div key={i} className="grid grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2 items-end" data-testid={`row-sweep-param-${i}`}>
+              <Select value={row.name} onValueChange={(v) => updateRow(i, { name: v })}>
+                <SelectTrigger><SelectValue placeholder="Parámetro" /></SelectTrigger>
+                <SelectContent>
+                  {paramNames.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input placeholder="min" value={row.min} onChange={(e) => updateRow(i, { min: e.target.value })} />
+              <Input placeholder="max" value={row.max} onChange={(e) => updateRow(i, { max: e.target.value })} />
+              <Input placeholder="step" value={row.step} onChange={(e) => updateRow(i, { step: e.target.value })} />
+              <Button size="icon" variant="ghost" onClick={() => setRows(rows.filter((_, idx) => idx !== i))} disabled={rows.length === 1}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setRows([...rows, { name: paramNames.find(n => !rows.some(r => r.name === n)) ?? "", min: "", max: "", step: "" }])}
+              data-testid="button-add-sweep-param"
+            >
+              <Plus className="w-3 h-3 mr-1" /> Parámetro
+            </Button>
+            <div className="ml-auto flex gap-2">
+              {running && job && (
+                <Button variant="outline" size="sm" onClick={() => cancelMutation.mutate(job.id)} data-testid="button-cancel-optimizer">
+                  <Square className="w-3 h-3 mr-1" /> Cancelar
+                </Button>
+              )}
+              <Button size="sm" onClick={() => startMutation.mutate()} disabled={running || startMutation.isPending} data-testid="button-start-optimizer">
+                {startMutation.isPending ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Play className="w-3 h-3 mr-1" />}
+                Ejecutar
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {job && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>{job.strategy} · {job.mode} · {job.objective} · {job.sessions} sesiones · {job.workers} workers</span>
+                <span className="font-mono">{progress.toFixed(0)}%</span>
+              </div>
+              <div className="h-1.5 w-full rounded bg-muted">
+                <div className="h-1.5 rounded bg-primary" style={{ width: `${progress}%` }} />
+              </div>
+              {job.error && <p className="text-xs text-destructive">{job.error}</p>}
+            </div>
+            {job.walkForward && <WalkForwardReportView report={job.walkForward} />}
+            {job.walkForward && job.results.length > 0 && (
+              <p className="text-xs text-muted-foreground">Ranking del último fold (datos más recientes):</p>
+            )}
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs" data-testid="table-optimizer-results">
+                <thead>
+                  <tr className="text-muted-foreground border-b">
+                    <th className="text-left py-1 pr-2">#</th>
+                    <th className="text-left py-1 pr-2">Parámetros</th>
+                    <th className="text-right py-1 pr-2">Trades</th>
+                    <th className="text-right py-1 pr-2">Win %</th>
+                    <th className="text-right py-1 pr-2">PnL</th>
+                    <th className="text-right py-1 pr-2">Sharpe</th>
+                    <th className="text-right py-1 pr-2">Max DD</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {job.results.filter(c => c.status !== "pending").slice(0, 20).map(c => (
+                    <tr key={c.id} className="border-b last:border-0" data-testid={`row-candidate-${c.id}`}>
+                      <td className="py-1 pr-2 font-mono">{c.id}</td>
+                      <td className="py-1 pr-2 font-mono">
+                        {Object.entries(c.values).map(([k, v]) => `${k}=${v}`).join(" ")}
+                        {c.error && <span className="block text-destructive">{c.error}</span>}
+                      </td>
+                      <td className="py-1 pr-2 text-right font-mono">{c.metrics?.trades ?? "—"}</td>
+                      <td className="py-1 pr-2 text-right font-mono">{c.metrics ? `${(c.metrics.winRate * 100).toFixed(1)}%` : "—"}</td>
+                      <td className={`py-1 pr-2 text-right font-mono ${(c.metrics?.totalPnl ?? 0) >= 0 ? "text-emerald-500" : "text-red-500"}`}>
+                        {c.metrics ? `$${c.metrics.totalPnl.toFixed(2)}` : "—"}
+                      </td>
+                      <td className="py-1 pr-2 text-right font-mono">{c.metrics?.sharpe ?? "—"}</td>
+                      <td className="py-1 pr-2 text-right font-mono">{c.metrics ? `$${c.metrics.maxDrawdown.toFixed(2)}` : "—"}</td>
+                      <td className="py-1 text-right">
+                        {c.status === "done" && (
+                          <Button
+                            size="sm"
+                            variant={job.appliedCandidateId === c.id ? "secondary" : "outline"}
+                            onClick={() => applyMutation.mutate({ id: job.id, candidateId: c.id })}
+                            disabled={applyMutation.isPending}
+                            data-testid={`button-apply-candidate-${c.id}`}
+                          >
+                            {job.appliedCandidateId === c.id ? "Aplicado" : "Aplicar"}
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function WalkForwardReportView({ report }: { report: NonNullable<OptimizationJob["walkForward"]> }) {
+  const oos = report.oosMetrics;
+  const fmtDate = (ts: number) => new Date(ts).toLocaleString([], { month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" });
+
+  return (
+    <div className="space-y-3" data-testid="walk-forward-report">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <p className="text-xs text-muted-foreground">PnL out-of-sample</p>
+          <p className={`text-lg font-mono font-bold ${(oos?.totalPnl ?? 0) >= 0 ? "text-emerald-500" : "text-red-500"}`} data-testid="text-oos-pnl">
+            {oos ? `$${oos.totalPnl.toFixed(2)}` : "—"}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Trades / Win %</p>
+          <p className="text-lg font-mono font-bold">{oos ? `${oos.trades} / ${(oos.winRate * 100).toFixed(1)}%` : "—"}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Sharpe / Max DD</p>
+          <p className="text-lg font-mono font-bold">{oos ? `${oos.sharpe} / $${oos.maxDrawdown.toFixed(2)}` : "—"}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Eficiencia WF</p>
+          <p className={`text-lg font-mono font-bold ${(report.efficiency ?? 0) >= 0.5 ? "text-emerald-500" : "text-amber-500"}`} data-testid="text-wf-efficiency">
+            {report.efficiency !== null ? `${(report.efficiency * 100).toFixed(0)}%` : "—"}
+          </p>
+          <p className="text-[10px] text-muted-foreground">PnL/sesión OOS vs in-sample</p>
+        </div>
+      </div>
+
+      {report.oosEquity.length > 1 && (
+        <div className="h-32">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={report.oosEquity.map(p => ({ time: fmtDate(p.ts), equity: p.equity }))}>
+              <XAxis dataKey="time" hide />
+              <YAxis tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 10 }} width={40} />
+              <Tooltip contentStyle={{ backgroundColor: "hsl(var(--card))", border: "1px solid hsl(var(--border))", fontSize: 11 }} />
+              <Area type="monotone" dataKey="equity" stroke="hsl(var(--primary))" fill="hsl(var(--primary))" fillOpacity={0.15} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs" data-testid="table-wf-folds">
+          <thead>
+            <tr className="text-muted-foreground border-b">
+              <th className="text-left py-1 pr-2">Fold</th>
+              <th className="text-left py-1 pr-2">Test</th>
+              <th className="text-left py-1 pr-2">Parámetros elegidos</th>
+              <th className="text-right py-1 pr-2">PnL IS</th>
+              <th className="text-right py-1 pr-2">PnL OOS</th>
+              <th className="text-right py-1">Eficiencia</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.folds.map(f => (
+              <tr key={f.index} className="border-b last:border-0" data-testid={`row-wf-fold-${f.index}`}>
+                <td className="py-1 pr-2 font-mono">{f.index} <span className="text-muted-foreground">{f.status}</span></td>
+                <td className="py-1 pr-2 font-mono">{fmtDate(f.testStart)} → {fmtDate(f.testEnd)} ({f.testSessions})</td>
+                <td className="py-1 pr-2 font-mono">
+                  {f.bestValues ? Object.entries(f.bestValues).map(([k, v]) => `${k}=${v}`).join(" ") : "—"}
+                  {f.error && <span className="block text-destructive">{f.error}</span>}
+                </td>
+                <td className="py-1 pr-2 text-right font-mono">{f.inSample ? `$${f.inSample.totalPnl.toFixed(2)}` : "—"}</td>
+                <td className={`py-1 pr-2 text-right font-mono ${(f.outOfSample?.totalPnl ?? 0) >= 0 ? "text-emerald-500" : "text-red-500"}`}>
+                  {f.outOfSample ? `$${f.outOfSample.totalPnl.toFixed(2)}` : "—"}
+                </td>
+                <td className="py-1 text-right font-mono">{f.efficiency !== null ? `${(f.efficiency * 100).toFixed(0)}%` : "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {report.stability.length > 0 && (
+        <div className="flex flex-wrap gap-2" data-testid="wf-stability">
+          {report.stability.map(p => (
+            <div key={p.name} className="rounded-md border px-2 py-1 text-xs font-mono">
+              <span className="text-muted-foreground">{p.name}</span>{" "}
+              {p.mean} ± {p.std}{" "}
+              <span className={p.cv !== null && p.cv > 0.2 ? "text-amber-500" : "text-emerald-500"}>
+                (cv {p.cv ?? "—"}, {p.distinct} valores)
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function RateLimiterCard() {
   const { data: rlStatus } = useQuery<{
     requestsLastSecond: number;
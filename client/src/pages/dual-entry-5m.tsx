@@ -411,7 +411,7 @@ function CycleTimeline({ cycle }: { cycle: CycleData }) {
           {cycle.entryMethod && cycle.entryMethod !== "fixed" && <Badge variant="outline" className="text-xs">{cycle.entryMethod}</Badge>}
         </div>
         <div className="flex items-center gap-2">
-          {cycle.outcome && <Badge variant={cycle.outcome === "TP_HIT" || cycle.outcome === "FULL_EXIT" ? "default" : "secondary"} className="text-xs">{cycle.outcome}</Badge>}
+          {cycle.outcome && <Badge variant={cycle.outcome === "TP_HIT" || cycle.outcome === "FULL_EXIT" || cycle.outcome === "MERGED" ? "default" : "secondary"} className="text-xs">{cycle.outcome}</Badge>}
           {cycle.pnl != null && (
             <span className={`text-xs font-mono font-bold ${cycle.pnl >= 0 ? "text-emerald-500" : "text-red-500"}`}>
               {cycle.pnl >= 0 ? "+" : ""}{cycle.pnl.toFixed(4)}
@@ -567,6 +567,7 @@ export default function DualEntry5m() {
     entryLeadSecondsPrimary: 180, entryLeadSecondsRefresh: 30,
     postStartCleanupSeconds: 10, exitTtlSeconds: 120, orderSize: 5, isDryRun: true,
     smartScratchCancel: true, dualTpMode: false,
+    mergeEnabled: false, mergeTrigger: "scratch_fail" as string,
     volFilterEnabled: false, volMinThreshold: 0.3, volMaxThreshold: 5.0, volWindowMinutes: 15,
     dynamicEntryEnabled: false, dynamicEntryMin: 0.40, dynamicEntryMax: 0.48,
     momentumTpEnabled: false, momentumTpMin: 0.55, momentumTpMax: 0.75, momentumWindowMinutes: 5,
@@ -583,6 +584,7 @@ export default function DualEntry5m() {
         postStartCleanupSeconds: config.postStartCleanupSeconds, exitTtlSeconds: config.exitTtlSeconds,
         orderSize: config.orderSize, isDryRun: config.isDryRun,
         smartScratchCancel: config.smartScratchCancel, dualTpMode: config.dualTpMode ?? false,
+        mergeEnabled: config.mergeEnabled ?? false, mergeTrigger: config.mergeTrigger ?? "scratch_fail",
         volFilterEnabled: config.volFilterEnabled, volMinThreshold: config.volMinThreshold,
         volMaxThreshold: config.volMaxThreshold, volWindowMinutes: config.volWindowMinutes,
         dynamicEntryEnabled: config.dynamicEntryEnabled, dynamicEntryMin: config.dynamicEntryMin,
@@ -819,6 +821,23 @@ export default function DualEntry5m() {
               <Switch checked={form.smartScratchCancel} onCheckedChange={(v) => setForm(s => ({ ...s, smartScratchCancel: v }))} data-testid="switch-smart-scratch" />
             </div>
           )}
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label>Merge YES+NO (CTF mergePositions)</Label>
+              <p className="text-xs text-muted-foreground mt-0.5">Convierte los pares cubiertos en $1 USDC on-chain en vez de vender ambos lados en el libro</p>
+            </div>
+            <Switch checked={form.mergeEnabled} onCheckedChange={(v) => setForm(s => ({ ...s, mergeEnabled: v }))} data-testid="switch-merge" />
+          </div>
+          {form.mergeEnabled && (
+            <div className="flex items-center gap-2">
+              <Button size="sm" variant={form.mergeTrigger === "immediate" ? "default" : "outline"} onClick={() => setForm(s => ({ ...s, mergeTrigger: "immediate" }))} data-testid="button-merge-immediate">
+                En lugar del scratch
+              </Button>
+              <Button size="sm" variant={form.mergeTrigger === "scratch_fail" ? "default" : "outline"} onClick={() => setForm(s => ({ ...s, mergeTrigger: "scratch_fail" }))} data-testid="button-merge-fallback">
+                Si falla el scratch
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -22,10 +22,18 @@ import {
   Wallet,
   RotateCw,
   Timer,
+  Filter,
+  CheckCircle2,
+  XCircle,
+  MinusCircle,
+  Scale,
+  LogOut,
 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import type { BotStatus } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import type { BotStatus, PositionExit, StrategyAllocationStatus } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -113,7 +121,65 @@ function StateTimeline({ state }: { state: string }) {
   );
 }
 
-function MarketCountdown({ remainingMs, durationMs, currentState }: { remainingMs: number; durationMs: number; currentState?: string }) {
+type FsmPhases = NonNullable<BotStatus["fsmPhases"]>;
+
+const DEFAULT_PHASES = { unwindMs: 60000, closeOnlyMs: 30000, hedgeLockMs: 15000 };
+
+function phaseForRemaining(remainingMs: number, phases: Pick<FsmPhases, "unwindMs" | "closeOnlyMs" | "hedgeLockMs">): string {
+  if (remainingMs <= 0) return "DONE";
+  if (remainingMs <= phases.hedgeLockMs) return "HEDGE_LOCK";
+  if (remainingMs <= phases.closeOnlyMs) return "CLOSE_ONLY";
+  if (remainingMs <= phases.unwindMs) return "UNWIND";
+  return "MAKING";
+}
+
+function formatPhaseTime(ms: number): string {
+  const totalSec = Math.round(ms / 1000);
+  return `${Math.floor(totalSec / 60)}:${(totalSec % 60).toString().padStart(2, "0")}`;
+}
+
+function PhaseScheduleBar({ phases, remainingMs }: { phases: FsmPhases; remainingMs?: number }) {
+  const segments = [
+    { state: "MAKING", from: phases.windowMs, to: phases.unwindMs, color: "bg-emerald-500/60" },
+    { state: "UNWIND", from: phases.unwindMs, to: phases.closeOnlyMs, color: "bg-yellow-500/60" },
+    { state: "CLOSE_ONLY", from: phases.closeOnlyMs, to: phases.hedgeLockMs, color: "bg-orange-500/60" },
+    { state: "HEDGE_LOCK", from: phases.hedgeLockMs, to: 0, color: "bg-red-500/60" },
+  ];
+  const elapsedPct = remainingMs !== undefined && phases.windowMs > 0
+    ? Math.max(0, Math.min(100, ((phases.windowMs - remainingMs) / phases.windowMs) * 100))
+    : null;
+
+  return (
+    <div className="flex flex-col gap-1" data-testid="fsm-phase-schedule">
+      <div className="flex items-center justify-between text-[10px] text-muted-foreground">
+        <span>Phase schedule ({phases.interval})</span>
+        <span className="font-mono">remaining at phase start</span>
+      </div>
+      <div className="relative flex w-full h-2 rounded-full overflow-hidden bg-muted">
+        {segments.map((seg) => (
+          <div
+            key={seg.state}
+            className={seg.color}
+            style={{ width: `${((seg.from - seg.to) / phases.windowMs) * 100}%` }}
+            title={`${seg.state}: ${formatPhaseTime(seg.from)} → ${formatPhaseTime(seg.to)}`}
+          />
+        ))}
+        {elapsedPct !== null && (
+          <div className="absolute top-0 h-full w-0.5 bg-foreground" style={{ left: `${elapsedPct}%` }} />
+        )}
+      </div>
+      <div className="grid grid-cols-4 gap-1 text-[10px] font-mono text-muted-foreground">
+        {segments.map((seg) => (
+          <span key={seg.state} data-testid={`text-phase-start-${seg.state.toLowerCase()}`}>
+            {seg.state} {formatPhaseTime(seg.from)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function MarketCountdown({ remainingMs, durationMs, phases }: { remainingMs: number; durationMs: number; phases?: FsmPhases }) {
   const [displayMs, setDisplayMs] = useState(remainingMs);
 
   useEffect(() => {
@@ -132,26 +198,21 @@ function MarketCountdown({ remainingMs, durationMs, currentState }: { remainingM
   const sec = totalSec % 60;
   const pct = durationMs > 0 ? Math.max(0, Math.min(100, (displayMs / durationMs) * 100)) : 0;
 
+  const stateLabel = phaseForRemaining(displayMs, phases ?? DEFAULT_PHASES);
+
   let barColor = "bg-emerald-500";
   let textColor = "text-emerald-500";
-  if (totalSec <= 45) {
+  if (stateLabel === "HEDGE_LOCK" || stateLabel === "DONE") {
     barColor = "bg-red-500";
     textColor = "text-red-500";
-  } else if (totalSec <= 60) {
+  } else if (stateLabel === "CLOSE_ONLY") {
     barColor = "bg-orange-500";
     textColor = "text-orange-500";
-  } else if (totalSec <= 120) {
+  } else if (stateLabel === "UNWIND") {
     barColor = "bg-yellow-500";
     textColor = "text-yellow-500";
   }
 
-  let stateLabel = "";
-  if (totalSec <= 0) stateLabel = "DONE";
-  else if (totalSec <= 45) stateLabel = "HEDGE_LOCK";
-  else if (totalSec <= 60) stateLabel = "CLOSE_ONLY";
-  else if (totalSec <= 120) stateLabel = "UNWIND";
-  else stateLabel = "MAKING";
-
   return (
     <div className="flex flex-col gap-1.5" data-testid="market-countdown">
       <div className="flex items-center justify-between">
@@ -182,14 +243,14 @@ function MarketCountdown({ remainingMs, durationMs, currentState }: { remainingM
   );
 }
 
-function MarketDataPanel({ data, dataNo, isLive, marketSlug, remainingMs, durationMs, currentState, oracleDirection, lastEntry }: {
+function MarketDataPanel({ data, dataNo, isLive, marketSlug, remainingMs, durationMs, phases, oracleDirection, lastEntry }: {
   data: { bestBid: number; bestAsk: number; spread: number; midpoint: number; bidDepth: number; askDepth: number; lastPrice: number; volume24h: number } | null;
   dataNo: { bestBid: number; bestAsk: number; spread: number; midpoint: number; bidDepth: number; askDepth: number; lastPrice: number; volume24h: number } | null;
   isLive?: boolean;
   marketSlug?: string | null;
   remainingMs?: number;
   durationMs?: number;
-  currentState?: string;
+  phases?: FsmPhases;
   oracleDirection?: string;
   lastEntry?: { tokenSide: "YES" | "NO"; price: number; size: number } | null;
 }) {
@@ -248,7 +309,7 @@ function MarketDataPanel({ data, dataNo, isLive, marketSlug, remainingMs, durati
       </CardHeader>
       <CardContent className="p-4 pt-0 space-y-4">
         {remainingMs !== undefined && durationMs !== undefined && durationMs > 0 && (
-          <MarketCountdown remainingMs={remainingMs} durationMs={durationMs} currentState={currentState} />
+          <MarketCountdown remainingMs={remainingMs} durationMs={durationMs} phases={phases} />
         )}
 
         {lastEntry && (
@@ -552,6 +613,11 @@ export default function Overview() {
           </CardHeader>
           <CardContent className="p-4 pt-0">
             <StateTimeline state={config?.currentState || "STOPPED"} />
+            {status?.fsmPhases && (
+              <div className="mt-4">
+                <PhaseScheduleBar phases={status.fsmPhases} remainingMs={status.marketRemainingMs} />
+              </div>
+            )}
             <div className="mt-4 grid grid-cols-2 gap-3">
               <div className="flex flex-col gap-0.5">
                 <span className="text-xs text-muted-foreground">Mode</span>
@@ -642,7 +708,7 @@ export default function Overview() {
           marketSlug={status?.config?.currentMarketSlug}
           remainingMs={status?.marketRemainingMs}
           durationMs={status?.marketDurationMs}
-          currentState={status?.config?.currentState ?? undefined}
+          phases={status?.fsmPhases}
           oracleDirection={status?.oracle?.signal?.direction}
           lastEntry={status?.lastEntry}
         />
@@ -778,11 +844,19 @@ export default function Overview() {
 
       {status && <StrategySelectorPanel status={status} />}
 
+      <StrategyBudgetPanel />
+
       {status && <OraclePanel status={status} />}
 
       {status && <SmartModulesPanel status={status} />}
 
-      {status?.config?.activeStrategy === "dual_buy" && status && <DualBuyPanel status={status} />}
+      {status && <EntryPipelinePanel status={status} />}
+
+      {status?.dualBuy?.enabled && <DualBuyPanel status={status} />}
+
+      {status?.marketMaker?.enabled && <MarketMakerPanel status={status} />}
+
+      {status?.exits && (status.exits.active.length > 0 || status.exits.recent.length > 0) && <PositionExitsPanel status={status} />}
 
       <HealthAlertsPanel />
     </div>
@@ -885,6 +959,206 @@ function OraclePanel({ status }: { status: BotStatus }) {
             Oracle desconectado. Conecta para señales de precio BTC en tiempo real de Binance.
           </div>
         )}
+        {status.fairValue && (
+          <div className="mt-3 grid grid-cols-3 gap-3 text-[10px] font-mono" data-testid="oracle-fair-value">
+            <span data-testid="text-fair-yes">
+              Fair YES {(status.fairValue.probUp * 100).toFixed(1)}%
+              {status.fairValue.edgeYes != null && ` (edge ${status.fairValue.edgeYes >= 0 ? "+" : ""}${status.fairValue.edgeYes.toFixed(3)})`}
+            </span>
+            <span data-testid="text-fair-no">
+              Fair NO {(status.fairValue.probDown * 100).toFixed(1)}%
+              {status.fairValue.edgeNo != null && ` (edge ${status.fairValue.edgeNo >= 0 ? "+" : ""}${status.fairValue.edgeNo.toFixed(3)})`}
+            </span>
+            <span className="text-muted-foreground">
+              {status.fairValue.edgeFilterEnabled ? `min edge ${status.fairValue.minEdge}` : "edge filter off"}
+            </span>
+          </div>
+        )}
+        {oracle?.composite && (
+          <div className="mt-3 flex flex-col gap-1" data-testid="oracle-composite-sources">
+            <div className="flex items-center justify-between text-[10px] text-muted-foreground">
+              <span>Sources (median)</span>
+              <span className={oracle.composite.quorum ? "text-emerald-500" : "text-red-400"} data-testid="text-oracle-quorum">
+                {oracle.composite.healthySources}/{oracle.composite.requiredSources} {oracle.composite.quorum ? "quorum" : "no quorum"}
+              </span>
+            </div>
+            {oracle.composite.sources.map(source => (
+              <div key={source.name} className="grid grid-cols-5 gap-2 text-[10px] font-mono" data-testid={`row-oracle-source-${source.name}`}>
+                <span className={source.healthy ? "" : "text-muted-foreground line-through"}>{source.name}</span>
+                <span>{source.price != null ? `$${source.price.toLocaleString(undefined, { maximumFractionDigits: 4 })}` : "—"}</span>
+                <span>{source.lagMs != null ? `lag ${source.lagMs}ms` : "—"}</span>
+                <span>{source.divergencePct != null ? `${source.divergencePct.toFixed(3)}%` : "—"}</span>
+                <span className={source.healthy ? "text-emerald-500" : "text-red-400"}>{source.reason ?? "ok"}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function EntryPipelinePanel({ status }: { status: BotStatus }) {
+  const evaluation = status.entryPipeline;
+
+  return (
+    <Card data-testid="card-entry-pipeline">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Filter className="w-4 h-4" />
+          Entry Filter Pipeline
+        </CardTitle>
+        {evaluation && (
+          <Badge
+            variant="outline"
+            className={`text-[10px] ${evaluation.blockedBy ? "text-red-500 border-red-500/50" : "text-emerald-500 border-emerald-500/50"}`}
+            data-testid="badge-entry-pipeline-result"
+          >
+            {evaluation.blockedBy ? `Blocked: ${evaluation.blockedBy}` : evaluation.sizing ? `Entry ${evaluation.sizing.layer}` : "Passed"}
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent className="p-4 pt-0">
+        {!evaluation ? (
+          <p className="text-xs text-muted-foreground">Sin evaluaciones todavía — el FSM evalúa los filtros en cada tick de MAKING sin orden ni posición abierta</p>
+        ) : (
+          <div className="space-y-1.5">
+            <div className="flex flex-wrap gap-x-4 text-[10px] text-muted-foreground font-mono">
+              <span>{new Date(evaluation.ts).toLocaleTimeString()}</span>
+              {evaluation.tokenSide && <span>side {evaluation.tokenSide}</span>}
+              {evaluation.entryPrice !== null && <span>entry ${evaluation.entryPrice.toFixed(3)}</span>}
+              {evaluation.sizing && <span>size {evaluation.sizing.size}</span>}
+            </div>
+            {evaluation.verdicts.map((v) => {
+              const isBlocker = v.id === evaluation.blockedBy;
+              return (
+                <div
+                  key={v.id}
+                  className={`flex items-start gap-2 p-1.5 rounded text-xs ${isBlocker ? "bg-red-500/10 border border-red-500/30" : ""}`}
+                  data-testid={`verdict-${v.id}`}
+                >
+                  {v.status === "pass" && <CheckCircle2 className="w-3.5 h-3.5 mt-0.5 text-emerald-500 flex-shrink-0" />}
+                  {v.status === "block" && <XCircle className="w-3.5 h-3.5 mt-0.5 text-red-500 flex-shrink-0" />}
+                  {v.status === "disabled" && <MinusCircle className="w-3.5 h-3.5 mt-0.5 text-muted-foreground flex-shrink-0" />}
+                  <div className="min-w-0">
+                    <span className={v.status === "disabled" ? "text-muted-foreground" : "font-medium"}>{v.name}</span>
+                    {v.message && <p className="text-[10px] text-muted-foreground break-words">{v.message}</p>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function MarketMakerPanel({ status }: { status: BotStatus }) {
+  const mm = status.marketMaker!;
+  const slotLabel: Record<string, string> = { YES_BID: "Bid YES", NO_BID: "Bid NO", YES_ASK: "Ask YES" };
+
+  return (
+    <Card data-testid="card-market-maker">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Scale className="w-4 h-4" />
+          Market Maker
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="text-[10px]" data-testid="badge-mm-mode">
+            {mm.mode === "both_bids" ? "Bids YES + NO" : "Bid/Ask YES"}
+          </Badge>
+          <Badge variant={mm.quoting ? "default" : "secondary"} className="text-[10px]" data-testid="badge-mm-quoting">
+            {mm.quoting ? "Quoting" : "Idle"}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-3">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+          <div>
+            <p className="text-muted-foreground">Fair (YES)</p>
+            <p className="font-mono font-medium" data-testid="text-mm-fair">
+              {mm.fair !== null ? `$${mm.fair.toFixed(3)}` : "—"}
+              {mm.fairSource && <span className="text-[10px] text-muted-foreground ml-1">{mm.fairSource}</span>}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Half-spread</p>
+            <p className="font-mono font-medium" data-testid="text-mm-half-spread">{mm.halfSpread !== null ? `$${mm.halfSpread.toFixed(3)}` : "—"}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Inventory skew</p>
+            <p className="font-mono font-medium" data-testid="text-mm-skew">{mm.skew !== null ? `${mm.skew >= 0 ? "+" : ""}${mm.skew.toFixed(3)}` : "—"}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Inventory (YES / NO)</p>
+            <p className="font-mono font-medium" data-testid="text-mm-inventory">
+              {mm.inventory.yes} / {mm.inventory.no}
+              <span className="text-[10px] text-muted-foreground ml-1">net {mm.inventory.net}</span>
+            </p>
+          </div>
+        </div>
+        {mm.quotes.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Sin cotizaciones activas — fuera de la ventana de quoting o sin libro</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            {mm.quotes.map((q) => (
+              <div key={q.slot} className="flex items-center justify-between p-2 rounded bg-muted/30 border border-muted text-xs" data-testid={`quote-${q.slot}`}>
+                <span className={q.side === "BUY" ? "text-emerald-500 font-medium" : "text-red-500 font-medium"}>{slotLabel[q.slot]}</span>
+                <span className="font-mono">{q.size} @ ${q.price.toFixed(3)}</span>
+                <Badge variant={q.orderId ? "outline" : "secondary"} className="text-[9px]">{q.orderId ? "Resting" : "Pending"}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap gap-x-4 text-[10px] text-muted-foreground">
+          <span>Requotes: {mm.requotes}</span>
+          {mm.lastBlocked && <span className="text-amber-500" data-testid="text-mm-blocked">Bloqueada: {mm.lastBlocked}</span>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ExitRow({ exit }: { exit: PositionExit }) {
+  const statusLabel: Record<PositionExit["status"], string> = { working: "Working", filled: "Closed", partial: "Partial", abandoned: "Abandoned" };
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 p-2 rounded bg-muted/30 border border-muted text-xs" data-testid={`exit-${exit.tokenId.slice(0, 8)}-${exit.startedAt}`}>
+      <div className="flex items-center gap-2 min-w-0">
+        <Badge variant="outline" className={`text-[9px] ${exit.kind === "STOP_LOSS" ? "text-red-500 border-red-500/50" : "text-emerald-500 border-emerald-500/50"}`}>
+          {exit.kind === "STOP_LOSS" ? "SL" : "TP"}
+        </Badge>
+        <span className="font-medium">{exit.tokenSide || "?"}</span>
+        <span className="text-muted-foreground">{exit.strategy}</span>
+        <span className="text-[10px] text-muted-foreground truncate" title={exit.reason}>{exit.reason}</span>
+      </div>
+      <div className="flex items-center gap-3 font-mono">
+        <span>{exit.filledSize}/{exit.size} @ entry ${exit.entryPrice.toFixed(3)}</span>
+        {exit.limitPrice !== null && exit.status === "working" && <span className="text-muted-foreground">limit ${exit.limitPrice.toFixed(3)}</span>}
+        <span className={exit.realizedPnl >= 0 ? "text-emerald-500" : "text-red-500"}>
+          {exit.realizedPnl >= 0 ? "+" : ""}${exit.realizedPnl.toFixed(2)}
+        </span>
+        <Badge variant={exit.status === "working" ? "default" : "secondary"} className="text-[9px]">{statusLabel[exit.status]}</Badge>
+      </div>
+    </div>
+  );
+}
+
+function PositionExitsPanel({ status }: { status: BotStatus }) {
+  const exits = status.exits!;
+
+  return (
+    <Card data-testid="card-position-exits">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <LogOut className="w-4 h-4" />
+          Position Exits
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-2">
+        {exits.active.map((exit) => <ExitRow key={`active-${exit.tokenId}`} exit={exit} />)}
+        {exits.recent.slice(0, 5).map((exit) => <ExitRow key={`recent-${exit.tokenId}-${exit.startedAt}`} exit={exit} />)}
       </CardContent>
     </Card>
   );
@@ -1010,33 +1284,44 @@ function SmartModulesPanel({ status }: { status: BotStatus }) {
 
 function StrategySelectorPanel({ status }: { status: BotStatus }) {
   const { toast } = useToast();
-  const active = status.config?.activeStrategy || "fsm";
+  const { data: allocations } = useQuery<StrategyAllocationStatus[]>({
+    queryKey: ["/api/strategies/allocations"],
+    refetchInterval: 5000,
+  });
+  const isEnabled = (id: string) =>
+    allocations?.find((a) => a.strategyId === id)?.enabled ?? (status.config?.activeStrategy || "fsm") === id;
 
   const mutation = useMutation({
-    mutationFn: async (strategy: string) => {
-      return apiRequest("PATCH", "/api/bot/config", { activeStrategy: strategy });
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      return apiRequest("PATCH", `/api/strategies/${id}/allocation`, { enabled });
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies/allocations"] });
       queryClient.invalidateQueries({ queryKey: ["/api/bot/status"] });
-      toast({ title: "Estrategia actualizada" });
+      toast({ title: "Estrategias actualizadas" });
     },
+    onError: (err: Error) => toast({ title: "Error", description: err.message, variant: "destructive" }),
   });
 
+  const fsmOn = isEnabled("fsm");
+  const dualBuyOn = isEnabled("dual_buy");
+
   return (
     <Card data-testid="card-strategy-selector">
       <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
         <CardTitle className="text-sm font-medium flex items-center gap-2">
           <BarChart3 className="w-4 h-4" />
-          Estrategia Activa
+          Estrategias Activas
         </CardTitle>
+        <span className="text-[10px] text-muted-foreground">Pueden correr varias a la vez, cada una con su presupuesto</span>
       </CardHeader>
       <CardContent className="p-4 pt-0">
         <div className="grid grid-cols-2 gap-3">
           <button
-            onClick={() => mutation.mutate("fsm")}
+            onClick={() => mutation.mutate({ id: "fsm", enabled: !fsmOn })}
             disabled={mutation.isPending}
             className={`flex flex-col gap-1.5 p-3 rounded-lg border-2 transition-all ${
-              active === "fsm"
+              fsmOn
                 ? "border-blue-500 bg-blue-500/10"
                 : "border-muted bg-muted/30 hover:border-muted-foreground/30"
             }`}
@@ -1045,7 +1330,7 @@ function StrategySelectorPanel({ status }: { status: BotStatus }) {
             <div className="flex items-center gap-2">
               <TrendingUp className="w-4 h-4" />
               <span className="text-sm font-semibold">Oracle FSM</span>
-              {active === "fsm" && (
+              {fsmOn && (
                 <Badge variant="outline" className="ml-auto text-[9px] border-blue-500 text-blue-400">Activa</Badge>
               )}
             </div>
@@ -1054,10 +1339,10 @@ function StrategySelectorPanel({ status }: { status: BotStatus }) {
             </span>
           </button>
           <button
-            onClick={() => mutation.mutate("dual_buy")}
+            onClick={() => mutation.mutate({ id: "dual_buy", enabled: !dualBuyOn })}
             disabled={mutation.isPending}
             className={`flex flex-col gap-1.5 p-3 rounded-lg border-2 transition-all ${
-              active === "dual_buy"
+              dualBuyOn
                 ? "border-emerald-500 bg-emerald-500/10"
                 : "border-muted bg-muted/30 hover:border-muted-foreground/30"
             }`}
@@ -1066,7 +1351,7 @@ function StrategySelectorPanel({ status }: { status: BotStatus }) {
             <div className="flex items-center gap-2">
               <ArrowUpDown className="w-4 h-4" />
               <span className="text-sm font-semibold">Dual Buy</span>
-              {active === "dual_buy" && (
+              {dualBuyOn && (
                 <Badge variant="outline" className="ml-auto text-[9px] border-emerald-500 text-emerald-400">Activa</Badge>
               )}
             </div>
@@ -1080,6 +1365,139 @@ function StrategySelectorPanel({ status }: { status: BotStatus }) {
   );
 }
 
+function BudgetBar({ label, used, limit, testId }: { label: string; used: number; limit: number | null; testId: string }) {
+  const pct = limit && limit > 0 ? Math.min(100, (used / limit) * 100) : 0;
+  return (
+    <div className="space-y-1" data-testid={testId}>
+      <div className="flex items-center justify-between text-[10px]">
+        <span className="text-muted-foreground">{label}</span>
+        <span className="font-mono">
+          ${used.toFixed(2)} / {limit !== null ? `$${limit.toFixed(2)}` : "sin límite"}
+        </span>
+      </div>
+      <Progress value={pct} className={`h-1.5 ${pct >= 90 ? "[&>div]:bg-red-500" : pct >= 70 ? "[&>div]:bg-amber-500" : ""}`} />
+    </div>
+  );
+}
+
+function limitToInput(value: number | null): string {
+  return value === null ? "" : String(value);
+}
+
+function parseLimit(value: string): number | null {
+  if (value.trim() === "") return null;
+  const n = parseFloat(value);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+function StrategyBudgetRow({ allocation }: { allocation: StrategyAllocationStatus }) {
+  const { toast } = useToast();
+  const [budget, setBudget] = useState(limitToInput(allocation.capitalBudget));
+  const [exposure, setExposure] = useState(limitToInput(allocation.maxExposure));
+  const [dailyLoss, setDailyLoss] = useState(limitToInput(allocation.maxDailyLoss));
+
+  useEffect(() => {
+    setBudget(limitToInput(allocation.capitalBudget));
+    setExposure(limitToInput(allocation.maxExposure));
+    setDailyLoss(limitToInput(allocation.maxDailyLoss));
+  }, [allocation.capitalBudget, allocation.maxExposure, allocation.maxDailyLoss]);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PATCH", `/api/strategies/${allocation.strategyId}/allocation`, {
+        capitalBudget: parseLimit(budget),
+        maxExposure: parseLimit(exposure),
+        maxDailyLoss: parseLimit(dailyLoss),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies/allocations"] });
+      toast({ title: `Presupuesto de ${allocation.name} guardado` });
+    },
+    onError: (err: Error) => toast({ title: "Error", description: err.message, variant: "destructive" }),
+  });
+
+  const { usage } = allocation;
+  const lossUsed = Math.max(0, -usage.dailyPnl);
+
+  return (
+    <div className="p-3 rounded-lg border space-y-2" data-testid={`budget-${allocation.strategyId}`}>
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-semibold">{allocation.name}</span>
+        <Badge variant="outline" className="text-[9px]">{allocation.host === "engine" ? "Bot engine" : "Standalone"}</Badge>
+        {allocation.running ? (
+          <Badge variant="outline" className="text-[9px] border-emerald-500 text-emerald-400">Running</Badge>
+        ) : allocation.enabled ? (
+          <Badge variant="outline" className="text-[9px]">Habilitada</Badge>
+        ) : null}
+        <span className={`ml-auto text-xs font-mono ${usage.dailyPnl >= 0 ? "text-emerald-400" : "text-red-400"}`}>
+          Hoy {usage.dailyPnl >= 0 ? "+" : ""}${usage.dailyPnl.toFixed(2)}
+        </span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <BudgetBar label="Capital comprometido" used={usage.committed} limit={allocation.capitalBudget} testId={`bar-budget-${allocation.strategyId}`} />
+        <BudgetBar label="Exposición" used={usage.exposure} limit={allocation.maxExposure} testId={`bar-exposure-${allocation.strategyId}`} />
+        <BudgetBar label="Pérdida diaria" used={lossUsed} limit={allocation.maxDailyLoss} testId={`bar-loss-${allocation.strategyId}`} />
+      </div>
+      {allocation.blockedReason && (
+        <p className="text-[10px] text-red-400" data-testid={`text-blocked-${allocation.strategyId}`}>
+          Bloqueada: {allocation.blockedReason}
+        </p>
+      )}
+      <div className="flex items-end gap-2">
+        {[
+          { label: "Budget $", value: budget, set: setBudget, key: "budget" },
+          { label: "Max exposure $", value: exposure, set: setExposure, key: "exposure" },
+          { label: "Max daily loss $", value: dailyLoss, set: setDailyLoss, key: "loss" },
+        ].map((f) => (
+          <div key={f.key} className="flex-1 space-y-0.5">
+            <span className="text-[10px] text-muted-foreground">{f.label}</span>
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              placeholder="sin límite"
+              value={f.value}
+              onChange={(e) => f.set(e.target.value)}
+              className="h-7 text-xs font-mono"
+              data-testid={`input-${f.key}-${allocation.strategyId}`}
+            />
+          </div>
+        ))}
+        <Button size="sm" className="h-7" disabled={mutation.isPending} onClick={() => mutation.mutate()} data-testid={`button-save-budget-${allocation.strategyId}`}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function StrategyBudgetPanel() {
+  const { data: allocations } = useQuery<StrategyAllocationStatus[]>({
+    queryKey: ["/api/strategies/allocations"],
+    refetchInterval: 5000,
+  });
+
+  if (!allocations || allocations.length === 0) return null;
+
+  return (
+    <Card data-testid="card-strategy-budgets">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Wallet className="w-4 h-4" />
+          Capital por Estrategia
+        </CardTitle>
+        <span className="text-[10px] text-muted-foreground">Vacío = sin límite; el límite global de riesgo sigue aplicando</span>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-3">
+        {allocations.map((a) => (
+          <StrategyBudgetRow key={a.strategyId} allocation={a} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
 function DualBuyPanel({ status }: { status: BotStatus }) {
   const { toast } = useToast();
   const db = status.dualBuy;
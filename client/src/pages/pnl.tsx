@@ -1,6 +1,8 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -20,9 +22,146 @@ import {
   BarChart,
   Bar,
   Cell,
+  LineChart,
+  Line,
+  Legend,
 } from "recharts";
 import { TrendingUp, TrendingDown, BarChart3, Target, Percent } from "lucide-react";
-import type { PnlRecord } from "@shared/schema";
+import type { PnlRecord, OracleCalibrationReport, CalibrationGroup } from "@shared/schema";
+
+const tooltipStyle = {
+  background: "hsl(var(--card))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "6px",
+  fontSize: "12px",
+};
+const axisTick = { fill: "hsl(var(--muted-foreground))", fontSize: 11 };
+const SERIES_COLORS = ["hsl(var(--primary))", "rgb(16 185 129)", "rgb(245 158 11)", "rgb(139 92 246)", "rgb(239 68 68)", "rgb(14 165 233)"];
+const DIAGONAL = [{ avgPredicted: 0, hitRate: 0 }, { avgPredicted: 1, hitRate: 1 }];
+
+type CalibrationDimension = "byStrength" | "byAsset" | "byHour";
+
+function OracleCalibrationCard() {
+  const [dimension, setDimension] = useState<CalibrationDimension>("byStrength");
+  const [kind, setKind] = useState<"all" | "entry" | "sample">("all");
+
+  const { data: report } = useQuery<OracleCalibrationReport>({
+    queryKey: ["/api/analytics/oracle-calibration", kind],
+    queryFn: async () => {
+      const res = await fetch(`/api/analytics/oracle-calibration${kind === "all" ? "" : `?kind=${kind}`}`);
+      if (!res.ok) throw new Error("Failed");
+      return res.json();
+    },
+    refetchInterval: 60000,
+  });
+
+  const groups: CalibrationGroup[] = report ? report[dimension] : [];
+
+  return (
+    <Card data-testid="card-oracle-calibration">
+      <CardHeader className="pb-2 flex flex-row items-center justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-sm font-medium">Oracle Calibration</CardTitle>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Confianza predicha vs tasa de acierto real
+            {report && ` — ${report.resolvedSignals} resueltas, ${report.pendingSignals} pendientes`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={kind} onValueChange={(v) => setKind(v as typeof kind)}>
+            <SelectTrigger className="h-8 w-[120px]" data-testid="select-calibration-kind"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas</SelectItem>
+              <SelectItem value="entry">Entradas</SelectItem>
+              <SelectItem value="sample">Muestras</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={dimension} onValueChange={(v) => setDimension(v as CalibrationDimension)}>
+            <SelectTrigger className="h-8 w-[120px]" data-testid="select-calibration-dimension"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="byStrength">Strength</SelectItem>
+              <SelectItem value="byAsset">Asset</SelectItem>
+              <SelectItem value="byHour">Hour (UTC)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 pt-0">
+        {!report || report.resolvedSignals === 0 ? (
+          <div className="p-8 text-center text-sm text-muted-foreground">
+            Sin señales resueltas todavía. El bot registra la señal del oráculo en cada entrada FSM y cada 30s durante la ventana.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="h-[250px]">
+              {dimension === "byHour" ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={groups}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="key" tick={axisTick} />
+                    <YAxis domain={[0, 1]} tick={axisTick} />
+                    <Tooltip contentStyle={tooltipStyle} />
+                    <Bar dataKey="hitRate" name="Hit rate" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="avgConfidence" name="Avg confidence" fill="hsl(var(--muted-foreground) / 0.4)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="avgPredicted" type="number" domain={[0, 1]} tick={axisTick} />
+                    <YAxis dataKey="hitRate" type="number" domain={[0, 1]} tick={axisTick} />
+                    <Tooltip contentStyle={tooltipStyle} />
+                    <Legend wrapperStyle={{ fontSize: "11px" }} />
+                    <Line data={DIAGONAL} dataKey="hitRate" name="Perfect" stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" dot={false} />
+                    {groups.map((g, i) => (
+                      <Line
+                        key={g.key}
+                        data={g.curve}
+                        dataKey="hitRate"
+                        name={`${g.key} (n=${g.samples})`}
+                        stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                        strokeWidth={2}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+            <div className="h-[250px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="avgPredicted" type="number" domain={[0, 1]} tick={axisTick} />
+                  <YAxis dataKey="hitRate" type="number" domain={[0, 1]} tick={axisTick} />
+                  <Tooltip contentStyle={tooltipStyle} />
+                  <Legend wrapperStyle={{ fontSize: "11px" }} />
+                  <Line data={DIAGONAL} dataKey="hitRate" name="Perfect" stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" dot={false} />
+                  <Line
+                    data={report.fairValue.curve}
+                    dataKey="hitRate"
+                    name={`Fair P(UP) — Brier ${report.fairValue.brierScore?.toFixed(3) ?? "-"}`}
+                    stroke="rgb(16 185 129)"
+                    strokeWidth={2}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+        {groups.length > 0 && (
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-xs text-muted-foreground" data-testid="calibration-group-summary">
+            {groups.map((g) => (
+              <span key={g.key} className="font-mono">
+                {g.key}: {(g.hitRate * 100).toFixed(0)}% hit / {(g.avgConfidence * 100).toFixed(0)}% conf (n={g.samples})
+              </span>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function PnL() {
   const { data: records = [], isLoading } = useQuery<PnlRecord[]>({
@@ -210,6 +349,8 @@ export default function PnL() {
         </div>
       )}
 
+      <OracleCalibrationCard />
+
       <Card>
         <CardHeader className="pb-2">
           <CardTitle className="text-sm font-medium">Daily Breakdown</CardTitle>
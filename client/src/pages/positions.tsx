@@ -1,6 +1,7 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Table,
@@ -10,8 +11,17 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { TrendingUp, TrendingDown, Minus } from "lucide-react";
-import type { Position } from "@shared/schema";
+import { TrendingUp, TrendingDown, Minus, RefreshCw } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Position, RedemptionSummary } from "@shared/schema";
+
+const REDEMPTION_STATUS_CLASS: Record<string, string> = {
+  REDEEMED: "border-emerald-500/50 text-emerald-400",
+  PENDING: "border-amber-500/50 text-amber-400",
+  FAILED: "border-red-500/50 text-red-400",
+  UNSUPPORTED: "border-red-500/50 text-red-400",
+};
 
 export default function Positions() {
   const { data: positions = [], isLoading } = useQuery<Position[]>({
@@ -19,6 +29,27 @@ export default function Positions() {
     refetchInterval: 3000,
   });
 
+  const { data: redemptions } = useQuery<RedemptionSummary>({
+    queryKey: ["/api/redemptions"],
+    refetchInterval: 30000,
+  });
+
+  const { toast } = useToast();
+
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/redemptions/scan");
+      return res.json();
+    },
+    onSuccess: (data: { scanned: number; redeemed: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/redemptions"] });
+      toast({ title: `Redemption scan: ${data.scanned} resolved market(s), ${data.redeemed} redeemed` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Redemption scan failed", description: err.message, variant: "destructive" });
+    },
+  });
+
   const totalUnrealized = positions.reduce((s, p) => s + p.unrealizedPnl, 0);
   const totalRealized = positions.reduce((s, p) => s + p.realizedPnl, 0);
   const totalExposure = positions.reduce((s, p) => s + p.size * p.avgEntryPrice, 0);
@@ -174,6 +205,100 @@ export default function Positions() {
           )}
         </CardContent>
       </Card>
+
+      <Card data-testid="card-redemptions">
+        <CardHeader className="pb-2 flex flex-row items-center justify-between gap-2">
+          <CardTitle className="text-sm font-medium">On-chain Redemptions</CardTitle>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => scanMutation.mutate()}
+            disabled={scanMutation.isPending}
+            data-testid="button-scan-redemptions"
+          >
+            <RefreshCw className={`w-3.5 h-3.5 mr-1.5 ${scanMutation.isPending ? "animate-spin" : ""}`} />
+            Scan now
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="flex flex-col gap-1">
+              <span className="text-xs text-muted-foreground">Pending</span>
+              <span className="text-lg font-bold font-mono text-amber-400" data-testid="text-redemptions-pending">
+                ${(redemptions?.pendingUsdc ?? 0).toFixed(2)}
+              </span>
+              <span className="text-xs text-muted-foreground">{redemptions?.pendingCount ?? 0} market(s)</span>
+            </div>
+            <div className="flex flex-col gap-1">
+              <span className="text-xs text-muted-foreground">Redeemed</span>
+              <span className="text-lg font-bold font-mono text-emerald-500" data-testid="text-redemptions-redeemed">
+                ${(redemptions?.redeemedUsdc ?? 0).toFixed(2)}
+              </span>
+              <span className="text-xs text-muted-foreground">{redemptions?.redeemedCount ?? 0} market(s)</span>
+            </div>
+            <div className="flex flex-col gap-1">
+              <span className="text-xs text-muted-foreground">Last Scan</span>
+              <span className="text-sm font-mono">
+                {redemptions?.lastScanAt ? new Date(redemptions.lastScanAt).toLocaleTimeString() : "—"}
+              </span>
+            </div>
+            {redemptions && !redemptions.holderSupported && redemptions.holderReason && (
+              <div className="flex flex-col gap-1">
+                <span className="text-xs text-muted-foreground">Auto-redeem</span>
+                <span className="text-xs text-red-400">{redemptions.holderReason}</span>
+              </div>
+            )}
+          </div>
+
+          {redemptions && redemptions.entries.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Market</TableHead>
+                  <TableHead>YES / NO</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Tx</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {redemptions.entries.map((r) => (
+                  <TableRow key={r.id} data-testid={`row-redemption-${r.id}`}>
+                    <TableCell className="font-mono text-xs max-w-[220px] truncate" title={r.question || undefined}>
+                      {r.marketSlug || r.conditionId.slice(0, 14) + "..."}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {r.yesBalance.toFixed(2)} / {r.noBalance.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="font-mono">${r.expectedUsdc.toFixed(2)}</TableCell>
+                    <TableCell className="font-mono">
+                      {r.usdcReceived !== null ? `$${r.usdcReceived.toFixed(2)}` : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={`text-xs ${REDEMPTION_STATUS_CLASS[r.status] || ""}`} title={r.error || undefined}>
+                        {r.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {r.txHash ? (
+                        <a
+                          href={`https://polygonscan.com/tx/${r.txHash}`}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-blue-400 hover:underline"
+                        >
+                          {r.txHash.slice(0, 10)}...
+                        </a>
+                      ) : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Play, Square, Save } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { StrategyConfigField, StrategyInfo } from "@shared/schema";
+
+function formatStatusValue(value: unknown): string {
+  if (value === null || value === undefined) return "-";
+  if (typeof value === "number") return Number.isInteger(value) ? String(value) : value.toFixed(4);
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  return String(value);
+}
+
+function ConfigFieldInput({ field, value, onChange }: { field: StrategyConfigField; value: unknown; onChange: (v: unknown) => void }) {
+  const id = `strategy-field-${field.key}`;
+
+  if (field.type === "boolean") {
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <Label htmlFor={id} className="text-xs">{field.label}</Label>
+          {field.description && <p className="text-[10px] text-muted-foreground">{field.description}</p>}
+        </div>
+        <Switch id={id} checked={!!value} onCheckedChange={onChange} data-testid={`switch-${field.key}`} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">{field.label}</Label>
+      {field.type === "select" ? (
+        <Select value={value === null || value === undefined ? "" : String(value)} onValueChange={onChange}>
+          <SelectTrigger id={id} className="h-8" data-testid={`select-${field.key}`}><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(field.options || []).map((o) => (
+              <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          id={id}
+          type="number"
+          className="h-8 font-mono"
+          min={field.min}
+          max={field.max}
+          step={field.step ?? "any"}
+          value={value === null || value === undefined ? "" : String(value)}
+          onChange={(e) => onChange(e.target.value === "" ? null : parseFloat(e.target.value))}
+          data-testid={`input-${field.key}`}
+        />
+      )}
+      {field.description && <p className="text-[10px] text-muted-foreground">{field.description}</p>}
+    </div>
+  );
+}
+
+function StrategyCard({ strategy }: { strategy: StrategyInfo }) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<Record<string, unknown>>(strategy.config);
+  const [dirty, setDirty] = useState(false);
+
+  useEffect(() => {
+    if (!dirty) setForm(strategy.config);
+  }, [strategy.config, dirty]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/strategies"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bot/status"] });
+  };
+
+  const lifecycle = useMutation({
+    mutationFn: async (action: "start" | "stop") => apiRequest("POST", `/api/strategies/${strategy.id}/${action}`),
+    onSuccess: (_res, action) => {
+      invalidate();
+      toast({ title: action === "start" ? `${strategy.name} iniciada` : `${strategy.name} detenida` });
+    },
+    onError: (err: Error) => toast({ title: "Error", description: err.message, variant: "destructive" }),
+  });
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const updates: Record<string, unknown> = {};
+      for (const field of strategy.configSchema) {
+        if (form[field.key] !== null && form[field.key] !== strategy.config[field.key]) updates[field.key] = form[field.key];
+      }
+      return apiRequest("PATCH", `/api/strategies/${strategy.id}/config`, updates);
+    },
+    onSuccess: () => {
+      setDirty(false);
+      invalidate();
+      toast({ title: "Configuración guardada" });
+    },
+    onError: (err: Error) => toast({ title: "Failed to save", description: err.message, variant: "destructive" }),
+  });
+
+  const statusEntries = Object.entries(strategy.status);
+
+  return (
+    <Card data-testid={`card-strategy-${strategy.id}`}>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 pb-2 space-y-0">
+        <div>
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            {strategy.name}
+            <Badge variant="outline" className="text-[9px]">{strategy.host === "engine" ? "Bot engine" : "Standalone"}</Badge>
+            {strategy.running && (
+              <Badge variant="outline" className="text-[9px] border-emerald-500 text-emerald-400">Running</Badge>
+            )}
+          </CardTitle>
+          <p className="text-xs text-muted-foreground mt-0.5">{strategy.description}</p>
+        </div>
+        <Button
+          size="sm"
+          variant={strategy.running ? "destructive" : "default"}
+          disabled={lifecycle.isPending}
+          onClick={() => lifecycle.mutate(strategy.running ? "stop" : "start")}
+          data-testid={`button-strategy-${strategy.running ? "stop" : "start"}-${strategy.id}`}
+        >
+          {strategy.running ? <Square className="w-3.5 h-3.5 mr-1" /> : <Play className="w-3.5 h-3.5 mr-1" />}
+          {strategy.running ? "Stop" : "Start"}
+        </Button>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-4">
+        {statusEntries.length > 0 && (
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+            {statusEntries.map(([key, value]) => (
+              <span key={key} className="text-muted-foreground">
+                {key}: <span className="font-mono text-foreground">{formatStatusValue(value)}</span>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {strategy.configSchema.map((field) => (
+            <ConfigFieldInput
+              key={field.key}
+              field={field}
+              value={form[field.key]}
+              onChange={(v) => {
+                setForm((f) => ({ ...f, [field.key]: v }));
+                setDirty(true);
+              }}
+            />
+          ))}
+        </div>
+        <div className="flex justify-end gap-2">
+          {dirty && (
+            <Button size="sm" variant="outline" onClick={() => { setForm(strategy.config); setDirty(false); }}>
+              Descartar
+            </Button>
+          )}
+          <Button size="sm" disabled={!dirty || save.isPending} onClick={() => save.mutate()} data-testid={`button-save-strategy-${strategy.id}`}>
+            <Save className="w-3.5 h-3.5 mr-1" />
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Strategies() {
+  const { data: strategies, isLoading } = useQuery<StrategyInfo[]>({
+    queryKey: ["/api/strategies"],
+    refetchInterval: 5000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6 max-w-[1400px] mx-auto">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Strategies</h1>
+        <p className="text-sm text-muted-foreground mt-0.5">
+          Estrategias registradas — las del bot engine comparten mercado y corren todas las habilitadas
+        </p>
+      </div>
+      {(strategies || []).map((s) => (
+        <StrategyCard key={s.id} strategy={s} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { writeFile } from "fs/promises";
+import { runFsmBacktest, fsmBacktestParamsSchema } from "../server/bot/backtester";
+import { runDualEntryBacktest, dualEntryBacktestParamsSchema } from "../server/strategies/dualEntry5m/backtest";
+import { pool } from "../server/db";
+import type { BacktestMetrics } from "@shared/schema";
+
+// usage: npm run backtest -- --from 2026-10-01 --to 2026-10-02 --minSpread 0.02 --seed 7 --out result.json
+//        npm run backtest -- --slugs btc-updown-5m-1760000000,btc-updown-5m-1760000300
+//        npm run backtest -- --strategy dual_entry_5m --entryPrice 0.44 --tpPrice 0.62 --hourFilterAllowed 13,14,15
+
+const LIST_FLAGS = new Set(["slugs", "hourFilterAllowed"]);
+
+function parseValue(value: string | undefined): any {
+  if (value === undefined || value === "true") return true;
+  if (value === "false") return false;
+  return value.trim() !== "" && !isNaN(Number(value)) ? Number(value) : value;
+}
+
+function parseArgs(argv: string[]): { strategy: string; params: Record<string, any>; out?: string } {
+  const params: Record<string, any> = {};
+  let strategy = "fsm";
+  let out: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const [rawKey, inline] = arg.slice(2).split("=", 2);
+    const key = rawKey === "slug" ? "slugs" : rawKey;
+    const value = inline ?? (argv[i + 1] !== undefined && !argv[i + 1].startsWith("--") ? argv[++i] : undefined);
+
+    if (key === "out") out = value;
+    else if (key === "strategy") strategy = value || strategy;
+    else if (LIST_FLAGS.has(key)) params[key] = (value || "").split(",").filter(Boolean).map(v => key === "slugs" ? v : Number(v));
+    else if (key === "from" || key === "to") params[key] = value;
+    else if (key.includes(".")) {
+      const [group, sub] = key.split(".", 2);
+      params[group] = { ...params[group], [sub]: parseValue(value) };
+    } else params[key] = parseValue(value);
+  }
+
+  return { strategy, params, out };
+}
+
+function printMetrics(m: BacktestMetrics, durationMs: number) {
+  console.log("");
+  console.log(`Windows: ${m.windows}  Trades: ${m.trades}  Wins: ${m.wins}  Losses: ${m.losses}  WinRate: ${(m.winRate * 100).toFixed(1)}%`);
+  console.log(`PnL: $${m.totalPnl.toFixed(4)}  Avg: $${m.avgPnl.toFixed(4)}  Fees: $${m.fees.toFixed(4)}  PF: ${m.profitFactor ?? "-"}`);
+  console.log(`MaxDD: $${m.maxDrawdown.toFixed(4)}  Sharpe: ${m.sharpe}  (${durationMs}ms)`);
+}
+
+async function main() {
+  const { strategy, params, out } = parseArgs(process.argv.slice(2));
+  let result: unknown;
+
+  if (strategy === "dual_entry_5m") {
+    const parsed = dualEntryBacktestParamsSchema.safeParse(params);
+    if (!parsed.success) {
+      console.error(`[Backtest] Invalid arguments: ${parsed.error.message}`);
+      process.exit(1);
+    }
+    const r = await runDualEntryBacktest(parsed.data);
+    for (const c of r.cycles) {
+      console.log(`#${c.cycleNumber}  ${c.windowStart.toISOString()}  ${c.outcome ?? c.state}  pnl=$${(c.pnl ?? 0).toFixed(4)}`);
+    }
+    printMetrics(r.metrics, r.durationMs);
+    result = r;
+  } else if (strategy === "fsm") {
+    const parsed = fsmBacktestParamsSchema.safeParse(params);
+    if (!parsed.success) {
+      console.error(`[Backtest] Invalid arguments: ${parsed.error.message}`);
+      process.exit(1);
+    }
+    const r = await runFsmBacktest(parsed.data);
+    for (const w of r.windows) {
+      console.log(`${w.marketSlug}  dir=${w.direction ?? "-"}  ticks=${w.ticks}  trades=${w.trades.length}  pnl=$${w.pnl.toFixed(4)}`);
+    }
+    printMetrics(r.metrics, r.durationMs);
+    for (const stop of r.dayStops) console.log(`Day stopped ${stop.day}: ${stop.reason} (${stop.skippedWindows} windows skipped)`);
+    if (r.halted) console.log(`Halted: ${r.halted.reason}`);
+    result = r;
+  } else {
+    console.error(`[Backtest] Unknown strategy "${strategy}" (expected fsm or dual_entry_5m)`);
+    process.exit(1);
+  }
+
+  if (out) {
+    await writeFile(out, JSON.stringify(result, null, 2));
+    console.log(`Result written to ${out}`);
+  }
+}
+
+main()
+  .then(async () => {
+    await pool.end();
+    process.exit(0);
+  })
+  .catch(async (err) => {
+    console.error(err);
+    await pool.end().catch(() => {});
+    process.exit(1);
+  });
@@ -0,0 +1,53 @@
+import { ExchangeVenue, DEFAULT_VENUE_CONFIG, type VenueInterval } from "../server/exchange-sim/venue";
+import { createExchangeSimServer } from "../server/exchange-sim/server";
+
+// usage: npm run exchange-sim -- --port 5055 --seed 7 --assets btc,eth --volatility 0.0005
+//        then start the bot with the printed POLYMARKET_* / ORACLE_* variables
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const [key, inline] = arg.slice(2).split("=", 2);
+    args[key] = inline ?? (argv[i + 1] !== undefined && !argv[i + 1].startsWith("--") ? argv[++i] : "true");
+  }
+  return args;
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const port = parseInt(args.port || "5055", 10);
+  const num = (key: string, fallback: number) => args[key] !== undefined ? Number(args[key]) : fallback;
+
+  const venue = new ExchangeVenue({
+    assets: args.assets ? args.assets.split(",").filter(Boolean) : DEFAULT_VENUE_CONFIG.assets,
+    intervals: args.intervals ? args.intervals.split(",").filter(Boolean) as VenueInterval[] : DEFAULT_VENUE_CONFIG.intervals,
+    volatility: num("volatility", DEFAULT_VENUE_CONFIG.volatility),
+    takerRate: num("takerRate", DEFAULT_VENUE_CONFIG.takerRate),
+    startingUsdc: num("usdc", DEFAULT_VENUE_CONFIG.startingUsdc),
+    seed: num("seed", DEFAULT_VENUE_CONFIG.seed),
+  });
+  const server = createExchangeSimServer(venue);
+
+  server.listen(port, "127.0.0.1", () => {
+    venue.start();
+    const base = `127.0.0.1:${port}`;
+    console.log(`[ExchangeSim] Listening on ${base} (assets: ${venue.config.assets.join(",")}, seed: ${venue.config.seed})`);
+    console.log("");
+    console.log(`POLYMARKET_CLOB_URL=http://${base}`);
+    console.log(`POLYMARKET_GAMMA_URL=http://${base}/gamma`);
+    console.log(`POLYMARKET_WS_URL=ws://${base}/ws`);
+    console.log(`ORACLE_WS_URL=ws://${base}/oracle/ws?asset={asset}`);
+    console.log(`ORACLE_REST_URL=http://${base}/oracle/spot?asset={asset}`);
+  });
+
+  const shutdown = () => {
+    venue.stop();
+    server.close(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main();
@@ -0,0 +1,187 @@
+import { storage } from "../storage";
+import { marketRecorder, type RecordedEvent, type RecordedSessionData } from "./market-recorder";
+import { OrderBook } from "./order-book";
+import { invertTrade, type PaperTrade } from "./paper-fill-simulator";
+import type { BacktestMetrics, BacktestWindow, EquityPoint, MarketData } from "@shared/schema";
+
+export { createRng } from "./rng";
+
+export interface MarketWindow {
+  start: number;
+  end: number;
+  durationMs: number;
+}
+
+export interface SessionSelection {
+  slugs?: string[];
+  from?: string | number;
+  to?: string | number;
+  limit?: number;
+}
+
+/** Window bounds from an `<asset>-updown-<5m|15m>-<unixStart>` slug, falling back to the 5m boundary of the first event. */
+export function parseMarketWindow(slug: string, fallbackTs: number): MarketWindow {
+  const match = slug.match(/-(5m|15m)-(\d{9,})$/);
+  const durationMs = match?.[1] === "15m" ? 900_000 : 300_000;
+  const start = match ? parseInt(match[2], 10) * 1000 : Math.floor(fallbackTs / durationMs) * durationMs;
+  return { start, end: start + durationMs, durationMs };
+}
+
+export async function listSessionSlugs(selection: SessionSelection): Promise<string[]> {
+  if (selection.slugs && selection.slugs.length > 0) {
+    return [...selection.slugs].sort((a, b) => parseMarketWindow(a, 0).start - parseMarketWindow(b, 0).start);
+  }
+
+  const from = selection.from !== undefined ? new Date(selection.from).getTime() : -Infinity;
+  const to = selection.to !== undefined ? new Date(selection.to).getTime() : Infinity;
+  const sessions = await storage.getRecordedSessions(selection.limit || 1000);
+  return sessions
+    .filter(s => new Date(s.lastTs).getTime() >= from && new Date(s.firstTs).getTime() <= to)
+    .sort((a, b) => new Date(a.firstTs).getTime() - new Date(b.firstTs).getTime())
+    .map(s => s.marketSlug);
+}
+
+
+/**
+ * Walks a recorded session forward in simulated time, keeping the Up/Down books
+ * current and handing oracle ticks (and, optionally, trade prints) to the caller.
+ */
+export class SessionReplay {
+  readonly up: OrderBook;
+  readonly down: OrderBook;
+  private cursor = 0;
+
+  constructor(
+    readonly session: RecordedSessionData,
+    private onOracleTick: (price: number, ts: number) => void,
+    private onTrade?: (tokenId: string, trade: PaperTrade) => void,
+  ) {
+    this.up = new OrderBook(session.tokenUp ?? "");
+    this.down = new OrderBook(session.tokenDown ?? "");
+  }
+
+  advanceTo(ts: number): void {
+    const events = this.session.events;
+    while (this.cursor < events.length && events[this.cursor].ts <= ts) {
+      this.apply(events[this.cursor]);
+      this.cursor++;
+    }
+  }
+
+  /** Up book, and the Down book (or the inverted Up book when Down was not recorded). */
+  getOrderBooks(): { up: OrderBook | null; down: OrderBook | null } {
+    const up = this.up.hasData() ? this.up : null;
+    const down = this.down.hasData() ? this.down : up ? up.invert(this.session.tokenDown ?? "") : null;
+    return { up, down };
+  }
+
+  getBooks(): { up: MarketData | null; down: MarketData | null } {
+    const { up, down } = this.getOrderBooks();
+    return { up: up?.toMarketData() ?? null, down: down?.toMarketData() ?? null };
+  }
+
+  private bookFor(event: Exclude<RecordedEvent, { type: "oracle" }>): OrderBook | null {
+    if (event.outcome === "UP" || event.tokenId === this.session.tokenUp) return this.up;
+    if (event.outcome === "DOWN" || event.tokenId === this.session.tokenDown) return this.down;
+    return null;
+  }
+
+  private apply(event: RecordedEvent): void {
+    if (event.type === "oracle") {
+      this.onOracleTick(event.price, event.ts);
+      return;
+    }
+    const book = this.bookFor(event);
+    if (!book) return;
+    if (event.type === "book") book.applySnapshot(event.bids, event.asks, event.ts);
+    else if (event.type === "delta") book.applyPriceChange(event.changes, event.ts);
+    else {
+      book.applyTrade(event.price);
+      if (!this.onTrade) return;
+      const trade: PaperTrade = { price: event.price, size: event.size, side: event.side, ts: event.ts };
+      this.onTrade(book.tokenId, trade);
+      if (book === this.up && !this.down.hasData()) this.onTrade(this.down.tokenId, invertTrade(trade));
+    }
+  }
+}
+
+let sessionCache: Map<string, RecordedSessionData | null> | null = null;
+
+/** Keep loaded sessions in memory (optimizer workers replay the same sessions for every candidate). */
+export function enableSessionCache(): void {
+  sessionCache = sessionCache ?? new Map();
+}
+
+export async function loadReplaySession(slug: string): Promise<RecordedSessionData | null> {
+  if (sessionCache?.has(slug)) return sessionCache.get(slug)!;
+  const loaded = await marketRecorder.loadSession(slug);
+  const session = loaded && loaded.tokenUp ? loaded : null;
+  sessionCache?.set(slug, session);
+  return session;
+}
+
+export interface PnlPoint {
+  ts: number;
+  marketSlug: string;
+  pnl: number;
+}
+
+/** Equity curve, max drawdown and per-point Sharpe (mean / sample std) of a pnl series in time order. */
+export function summarizePnlSeries(points: PnlPoint[]): { equity: EquityPoint[]; maxDrawdown: number; sharpe: number } {
+  const equity: EquityPoint[] = [];
+  let cumulative = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const p of points) {
+    cumulative += p.pnl;
+    peak = Math.max(peak, cumulative);
+    const drawdown = peak - cumulative;
+    maxDrawdown = Math.max(maxDrawdown, drawdown);
+    equity.push({
+      ts: p.ts,
+      marketSlug: p.marketSlug,
+      equity: parseFloat(cumulative.toFixed(4)),
+      drawdown: parseFloat(drawdown.toFixed(4)),
+    });
+  }
+
+  const pnls = points.map(p => p.pnl);
+  const mean = pnls.length > 0 ? pnls.reduce((s, p) => s + p, 0) / pnls.length : 0;
+  const variance = pnls.length > 1
+    ? pnls.reduce((s, p) => s + Math.pow(p - mean, 2), 0) / (pnls.length - 1)
+    : 0;
+  const std = Math.sqrt(variance);
+
+  return {
+    equity,
+    maxDrawdown: parseFloat(maxDrawdown.toFixed(4)),
+    sharpe: std > 0 ? parseFloat((mean / std).toFixed(4)) : 0,
+  };
+}
+
+export function computeBacktestMetrics(windows: BacktestWindow[]): { metrics: BacktestMetrics; equity: EquityPoint[] } {
+  const trades = windows.flatMap(w => w.trades);
+  const wins = trades.filter(t => t.pnl > 0);
+  const losses = trades.filter(t => t.pnl <= 0);
+  const grossWin = wins.reduce((s, t) => s + t.pnl, 0);
+  const grossLoss = Math.abs(losses.reduce((s, t) => s + t.pnl, 0));
+  const { equity, maxDrawdown, sharpe } = summarizePnlSeries(windows.map(w => ({ ts: w.windowEnd, marketSlug: w.marketSlug, pnl: w.pnl })));
+
+  const totalPnl = trades.reduce((s, t) => s + t.pnl, 0);
+  return {
+    metrics: {
+      windows: windows.length,
+      trades: trades.length,
+      wins: wins.length,
+      losses: losses.length,
+      winRate: trades.length > 0 ? parseFloat((wins.length / trades.length).toFixed(4)) : 0,
+      totalPnl: parseFloat(totalPnl.toFixed(4)),
+      avgPnl: trades.length > 0 ? parseFloat((totalPnl / trades.length).toFixed(4)) : 0,
+      profitFactor: grossLoss > 0 ? parseFloat((grossWin / grossLoss).toFixed(4)) : null,
+      maxDrawdown,
+      sharpe,
+      fees: parseFloat(trades.reduce((s, t) => s + t.fee, 0).toFixed(4)),
+    },
+    equity,
+  };
+}
@@ -0,0 +1,395 @@
+import { storage } from "../storage";
+import { OracleRegistry, binanceOracle, oracleRegistry, type OracleWindow } from "./binance-oracle";
+import { SimulatedClock } from "./clock";
+import { MarketRegimeFilter, marketRegimeFilter } from "./market-regime-filter";
+import { evaluateRiskLimits } from "./risk-manager";
+import { calculateFee } from "./order-manager";
+import { PaperFillSimulator, type PaperTrade } from "./paper-fill-simulator";
+import type { OrderBook } from "./order-book";
+import { calculateFsmState, resolvePhaseThresholds, getOracleAlignedSide, type FsmNotice, type FsmState } from "./fsm-decision";
+import { evaluateEntryPipeline, resolveEntryFilters } from "./entry-filters";
+import { oracleFairValue } from "./fair-value";
+import {
+  SessionReplay, computeBacktestMetrics, createRng, listSessionSlugs, loadReplaySession, parseMarketWindow,
+} from "./backtest-replay";
+import { assetFromSlug } from "../strategies/dualEntry5m/market-5m-discovery";
+import { DEFAULT_FSM_PHASE_SCHEDULE, fsmPhaseScheduleSchema, updateEntryFilterSchema, type BacktestResult, type EntryFilterInfo, type BacktestTrade, type BacktestWindow } from "@shared/schema";
+import { z } from "zod";
+
+export const sessionSelectionSchema = z.object({
+  slugs: z.array(z.string()).optional(),
+  from: z.union([z.string(), z.number()]).optional(),
+  to: z.union([z.string(), z.number()]).optional(),
+  limit: z.number().int().min(1).max(10000).optional(),
+});
+
+export const oracleOverridesSchema = z.object({
+  strongThreshold: z.number().min(0),
+  weakThreshold: z.number().min(0),
+  minConfidence: z.number().min(0).max(1),
+  enabled: z.boolean(),
+}).partial();
+
+export const fsmBacktestParamsSchema = sessionSelectionSchema.extend({
+  minSpread: z.number().min(0).max(1).optional(),
+  orderSize: z.number().min(1).optional(),
+  maxNetExposure: z.number().min(1).optional(),
+  maxDailyLoss: z.number().min(1).optional(),
+  maxConsecutiveLosses: z.number().int().min(1).optional(),
+  maxEntryPrice: z.number().min(0.01).max(0.99).optional(),
+  minEntryPrice: z.number().min(0.01).max(0.99).optional(),
+  edgeFilterEnabled: z.boolean().optional(),
+  minEdge: z.number().min(0).max(0.5).optional(),
+  phaseSchedule: fsmPhaseScheduleSchema.optional(),
+  /** Per-filter overrides of the configured entry pipeline, keyed by filter id. */
+  entryFilters: z.record(updateEntryFilterSchema).optional(),
+  oracle: oracleOverridesSchema.optional(),
+  regime: z.object({
+    enabled: z.boolean(),
+    minDepth: z.number().min(0),
+    maxVolatility: z.number().min(0),
+    minVolatility: z.number().min(0),
+    maxSpread: z.number().min(0).max(1),
+    depthBand: z.number().min(0).max(1),
+  }).partial().optional(),
+  tickMs: z.number().int().min(250).max(60000).optional(),
+  seed: z.number().int().optional(),
+  ignoreRiskStops: z.boolean().optional(),
+});
+
+export type FsmBacktestParams = z.infer<typeof fsmBacktestParamsSchema>;
+
+interface SimOrder {
+  id: number;
+  tokenSide: "YES" | "NO";
+  price: number;
+  size: number;
+  layer: string;
+  placedAt: number;
+  status: "OPEN" | "FILLED" | "CANCELLED";
+  filledSize: number;
+}
+
+interface SimPosition {
+  tokenSide: "YES" | "NO";
+  size: number;
+  avgEntryPrice: number;
+  fee: number;
+  layer: string;
+  entryTs: number;
+}
+
+/**
+ * Stand-in for OrderManager over a replayed book: the same PaperFillSimulator
+ * queue model as paper trading, fed by the recorded books and trade prints,
+ * but in memory and seeded.
+ */
+class SimulatedOrderManager {
+  private orders: SimOrder[] = [];
+  private positions: SimPosition[] = [];
+  private nextId = 1;
+  private matcher: PaperFillSimulator;
+
+  constructor(rng: () => number) {
+    this.matcher = new PaperFillSimulator(rng);
+  }
+
+  placeOrder(params: { tokenSide: "YES" | "NO"; price: number; size: number; layer: string; ts: number }): SimOrder {
+    const order: SimOrder = { id: this.nextId++, ...params, placedAt: params.ts, status: "OPEN", filledSize: 0 };
+    this.orders.push(order);
+    return order;
+  }
+
+  recordTrade(tokenId: string, trade: PaperTrade): void {
+    this.matcher.recordTrade(tokenId, trade);
+  }
+
+  getActiveOrders(): SimOrder[] {
+    return this.orders.filter(o => o.status === "OPEN");
+  }
+
+  cancelAll(): number {
+    const active = this.getActiveOrders();
+    for (const o of active) {
+      o.status = "CANCELLED";
+      this.matcher.forget(String(o.id));
+    }
+    return active.length;
+  }
+
+  getPositions(): SimPosition[] {
+    return this.positions.filter(p => p.size > 0);
+  }
+
+  takePositions(): SimPosition[] {
+    const open = this.getPositions();
+    this.positions = [];
+    return open;
+  }
+
+  simulateFills(books: { up: OrderBook | null; down: OrderBook | null }, ts: number): void {
+    for (const order of this.getActiveOrders()) {
+      const book = order.tokenSide === "NO" ? books.down : books.up;
+      if (!book) continue;
+
+      const fills = this.matcher.match(
+        { id: String(order.id), tokenId: book.tokenId, side: "BUY", price: order.price, size: order.size, filledSize: order.filledSize },
+        book,
+      );
+      for (const fill of fills) {
+        const fee = calculateFee(fill.price, fill.size, fill.isMaker);
+        order.filledSize = parseFloat((order.filledSize + fill.size).toFixed(4));
+
+        const existing = this.positions.find(p => p.tokenSide === order.tokenSide);
+        if (existing) {
+          const newSize = existing.size + fill.size;
+          existing.avgEntryPrice = parseFloat(((existing.size * existing.avgEntryPrice + fill.size * fill.price) / newSize).toFixed(4));
+          existing.size = parseFloat(newSize.toFixed(4));
+          existing.fee += fee;
+        } else {
+          this.positions.push({ tokenSide: order.tokenSide, size: fill.size, avgEntryPrice: fill.price, fee, layer: order.layer, entryTs: ts });
+        }
+      }
+      if (order.filledSize >= order.size - 1e-6) {
+        order.status = "FILLED";
+        this.matcher.forget(String(order.id));
+      }
+    }
+  }
+}
+
+/**
+ * The live entry pipeline with the backtest's overrides applied; the older
+ * flat params (minSpread, entry band, edge) still win over `entryFilters`.
+ */
+function backtestEntryFilters(filters: EntryFilterInfo[], params: FsmBacktestParams): EntryFilterInfo[] {
+  const flat: Record<string, { enabled?: boolean; params: Record<string, number | undefined> }> = {
+    spread: { params: { minSpread: params.minSpread } },
+    entryPrice: { params: { minEntryPrice: params.minEntryPrice, maxEntryPrice: params.maxEntryPrice } },
+    edge: { enabled: params.edgeFilterEnabled, params: { minEdge: params.minEdge } },
+  };
+  return filters.map(filter => {
+    const override = params.entryFilters?.[filter.id];
+    const result = { ...filter, params: { ...filter.params, ...override?.params } };
+    if (override?.enabled !== undefined) result.enabled = override.enabled;
+    const legacy = flat[filter.id];
+    if (legacy) {
+      if (legacy.enabled !== undefined) result.enabled = legacy.enabled;
+      for (const [key, value] of Object.entries(legacy.params)) {
+        if (value !== undefined) result.params[key] = value;
+      }
+    }
+    return result;
+  });
+}
+
+function resolvedParams(
+  config: Awaited<ReturnType<typeof storage.getBotConfig>>,
+  filterRows: Awaited<ReturnType<typeof storage.getEntryFilters>>,
+  params: FsmBacktestParams,
+) {
+  const entryFilters = backtestEntryFilters(resolveEntryFilters(filterRows, config), params);
+  return {
+    minSpread: params.minSpread ?? config?.minSpread ?? 0.03,
+    orderSize: params.orderSize ?? config?.orderSize ?? 10,
+    maxNetExposure: params.maxNetExposure ?? config?.maxNetExposure ?? 100,
+    maxDailyLoss: params.maxDailyLoss ?? config?.maxDailyLoss ?? 50,
+    maxConsecutiveLosses: params.maxConsecutiveLosses ?? config?.maxConsecutiveLosses ?? 3,
+    entryFilters,
+    phaseSchedule: params.phaseSchedule ?? config?.phaseSchedule ?? DEFAULT_FSM_PHASE_SCHEDULE,
+    oracle: { ...binanceOracle.getConfig(), ...params.oracle },
+    regime: { ...marketRegimeFilter.getConfig(), ...params.regime },
+    tickMs: params.tickMs ?? 2000,
+    seed: params.seed ?? 1,
+    ignoreRiskStops: params.ignoreRiskStops ?? false,
+  };
+}
+
+/**
+ * Replays recorded sessions through the FSM decision functions with a simulated
+ * clock, oracle, regime filter and order manager. Reads bot_config for defaults
+ * but never writes to the live tables or touches the running engine.
+ */
+export async function runFsmBacktest(params: FsmBacktestParams = {}): Promise<BacktestResult> {
+  const startedAt = Date.now();
+  const p = resolvedParams(await storage.getBotConfig(), await storage.getEntryFilters(), params);
+
+  const clock = new SimulatedClock();
+  const oracles = new OracleRegistry(clock);
+  const regimeFilter = new MarketRegimeFilter(oracles.get("btc"));
+  regimeFilter.updateConfig(p.regime);
+  const orders = new SimulatedOrderManager(createRng(p.seed));
+
+  let dailyPnl = 0;
+  let consecutiveLosses = 0;
+  let simDay = "";
+  let halted: BacktestResult["halted"] = null;
+  const dayStops: BacktestResult["dayStops"] = [];
+  const windows: BacktestWindow[] = [];
+
+  for (const slug of await listSessionSlugs(params)) {
+    if (halted) break;
+    const session = await loadReplaySession(slug);
+    if (!session) continue;
+
+    const asset = assetFromSlug(slug) ?? "btc";
+    const fresh = !oracles.has(asset);
+    const oracle = oracles.get(asset);
+    if (fresh) oracle.updateConfig(asset === "btc" ? p.oracle : { ...oracleRegistry.get(asset).getConfig(), ...params.oracle });
+
+    const win = parseMarketWindow(slug, session.from);
+    const stoppedDay = dayStops[dayStops.length - 1];
+    if (stoppedDay && stoppedDay.day === new Date(win.start).toDateString()) {
+      stoppedDay.skippedWindows++;
+      continue;
+    }
+    const replay = new SessionReplay(
+      session,
+      (price, ts) => oracle.replayTick(price, ts),
+      (tokenId, trade) => orders.recordTrade(tokenId, trade),
+    );
+    const result: BacktestWindow = {
+      marketSlug: slug,
+      windowStart: win.start,
+      windowEnd: win.end,
+      direction: null,
+      resolutionSource: null,
+      ticks: 0,
+      trades: [],
+      pnl: 0,
+      skips: {},
+    };
+    const skip = (notice: FsmNotice | string) => {
+      const key = typeof notice === "string" ? notice : (notice.data.filter || notice.type);
+      result.skips[key] = (result.skips[key] || 0) + 1;
+    };
+
+    let state: FsmState = "MAKING";
+    let lastSeenBestBid = 0;
+    let oracleWindow: OracleWindow | null = null;
+
+    for (let t = win.start; t <= win.end; t = t === win.end ? t + 1 : Math.min(t + p.tickMs, win.end)) {
+      clock.setNow(t);
+      replay.advanceTo(t);
+      if (!oracleWindow) oracleWindow = oracle.windowAt(win.start);
+
+      const day = new Date(t).toDateString();
+      if (day !== simDay) {
+        simDay = day;
+        dailyPnl = 0;
+        consecutiveLosses = 0;
+      }
+
+      const books = replay.getBooks();
+      if (!books.up) continue;
+      result.ticks++;
+
+      orders.simulateFills(replay.getOrderBooks(), t);
+
+      const remaining = win.end - t;
+      const next = calculateFsmState(state, remaining, resolvePhaseThresholds(p.phaseSchedule, win.durationMs));
+      if (next !== state && (next === "CLOSE_ONLY" || next === "HEDGE_LOCK")) {
+        orders.cancelAll();
+      }
+      state = next;
+
+      if (state === "MAKING") {
+        const data = books.up;
+        const previousBestBid = lastSeenBestBid;
+        lastSeenBestBid = data.bestBid;
+
+        if (orders.getActiveOrders().length >= 1 || orders.getPositions().length > 0) continue;
+
+        const signal = oracle.getSignal(oracleWindow);
+        const tokenSide = getOracleAlignedSide(signal).tokenSide;
+        const entryPrice = tokenSide === "NO" ? books.down?.bestBid : data.bestBid;
+        if (entryPrice === undefined) { skip("noTokenDownData"); continue; }
+
+        const pipeline = evaluateEntryPipeline(p.entryFilters, {
+          data,
+          lastSeenBestBid: previousBestBid,
+          regime: regimeFilter.getRegime(data, replay.up, oracle),
+          signal,
+          oracleConnected: oracle.isConnected(),
+          tokenSide,
+          entryPrice,
+          fair: oracleFairValue(oracle, oracleWindow, remaining),
+          config: p,
+        });
+        if (pipeline.notice) { skip(pipeline.notice); continue; }
+        const sizing = pipeline.sizing;
+        if (!sizing || sizing.notice) { if (sizing?.notice) skip(sizing.notice); continue; }
+
+        const totalExposure = orders.getPositions().reduce((s, pos) => s + pos.size * pos.avgEntryPrice, 0);
+        const risk = evaluateRiskLimits(
+          { killSwitchActive: false, isActive: true, currentState: state, maxNetExposure: p.maxNetExposure, maxDailyLoss: p.maxDailyLoss, maxConsecutiveLosses: p.maxConsecutiveLosses },
+          { totalExposure, orderValue: sizing.size * entryPrice, dailyPnl, consecutiveLosses },
+        );
+        if (!risk.allowed) { skip("risk"); continue; }
+
+        orders.placeOrder({ tokenSide: tokenSide as "YES" | "NO", price: entryPrice, size: sizing.size, layer: sizing.layer, ts: t });
+      } else if (state === "UNWIND") {
+        orders.cancelAll();
+      } else if (state === "DONE") {
+        orders.cancelAll();
+        const signal = oracle.getSignal(oracleWindow);
+        if (signal.openingPrice > 0 && signal.currentPrice > 0) {
+          result.direction = signal.delta > 0 ? "UP" : "DOWN";
+          result.resolutionSource = "oracle";
+        } else {
+          result.direction = books.up.midpoint >= 0.5 ? "UP" : "DOWN";
+          result.resolutionSource = "book";
+        }
+
+        for (const pos of orders.takePositions()) {
+          const won = (pos.tokenSide === "YES") === (result.direction === "UP");
+          const exitPrice = won ? 1 : 0;
+          const grossPnl = parseFloat(((exitPrice - pos.avgEntryPrice) * pos.size).toFixed(4));
+          const trade: BacktestTrade = {
+            marketSlug: slug,
+            tokenSide: pos.tokenSide,
+            layer: pos.layer,
+            entryTs: pos.entryTs,
+            entryPrice: pos.avgEntryPrice,
+            size: pos.size,
+            fee: parseFloat(pos.fee.toFixed(6)),
+            exitPrice,
+            grossPnl,
+            pnl: parseFloat((grossPnl - pos.fee).toFixed(4)),
+            outcome: won ? "WON" : "LOST",
+          };
+          result.trades.push(trade);
+          result.pnl = parseFloat((result.pnl + trade.pnl).toFixed(4));
+
+          dailyPnl += trade.grossPnl;
+          consecutiveLosses = trade.grossPnl < 0 ? consecutiveLosses + 1 : 0;
+        }
+        break;
+      }
+    }
+
+    orders.cancelAll();
+    windows.push(result);
+
+    if (!p.ignoreRiskStops) {
+      if (consecutiveLosses >= p.maxConsecutiveLosses) {
+        halted = { reason: `Max consecutive losses (${p.maxConsecutiveLosses}) reached`, ts: win.end };
+      } else if (dailyPnl <= -p.maxDailyLoss && dayStops[dayStops.length - 1]?.day !== simDay) {
+        dayStops.push({ day: simDay, reason: `Daily loss limit ($${p.maxDailyLoss}) reached`, ts: win.end, skippedWindows: 0 });
+      }
+    }
+  }
+
+  const { metrics, equity } = computeBacktestMetrics(windows);
+  return {
+    strategy: "fsm",
+    params: p,
+    ranAt: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - startedAt,
+    halted,
+    dayStops,
+    windows,
+    equity,
+    metrics,
+  };
+}
@@ -1,5 +1,10 @@
 import WebSocket from "ws";
+import { isMainThread } from "worker_threads";
 import { storage } from "../storage";
+import { oracleRestUrl, oracleWsUrls } from "./endpoints";
+import { realClock, type Clock, type TimerHandle } from "./clock";
+import type { AssetType } from "../strategies/dualEntry5m/market-5m-discovery";
+import { CompositePriceFeed, type CompositePriceStatus, type PriceSourceSpec } from "./composite-price-feed";
 
 export type SignalDirection = "UP" | "DOWN" | "NEUTRAL";
 export type SignalStrength = "STRONG" | "WEAK" | "NONE";
@@ -16,59 +21,154 @@ export interface PriceSignal {
   volatility5m: number;
 }
 
+/**
+ * Opening reference of one market window. Each engine keeps its own, so
+ * concurrent windows or engines on the same asset's oracle never overwrite
+ * each other's opening price.
+ */
+export interface OracleWindow {
+  startMs: number;
+  openingPrice: number;
+  /** False when the price history did not reach back to the start and the current price stands in. */
+  aligned: boolean;
+}
+
 export interface OracleConfig {
+  /** Move from the window's opening price, in basis points, needed for a STRONG signal. */
   strongThreshold: number;
+  /** Move from the window's opening price, in basis points, needed for a WEAK signal. */
   weakThreshold: number;
   minConfidence: number;
   enabled: boolean;
+  /** Stream every source at once and trade on their median instead of the first one that connects. */
+  compositeMode: boolean;
+  /** Composite mode: healthy sources needed before a price or signal is emitted. */
+  minSources: number;
+  /** Composite mode: a source whose last price is older than this is ignored. */
+  maxStalenessMs: number;
+  /** Composite mode: a source further than this from the median (percent) is ignored. */
+  maxDivergencePct: number;
+}
+
+export interface OracleTick {
+  price: number;
+  ts: number;
+  source: string;
 }
 
+export type OracleTickCallback = (tick: OracleTick) => void;
+
+export interface OracleFeed {
+  /** Binance spot pair for the trade stream, e.g. "btcusdt". */
+  binanceSymbol: string | null;
+  /** Coinbase product polled by the REST fallback, e.g. "BTC-USD". */
+  coinbaseProduct: string | null;
+  /** CoinCap asset id, the last WS fallback. */
+  coincapId: string | null;
+}
+
+export const ORACLE_FEEDS: Record<AssetType, OracleFeed> = {
+  btc: { binanceSymbol: "btcusdt", coinbaseProduct: "BTC-USD", coincapId: "bitcoin" },
+  eth: { binanceSymbol: "ethusdt", coinbaseProduct: "ETH-USD", coincapId: "ethereum" },
+  sol: { binanceSymbol: "solusdt", coinbaseProduct: "SOL-USD", coincapId: "solana" },
+  xrp: { binanceSymbol: "xrpusdt", coinbaseProduct: "XRP-USD", coincapId: "xrp" },
+  doge: { binanceSymbol: "dogeusdt", coinbaseProduct: "DOGE-USD", coincapId: "dogecoin" },
+  bnb: { binanceSymbol: "bnbusdt", coinbaseProduct: null, coincapId: "binance-coin" },
+  link: { binanceSymbol: "linkusdt", coinbaseProduct: "LINK-USD", coincapId: "chainlink" },
+  // Equity market: no crypto feed, only reachable through an ORACLE_*_URL override.
+  mstr: { binanceSymbol: null, coinbaseProduct: null, coincapId: null },
+};
+
+// Thresholds are relative to the window's opening price, so the same defaults
+// fit every asset ($20 / $8 on a $100k BTC open).
 const DEFAULT_CONFIG: OracleConfig = {
-  strongThreshold: 20,
-  weakThreshold: 8,
+  strongThreshold: 2,
+  weakThreshold: 0.8,
   minConfidence: 0.35,
   enabled: true,
+  compositeMode: process.env.ORACLE_COMPOSITE_MODE === "true",
+  minSources: 2,
+  maxStalenessMs: 5000,
+  maxDivergencePct: 0.15,
 };
 
-const WS_ENDPOINTS = [
-  "wss://stream.binance.com:9443/ws/btcusdt@trade",
-  "wss://stream.binance.us:9443/ws/btcusdt@trade",
-  "wss://ws.coincap.io/prices?assets=bitcoin",
-];
-
-const REST_FALLBACK_URL = "https://api.coinbase.com/v2/prices/BTC-USD/spot";
 const REST_FALLBACK_INTERVAL_MS = 2000;
+/** Move from the opening price (basis points) at which the price term of the confidence saturates. */
+const FULL_CONFIDENCE_BPS = 5;
+
+/** Decimals worth showing for a price: cents for BTC, more for sub-dollar assets. */
+function priceDecimals(price: number): number {
+  return price > 0 ? Math.max(2, 4 - Math.floor(Math.log10(price))) : 2;
+}
 
 export class BinanceOracle {
   private ws: WebSocket | null = null;
-  private openingPrice = 0;
   private currentPrice = 0;
   private priceBuffer: { price: number; ts: number }[] = [];
-  private windowStartTime = 0;
+  /** Last price of each second, kept long enough to look up the open of any live window. */
+  private priceHistory: { price: number; ts: number }[] = [];
   private connected = false;
-  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: TimerHandle | null = null;
   private reconnectAttempts = 0;
-  private config: OracleConfig = { ...DEFAULT_CONFIG };
+  private config: OracleConfig;
   private lastLogTime = 0;
   private readonly BUFFER_MAX_SIZE = 3000;
+  private readonly HISTORY_RETENTION_MS = 20 * 60 * 1000;
+  /** A looked-up price further than this from the requested timestamp means the feed was down then. */
+  private readonly HISTORY_MAX_GAP_MS = 5000;
   private readonly RECONNECT_BASE_MS = 2000;
   private readonly RECONNECT_MAX_MS = 30000;
   private currentEndpointIndex = 0;
   private geoBlockedEndpoints = new Set<number>();
-  private restPollingTimer: ReturnType<typeof setInterval> | null = null;
+  private restPollingTimer: TimerHandle | null = null;
   private activeSource: string = "none";
-  private wsConnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private wsConnectTimeout: TimerHandle | null = null;
   private manuallyDisconnected = false;
+  private started = false;
+  private composite: CompositePriceFeed | null = null;
   private wsLatencyMs = -1;
   private wsPingSentAt = 0;
-  private wsPingTimer: ReturnType<typeof setInterval> | null = null;
+  private wsPingTimer: TimerHandle | null = null;
+  private onTickCallbacks: OracleTickCallback[] = [];
+
+  private readonly feed: OracleFeed;
+  private readonly wsUrls: string[];
+  private readonly restUrl: string | null;
+  private readonly tag: string;
+
+  constructor(private readonly clock: Clock = realClock, readonly asset: AssetType = "btc") {
+    this.feed = ORACLE_FEEDS[asset];
+    this.wsUrls = oracleWsUrls(asset, this.feed.binanceSymbol, this.feed.coincapId);
+    this.restUrl = oracleRestUrl(asset, this.feed.coinbaseProduct);
+    this.config = { ...DEFAULT_CONFIG };
+    this.tag = asset === "btc" ? "[BinanceOracle]" : `[BinanceOracle:${asset.toUpperCase()}]`;
+  }
+
+  /** True once connect() has been called, even if a later disconnect() stopped the feed. */
+  hasStarted(): boolean {
+    return this.started;
+  }
+
+  /** False when neither a stream nor a REST endpoint is known for the asset. */
+  isSupported(): boolean {
+    return this.wsUrls.length > 0 || this.restUrl !== null;
+  }
+
+  onTick(cb: OracleTickCallback): void {
+    this.onTickCallbacks.push(cb);
+  }
 
   getConfig(): OracleConfig {
     return { ...this.config };
   }
 
   updateConfig(partial: Partial<OracleConfig>): void {
-    this.config = { ...this.config, ...partial };
+    const wasComposite = this.config.compositeMode;
+    const defined = Object.fromEntries(Object.entries(partial).filter(([, v]) => v !== undefined));
+    this.config = { ...this.config, ...defined };
+    if (this.config.compositeMode !== wasComposite && this.started && !this.manuallyDisconnected) {
+      this.connect();
+    }
   }
 
   getActiveSource(): string {
@@ -76,12 +176,52 @@ export class BinanceOracle {
   }
 
   connect(): void {
+    if (!this.isSupported()) {
+      console.log(`${this.tag} No price feed configured for ${this.asset.toUpperCase()}, oracle stays offline`);
+      return;
+    }
+    this.started = true;
     this.manuallyDisconnected = false;
-    if (this.ws) {
+    if (this.ws || this.composite) {
       this.disconnect();
       this.manuallyDisconnected = false;
     }
-    this.tryNextWebSocket();
+    if (this.config.compositeMode) {
+      this.startComposite();
+    } else {
+      this.tryNextWebSocket();
+    }
+  }
+
+  private startComposite(): void {
+    const sources: PriceSourceSpec[] = this.wsUrls.map(url => ({ name: this.sourceNameFor(url), url, kind: "ws" as const }));
+    if (this.restUrl) sources.push({ name: "coinbase-rest", url: this.restUrl, kind: "rest" });
+
+    this.composite = new CompositePriceFeed({
+      clock: this.clock,
+      sources,
+      parseWsMessage: (data) => {
+        const price = this.parsePriceMessage(data);
+        return price ? { price, ts: typeof data.T === "number" ? data.T : null } : null;
+      },
+      config: () => this.config,
+      onPrice: (price, ts) => this.ingestPrice(price, ts),
+      logTag: this.tag,
+    });
+    this.activeSource = "composite";
+    this.composite.start();
+  }
+
+  private sourceNameFor(url: string): string {
+    return url.includes("binance.com") ? "binance.com" :
+           url.includes("binance.us") ? "binance.us" :
+           url.includes("coincap") ? "coincap" : "ws";
+  }
+
+  private parsePriceMessage(data: any): number | null {
+    if (data.p) return parseFloat(data.p);
+    if (this.feed.coincapId && data[this.feed.coincapId]) return parseFloat(data[this.feed.coincapId]);
+    return null;
   }
 
   private tryNextWebSocket(): void {
@@ -89,33 +229,31 @@ export class BinanceOracle {
 
     while (this.geoBlockedEndpoints.has(this.currentEndpointIndex)) {
       this.currentEndpointIndex++;
-      if (this.currentEndpointIndex >= WS_ENDPOINTS.length) {
-        console.log("[BinanceOracle] All WebSocket endpoints geo-blocked, falling back to REST polling");
+      if (this.currentEndpointIndex >= this.wsUrls.length) {
+        console.log(`${this.tag} All WebSocket endpoints geo-blocked, falling back to REST polling`);
         this.startRestPolling();
         return;
       }
     }
 
-    if (this.currentEndpointIndex >= WS_ENDPOINTS.length) {
-      console.log("[BinanceOracle] All WebSocket endpoints exhausted, falling back to REST polling");
+    if (this.currentEndpointIndex >= this.wsUrls.length) {
+      console.log(`${this.tag} All WebSocket endpoints exhausted, falling back to REST polling`);
       this.startRestPolling();
       return;
     }
 
-    const url = WS_ENDPOINTS[this.currentEndpointIndex];
+    const url = this.wsUrls[this.currentEndpointIndex];
     const endpointIdx = this.currentEndpointIndex;
-    const sourceName = url.includes("binance.com") ? "binance.com" :
-                       url.includes("binance.us") ? "binance.us" :
-                       url.includes("coincap") ? "coincap" : "ws";
+    const sourceName = this.sourceNameFor(url);
 
-    console.log(`[BinanceOracle] Trying ${sourceName}: ${url}`);
+    console.log(`${this.tag} Trying ${sourceName}: ${url}`);
 
     try {
       this.ws = new WebSocket(url);
 
-      this.wsConnectTimeout = setTimeout(() => {
+      this.wsConnectTimeout = this.clock.setTimeout(() => {
         if (!this.connected && this.ws) {
-          console.log(`[BinanceOracle] Connection timeout for ${sourceName}, trying next`);
+          console.log(`${this.tag} Connection timeout for ${sourceName}, trying next`);
           this.ws.removeAllListeners();
           try { this.ws.close(); } catch {}
           this.ws = null;
@@ -126,18 +264,18 @@ export class BinanceOracle {
 
       this.ws.on("open", () => {
         if (this.wsConnectTimeout) {
-          clearTimeout(this.wsConnectTimeout);
+          this.clock.clearTimeout(this.wsConnectTimeout);
           this.wsConnectTimeout = null;
         }
         this.connected = true;
         this.reconnectAttempts = 0;
         this.activeSource = sourceName;
-        console.log(`[BinanceOracle] Connected via ${sourceName}`);
+        console.log(`${this.tag} Connected via ${sourceName}`);
 
-        if (this.wsPingTimer) clearInterval(this.wsPingTimer);
-        this.wsPingTimer = setInterval(() => {
+        if (this.wsPingTimer) this.clock.clearInterval(this.wsPingTimer);
+        this.wsPingTimer = this.clock.setInterval(() => {
           if (this.ws?.readyState === WebSocket.OPEN) {
-            this.wsPingSentAt = Date.now();
+            this.wsPingSentAt = this.clock.now();
             try { this.ws.ping(); } catch {}
           }
         }, 15_000);
@@ -145,7 +283,7 @@ export class BinanceOracle {
 
       this.ws.on("pong", () => {
         if (this.wsPingSentAt > 0) {
-          this.wsLatencyMs = Date.now() - this.wsPingSentAt;
+          this.wsLatencyMs = this.clock.now() - this.wsPingSentAt;
           this.wsPingSentAt = 0;
         }
       });
@@ -153,33 +291,21 @@ export class BinanceOracle {
       this.ws.on("message", (raw: Buffer) => {
         try {
           const data = JSON.parse(raw.toString());
-          let price: number | null = null;
-
-          if (data.p) {
-            price = parseFloat(data.p);
-          } else if (data.bitcoin) {
-            price = parseFloat(data.bitcoin);
-          }
+          const price = this.parsePriceMessage(data);
 
           if (price && price > 0) {
-            const ts = data.T || Date.now();
-            this.currentPrice = price;
-            this.priceBuffer.push({ price, ts });
-
-            if (this.priceBuffer.length > this.BUFFER_MAX_SIZE) {
-              this.priceBuffer = this.priceBuffer.slice(-this.BUFFER_MAX_SIZE);
-            }
+            this.ingestPrice(price, data.T || this.clock.now());
           }
         } catch {}
       });
 
       this.ws.on("close", (code: number) => {
         if (this.wsConnectTimeout) {
-          clearTimeout(this.wsConnectTimeout);
+          this.clock.clearTimeout(this.wsConnectTimeout);
           this.wsConnectTimeout = null;
         }
         if (this.wsPingTimer) {
-          clearInterval(this.wsPingTimer);
+          this.clock.clearInterval(this.wsPingTimer);
           this.wsPingTimer = null;
         }
         this.wsPingSentAt = 0;
@@ -187,20 +313,20 @@ export class BinanceOracle {
         this.connected = false;
         this.activeSource = "none";
         if (!this.manuallyDisconnected) {
-          console.log(`[BinanceOracle] ${sourceName} closed (code=${code}), scheduling reconnect`);
+          console.log(`${this.tag} ${sourceName} closed (code=${code}), scheduling reconnect`);
           this.scheduleReconnect();
         }
       });
 
       this.ws.on("error", (err: Error) => {
         if (this.wsConnectTimeout) {
-          clearTimeout(this.wsConnectTimeout);
+          this.clock.clearTimeout(this.wsConnectTimeout);
           this.wsConnectTimeout = null;
         }
         this.connected = false;
 
         if (err.message.includes("451") || err.message.includes("403")) {
-          console.log(`[BinanceOracle] ${sourceName} geo-blocked (${err.message}), trying next source`);
+          console.log(`${this.tag} ${sourceName} geo-blocked (${err.message}), trying next source`);
           this.geoBlockedEndpoints.add(endpointIdx);
           if (this.ws) {
             this.ws.removeAllListeners();
@@ -210,57 +336,110 @@ export class BinanceOracle {
           this.currentEndpointIndex++;
           this.tryNextWebSocket();
         } else {
-          console.error(`[BinanceOracle] ${sourceName} error: ${err.message}`);
+          console.error(`${this.tag} ${sourceName} error: ${err.message}`);
         }
       });
     } catch (err: any) {
-      console.error(`[BinanceOracle] Failed to connect to ${sourceName}: ${err.message}`);
+      console.error(`${this.tag} Failed to connect to ${sourceName}: ${err.message}`);
       this.currentEndpointIndex++;
       this.tryNextWebSocket();
     }
   }
 
+  private ingestPrice(price: number, ts: number): void {
+    this.currentPrice = price;
+    this.priceBuffer.push({ price, ts });
+
+    if (this.priceBuffer.length > this.BUFFER_MAX_SIZE) {
+      this.priceBuffer = this.priceBuffer.slice(-this.BUFFER_MAX_SIZE);
+    }
+
+    const last = this.priceHistory[this.priceHistory.length - 1];
+    if (last && Math.floor(last.ts / 1000) === Math.floor(ts / 1000)) {
+      last.price = price;
+      last.ts = ts;
+    } else if (!last || ts > last.ts) {
+      this.priceHistory.push({ price, ts });
+      while (this.priceHistory[0].ts < ts - this.HISTORY_RETENTION_MS) this.priceHistory.shift();
+    }
+
+    for (const cb of this.onTickCallbacks) {
+      try { cb({ price, ts, source: this.activeSource }); } catch {}
+    }
+  }
+
+  /**
+   * Prepends persisted ticks from before this process started, so volatility
+   * reads are warm from the first live tick. Ticks newer than the buffer's
+   * oldest entry are ignored; listeners are not notified.
+   */
+  seedTicks(ticks: { price: number; ts: number }[]): number {
+    const firstLive = this.priceBuffer.length > 0 ? this.priceBuffer[0].ts : Infinity;
+    const older = ticks.filter(t => t.price > 0 && t.ts < firstLive).sort((a, b) => a.ts - b.ts);
+    if (older.length === 0) return 0;
+
+    this.priceBuffer = [...older, ...this.priceBuffer].slice(-this.BUFFER_MAX_SIZE);
+
+    const firstHistory = this.priceHistory.length > 0 ? this.priceHistory[0].ts : Infinity;
+    const cutoff = this.clock.now() - this.HISTORY_RETENTION_MS;
+    const seconds: { price: number; ts: number }[] = [];
+    for (const t of older) {
+      if (t.ts < cutoff || t.ts >= firstHistory) continue;
+      const last = seconds[seconds.length - 1];
+      if (last && Math.floor(last.ts / 1000) === Math.floor(t.ts / 1000)) {
+        last.price = t.price;
+        last.ts = t.ts;
+      } else {
+        seconds.push({ price: t.price, ts: t.ts });
+      }
+    }
+    this.priceHistory = [...seconds, ...this.priceHistory];
+    return older.length;
+  }
+
+  /** Feeds a recorded tick into an offline instance (backtests); never used on the live singleton. */
+  replayTick(price: number, ts: number): void {
+    this.connected = true;
+    this.activeSource = "replay";
+    this.ingestPrice(price, ts);
+  }
+
   private startRestPolling(): void {
-    if (this.restPollingTimer) return;
+    if (this.restPollingTimer || !this.restUrl) return;
 
     this.activeSource = "coinbase-rest";
-    console.log("[BinanceOracle] Starting REST polling via Coinbase API");
+    console.log(`${this.tag} Starting REST polling via ${this.restUrl}`);
 
     this.fetchRestPrice();
 
-    this.restPollingTimer = setInterval(() => {
+    this.restPollingTimer = this.clock.setInterval(() => {
       this.fetchRestPrice();
     }, REST_FALLBACK_INTERVAL_MS);
   }
 
   private async fetchRestPrice(): Promise<void> {
+    if (!this.restUrl) return;
     try {
-      const resp = await fetch(REST_FALLBACK_URL);
+      const resp = await fetch(this.restUrl);
       if (!resp.ok) {
         throw new Error(`HTTP ${resp.status}`);
       }
       const data = await resp.json() as any;
       const price = parseFloat(data?.data?.amount);
       if (price && price > 0) {
-        this.currentPrice = price;
         this.connected = true;
-        const ts = Date.now();
-        this.priceBuffer.push({ price, ts });
-
-        if (this.priceBuffer.length > this.BUFFER_MAX_SIZE) {
-          this.priceBuffer = this.priceBuffer.slice(-this.BUFFER_MAX_SIZE);
-        }
+        this.ingestPrice(price, this.clock.now());
       }
     } catch (err: any) {
       if (!this.connected) {
-        console.error(`[BinanceOracle] REST fallback error: ${err.message}`);
+        console.error(`${this.tag} REST fallback error: ${err.message}`);
       }
     }
   }
 
   private stopRestPolling(): void {
     if (this.restPollingTimer) {
-      clearInterval(this.restPollingTimer);
+      this.clock.clearInterval(this.restPollingTimer);
       this.restPollingTimer = null;
     }
   }
@@ -272,8 +451,8 @@ export class BinanceOracle {
       this.RECONNECT_BASE_MS * Math.pow(2, this.reconnectAttempts - 1),
       this.RECONNECT_MAX_MS
     );
-    console.log(`[BinanceOracle] Reconnect attempt ${this.reconnectAttempts} in ${Math.round(delay / 1000)}s`);
-    this.reconnectTimer = setTimeout(() => {
+    console.log(`${this.tag} Reconnect attempt ${this.reconnectAttempts} in ${Math.round(delay / 1000)}s`);
+    this.reconnectTimer = this.clock.setTimeout(() => {
       this.reconnectTimer = null;
       this.currentEndpointIndex = 0;
       this.geoBlockedEndpoints.clear();
@@ -284,18 +463,22 @@ export class BinanceOracle {
   disconnect(): void {
     this.manuallyDisconnected = true;
     if (this.wsConnectTimeout) {
-      clearTimeout(this.wsConnectTimeout);
+      this.clock.clearTimeout(this.wsConnectTimeout);
       this.wsConnectTimeout = null;
     }
     if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
+      this.clock.clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
     if (this.wsPingTimer) {
-      clearInterval(this.wsPingTimer);
+      this.clock.clearInterval(this.wsPingTimer);
       this.wsPingTimer = null;
     }
     this.stopRestPolling();
+    if (this.composite) {
+      this.composite.stop();
+      this.composite = null;
+    }
     if (this.ws) {
       this.ws.removeAllListeners();
       try { this.ws.close(); } catch {}
@@ -306,44 +489,59 @@ export class BinanceOracle {
     this.wsLatencyMs = -1;
   }
 
-  markWindowStart(): void {
-    const nowMs = Date.now();
-    const nowSec = Math.floor(nowMs / 1000);
-    const intervalSec = 300;
-    const boundaryTimestamp = nowSec - (nowSec % intervalSec);
-    const boundaryMs = boundaryTimestamp * 1000;
+  /**
+   * Price in force at `ts`: the last tick at or before it, else the first tick
+   * just after it. Null when the history does not reach back to `ts` or the feed
+   * had a gap there.
+   */
+  getPriceAt(ts: number): { price: number; ts: number } | null {
+    const history = this.priceHistory;
+    if (history.length === 0 || history[0].ts > ts + this.HISTORY_MAX_GAP_MS) return null;
+
+    let lo = 0;
+    let hi = history.length - 1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (history[mid].ts <= ts) lo = mid;
+      else hi = mid - 1;
+    }
 
-    const nearBoundary = this.priceBuffer.filter(
-      p => Math.abs(p.ts - boundaryMs) < 5000
-    );
+    const before = history[lo].ts <= ts ? history[lo] : null;
+    if (before && ts - before.ts <= this.HISTORY_MAX_GAP_MS) return before;
+    const after = before ? history[lo + 1] : history[0];
+    if (after && after.ts - ts <= this.HISTORY_MAX_GAP_MS) return after;
+    return null;
+  }
 
-    if (nearBoundary.length > 0) {
-      nearBoundary.sort((a, b) => Math.abs(a.ts - boundaryMs) - Math.abs(b.ts - boundaryMs));
-      this.openingPrice = nearBoundary[0].price;
-      this.windowStartTime = boundaryMs;
-      console.log(`[BinanceOracle] Window start aligned to boundary: opening=$${this.openingPrice.toFixed(2)} (from buffer, ${Math.abs(nearBoundary[0].ts - boundaryMs)}ms from boundary)`);
-    } else if (this.currentPrice > 0) {
-      this.openingPrice = this.currentPrice;
-      this.windowStartTime = nowMs;
-      console.log(`[BinanceOracle] Window start marked (no boundary data): opening=$${this.openingPrice.toFixed(2)}`);
-    }
+  /**
+   * Opening reference for the window starting at `intervalStartMs`: the price in
+   * force then, or the current price (aligned=false) when the history does not
+   * cover it. Leaves the oracle untouched.
+   */
+  windowAt(intervalStartMs: number): OracleWindow {
+    const at = this.getPriceAt(intervalStartMs);
+    if (at) return { startMs: intervalStartMs, openingPrice: at.price, aligned: true };
+    return { startMs: intervalStartMs, openingPrice: this.currentPrice, aligned: false };
   }
 
-  setOpeningPrice(price: number): void {
-    this.openingPrice = price;
-    this.windowStartTime = Date.now();
+  /** Window of the interval boundary containing now, for callers without a known interval start. */
+  currentWindow(intervalMs = 300_000): OracleWindow {
+    const nowMs = this.clock.now();
+    return this.windowAt(nowMs - (nowMs % intervalMs));
   }
 
-  getSignal(marketElapsedMs?: number): PriceSignal {
-    const elapsed = marketElapsedMs ?? (this.windowStartTime > 0 ? Date.now() - this.windowStartTime : 0);
+  getSignal(window: OracleWindow = this.currentWindow()): PriceSignal {
+    const openingPrice = window.openingPrice;
+    const elapsed = Math.max(0, this.clock.now() - window.startMs);
 
-    if (!this.config.enabled || this.currentPrice === 0 || this.openingPrice === 0) {
+    const noQuorum = this.composite !== null && !this.composite.hasQuorum();
+    if (!this.config.enabled || noQuorum || this.currentPrice === 0 || openingPrice === 0) {
       return {
         direction: "NEUTRAL",
         strength: "NONE",
         confidence: 0,
         delta: 0,
-        openingPrice: this.openingPrice,
+        openingPrice,
         currentPrice: this.currentPrice,
         elapsedMs: elapsed,
         btcPrice: this.currentPrice,
@@ -351,22 +549,22 @@ export class BinanceOracle {
       };
     }
 
-    const delta = this.currentPrice - this.openingPrice;
-    const absDelta = Math.abs(delta);
+    const delta = this.currentPrice - openingPrice;
+    const moveBps = Math.abs(delta) / openingPrice * 10_000;
 
     const timeFactor = Math.min(1, elapsed / 180000);
-    const priceFactor = Math.min(1, absDelta / 50);
-    const consistency = this.getDirectionConsistency();
+    const priceFactor = Math.min(1, moveBps / FULL_CONFIDENCE_BPS);
+    const consistency = this.getDirectionConsistency(openingPrice);
 
     const confidence = (priceFactor * 0.5) + (timeFactor * 0.2) + (consistency * 0.3);
 
     let direction: SignalDirection = "NEUTRAL";
     let strength: SignalStrength = "NONE";
 
-    if (absDelta >= this.config.strongThreshold && confidence >= 0.55) {
+    if (moveBps >= this.config.strongThreshold && confidence >= 0.55) {
       direction = delta > 0 ? "UP" : "DOWN";
       strength = "STRONG";
-    } else if (absDelta >= this.config.weakThreshold && confidence >= this.config.minConfidence) {
+    } else if (moveBps >= this.config.weakThreshold && confidence >= this.config.minConfidence) {
       direction = delta > 0 ? "UP" : "DOWN";
       strength = "WEAK";
     }
@@ -375,8 +573,8 @@ export class BinanceOracle {
       direction,
       strength,
       confidence: parseFloat(confidence.toFixed(4)),
-      delta: parseFloat(delta.toFixed(2)),
-      openingPrice: this.openingPrice,
+      delta: parseFloat(delta.toFixed(priceDecimals(openingPrice))),
+      openingPrice,
       currentPrice: this.currentPrice,
       elapsedMs: elapsed,
       btcPrice: this.currentPrice,
@@ -384,13 +582,13 @@ export class BinanceOracle {
     };
   }
 
-  private getDirectionConsistency(): number {
-    const now = Date.now();
+  private getDirectionConsistency(openingPrice: number): number {
+    const now = this.clock.now();
     const recent = this.priceBuffer.filter(p => now - p.ts < 30000);
     if (recent.length < 5) return 0.5;
 
     let sameDirection = 0;
-    const overallDelta = this.currentPrice - this.openingPrice;
+    const overallDelta = this.currentPrice - openingPrice;
     const overallDir = overallDelta > 0 ? 1 : overallDelta < 0 ? -1 : 0;
 
     for (let i = 1; i < recent.length; i++) {
@@ -404,7 +602,7 @@ export class BinanceOracle {
   }
 
   getVolatility(windowMinutes: number): number {
-    const now = Date.now();
+    const now = this.clock.now();
     const cutoff = now - windowMinutes * 60 * 1000;
     const prices = this.priceBuffer.filter(p => p.ts >= cutoff).map(p => p.price);
 
@@ -416,8 +614,28 @@ export class BinanceOracle {
     return parseFloat(Math.sqrt(variance).toFixed(4));
   }
 
+  /**
+   * Per-second stdev of log returns over the window, from the last price of each
+   * second (`priceHistory`) so trade-by-trade bounce does not inflate it and the
+   * tick buffer's size cap does not shorten the window. Windows are limited to the
+   * history retention (20 min). Feeds the fair-value model.
+   */
+  getRealizedVolatility(windowMinutes: number): number {
+    const cutoff = this.clock.now() - windowMinutes * 60 * 1000;
+    const samples = this.priceHistory.filter(p => p.ts >= cutoff);
+    if (samples.length < 3) return 0;
+
+    let sumSquares = 0;
+    for (let i = 1; i < samples.length; i++) {
+      const r = Math.log(samples[i].price / samples[i - 1].price);
+      sumSquares += r * r;
+    }
+    const spanSec = (samples[samples.length - 1].ts - samples[0].ts) / 1000;
+    return spanSec > 0 ? Math.sqrt(sumSquares / spanSec) : 0;
+  }
+
   getRangeVolatility(windowMinutes: number): number {
-    const now = Date.now();
+    const now = this.clock.now();
     const cutoff = now - windowMinutes * 60 * 1000;
     const prices = this.priceBuffer.filter(p => p.ts >= cutoff).map(p => p.price);
 
@@ -434,19 +652,16 @@ export class BinanceOracle {
     return this.currentPrice;
   }
 
-  getOpeningPrice(): number {
-    return this.openingPrice;
-  }
-
   isConnected(): boolean {
-    return this.connected;
+    return this.composite ? this.composite.isConnected() : this.connected;
   }
 
   getWsLatencyMs(): number {
     return this.wsLatencyMs;
   }
 
-  getStatus(): {
+  getStatus(window: OracleWindow = this.currentWindow()): {
+    asset: AssetType;
     connected: boolean;
     btcPrice: number;
     openingPrice: number;
@@ -456,27 +671,85 @@ export class BinanceOracle {
     signal: PriceSignal;
     source: string;
     wsLatencyMs: number;
+    /** Per-source prices, lag and divergence while composite mode runs; null otherwise. */
+    composite: CompositePriceStatus | null;
   } {
-    const signal = this.getSignal();
+    const signal = this.getSignal(window);
     return {
-      connected: this.connected,
+      asset: this.asset,
+      connected: this.isConnected(),
       btcPrice: this.currentPrice,
-      openingPrice: this.openingPrice,
-      delta: parseFloat((this.currentPrice - this.openingPrice).toFixed(2)),
+      openingPrice: window.openingPrice,
+      delta: window.openingPrice > 0 ? parseFloat((this.currentPrice - window.openingPrice).toFixed(priceDecimals(window.openingPrice))) : 0,
       bufferSize: this.priceBuffer.length,
       volatility5m: this.getVolatility(5),
       signal,
       source: this.activeSource,
       wsLatencyMs: this.wsLatencyMs,
+      composite: this.composite ? this.composite.getStatus() : null,
     };
   }
 }
 
-export const binanceOracle = new BinanceOracle();
+export type OracleRegistryTickCallback = (asset: AssetType, tick: OracleTick) => void;
+
+/**
+ * One oracle per underlying, created on first use. Consumers look up the oracle
+ * matching the market they trade instead of assuming BTC.
+ */
+export class OracleRegistry {
+  private oracles: Map<AssetType, BinanceOracle> = new Map();
+  private onTickCallbacks: OracleRegistryTickCallback[] = [];
+
+  constructor(private readonly clock: Clock = realClock) {}
+
+  get(asset: AssetType = "btc"): BinanceOracle {
+    let oracle = this.oracles.get(asset);
+    if (!oracle) {
+      oracle = new BinanceOracle(this.clock, asset);
+      oracle.onTick((tick) => {
+        for (const cb of this.onTickCallbacks) {
+          try { cb(asset, tick); } catch {}
+        }
+      });
+      this.oracles.set(asset, oracle);
+    }
+    return oracle;
+  }
+
+  /**
+   * Returns the asset's oracle, connecting it the first time it is used. An oracle
+   * stopped through disconnect() stays stopped.
+   */
+  ensureConnected(asset: AssetType): BinanceOracle {
+    const oracle = this.get(asset);
+    if (!oracle.hasStarted()) oracle.connect();
+    return oracle;
+  }
 
-setTimeout(() => {
-  if (!binanceOracle.isConnected()) {
-    binanceOracle.connect();
-    console.log("[BinanceOracle] Auto-connecting on module load");
+  has(asset: AssetType): boolean {
+    return this.oracles.has(asset);
   }
-}, 2000);
+
+  list(): BinanceOracle[] {
+    return Array.from(this.oracles.values());
+  }
+
+  /** Subscribes to ticks from every oracle, including ones created later. */
+  onTick(cb: OracleRegistryTickCallback): void {
+    this.onTickCallbacks.push(cb);
+  }
+}
+
+export const oracleRegistry = new OracleRegistry();
+export const binanceOracle = oracleRegistry.get("btc");
+
+// Optimizer worker threads import this module for backtests only; they must not open feeds.
+if (isMainThread) {
+  setTimeout(() => {
+    if (!binanceOracle.hasStarted()) {
+      binanceOracle.connect();
+      console.log("[BinanceOracle] Auto-connecting on module load");
+    }
+  }, 2000);
+}
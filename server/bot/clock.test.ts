@@ -0,0 +1,111 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SimulatedClock } from "./clock";
+
+test("advanceTo fires due timers in due order with now() at each due time", () => {
+  const clock = new SimulatedClock(1000);
+  const seen: [string, number][] = [];
+  clock.setTimeout(() => seen.push(["b", clock.now()]), 300);
+  clock.setTimeout(() => seen.push(["a", clock.now()]), 100);
+  clock.setTimeout(() => seen.push(["late", clock.now()]), 900);
+
+  assert.equal(clock.advanceTo(1500), 2);
+  assert.deepEqual(seen, [["a", 1100], ["b", 1300]]);
+  assert.equal(clock.now(), 1500);
+  assert.equal(clock.pendingTimers(), 1);
+  assert.equal(clock.nextTimerAt(), 1900);
+});
+
+test("timers due at the same timestamp fire in creation order", () => {
+  const clock = new SimulatedClock();
+  const seen: number[] = [];
+  for (const n of [1, 2, 3]) clock.setTimeout(() => seen.push(n), 50);
+  clock.setTimeout(() => seen.push(0), 10);
+
+  clock.advance(50);
+  assert.deepEqual(seen, [0, 1, 2, 3]);
+});
+
+test("a timer scheduled by a callback fires in the same advance when due", () => {
+  const clock = new SimulatedClock();
+  const seen: number[] = [];
+  clock.setTimeout(() => {
+    seen.push(clock.now());
+    clock.setTimeout(() => seen.push(clock.now()), 20);
+  }, 10);
+
+  assert.equal(clock.advanceTo(40), 2);
+  assert.deepEqual(seen, [10, 30]);
+});
+
+test("intervals re-arm from their due time", () => {
+  const clock = new SimulatedClock();
+  const seen: number[] = [];
+  const handle = clock.setInterval(() => seen.push(clock.now()), 100);
+
+  assert.equal(clock.advanceTo(350), 3);
+  assert.deepEqual(seen, [100, 200, 300]);
+  assert.equal(clock.nextTimerAt(), 400);
+
+  clock.clearInterval(handle);
+  assert.equal(clock.advance(1000), 0);
+  assert.equal(clock.pendingTimers(), 0);
+});
+
+test("clearing inside a callback stops the interval and skips a tied timer", () => {
+  const clock = new SimulatedClock();
+  const seen: string[] = [];
+  let ticks = 0;
+  const interval = clock.setInterval(() => {
+    seen.push(`tick@${clock.now()}`);
+    if (++ticks === 2) clock.clearInterval(interval);
+  }, 100);
+  const tied = clock.setTimeout(() => seen.push("tied"), 200);
+  clock.setTimeout(() => clock.clearTimeout(tied), 150);
+
+  clock.advanceTo(1000);
+  assert.deepEqual(seen, ["tick@100", "tick@200"]);
+  assert.equal(clock.pendingTimers(), 0);
+});
+
+test("a throwing callback does not stop later timers", () => {
+  const clock = new SimulatedClock();
+  const seen: number[] = [];
+  const error = console.error;
+  console.error = () => {};
+  try {
+    clock.setTimeout(() => { throw new Error("boom"); }, 10);
+    clock.setTimeout(() => seen.push(clock.now()), 20);
+    assert.equal(clock.advance(20), 2);
+  } finally {
+    console.error = error;
+  }
+  assert.deepEqual(seen, [20]);
+});
+
+test("runTo lets each timer's promise chain settle before the next fires", async () => {
+  const clock = new SimulatedClock();
+  const seen: string[] = [];
+  clock.setTimeout(async () => {
+    seen.push("first start");
+    await Promise.resolve();
+    seen.push("first end");
+  }, 10);
+  clock.setTimeout(() => seen.push("second"), 10);
+
+  assert.equal(await clock.runTo(10), 2);
+  assert.deepEqual(seen, ["first start", "first end", "second"]);
+  assert.equal(clock.now(), 10);
+});
+
+test("the clock never moves backwards and setNow fires nothing", () => {
+  const clock = new SimulatedClock(500);
+  let fired = 0;
+  clock.setTimeout(() => fired++, 100);
+
+  clock.advanceTo(200);
+  assert.equal(clock.now(), 500);
+  clock.setNow(10_000);
+  assert.equal(fired, 0);
+  assert.equal(clock.advance(0), 1);
+});
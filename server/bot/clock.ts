@@ -0,0 +1,138 @@
+export type TimerHandle = ReturnType<typeof setTimeout> | number;
+
+/**
+ * Time source and timer scheduler shared by the engines, the oracle and market
+ * discovery. Live code runs on `realClock`; tests and replays pass a
+ * SimulatedClock and move time forward themselves.
+ */
+export interface Clock {
+  now(): number;
+  setTimeout(fn: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle | null): void;
+  setInterval(fn: () => void, ms: number): TimerHandle;
+  clearInterval(handle: TimerHandle | null): void;
+}
+
+export const realClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (handle) => { if (handle !== null) clearTimeout(handle as ReturnType<typeof setTimeout>); },
+  setInterval: (fn, ms) => setInterval(fn, ms),
+  clearInterval: (handle) => { if (handle !== null) clearInterval(handle as ReturnType<typeof setInterval>); },
+};
+
+interface SimulatedTimer {
+  id: number;
+  dueAt: number;
+  fn: () => void;
+  /** Re-arm period for intervals; null for one-shot timeouts. */
+  every: number | null;
+}
+
+/**
+ * Manually advanced clock. Timers only fire inside `advance`/`advanceTo`, in due
+ * order (ties by creation order), with `now()` set to each timer's due time while
+ * it runs, so window boundaries land on exact timestamps.
+ */
+export class SimulatedClock implements Clock {
+  private current: number;
+  private timers: Map<number, SimulatedTimer> = new Map();
+  private nextId = 1;
+
+  constructor(start = 0) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimeout(fn: () => void, ms: number): TimerHandle {
+    return this.schedule(fn, ms, null);
+  }
+
+  setInterval(fn: () => void, ms: number): TimerHandle {
+    return this.schedule(fn, ms, Math.max(1, ms));
+  }
+
+  clearTimeout(handle: TimerHandle | null): void {
+    if (typeof handle === "number") this.timers.delete(handle);
+  }
+
+  clearInterval(handle: TimerHandle | null): void {
+    this.clearTimeout(handle);
+  }
+
+  /** Moves the clock without firing anything, e.g. back to the start of another recorded window. */
+  setNow(ts: number): void {
+    this.current = ts;
+  }
+
+  pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  nextTimerAt(): number | null {
+    const next = this.nextDue();
+    return next ? next.dueAt : null;
+  }
+
+  advance(ms: number): number {
+    return this.advanceTo(this.current + ms);
+  }
+
+  /** Fires every timer due up to `target` and leaves the clock there. Returns the number fired. */
+  advanceTo(target: number): number {
+    let fired = 0;
+    let next = this.nextDue();
+    while (next && next.dueAt <= target) {
+      this.fire(next);
+      fired++;
+      next = this.nextDue();
+    }
+    this.current = Math.max(this.current, target);
+    return fired;
+  }
+
+  /**
+   * Like `advanceTo`, but lets the promise chains started by each timer settle
+   * before the next one fires; use it when callbacks are async (engine ticks).
+   */
+  async runTo(target: number): Promise<number> {
+    let fired = 0;
+    let next = this.nextDue();
+    while (next && next.dueAt <= target) {
+      this.fire(next);
+      fired++;
+      await new Promise<void>(resolve => setImmediate(resolve));
+      next = this.nextDue();
+    }
+    this.current = Math.max(this.current, target);
+    return fired;
+  }
+
+  private schedule(fn: () => void, ms: number, every: number | null): number {
+    const id = this.nextId++;
+    this.timers.set(id, { id, dueAt: this.current + Math.max(0, ms), fn, every });
+    return id;
+  }
+
+  private nextDue(): SimulatedTimer | null {
+    let next: SimulatedTimer | null = null;
+    for (const timer of Array.from(this.timers.values())) {
+      if (!next || timer.dueAt < next.dueAt || (timer.dueAt === next.dueAt && timer.id < next.id)) next = timer;
+    }
+    return next;
+  }
+
+  private fire(timer: SimulatedTimer): void {
+    this.current = Math.max(this.current, timer.dueAt);
+    if (timer.every !== null) timer.dueAt += timer.every;
+    else this.timers.delete(timer.id);
+    try {
+      timer.fn();
+    } catch (err: any) {
+      console.error(`[SimulatedClock] Timer ${timer.id} threw: ${err.message}`);
+    }
+  }
+}
@@ -0,0 +1,297 @@
+import WebSocket from "ws";
+import type { Clock, TimerHandle } from "./clock";
+
+export interface CompositeFeedConfig {
+  minSources: number;
+  maxStalenessMs: number;
+  maxDivergencePct: number;
+}
+
+export interface PriceSourceSpec {
+  name: string;
+  url: string;
+  kind: "ws" | "rest";
+}
+
+export interface PriceSourceStatus {
+  name: string;
+  kind: "ws" | "rest";
+  connected: boolean;
+  price: number | null;
+  /** Time since the source's last price arrived. */
+  ageMs: number | null;
+  /** Arrival time minus the trade timestamp, for feeds that send one. */
+  lagMs: number | null;
+  /** Distance from the median of the fresh sources, in percent. */
+  divergencePct: number | null;
+  healthy: boolean;
+  reason: "blocked" | "no data" | "stale" | "outlier" | null;
+}
+
+export interface CompositePriceStatus {
+  price: number | null;
+  healthySources: number;
+  requiredSources: number;
+  quorum: boolean;
+  sources: PriceSourceStatus[];
+}
+
+export type WsPriceParser = (data: any) => { price: number; ts: number | null } | null;
+
+export interface CompositePriceFeedOptions {
+  clock: Clock;
+  sources: PriceSourceSpec[];
+  parseWsMessage: WsPriceParser;
+  config: () => CompositeFeedConfig;
+  onPrice: (price: number, ts: number) => void;
+  logTag: string;
+}
+
+interface SourceState {
+  spec: PriceSourceSpec;
+  ws: WebSocket | null;
+  connected: boolean;
+  blocked: boolean;
+  price: number | null;
+  receivedAt: number;
+  lagMs: number | null;
+  reconnectAttempts: number;
+  reconnectTimer: TimerHandle | null;
+  connectTimeout: TimerHandle | null;
+  pollTimer: TimerHandle | null;
+}
+
+const RECONNECT_BASE_MS = 2000;
+const RECONNECT_MAX_MS = 30000;
+const CONNECT_TIMEOUT_MS = 8000;
+const REST_POLL_INTERVAL_MS = 2000;
+/** Several sources tick many times a second; the oracle buffer only needs the median this often. */
+const EMIT_MIN_INTERVAL_MS = 200;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Streams every configured price source at once and publishes the median of the
+ * healthy ones. A source is unhealthy when its last price is older than
+ * `maxStalenessMs` or sits more than `maxDivergencePct` away from the median of
+ * the fresh sources. Nothing is published while fewer than `minSources` are
+ * healthy.
+ */
+export class CompositePriceFeed {
+  private sources: SourceState[];
+  private running = false;
+  private lastEmitAt = 0;
+
+  constructor(private readonly options: CompositePriceFeedOptions) {
+    this.sources = options.sources.map(spec => ({
+      spec,
+      ws: null,
+      connected: false,
+      blocked: false,
+      price: null,
+      receivedAt: 0,
+      lagMs: null,
+      reconnectAttempts: 0,
+      reconnectTimer: null,
+      connectTimeout: null,
+      pollTimer: null,
+    }));
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    console.log(`${this.options.logTag} Composite mode: streaming ${this.sources.map(s => s.spec.name).join(", ")}`);
+    for (const source of this.sources) {
+      if (source.spec.kind === "ws") this.openSocket(source);
+      else this.startPolling(source);
+    }
+  }
+
+  stop(): void {
+    this.running = false;
+    const { clock } = this.options;
+    for (const source of this.sources) {
+      clock.clearTimeout(source.reconnectTimer);
+      clock.clearTimeout(source.connectTimeout);
+      clock.clearInterval(source.pollTimer);
+      source.reconnectTimer = null;
+      source.connectTimeout = null;
+      source.pollTimer = null;
+      if (source.ws) {
+        source.ws.removeAllListeners();
+        try { source.ws.close(); } catch {}
+        source.ws = null;
+      }
+      source.connected = false;
+    }
+  }
+
+  isConnected(): boolean {
+    return this.sources.some(s => s.connected);
+  }
+
+  hasQuorum(): boolean {
+    return this.getStatus().quorum;
+  }
+
+  getStatus(): CompositePriceStatus {
+    const { maxStalenessMs, maxDivergencePct, minSources } = this.options.config();
+    const now = this.options.clock.now();
+
+    const fresh = this.sources.filter(s => s.price !== null && now - s.receivedAt <= maxStalenessMs);
+    const center = fresh.length > 0 ? median(fresh.map(s => s.price!)) : null;
+    const divergence = (s: SourceState) =>
+      center !== null && s.price !== null ? Math.abs(s.price - center) / center * 100 : null;
+    const healthy = fresh.filter(s => divergence(s)! <= maxDivergencePct);
+    const price = healthy.length > 0 ? median(healthy.map(s => s.price!)) : null;
+
+    const sources: PriceSourceStatus[] = this.sources.map(s => {
+      const div = divergence(s);
+      const reason: PriceSourceStatus["reason"] =
+        s.blocked ? "blocked" :
+        s.price === null ? "no data" :
+        !fresh.includes(s) ? "stale" :
+        !healthy.includes(s) ? "outlier" : null;
+      return {
+        name: s.spec.name,
+        kind: s.spec.kind,
+        connected: s.connected,
+        price: s.price,
+        ageMs: s.price !== null ? now - s.receivedAt : null,
+        lagMs: s.lagMs,
+        divergencePct: div !== null ? parseFloat(div.toFixed(4)) : null,
+        healthy: reason === null,
+        reason,
+      };
+    });
+
+    return {
+      price,
+      healthySources: healthy.length,
+      requiredSources: minSources,
+      quorum: healthy.length >= minSources && price !== null,
+      sources,
+    };
+  }
+
+  private record(source: SourceState, price: number, tradeTs: number | null): void {
+    const now = this.options.clock.now();
+    source.price = price;
+    source.receivedAt = now;
+    source.lagMs = tradeTs !== null ? Math.max(0, now - tradeTs) : null;
+
+    if (now - this.lastEmitAt < EMIT_MIN_INTERVAL_MS) return;
+    const status = this.getStatus();
+    if (!status.quorum || status.price === null) return;
+    this.lastEmitAt = now;
+    this.options.onPrice(status.price, now);
+  }
+
+  private openSocket(source: SourceState): void {
+    if (!this.running || source.blocked) return;
+    const { clock, logTag } = this.options;
+    const name = source.spec.name;
+
+    try {
+      const ws = new WebSocket(source.spec.url);
+      source.ws = ws;
+
+      source.connectTimeout = clock.setTimeout(() => {
+        source.connectTimeout = null;
+        if (!source.connected && source.ws === ws) {
+          console.log(`${logTag} [composite] ${name} connection timeout`);
+          this.dropSocket(source);
+          this.scheduleReconnect(source);
+        }
+      }, CONNECT_TIMEOUT_MS);
+
+      ws.on("open", () => {
+        clock.clearTimeout(source.connectTimeout);
+        source.connectTimeout = null;
+        source.connected = true;
+        source.reconnectAttempts = 0;
+        console.log(`${logTag} [composite] ${name} connected`);
+      });
+
+      ws.on("message", (raw: Buffer) => {
+        try {
+          const parsed = this.options.parseWsMessage(JSON.parse(raw.toString()));
+          if (parsed && parsed.price > 0) this.record(source, parsed.price, parsed.ts);
+        } catch {}
+      });
+
+      ws.on("close", (code: number) => {
+        if (source.ws !== ws) return;
+        clock.clearTimeout(source.connectTimeout);
+        source.connectTimeout = null;
+        source.connected = false;
+        source.ws = null;
+        if (this.running) {
+          console.log(`${logTag} [composite] ${name} closed (code=${code})`);
+          this.scheduleReconnect(source);
+        }
+      });
+
+      ws.on("error", (err: Error) => {
+        if (err.message.includes("451") || err.message.includes("403")) {
+          console.log(`${logTag} [composite] ${name} geo-blocked (${err.message}), dropping source`);
+          source.blocked = true;
+          this.dropSocket(source);
+        } else {
+          console.error(`${logTag} [composite] ${name} error: ${err.message}`);
+        }
+      });
+    } catch (err: any) {
+      console.error(`${logTag} [composite] Failed to connect to ${name}: ${err.message}`);
+      this.scheduleReconnect(source);
+    }
+  }
+
+  private dropSocket(source: SourceState): void {
+    this.options.clock.clearTimeout(source.connectTimeout);
+    source.connectTimeout = null;
+    if (source.ws) {
+      source.ws.removeAllListeners();
+      try { source.ws.close(); } catch {}
+      source.ws = null;
+    }
+    source.connected = false;
+  }
+
+  private scheduleReconnect(source: SourceState): void {
+    if (!this.running || source.blocked || source.reconnectTimer) return;
+    source.reconnectAttempts++;
+    const delay = Math.min(RECONNECT_BASE_MS * Math.pow(2, source.reconnectAttempts - 1), RECONNECT_MAX_MS);
+    source.reconnectTimer = this.options.clock.setTimeout(() => {
+      source.reconnectTimer = null;
+      this.openSocket(source);
+    }, delay);
+  }
+
+  private startPolling(source: SourceState): void {
+    this.poll(source);
+    source.pollTimer = this.options.clock.setInterval(() => this.poll(source), REST_POLL_INTERVAL_MS);
+  }
+
+  private async poll(source: SourceState): Promise<void> {
+    try {
+      const resp = await fetch(source.spec.url);
+      if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+      const data = await resp.json() as any;
+      const price = parseFloat(data?.data?.amount);
+      if (!this.running) return;
+      source.connected = true;
+      if (price && price > 0) this.record(source, price, null);
+    } catch (err: any) {
+      if (source.connected) {
+        console.error(`${this.options.logTag} [composite] ${source.spec.name} poll error: ${err.message}`);
+      }
+      source.connected = false;
+    }
+  }
+}
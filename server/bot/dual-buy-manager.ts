@@ -3,6 +3,8 @@ import { fetchNextIntervalMarket, computeNextIntervalSlug, type AssetType, type
 import { OrderManager } from "./order-manager";
 import { apiRateLimiter } from "./rate-limiter";
 import { liveTradingClient } from "./live-trading-client";
+import { realClock, type Clock } from "./clock";
+import { capitalAllocator } from "../strategies/capital-allocator";
 import type { BotConfig } from "@shared/schema";
 
 export class DualBuyManager {
@@ -10,14 +12,16 @@ export class DualBuyManager {
   private ordersPlacedThisCycle = 0;
   private placing = false;
 
-  getStatus(config: BotConfig, marketRemainingMs: number) {
+  constructor(private readonly clock: Clock = realClock) {}
+
+  getStatus(config: BotConfig, marketRemainingMs: number, enabled: boolean) {
     const asset = (config.autoRotateAsset || "btc") as AssetType;
     const interval = (config.autoRotateInterval || "5m") as IntervalType;
     const leadSeconds = config.dualBuyLeadSeconds || 30;
 
     let nextPlacementIn: number | null = null;
-    if (config.activeStrategy === "dual_buy" && config.isActive) {
-      const nextInfo = computeNextIntervalSlug(asset, interval);
+    if (enabled && config.isActive) {
+      const nextInfo = computeNextIntervalSlug(asset, interval, this.clock);
       const msUntilNextMarket = nextInfo.startsInMs;
       const placementMs = msUntilNextMarket - (leadSeconds * 1000);
       if (placementMs > 0) {
@@ -28,7 +32,7 @@ export class DualBuyManager {
     }
 
     return {
-      enabled: config.activeStrategy === "dual_buy",
+      enabled,
       price: config.dualBuyPrice || 0.45,
       size: config.dualBuySize || 1,
       leadSeconds,
@@ -38,8 +42,9 @@ export class DualBuyManager {
     };
   }
 
+  /** Only called by the engine while the "dual_buy" strategy is enabled. */
   async tick(config: BotConfig, orderManager: OrderManager): Promise<void> {
-    if (config.activeStrategy !== "dual_buy" || !config.isActive || config.killSwitchActive) return;
+    if (!config.isActive || config.killSwitchActive) return;
     if (this.placing) return;
 
     const asset = (config.autoRotateAsset || "btc") as AssetType;
@@ -48,7 +53,7 @@ export class DualBuyManager {
     const price = config.dualBuyPrice || 0.45;
     const size = config.dualBuySize || 1;
 
-    const nextInfo = computeNextIntervalSlug(asset, interval);
+    const nextInfo = computeNextIntervalSlug(asset, interval, this.clock);
     const msUntilNextMarket = nextInfo.startsInMs;
     const leadMs = leadSeconds * 1000;
 
@@ -79,7 +84,7 @@ export class DualBuyManager {
       return;
     }
 
-    const market = await fetchNextIntervalMarket(asset, interval);
+    const market = await fetchNextIntervalMarket(asset, interval, this.clock);
 
     if (!market) {
       console.log(`[DualBuy] Next market not found for cycle ${cycleSlug}, will retry`);
@@ -132,10 +137,22 @@ export class DualBuyManager {
       }
     }
 
+    const budget = await capitalAllocator.checkOrder("dual_buy", price * size * 2);
+    if (!budget.allowed) {
+      this.lastPlacedCycleSlug = cycleSlug;
+      await storage.createEvent({
+        type: "RISK_ALERT",
+        message: `[DualBuy] Budget blocked cycle ${cycleSlug}: ${budget.reason}`,
+        data: { cycleSlug, price, size, reason: budget.reason },
+        level: "warn",
+      });
+      return;
+    }
+
     this.ordersPlacedThisCycle = 0;
 
     try {
-      await orderManager.placeOrder({
+      const order = await orderManager.placeOrder({
         marketId: market.slug,
         tokenId: market.tokenUp,
         tokenSide: "YES",
@@ -148,9 +165,14 @@ export class DualBuyManager {
         isMakerOrder: true,
         oracleDirection: "DUAL_BUY",
         oracleConfidence: 0,
+        strategy: "dual_buy",
       });
-      this.ordersPlacedThisCycle++;
-      console.log(`[DualBuy] Placed YES BUY @ $${price} x${size} for ${cycleSlug}`);
+      if (order.status === "REJECTED") {
+        console.log(`[DualBuy] YES BUY rejected by the capital budget for ${cycleSlug}`);
+      } else {
+        this.ordersPlacedThisCycle++;
+        console.log(`[DualBuy] Placed YES BUY @ $${price} x${size} for ${cycleSlug}`);
+      }
     } catch (err: any) {
       console.error(`[DualBuy] YES order failed: ${err.message}`);
       await storage.createEvent({
@@ -162,7 +184,7 @@ export class DualBuyManager {
     }
 
     try {
-      await orderManager.placeOrder({
+      const order = await orderManager.placeOrder({
         marketId: market.slug,
         tokenId: market.tokenDown,
         tokenSide: "NO",
@@ -175,9 +197,14 @@ export class DualBuyManager {
         isMakerOrder: true,
         oracleDirection: "DUAL_BUY",
         oracleConfidence: 0,
+        strategy: "dual_buy",
       });
-      this.ordersPlacedThisCycle++;
-      console.log(`[DualBuy] Placed NO BUY @ $${price} x${size} for ${cycleSlug}`);
+      if (order.status === "REJECTED") {
+        console.log(`[DualBuy] NO BUY rejected by the capital budget for ${cycleSlug}`);
+      } else {
+        this.ordersPlacedThisCycle++;
+        console.log(`[DualBuy] Placed NO BUY @ $${price} x${size} for ${cycleSlug}`);
+      }
     } catch (err: any) {
       console.error(`[DualBuy] NO order failed: ${err.message}`);
       await storage.createEvent({
@@ -212,5 +239,3 @@ export class DualBuyManager {
     this.placing = false;
   }
 }
-
-export const dualBuyManager = new DualBuyManager();
@@ -0,0 +1,52 @@
+/**
+ * Base URLs for every external service the bot talks to. Each one can be pointed
+ * elsewhere through the environment, e.g. at the local stand-in started with
+ * `npm run exchange-sim`, so the whole bot runs without network access.
+ */
+
+function fromEnv(name: string, fallback: string): string {
+  const value = process.env[name]?.trim();
+  return (value || fallback).replace(/\/+$/, "");
+}
+
+export const CLOB_BASE_URL = fromEnv("POLYMARKET_CLOB_URL", "https://clob.polymarket.com");
+export const GAMMA_BASE_URL = fromEnv("POLYMARKET_GAMMA_URL", "https://gamma-api.polymarket.com");
+
+const WS_BASE_URL = fromEnv("POLYMARKET_WS_URL", "wss://ws-subscriptions-clob.polymarket.com/ws");
+export const WS_MARKET_URL = `${WS_BASE_URL}/market`;
+export const WS_USER_URL = `${WS_BASE_URL}/user`;
+
+function fillPlaceholders(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+}
+
+/**
+ * Oracle WS feeds tried in order for one asset. ORACLE_WS_URL replaces the list
+ * with a single Binance-style trade stream; `{asset}` and `{symbol}` in it are
+ * filled in per asset, otherwise every asset reads the same stream.
+ */
+export function oracleWsUrls(asset: string, binanceSymbol: string | null, coincapId: string | null): string[] {
+  if (process.env.ORACLE_WS_URL?.trim()) {
+    return [fillPlaceholders(fromEnv("ORACLE_WS_URL", ""), { asset, symbol: binanceSymbol ?? asset })];
+  }
+  const urls: string[] = [];
+  if (binanceSymbol) {
+    urls.push(
+      `wss://stream.binance.com:9443/ws/${binanceSymbol}@trade`,
+      `wss://stream.binance.us:9443/ws/${binanceSymbol}@trade`,
+    );
+  }
+  if (coincapId) urls.push(`wss://ws.coincap.io/prices?assets=${coincapId}`);
+  return urls;
+}
+
+/**
+ * Coinbase-style spot endpoint (`{ data: { amount } }`) polled when every oracle WS
+ * fails. ORACLE_REST_URL accepts the same `{asset}` placeholder plus `{product}`.
+ */
+export function oracleRestUrl(asset: string, coinbaseProduct: string | null): string | null {
+  if (process.env.ORACLE_REST_URL?.trim()) {
+    return fillPlaceholders(fromEnv("ORACLE_REST_URL", ""), { asset, product: coinbaseProduct ?? asset.toUpperCase() });
+  }
+  return coinbaseProduct ? `https://api.coinbase.com/v2/prices/${coinbaseProduct}/spot` : null;
+}
@@ -0,0 +1,276 @@
+import { z } from "zod";
+import { storage } from "../storage";
+import {
+  updateBotConfigSchema,
+  type BotConfig, type EntryFilterInfo, type EntryFilterRow, type EntryFilterVerdict, type MarketData,
+  type StrategyConfigField, type UpdateEntryFilter,
+} from "@shared/schema";
+import {
+  checkDepth, checkEdge, checkEntryPrice, checkOracleSide, checkPriceJump, checkRegime, checkSpread, sizeFsmEntry,
+  DEFAULT_LAYER_PARAMS, MAX_ENTRY_PRICE, MIN_BOOK_DEPTH, MIN_ENTRY_PRICE, PRICE_JUMP_THRESHOLD,
+  type FsmNotice, type FsmSizing, type LayerParams,
+} from "./fsm-decision";
+import type { PriceSignal } from "./binance-oracle";
+import type { RegimeResult } from "./market-regime-filter";
+import type { FairValue } from "./fair-value";
+
+/** Everything the FSM entry filters look at on one tick. */
+export interface EntryContext {
+  data: MarketData;
+  lastSeenBestBid: number;
+  regime: RegimeResult;
+  signal: PriceSignal;
+  oracleConnected: boolean;
+  tokenSide: "YES" | "NO" | null;
+  entryPrice: number;
+  fair: FairValue | null;
+  config: Pick<BotConfig, "maxNetExposure" | "orderSize">;
+}
+
+interface EntryFilterDefinition {
+  id: string;
+  name: string;
+  description: string;
+  paramSchema: StrategyConfigField[];
+  defaults: Record<string, number>;
+  /** Params (or "enabled") backed by a bot_config column, so existing settings keep a single home. */
+  configBindings?: Record<string, keyof BotConfig>;
+  check(ctx: EntryContext, params: Record<string, number>): FsmNotice | null;
+}
+
+export interface EntryPipelineResult {
+  blockedBy: string | null;
+  /** Notice of the blocking filter, logged as the event for the skipped tick. */
+  notice: FsmNotice | null;
+  verdicts: EntryFilterVerdict[];
+  sizing: FsmSizing | null;
+}
+
+function layerParams(params: Record<string, number>): LayerParams {
+  return { ...DEFAULT_LAYER_PARAMS, ...params };
+}
+
+/** Default pipeline order; a filter's row position overrides it. */
+export const ENTRY_FILTER_DEFINITIONS: EntryFilterDefinition[] = [
+  {
+    id: "priceJump",
+    name: "Price Jump",
+    description: "Salta el tick si el best bid salta más que el umbral (datos de token mezclados)",
+    paramSchema: [{ key: "maxJump", label: "Max Jump", type: "number", min: 0.01, max: 1, step: 0.01 }],
+    defaults: { maxJump: PRICE_JUMP_THRESHOLD },
+    check: (ctx, p) => checkPriceJump(ctx.data, ctx.lastSeenBestBid, p.maxJump),
+  },
+  {
+    id: "spread",
+    name: "Min Spread",
+    description: "Spread mínimo del libro (bot_config.minSpread)",
+    paramSchema: [{ key: "minSpread", label: "Min Spread", type: "number", min: 0.01, max: 0.5, step: 0.01 }],
+    defaults: { minSpread: 0.03 },
+    configBindings: { minSpread: "minSpread" },
+    check: (ctx, p) => checkSpread(ctx.data, p.minSpread),
+  },
+  {
+    id: "depth",
+    name: "Book Depth",
+    description: "Profundidad mínima en bid y ask",
+    paramSchema: [{ key: "minDepth", label: "Min Depth", type: "number", min: 0, max: 100000, step: 1 }],
+    defaults: { minDepth: MIN_BOOK_DEPTH },
+    check: (ctx, p) => checkDepth(ctx.data, p.minDepth),
+  },
+  {
+    id: "regime",
+    name: "Market Regime",
+    description: "Régimen de volatilidad/profundidad operable (config del Market Regime Filter)",
+    paramSchema: [],
+    defaults: {},
+    check: (ctx) => checkRegime(ctx.regime),
+  },
+  {
+    id: "oracle",
+    name: "Oracle Direction",
+    description: "Requiere una señal UP/DOWN del oracle cuando está conectado",
+    paramSchema: [],
+    defaults: {},
+    check: (ctx) => checkOracleSide(ctx.signal, ctx.oracleConnected).notice,
+  },
+  {
+    id: "entryPrice",
+    name: "Entry Price Band",
+    description: "Precio de entrada dentro de [min, max]",
+    paramSchema: [
+      { key: "minEntryPrice", label: "Min Entry Price", type: "number", min: 0.01, max: 0.99, step: 0.01 },
+      { key: "maxEntryPrice", label: "Max Entry Price", type: "number", min: 0.01, max: 0.99, step: 0.01 },
+    ],
+    defaults: { minEntryPrice: MIN_ENTRY_PRICE, maxEntryPrice: MAX_ENTRY_PRICE },
+    check: (ctx, p) => checkEntryPrice(ctx.entryPrice, { minEntryPrice: p.minEntryPrice, maxEntryPrice: p.maxEntryPrice }),
+  },
+  {
+    id: "edge",
+    name: "Fair-Value Edge",
+    description: "fair − entry ≥ min edge (bot_config.edgeFilterEnabled / minEdge)",
+    paramSchema: [{ key: "minEdge", label: "Min Edge", type: "number", min: 0, max: 0.5, step: 0.01 }],
+    defaults: { minEdge: 0.03 },
+    configBindings: { enabled: "edgeFilterEnabled", minEdge: "minEdge" },
+    check: (ctx, p) => checkEdge(ctx.entryPrice, ctx.tokenSide ?? "YES", ctx.fair, p.minEdge),
+  },
+  {
+    id: "layer",
+    name: "Sizing Layers",
+    description: "L1-STRONG / L2-EARLY; la señal por debajo de L2 (Layer 3) no entra. Desactivado, todo lo que no es L1 entra como L2",
+    paramSchema: [
+      { key: "strongMinConfidence", label: "L1 Min Confidence", type: "number", min: 0, max: 1, step: 0.01 },
+      { key: "strongRiskPct", label: "L1 Risk (% exposure)", type: "number", min: 0, max: 1, step: 0.01 },
+      { key: "earlyMinConfidence", label: "L2 Min Confidence", type: "number", min: 0, max: 1, step: 0.01 },
+      { key: "earlyRiskPct", label: "L2 Risk (% exposure)", type: "number", min: 0, max: 1, step: 0.01 },
+      { key: "earlySizeFactor", label: "L2 Size Factor", type: "number", min: 0, max: 1, step: 0.05 },
+    ],
+    defaults: { ...DEFAULT_LAYER_PARAMS },
+    check: (ctx, p) => sizeFsmEntry(ctx.entryPrice, ctx.signal, ctx.config, layerParams(p)).notice,
+  },
+];
+
+function definition(id: string): EntryFilterDefinition | undefined {
+  return ENTRY_FILTER_DEFINITIONS.find(d => d.id === id);
+}
+
+/** Merges defaults, stored rows and bot_config-bound settings into the ordered pipeline. */
+export function resolveEntryFilters(rows: EntryFilterRow[], config: BotConfig | null | undefined): EntryFilterInfo[] {
+  const byId = new Map(rows.map(r => [r.filterId, r]));
+  return ENTRY_FILTER_DEFINITIONS
+    .map((def, index) => {
+      const row = byId.get(def.id);
+      const params: Record<string, number> = {};
+      for (const field of def.paramSchema) {
+        const bound = def.configBindings?.[field.key];
+        const value = bound && config ? config[bound] : row?.params?.[field.key];
+        params[field.key] = typeof value === "number" ? value : def.defaults[field.key];
+      }
+      const boundEnabled = def.configBindings?.enabled;
+      const enabled = boundEnabled && config ? !!config[boundEnabled] : row?.enabled ?? true;
+      return {
+        filter: {
+          id: def.id,
+          name: def.name,
+          description: def.description,
+          position: row?.position ?? index,
+          enabled,
+          params,
+          paramSchema: def.paramSchema,
+          configBindings: { ...def.configBindings } as Record<string, string>,
+        },
+        index,
+      };
+    })
+    .sort((a, b) => a.filter.position - b.filter.position || a.index - b.index)
+    .map(({ filter }, position) => ({ ...filter, position }));
+}
+
+/**
+ * Runs every filter in order and returns a verdict for each, so a blocked entry
+ * shows all the rules that failed, not just the first. The first enabled filter
+ * that blocks decides; sizing is only computed when nothing blocked.
+ */
+export function evaluateEntryPipeline(filters: EntryFilterInfo[], ctx: EntryContext): EntryPipelineResult {
+  let blocked: { id: string; notice: FsmNotice } | null = null;
+  const verdicts: EntryFilterVerdict[] = [];
+
+  for (const filter of filters) {
+    const def = definition(filter.id);
+    if (!def) continue;
+    const notice = def.check(ctx, filter.params);
+    if (!filter.enabled) {
+      verdicts.push({ id: filter.id, name: filter.name, status: "disabled", message: notice?.message ?? null, data: notice?.data ?? {} });
+      continue;
+    }
+    verdicts.push({ id: filter.id, name: filter.name, status: notice ? "block" : "pass", message: notice?.message ?? null, data: notice?.data ?? {} });
+    if (notice && !blocked) blocked = { id: filter.id, notice };
+  }
+
+  let sizing: FsmSizing | null = null;
+  if (!blocked) {
+    const layer = filters.find(f => f.id === "layer");
+    sizing = sizeFsmEntry(ctx.entryPrice, ctx.signal, ctx.config, layerParams(layer?.params ?? {}), layer?.enabled ?? true);
+  }
+
+  return { blockedBy: blocked?.id ?? null, notice: blocked?.notice ?? null, verdicts, sizing };
+}
+
+function paramsSchemaFor(def: EntryFilterDefinition) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of def.paramSchema) {
+    let schema = z.number();
+    if (field.min !== undefined) schema = schema.min(field.min);
+    if (field.max !== undefined) schema = schema.max(field.max);
+    shape[field.key] = schema.optional();
+  }
+  return z.object(shape).strict();
+}
+
+/**
+ * The configured FSM entry pipeline. Rows are cached after the first read;
+ * settings bound to bot_config are read from the config passed in.
+ */
+export class EntryFilterPipeline {
+  private rows: EntryFilterRow[] | null = null;
+
+  async getFilters(config: BotConfig | null | undefined): Promise<EntryFilterInfo[]> {
+    if (!this.rows) this.rows = await storage.getEntryFilters();
+    return resolveEntryFilters(this.rows, config);
+  }
+
+  has(filterId: string): boolean {
+    return !!definition(filterId);
+  }
+
+  /** Validates against the filter's param schema; throws ZodError on bad input. */
+  async update(filterId: string, updates: UpdateEntryFilter): Promise<EntryFilterInfo[]> {
+    const def = definition(filterId);
+    if (!def) throw new Error(`Unknown entry filter: ${filterId}`);
+    const params = paramsSchemaFor(def).parse(updates.params ?? {}) as Record<string, number | undefined>;
+
+    const configUpdates: Record<string, unknown> = {};
+    const rowParams: Record<string, number> = {};
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined) continue;
+      const bound = def.configBindings?.[key];
+      if (bound) configUpdates[bound] = value;
+      else rowParams[key] = value;
+    }
+    if (updates.enabled !== undefined && def.configBindings?.enabled) {
+      configUpdates[def.configBindings.enabled] = updates.enabled;
+    }
+    if (Object.keys(configUpdates).length > 0) {
+      await storage.updateBotConfig(updateBotConfigSchema.parse(configUpdates));
+    }
+
+    const filters = await this.getFilters(await storage.getBotConfig());
+    const current = filters.find(f => f.id === filterId)!;
+    const existing = this.rows!.find(r => r.filterId === filterId);
+    await this.saveRow(filterId, {
+      position: current.position,
+      enabled: def.configBindings?.enabled ? existing?.enabled ?? true : updates.enabled ?? current.enabled,
+      params: { ...(existing?.params ?? {}), ...rowParams },
+    });
+    return this.getFilters(await storage.getBotConfig());
+  }
+
+  /** `order` lists filter ids first-to-last; unlisted filters keep their relative order after them. */
+  async reorder(order: string[]): Promise<EntryFilterInfo[]> {
+    const unknown = order.filter(id => !definition(id));
+    if (unknown.length > 0) throw new Error(`Unknown entry filter: ${unknown.join(", ")}`);
+    const current = await this.getFilters(await storage.getBotConfig());
+    const ids = [...order, ...current.map(f => f.id).filter(id => !order.includes(id))];
+    for (let position = 0; position < ids.length; position++) {
+      await this.saveRow(ids[position], { position });
+    }
+    return this.getFilters(await storage.getBotConfig());
+  }
+
+  private async saveRow(filterId: string, values: Partial<Pick<EntryFilterRow, "position" | "enabled" | "params">>): Promise<void> {
+    const row = await storage.upsertEntryFilter(filterId, values);
+    if (!this.rows) this.rows = await storage.getEntryFilters();
+    this.rows = [...this.rows.filter(r => r.filterId !== filterId), row];
+  }
+}
+
+export const entryFilterPipeline = new EntryFilterPipeline();
@@ -0,0 +1,350 @@
+import { storage } from "../storage";
+import { strategyRegistry } from "../strategies/strategy";
+import { OrderManager, getStrategyHoldings, type StrategyHolding } from "./order-manager";
+import { stopLossManager } from "./stop-loss-manager";
+import { resolvePhaseThresholds } from "./fsm-decision";
+import { realClock, type Clock } from "./clock";
+import {
+  updateExitPolicySchema,
+  type BotConfig, type ExitPolicyMode, type ExitPolicyRow, type ExitPolicyStatus, type MarketData, type Order,
+  type PositionExit, type UpdateExitPolicy,
+} from "@shared/schema";
+
+/** A working exit SELL that has not filled by then is cancelled and re-placed at the current bid. */
+export const EXIT_REPRICE_MS = 5000;
+const RECENT_EXITS = 20;
+const TERMINAL_STATUSES = ["FILLED", "CANCELLED", "REJECTED"];
+
+const DEFAULT_POLICY = { mode: "hold" as ExitPolicyMode, takeProfitPct: 0.2, maxSlippage: 0.02 };
+
+export function checkTakeProfit(entryPrice: number, bestBid: number, takeProfitPct: number): string | null {
+  if (entryPrice <= 0) return null;
+  const gain = (bestBid - entryPrice) / entryPrice;
+  if (gain < takeProfitPct) return null;
+  return `Take-profit: bid $${bestBid.toFixed(4)} is +${(gain * 100).toFixed(1)}% over entry $${entryPrice.toFixed(4)} >= ${(takeProfitPct * 100).toFixed(1)}% target`;
+}
+
+/** How a strategy's entries will be closed, for the entry log. */
+export function describeExitPolicy(policy: ExitPolicyStatus, maxLossPercent: number): string {
+  const stop = `STOP-LOSS -${(maxLossPercent * 100).toFixed(1)}%`;
+  const take = `TAKE-PROFIT +${(policy.takeProfitPct * 100).toFixed(1)}%`;
+  switch (policy.mode) {
+    case "stop_loss": return stop;
+    case "take_profit": return take;
+    case "both": return `${stop} / ${take}`;
+    default: return "HOLD TO RESOLUTION";
+  }
+}
+
+/** Marketable SELL limit: the best bid less the slippage allowance, floored to the tick. */
+export function exitLimitPrice(bestBid: number, maxSlippage: number, tickSize: number): number {
+  const tick = tickSize > 0 ? tickSize : 0.01;
+  const floored = Math.floor((bestBid - maxSlippage) / tick + 1e-9) * tick;
+  return parseFloat(Math.max(0.01, floored).toFixed(4));
+}
+
+/** The NO token's book seen from the YES book. */
+function invertMarketData(data: MarketData): MarketData {
+  return {
+    ...data,
+    bestBid: parseFloat((1 - data.bestAsk).toFixed(4)),
+    bestAsk: parseFloat((1 - data.bestBid).toFixed(4)),
+    midpoint: parseFloat((1 - data.midpoint).toFixed(4)),
+    bidDepth: data.askDepth,
+    askDepth: data.bidDepth,
+    lastPrice: parseFloat((1 - data.lastPrice).toFixed(4)),
+  };
+}
+
+export interface ExitTickContext {
+  config: BotConfig;
+  /** YES book of the current market. */
+  data: MarketData;
+  /** NO book, when the engine has one; otherwise the inverted YES book is used. */
+  getNoData: () => Promise<MarketData | null>;
+  remainingMs: number;
+  windowMs: number;
+  orderManager: OrderManager;
+}
+
+interface ExitState extends PositionExit {
+  policy: ExitPolicyStatus;
+  placedAt: number;
+}
+
+/**
+ * Executes each strategy's exit policy on what that strategy holds in the
+ * current market, from its own tagged orders (two strategies on the same token
+ * exit independently).
+ * A stop-loss or take-profit trigger latches: the position is sold with
+ * marketable SELLs (repriced every few seconds) until it is flat, or until the
+ * hedge-lock boundary, after which whatever is left is held to resolution.
+ */
+export class ExitManager {
+  private rows: ExitPolicyRow[] | null = null;
+  private active = new Map<string, ExitState>();
+  private recent: PositionExit[] = [];
+  private exitedMarkets = new Set<string>();
+  private loggedHolds = new Set<string>();
+
+  constructor(private readonly clock: Clock = realClock) {}
+
+  has(strategyId: string): boolean {
+    return strategyRegistry.get(strategyId)?.host === "engine";
+  }
+
+  async getPolicy(strategyId: string): Promise<ExitPolicyStatus> {
+    if (!this.rows) this.rows = await storage.getExitPolicies();
+    const row = this.rows.find(r => r.strategyId === strategyId);
+    return {
+      strategyId,
+      name: strategyRegistry.get(strategyId)?.name ?? strategyId,
+      mode: (row?.mode ?? DEFAULT_POLICY.mode) as ExitPolicyMode,
+      takeProfitPct: row?.takeProfitPct ?? DEFAULT_POLICY.takeProfitPct,
+      maxSlippage: row?.maxSlippage ?? DEFAULT_POLICY.maxSlippage,
+    };
+  }
+
+  /** One policy per engine strategy; standalone strategies manage their own exits. */
+  async getPolicies(): Promise<ExitPolicyStatus[]> {
+    const policies: ExitPolicyStatus[] = [];
+    for (const strategy of strategyRegistry.list()) {
+      if (strategy.host === "engine") policies.push(await this.getPolicy(strategy.id));
+    }
+    return policies;
+  }
+
+  /** Throws ZodError on bad input. */
+  async update(strategyId: string, updates: UpdateExitPolicy): Promise<ExitPolicyStatus> {
+    if (!this.has(strategyId)) throw new Error(`Unknown engine strategy: ${strategyId}`);
+    const row = await storage.upsertExitPolicy(strategyId, updateExitPolicySchema.parse(updates));
+    if (!this.rows) this.rows = await storage.getExitPolicies();
+    this.rows = [...this.rows.filter(r => r.strategyId !== strategyId), row];
+    return this.getPolicy(strategyId);
+  }
+
+  /** True once the strategy's position in this market was closed by an exit, so its entries do not reopen it. */
+  hasExited(strategyId: string, marketId: string): boolean {
+    return this.exitedMarkets.has(`${strategyId}:${marketId}`);
+  }
+
+  isExiting(strategyId: string, tokenId: string): boolean {
+    return this.active.has(`${strategyId}:${tokenId}`);
+  }
+
+  getStatus(): { active: PositionExit[]; recent: PositionExit[] } {
+    return {
+      active: Array.from(this.active.values()).map(publicExit),
+      recent: this.recent.map(e => ({ ...e })),
+    };
+  }
+
+  async tick(ctx: ExitTickContext): Promise<void> {
+    const { config } = ctx;
+    const marketId = config.currentMarketSlug || config.currentMarketId || "unknown";
+    const { hedgeLockMs } = resolvePhaseThresholds(config.phaseSchedule, ctx.windowMs);
+    const canExit = ctx.remainingMs > hedgeLockMs;
+
+    const books: { YES: MarketData; NO: MarketData | null } = { YES: ctx.data, NO: null };
+    const bookFor = async (tokenSide: string | null): Promise<MarketData> => {
+      if (tokenSide !== "NO") return books.YES;
+      if (!books.NO) books.NO = (await ctx.getNoData()) ?? invertMarketData(ctx.data);
+      return books.NO;
+    };
+
+    for (const exit of Array.from(this.active.values())) {
+      await this.advance(exit, ctx, canExit && exit.marketId === marketId, await bookFor(exit.tokenSide));
+    }
+
+    if (!canExit) return;
+
+    const tokens = [config.currentMarketId, config.currentMarketTokenDown].filter((t): t is string => !!t);
+    const positions: StrategyHolding[] = [];
+    for (const strategy of strategyRegistry.list()) {
+      if (strategy.host !== "engine") continue;
+      const holdings = await getStrategyHoldings(strategy.id, marketId);
+      positions.push(...holdings.filter(h => tokens.includes(h.tokenId) && !this.active.has(h.id)));
+    }
+
+    for (const position of positions) {
+      const owner = position.strategy;
+      const policy = await this.getPolicy(owner);
+      const book = await bookFor(position.tokenSide);
+      if (book.bestBid <= 0) continue;
+
+      const stopsEnabled = policy.mode === "stop_loss" || policy.mode === "both";
+      const takesProfit = policy.mode === "take_profit" || policy.mode === "both";
+
+      const stop = stopLossManager.checkStopLoss(position, book, ctx.remainingMs, ctx.windowMs);
+      if (stop.triggered && !stopsEnabled) {
+        await this.logHold(position, owner, stop.reason!, stop);
+      }
+
+      let trigger: { kind: PositionExit["kind"]; reason: string } | null = null;
+      if (stopsEnabled && stop.triggered) {
+        trigger = { kind: "STOP_LOSS", reason: stop.reason! };
+      } else if (takesProfit) {
+        const reason = checkTakeProfit(position.avgEntryPrice, book.bestBid, policy.takeProfitPct);
+        if (reason) trigger = { kind: "TAKE_PROFIT", reason };
+      }
+      if (!trigger) continue;
+
+      const exit: ExitState = {
+        tokenId: position.tokenId,
+        tokenSide: position.tokenSide as "YES" | "NO" | null,
+        marketId: position.marketId,
+        strategy: owner,
+        kind: trigger.kind,
+        reason: trigger.reason,
+        orderId: null,
+        entryPrice: position.avgEntryPrice,
+        size: position.size,
+        filledSize: 0,
+        limitPrice: null,
+        status: "working",
+        realizedPnl: 0,
+        startedAt: this.clock.now(),
+        finishedAt: null,
+        policy,
+        placedAt: 0,
+      };
+      this.active.set(position.id, exit);
+
+      await storage.createEvent({
+        type: "RISK_ALERT",
+        message: `[${label(exit.kind)}] ${trigger.reason} — vendiendo ${position.size} ${exit.tokenSide || "?"} (${owner})`,
+        data: { ...publicExit(exit), bestBid: book.bestBid },
+        level: "warn",
+      });
+      await this.placeExitOrder(exit, ctx, position.size, book);
+    }
+  }
+
+  private async advance(exit: ExitState, ctx: ExitTickContext, canExit: boolean, book: MarketData): Promise<void> {
+    if (exit.orderId) {
+      const order = await storage.getOrderById(exit.orderId);
+      if (order && !TERMINAL_STATUSES.includes(order.status)) {
+        if (!canExit || this.clock.now() - exit.placedAt >= EXIT_REPRICE_MS) {
+          await ctx.orderManager.cancelOrder(order.id);
+        }
+        const refreshed = await storage.getOrderById(exit.orderId);
+        if (!refreshed || !TERMINAL_STATUSES.includes(refreshed.status)) return;
+        await this.collect(exit, refreshed);
+      } else if (order) {
+        await this.collect(exit, order);
+      } else {
+        exit.orderId = null;
+      }
+    }
+
+    const holdings = await getStrategyHoldings(exit.strategy, exit.marketId);
+    const position = holdings.find(h => h.tokenId === exit.tokenId);
+    if (!position || position.size <= 0.001) {
+      await this.finish(exit, "filled");
+      return;
+    }
+    if (!canExit) {
+      await this.finish(exit, exit.filledSize > 0 ? "partial" : "abandoned");
+      return;
+    }
+    if (book.bestBid <= 0) return;
+    await this.placeExitOrder(exit, ctx, position.size, book);
+  }
+
+  /** Books the fills of a finished exit order against the position's entry price. */
+  private async collect(exit: ExitState, order: Order): Promise<void> {
+    exit.orderId = null;
+    if (order.filledSize <= 0) return;
+    const fills = await storage.getFillsByOrderId(order.id);
+    const pnl = fills.reduce((sum, f) => sum + (f.price - exit.entryPrice) * f.size - f.fee, 0);
+    exit.filledSize = parseFloat((exit.filledSize + order.filledSize).toFixed(4));
+    exit.realizedPnl = parseFloat((exit.realizedPnl + pnl).toFixed(4));
+    await storage.updateOrderOutcome(order.id, exit.kind);
+  }
+
+  private async placeExitOrder(exit: ExitState, ctx: ExitTickContext, size: number, book: MarketData): Promise<void> {
+    const { config } = ctx;
+    const price = exitLimitPrice(book.bestBid, exit.policy.maxSlippage, parseFloat(config.currentMarketTickSize || "0.01"));
+    try {
+      const order = await ctx.orderManager.placeOrder({
+        marketId: exit.marketId,
+        tokenId: exit.tokenId,
+        tokenSide: exit.tokenSide ?? undefined,
+        side: "SELL",
+        price,
+        size,
+        isPaperTrade: config.isPaperTrading,
+        negRisk: config.currentMarketNegRisk ?? false,
+        tickSize: config.currentMarketTickSize ?? "0.01",
+        isMakerOrder: false,
+        strategy: exit.strategy,
+        purpose: "exit",
+      });
+      exit.orderId = order.id;
+      exit.limitPrice = price;
+      exit.placedAt = this.clock.now();
+    } catch (err: any) {
+      console.error(`[Exit] ${exit.kind} SELL failed: ${err.message}`);
+      await storage.createEvent({
+        type: "ERROR",
+        message: `[${label(exit.kind)}] Exit SELL failed: ${err.message}`,
+        data: { ...publicExit(exit), price, size, error: err.message },
+        level: "error",
+      });
+    }
+  }
+
+  private async finish(exit: ExitState, status: PositionExit["status"]): Promise<void> {
+    exit.status = status;
+    exit.finishedAt = this.clock.now();
+    this.active.delete(`${exit.strategy}:${exit.tokenId}`);
+    this.recent = [publicExit(exit), ...this.recent].slice(0, RECENT_EXITS);
+
+    if (status === "filled") {
+      // The strategy's entries are closed: tag them like a settlement would, with the exit kind as outcome.
+      await storage.updateOrdersOutcomeByMarket(exit.marketId, exit.kind, exit.tokenSide ?? undefined, exit.strategy);
+      this.exitedMarkets.add(`${exit.strategy}:${exit.marketId}`);
+      if (this.exitedMarkets.size > 100) this.exitedMarkets.delete(this.exitedMarkets.values().next().value!);
+      stopLossManager.clearHighWaterMark(`${exit.tokenId}-BUY`);
+    }
+
+    const held = parseFloat((exit.size - exit.filledSize).toFixed(4));
+    await storage.createEvent({
+      type: "PNL_UPDATE",
+      message: status === "filled"
+        ? `[${label(exit.kind)}] Exit completed: sold ${exit.filledSize} ${exit.tokenSide || "?"} (entry $${exit.entryPrice.toFixed(4)}) → ${exit.realizedPnl >= 0 ? "+" : ""}$${exit.realizedPnl.toFixed(4)}`
+        : `[${label(exit.kind)}] Exit stopped at the hedge-lock boundary: sold ${exit.filledSize}/${exit.size}, holding ${held} to resolution`,
+      data: publicExit(exit),
+      level: exit.realizedPnl >= 0 ? "info" : "warn",
+    });
+  }
+
+  private async logHold(position: StrategyHolding, owner: string, reason: string, data: object): Promise<void> {
+    const key = `${position.id}-${position.avgEntryPrice}`;
+    if (this.loggedHolds.has(key)) return;
+    this.loggedHolds.add(key);
+    if (this.loggedHolds.size > 100) this.loggedHolds.delete(this.loggedHolds.values().next().value!);
+    await storage.createEvent({
+      type: "RISK_ALERT",
+      message: `[STOP-LOSS] ${reason} (exit policy of ${owner} is hold-to-resolution, no sell)`,
+      data: { ...data, strategy: owner, holdToResolution: true },
+      level: "warn",
+    });
+  }
+
+  reset(): void {
+    this.active.clear();
+    this.loggedHolds.clear();
+  }
+}
+
+function label(kind: PositionExit["kind"]): string {
+  return kind === "STOP_LOSS" ? "STOP-LOSS" : "TAKE-PROFIT";
+}
+
+function publicExit(exit: ExitState | PositionExit): PositionExit {
+  const { policy: _policy, placedAt: _placedAt, ...rest } = exit as ExitState;
+  return { ...rest };
+}
+
+export const exitManager = new ExitManager();
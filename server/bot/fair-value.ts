@@ -0,0 +1,63 @@
+import type { BinanceOracle, OracleWindow } from "./binance-oracle";
+
+/**
+ * Fair probability of an up/down window resolving UP, from the underlying's move
+ * since the window opened, its realized volatility and the time left. The log
+ * move is treated as driftless Brownian motion: P(up) = Φ(ln(S/S0) / (σ·√T)).
+ */
+
+export interface FairValueInputs {
+  currentPrice: number;
+  openingPrice: number;
+  /** Stdev of log returns per second (see BinanceOracle.getRealizedVolatility). */
+  sigmaPerSec: number;
+  remainingMs: number;
+}
+
+export interface FairValue {
+  probUp: number;
+  probDown: number;
+  sigmaPerSec: number;
+  remainingMs: number;
+  zScore: number;
+}
+
+/** Floor on per-second volatility so a quiet stretch does not read as near-certainty. */
+export const MIN_SIGMA_PER_SEC = 0.00002;
+export const FAIR_VALUE_VOL_WINDOW_MINUTES = 10;
+const PROB_BOUND = 0.01;
+
+/** Standard normal CDF (Abramowitz-Stegun 26.2.17). */
+export function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const poly = t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI) * poly;
+  return z >= 0 ? 1 - tail : tail;
+}
+
+export function computeFairValue(inputs: FairValueInputs): FairValue | null {
+  if (inputs.currentPrice <= 0 || inputs.openingPrice <= 0) return null;
+
+  const sigma = Math.max(inputs.sigmaPerSec, MIN_SIGMA_PER_SEC);
+  const remainingSec = Math.max(1, inputs.remainingMs / 1000);
+  const zScore = Math.log(inputs.currentPrice / inputs.openingPrice) / (sigma * Math.sqrt(remainingSec));
+  const probUp = Math.min(1 - PROB_BOUND, Math.max(PROB_BOUND, normalCdf(zScore)));
+
+  return {
+    probUp: parseFloat(probUp.toFixed(4)),
+    probDown: parseFloat((1 - probUp).toFixed(4)),
+    sigmaPerSec: sigma,
+    remainingMs: Math.max(0, inputs.remainingMs),
+    zScore: parseFloat(zScore.toFixed(4)),
+  };
+}
+
+/** Fair value of the caller's window, opened at `window.openingPrice`. */
+export function oracleFairValue(oracle: BinanceOracle, window: OracleWindow, remainingMs: number): FairValue | null {
+  return computeFairValue({
+    currentPrice: oracle.getCurrentPrice(),
+    openingPrice: window.openingPrice,
+    sigmaPerSec: oracle.getRealizedVolatility(FAIR_VALUE_VOL_WINDOW_MINUTES),
+    remainingMs,
+  });
+}
@@ -0,0 +1,247 @@
+import { DEFAULT_FSM_PHASE_SCHEDULE, type BotConfig, type FsmPhaseSchedule, type MarketData } from "@shared/schema";
+import type { PriceSignal } from "./binance-oracle";
+import type { RegimeResult } from "./market-regime-filter";
+import type { FairValue } from "./fair-value";
+
+/**
+ * Pure FSM entry decisions. StrategyEngine and the backtester both call these so a
+ * replayed session goes through exactly the same filters, side selection and sizing
+ * as the live bot; all I/O (orders, positions, balance, events) stays with the caller.
+ */
+
+export type FsmState = "MAKING" | "UNWIND" | "CLOSE_ONLY" | "HEDGE_LOCK" | "DONE" | "STOPPED";
+
+export const PRICE_JUMP_THRESHOLD = 0.20;
+export const MAX_ENTRY_PRICE = 0.58;
+export const MIN_ENTRY_PRICE = 0.10;
+export const MIN_BOOK_DEPTH = 10;
+
+export interface FsmNotice {
+  type: "INFO" | "RISK_ALERT";
+  message: string;
+  data: Record<string, any>;
+  level: "info" | "warn" | "error";
+}
+
+export interface EntryBounds {
+  maxEntryPrice: number;
+  minEntryPrice: number;
+}
+
+/** Oracle confidence and risk budget (fraction of maxNetExposure) for the L1/L2 sizing layers. */
+export interface LayerParams {
+  strongMinConfidence: number;
+  strongRiskPct: number;
+  earlyMinConfidence: number;
+  earlyRiskPct: number;
+  earlySizeFactor: number;
+}
+
+export const DEFAULT_LAYER_PARAMS: LayerParams = {
+  strongMinConfidence: 0.55,
+  strongRiskPct: 0.05,
+  earlyMinConfidence: 0.35,
+  earlyRiskPct: 0.03,
+  earlySizeFactor: 0.6,
+};
+
+export type FsmSizing =
+  | { size: number; layer: string; notice: null }
+  | { size: 0; layer: null; notice: FsmNotice };
+
+export interface FsmPhaseThresholds {
+  unwindMs: number;
+  closeOnlyMs: number;
+  hedgeLockMs: number;
+}
+
+export const DEFAULT_PHASE_THRESHOLDS: FsmPhaseThresholds = { unwindMs: 60000, closeOnlyMs: 30000, hedgeLockMs: 15000 };
+
+/** Turns the bot_config phase schedule into remaining-ms boundaries for a window of `windowMs`. */
+export function resolvePhaseThresholds(schedule: FsmPhaseSchedule | null | undefined, windowMs: number): FsmPhaseThresholds {
+  const bounds = (schedule ?? DEFAULT_FSM_PHASE_SCHEDULE)[windowMs > 5 * 60_000 ? "15m" : "5m"];
+  const scale = bounds.mode === "fraction" ? windowMs : 1000;
+  return {
+    unwindMs: Math.round(bounds.unwind * scale),
+    closeOnlyMs: Math.round(bounds.closeOnly * scale),
+    hedgeLockMs: Math.round(bounds.hedgeLock * scale),
+  };
+}
+
+export function calculateFsmState(current: FsmState, remainingMs: number, phases: FsmPhaseThresholds = DEFAULT_PHASE_THRESHOLDS): FsmState {
+  if (current === "STOPPED") return current;
+  if (current === "DONE") return current;
+  if (remainingMs <= 0) return "DONE";
+  if (remainingMs <= phases.hedgeLockMs) return "HEDGE_LOCK";
+  if (remainingMs <= phases.closeOnlyMs) return "CLOSE_ONLY";
+  if (remainingMs <= phases.unwindMs) return "UNWIND";
+  return "MAKING";
+}
+
+export function checkPriceJump(data: MarketData, lastSeenBestBid: number, maxJump: number = PRICE_JUMP_THRESHOLD): FsmNotice | null {
+  if (lastSeenBestBid > 0 && Math.abs(data.bestBid - lastSeenBestBid) > maxJump) {
+    return {
+      type: "RISK_ALERT",
+      message: `[SAFETY] Price jump detected: $${lastSeenBestBid.toFixed(4)} → $${data.bestBid.toFixed(4)} (Δ${Math.abs(data.bestBid - lastSeenBestBid).toFixed(4)} > ${maxJump}) — skipping tick, possible mixed token data`,
+      data: { filter: "priceJump", previous: lastSeenBestBid, current: data.bestBid, delta: Math.abs(data.bestBid - lastSeenBestBid) },
+      level: "error",
+    };
+  }
+  return null;
+}
+
+export function checkSpread(data: MarketData, minSpread: number): FsmNotice | null {
+  if (data.spread < minSpread) {
+    return {
+      type: "INFO",
+      message: `[FILTER] Spread insuficiente: ${data.spread.toFixed(4)} < min ${minSpread} — no trade`,
+      data: { filter: "spread", spread: data.spread, minSpread },
+      level: "info",
+    };
+  }
+  return null;
+}
+
+export function checkDepth(data: MarketData, minDepth: number = MIN_BOOK_DEPTH): FsmNotice | null {
+  if (!(data.bidDepth > minDepth && data.askDepth > minDepth)) {
+    return {
+      type: "INFO",
+      message: `[FILTER] Mercado inactivo: bidDepth=${data.bidDepth.toFixed(0)} askDepth=${data.askDepth.toFixed(0)} (min ${minDepth}) — no trade`,
+      data: { filter: "marketActive", bidDepth: data.bidDepth, askDepth: data.askDepth, minDepth },
+      level: "info",
+    };
+  }
+  return null;
+}
+
+export function checkRegime(regime: RegimeResult): FsmNotice | null {
+  if (!regime.tradeable) {
+    return {
+      type: "INFO",
+      message: `[FILTER] Regime ${regime.regime}: ${regime.reason} — no trade`,
+      data: { filter: "regime", regime: regime.regime, reason: regime.reason, volatility: regime.volatility, depth: regime.depth, spread: regime.spread },
+      level: "info",
+    };
+  }
+  return null;
+}
+
+/**
+ * Determines which token side to BUY based on Oracle signal.
+ * side is always "BUY" because in binary markets we buy tokens (YES or NO).
+ * tokenSide determines WHICH token to buy (YES = tokenUp, NO = tokenDown).
+ */
+export function getOracleAlignedSide(signal: PriceSignal): { side: "BUY" | null; tokenSide: "YES" | "NO" | null; sizeMultiplier: number } {
+  if (signal.strength === "NONE" || signal.direction === "NEUTRAL") {
+    return { side: null, tokenSide: null, sizeMultiplier: 0 };
+  }
+
+  const sizeMultiplier = signal.strength === "STRONG" ? 1.5 : 0.75;
+  return { side: "BUY", tokenSide: signal.direction === "UP" ? "YES" : "NO", sizeMultiplier };
+}
+
+export function checkOracleSide(signal: PriceSignal, oracleConnected: boolean): { tokenSide: "YES" | "NO" | null; notice: FsmNotice | null } {
+  const aligned = getOracleAlignedSide(signal);
+  if (oracleConnected && !aligned.side) {
+    return {
+      tokenSide: null,
+      notice: {
+        type: "INFO",
+        message: `[FILTER] Oracle NEUTRAL: direction=${signal.direction} strength=${signal.strength} delta=$${signal.delta.toFixed(2)} conf=${(signal.confidence * 100).toFixed(0)}% — no trade`,
+        data: { filter: "oracle", direction: signal.direction, strength: signal.strength, delta: signal.delta, confidence: signal.confidence },
+        level: "info",
+      },
+    };
+  }
+  return { tokenSide: aligned.tokenSide, notice: null };
+}
+
+export function checkEntryPrice(entryPrice: number, bounds: EntryBounds = { maxEntryPrice: MAX_ENTRY_PRICE, minEntryPrice: MIN_ENTRY_PRICE }): FsmNotice | null {
+  if (entryPrice > bounds.maxEntryPrice) {
+    return {
+      type: "INFO",
+      message: `[STRATEGY] Entry price $${entryPrice.toFixed(3)} > max $${bounds.maxEntryPrice} — skipping (risk/reward unfavorable)`,
+      data: { filter: "maxPrice", entryPrice, maxAllowed: bounds.maxEntryPrice },
+      level: "info",
+    };
+  }
+
+  if (entryPrice < bounds.minEntryPrice) {
+    return {
+      type: "INFO",
+      message: `[STRATEGY] Entry price $${entryPrice.toFixed(3)} < min $${bounds.minEntryPrice} — skipping (likely stale data)`,
+      data: { filter: "minPrice", entryPrice, minAllowed: bounds.minEntryPrice },
+      level: "info",
+    };
+  }
+
+  return null;
+}
+
+/** Only enter when the token's fair probability exceeds the entry price by at least `minEdge`. */
+export function checkEdge(entryPrice: number, tokenSide: "YES" | "NO", fair: FairValue | null, minEdge: number): FsmNotice | null {
+  if (!fair) {
+    return {
+      type: "INFO",
+      message: `[FILTER] Fair value no disponible (sin precio de apertura del oracle) — no trade`,
+      data: { filter: "edge", reason: "noFairValue" },
+      level: "info",
+    };
+  }
+
+  const fairPrice = tokenSide === "YES" ? fair.probUp : fair.probDown;
+  const edge = fairPrice - entryPrice;
+  if (edge < minEdge) {
+    return {
+      type: "INFO",
+      message: `[FILTER] Edge insuficiente: fair ${tokenSide} ${fairPrice.toFixed(3)} - entry $${entryPrice.toFixed(3)} = ${edge.toFixed(3)} < min ${minEdge} — no trade`,
+      data: { filter: "edge", tokenSide, fairPrice, entryPrice, edge, minEdge },
+      level: "info",
+    };
+  }
+
+  return null;
+}
+
+/**
+ * L1/L2 sizing from oracle strength and confidence. Signals too weak for L2 are
+ * Layer 3 and skipped, unless `skipWeak` is off, in which case they size as L2.
+ */
+export function sizeFsmEntry(
+  entryPrice: number,
+  signal: PriceSignal,
+  config: Pick<BotConfig, "maxNetExposure" | "orderSize">,
+  layers: LayerParams = DEFAULT_LAYER_PARAMS,
+  skipWeak = true,
+): FsmSizing {
+  const oracleConfidence = signal.confidence;
+  let effectiveSize: number;
+  let layer: string;
+
+  if (signal.strength === "STRONG" && oracleConfidence >= layers.strongMinConfidence) {
+    const maxRisk = config.maxNetExposure * layers.strongRiskPct;
+    effectiveSize = parseFloat(Math.min(maxRisk / entryPrice, config.orderSize).toFixed(2));
+    layer = "L1-STRONG";
+  } else if (!skipWeak || (signal.strength !== "NONE" && oracleConfidence >= layers.earlyMinConfidence)) {
+    const maxRisk = config.maxNetExposure * layers.earlyRiskPct;
+    effectiveSize = parseFloat(Math.min(maxRisk / entryPrice, config.orderSize * layers.earlySizeFactor).toFixed(2));
+    layer = "L2-EARLY";
+  } else {
+    return {
+      size: 0,
+      layer: null,
+      notice: {
+        type: "INFO",
+        message: `[STRATEGY] Layer 3: Oracle too weak (confidence=${(oracleConfidence * 100).toFixed(0)}%, strength=${signal.strength}) — no trade`,
+        data: { filter: "layer3", confidence: oracleConfidence, strength: signal.strength },
+        level: "info",
+      },
+    };
+  }
+
+  if (effectiveSize < 1) {
+    effectiveSize = 1;
+  }
+
+  return { size: effectiveSize, layer, notice: null };
+}
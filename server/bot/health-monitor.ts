@@ -5,6 +5,7 @@ import { apiRateLimiter } from "./rate-limiter";
 import { alertManager, type AlertLevel } from "./alert-manager";
 import { binanceOracle } from "./binance-oracle";
 import { storage } from "../storage";
+import { CLOB_BASE_URL } from "./endpoints";
 
 export interface HealthCheckResult {
   overall: "healthy" | "degraded" | "unhealthy";
@@ -56,7 +57,7 @@ async function checkRpc(): Promise<HealthCheckResult["checks"]["rpc"]> {
 async function checkClobApi(): Promise<HealthCheckResult["checks"]["clobApi"]> {
   const start = Date.now();
   try {
-    const resp = await fetch("https://clob.polymarket.com/time", {
+    const resp = await fetch(`${CLOB_BASE_URL}/time`, {
       signal: AbortSignal.timeout(8000),
     });
     if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
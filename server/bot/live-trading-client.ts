@@ -2,10 +2,12 @@ import { ClobClient, Side, OrderType } from "@polymarket/clob-client";
 import type { ApiKeyCreds } from "@polymarket/clob-client";
 import { Wallet } from "@ethersproject/wallet";
 import { StaticJsonRpcProvider } from "@ethersproject/providers";
-import { Contract } from "@ethersproject/contracts";
+import { Contract, type ContractReceipt } from "@ethersproject/contracts";
 import { BigNumber } from "@ethersproject/bignumber";
 import { storage } from "../storage";
 import { apiRateLimiter } from "./rate-limiter";
+import { CLOB_BASE_URL } from "./endpoints";
+import { buildGasOverrides, isRetryableRpcError, retryWithProviders, submitTxWithRetry, type ProviderSource } from "./rpc-retry";
 
 const USDC_E_ADDRESS = "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174";
 const USDC_NATIVE_ADDRESS = "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359";
@@ -22,8 +24,18 @@ const ERC1155_ABI = [
   "function setApprovalForAll(address operator, bool approved)",
   "function isApprovedForAll(address account, address operator) view returns (bool)",
 ];
+const CTF_REDEEM_ABI = [
+  "function balanceOf(address account, uint256 id) view returns (uint256)",
+  "function payoutDenominator(bytes32 conditionId) view returns (uint256)",
+  "function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)",
+  "function mergePositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] partition, uint256 amount)",
+];
+const NEG_RISK_ADAPTER_ABI = [
+  "function redeemPositions(bytes32 conditionId, uint256[] amounts)",
+  "function mergePositions(bytes32 conditionId, uint256 amount)",
+];
+const ZERO_BYTES32 = "0x0000000000000000000000000000000000000000000000000000000000000000";
 
-const CLOB_HOST = "https://clob.polymarket.com";
 const CHAIN_ID = 137;
 
 const DEFAULT_RPC_ENDPOINTS = [
@@ -49,19 +61,6 @@ let cachedProvider: StaticJsonRpcProvider | null = null;
 let cachedProviderTime = 0;
 const PROVIDER_CACHE_TTL = 60000;
 
-function isRetryableRpcError(msg: string | undefined): boolean {
-  if (!msg) return false;
-  return msg.includes("Too many requests") ||
-    msg.includes("rate limit") ||
-    msg.includes("could not detect network") ||
-    msg.includes("NETWORK_ERROR") ||
-    msg.includes("SERVER_ERROR") ||
-    msg.includes("failed to meet quorum") ||
-    msg.includes("timeout") ||
-    msg.includes("ETIMEDOUT") ||
-    msg.includes("ECONNREFUSED");
-}
-
 function createProvider(url: string): StaticJsonRpcProvider {
   return new StaticJsonRpcProvider({
     url,
@@ -164,32 +163,24 @@ async function serialRpcCall<T>(calls: (() => Promise<T>)[], delayMs = 2000): Pr
   return results;
 }
 
+const polygonProviders: ProviderSource<StaticJsonRpcProvider> = {
+  current: getPolygonProvider,
+  fresh: () => {
+    invalidateProviderCache();
+    return getWorkingProvider();
+  },
+  onRetryableError: markRpcError,
+};
+
 async function withProviderRetry<T>(
   fn: (provider: StaticJsonRpcProvider) => Promise<T>,
   maxRetries = 4,
 ): Promise<T> {
-  let lastErr: Error | null = null;
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      if (attempt === 0) {
-        return await fn(getPolygonProvider());
-      }
-      invalidateProviderCache();
-      const provider = await getWorkingProvider();
-      return await fn(provider);
-    } catch (err: any) {
-      lastErr = err;
-      if (isRetryableRpcError(err.message) && attempt < maxRetries - 1) {
-        markRpcError();
-        const backoffMs = 3000 * (attempt + 1);
-        console.log(`[RPC] Provider error (attempt ${attempt + 1}/${maxRetries}), rotating in ${backoffMs}ms: ${err.message?.slice(0, 80)}`);
-        await delay(backoffMs);
-      } else {
-        throw err;
-      }
-    }
-  }
-  throw lastErr;
+  return retryWithProviders(polygonProviders, fn, { maxRetries });
+}
+
+async function getUsdcBalance(address: string): Promise<BigNumber> {
+  return withProviderRetry((provider) => new Contract(USDC_E_ADDRESS, ERC20_ABI, provider).balanceOf(address));
 }
 
 function getSignatureType(): number {
@@ -303,7 +294,7 @@ export class LiveTradingClient {
       let workingSigType = baseSigType;
       for (const sigType of sigTypesToTry) {
         try {
-          const tempClient = new ClobClient(CLOB_HOST, CHAIN_ID, this.wallet, undefined, sigType, funder);
+          const tempClient = new ClobClient(CLOB_BASE_URL, CHAIN_ID, this.wallet, undefined, sigType, funder);
           try {
             this.creds = await tempClient.deriveApiKey();
             workingSigType = sigType;
@@ -329,7 +320,7 @@ export class LiveTradingClient {
       console.log(`[LiveTrading] Using signature type: ${workingSigType}`);
 
       this.client = new ClobClient(
-        CLOB_HOST,
+        CLOB_BASE_URL,
         CHAIN_ID,
         this.wallet,
         this.creds,
@@ -414,7 +405,7 @@ export class LiveTradingClient {
       try {
         const funder = getFunderAddress();
         const testClient = new ClobClient(
-          CLOB_HOST, CHAIN_ID, this.wallet!, this.creds!,
+          CLOB_BASE_URL, CHAIN_ID, this.wallet!, this.creds!,
           sigType, funder,
         );
         await testClient.updateBalanceAllowance({ asset_type: "COLLATERAL" } as any);
@@ -492,7 +483,7 @@ export class LiveTradingClient {
     try {
       const funder = getFunderAddress();
       this.client = new ClobClient(
-        CLOB_HOST, CHAIN_ID, this.wallet, this.creds,
+        CLOB_BASE_URL, CHAIN_ID, this.wallet, this.creds,
         sigType, funder,
       );
       console.log(`[LiveTrading] Reinitialized CLOB client with sigType=${sigType}`);
@@ -728,31 +719,7 @@ export class LiveTradingClient {
         },
       ];
 
-      const buildGasOverrides = async (prov: StaticJsonRpcProvider, includeGasLimit: boolean): Promise<any> => {
-        const overrides: any = {};
-        try {
-          const feeData = await prov.getFeeData();
-          const minTipGwei = BigNumber.from("30000000000");
-          if (feeData.maxFeePerGas) {
-            overrides.maxFeePerGas = feeData.maxFeePerGas.mul(2);
-            overrides.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas && feeData.maxPriorityFeePerGas.gt(minTipGwei)
-              ? feeData.maxPriorityFeePerGas
-              : minTipGwei;
-          } else if (feeData.gasPrice) {
-            const minGasPrice = BigNumber.from("50000000000");
-            overrides.gasPrice = feeData.gasPrice.gt(minGasPrice) ? feeData.gasPrice : minGasPrice;
-          }
-        } catch (err: any) {
-          console.warn(`[LiveTrading] Could not fetch fee data, using defaults: ${err.message?.slice(0, 60)}`);
-          overrides.gasPrice = BigNumber.from("50000000000");
-        }
-        if (includeGasLimit) {
-          overrides.gasLimit = SAFE_GAS_LIMIT;
-        }
-        return overrides;
-      };
-
-      let gasOverrides = await buildGasOverrides(activeProvider, true);
+      let gasOverrides = await buildGasOverrides(activeProvider, SAFE_GAS_LIMIT);
       console.log(`[LiveTrading] Gas overrides: maxFee=${gasOverrides.maxFeePerGas?.toString()}, tip=${gasOverrides.maxPriorityFeePerGas?.toString()}, gasPrice=${gasOverrides.gasPrice?.toString()}, gasLimit=${gasOverrides.gasLimit}`);
 
       for (const step of approvalSteps) {
@@ -775,7 +742,7 @@ export class LiveTradingClient {
               activeProvider = fresh.provider;
               usdc = fresh.usdc;
               ctf = fresh.ctf;
-              gasOverrides = await buildGasOverrides(activeProvider, true);
+              gasOverrides = await buildGasOverrides(activeProvider, SAFE_GAS_LIMIT);
               console.log(`[LiveTrading] Retry with fresh provider + gasLimit=${SAFE_GAS_LIMIT}`);
             }
 
@@ -847,6 +814,115 @@ export class LiveTradingClient {
     }
   }
 
+  getTokenHolderAddress(): { address: string | null; supported: boolean; reason?: string } {
+    if (!this.wallet) return { address: null, supported: false, reason: "Wallet not initialized" };
+    const sigType = this.detectedSigType ?? getSignatureType();
+    const funder = getFunderAddress();
+    if (sigType !== 0 && funder) {
+      return { address: funder, supported: false, reason: `sigType=${sigType}: tokens are held by proxy wallet ${funder.slice(0, 6)}...${funder.slice(-4)}; redeem via polymarket.com` };
+    }
+    return { address: this.wallet.address, supported: true };
+  }
+
+  async getConditionalTokenBalances(tokenIds: string[]): Promise<Record<string, number> | null> {
+    const holder = this.getTokenHolderAddress().address;
+    if (!holder) return null;
+    try {
+      return await withProviderRetry(async (provider) => {
+        const ctf = new Contract(CTF_ADDRESS, CTF_REDEEM_ABI, provider);
+        const raw = await serialRpcCall<BigNumber>(
+          tokenIds.map(id => () => ctf.balanceOf(holder, id)),
+          300,
+        );
+        const balances: Record<string, number> = {};
+        tokenIds.forEach((id, i) => {
+          balances[id] = parseFloat(raw[i].toString()) / 1e6;
+        });
+        return balances;
+      });
+    } catch (error: any) {
+      console.error(`[LiveTrading] CTF balance error: ${error.message} | tokens=${tokenIds.length}`);
+      return null;
+    }
+  }
+
+  async isConditionResolvedOnChain(conditionId: string): Promise<boolean> {
+    try {
+      return await withProviderRetry(async (provider) => {
+        const ctf = new Contract(CTF_ADDRESS, CTF_REDEEM_ABI, provider);
+        const denominator: BigNumber = await ctf.payoutDenominator(conditionId);
+        return denominator.gt(0);
+      });
+    } catch (error: any) {
+      console.error(`[LiveTrading] payoutDenominator error: ${error.message} | condition=${conditionId.slice(0, 12)}...`);
+      return false;
+    }
+  }
+
+  async redeemPositions(params: {
+    conditionId: string;
+    negRisk: boolean;
+    amounts: [number, number];
+  }): Promise<{ success: boolean; txHash?: string; usdcReceived?: number; error?: string }> {
+    const holder = this.getTokenHolderAddress();
+    if (!this.wallet || !holder.supported || !holder.address) {
+      return { success: false, error: holder.reason || "Wallet not initialized" };
+    }
+
+    try {
+      const before = await getUsdcBalance(holder.address);
+      const receipt = await submitTxWithRetry<StaticJsonRpcProvider, ContractReceipt>(polygonProviders, (provider, overrides) => {
+        const signer = this.wallet!.connect(provider);
+        if (params.negRisk) {
+          const adapter = new Contract(NEG_RISK_ADAPTER, NEG_RISK_ADAPTER_ABI, signer);
+          const amounts = params.amounts.map(a => BigNumber.from(Math.floor(a * 1e6)));
+          return adapter.redeemPositions(params.conditionId, amounts, overrides);
+        }
+        const ctf = new Contract(CTF_ADDRESS, CTF_REDEEM_ABI, signer);
+        return ctf.redeemPositions(USDC_E_ADDRESS, ZERO_BYTES32, params.conditionId, [1, 2], overrides);
+      }, { gasLimit: 400000 });
+
+      const after = await getUsdcBalance(holder.address);
+      const usdcReceived = parseFloat(after.sub(before).toString()) / 1e6;
+      console.log(`[LiveTrading] Redeemed condition ${params.conditionId.slice(0, 12)}... (${params.negRisk ? "neg-risk adapter" : "CTF"}): +$${usdcReceived.toFixed(2)} tx=${receipt.transactionHash}`);
+      return { success: true, txHash: receipt.transactionHash, usdcReceived };
+    } catch (error: any) {
+      console.error(`[LiveTrading] Redeem error: ${error.message?.slice(0, 200)} | condition=${params.conditionId.slice(0, 12)}...`);
+      return { success: false, error: error.message?.slice(0, 200) || "unknown error" };
+    }
+  }
+
+  async mergePositions(params: {
+    conditionId: string;
+    negRisk: boolean;
+    amount: number;
+  }): Promise<{ success: boolean; txHash?: string; usdcReceived?: number; error?: string }> {
+    const holder = this.getTokenHolderAddress();
+    if (!this.wallet || !holder.supported || !holder.address) {
+      return { success: false, error: holder.reason || "Wallet not initialized" };
+    }
+
+    try {
+      const before = await getUsdcBalance(holder.address);
+      const amount = BigNumber.from(Math.floor(params.amount * 1e6));
+      const receipt = await submitTxWithRetry<StaticJsonRpcProvider, ContractReceipt>(polygonProviders, (provider, overrides) => {
+        const signer = this.wallet!.connect(provider);
+        if (params.negRisk) {
+          return new Contract(NEG_RISK_ADAPTER, NEG_RISK_ADAPTER_ABI, signer).mergePositions(params.conditionId, amount, overrides);
+        }
+        return new Contract(CTF_ADDRESS, CTF_REDEEM_ABI, signer).mergePositions(USDC_E_ADDRESS, ZERO_BYTES32, params.conditionId, [1, 2], amount, overrides);
+      }, { gasLimit: 400000 });
+
+      const after = await getUsdcBalance(holder.address);
+      const usdcReceived = parseFloat(after.sub(before).toString()) / 1e6;
+      console.log(`[LiveTrading] Merged ${params.amount} YES+NO pairs for condition ${params.conditionId.slice(0, 12)}... (${params.negRisk ? "neg-risk adapter" : "CTF"}): +$${usdcReceived.toFixed(2)} tx=${receipt.transactionHash}`);
+      return { success: true, txHash: receipt.transactionHash, usdcReceived };
+    } catch (error: any) {
+      console.error(`[LiveTrading] Merge error: ${error.message?.slice(0, 200)} | condition=${params.conditionId.slice(0, 12)}...`);
+      return { success: false, error: error.message?.slice(0, 200) || "unknown error" };
+    }
+  }
+
   async placeOrder(params: {
     tokenId: string;
     side: "BUY" | "SELL";
@@ -918,7 +994,7 @@ export class LiveTradingClient {
         for (const altSig of sigTypesToTry) {
           try {
             const funder = getFunderAddress();
-            const altClient = new ClobClient(CLOB_HOST, CHAIN_ID, this.wallet, this.creds, altSig, funder);
+            const altClient = new ClobClient(CLOB_BASE_URL, CHAIN_ID, this.wallet, this.creds, altSig, funder);
             response = await attemptOrder(altClient);
             const altResponseStr = JSON.stringify(response);
             const stillInvalid = altResponseStr?.toLowerCase().includes("invalid signature") ||
@@ -1,9 +1,11 @@
 import type { MarketData } from "@shared/schema";
 import { polymarketClient } from "./polymarket-client";
 import type { PolymarketWebSocket } from "./polymarket-ws";
+import type { OrderBook } from "./order-book";
 
 export class MarketDataModule {
   private lastData: MarketData | null = null;
+  private lastBook: OrderBook | null = null;
   private currentTokenId: string | null = null;
   private useSimulation = false;
   private consecutiveErrors = 0;
@@ -52,8 +54,10 @@ export class MarketDataModule {
     if (!this.currentTokenId) return null;
 
     try {
-      const data = await polymarketClient.fetchMarketData(this.currentTokenId);
-      if (data) {
+      const book = await polymarketClient.fetchL2Book(this.currentTokenId);
+      const data = book ? book.toMarketData() : null;
+      if (book && data) {
+        this.lastBook = book;
         if (this.consecutiveErrors > 0) {
           console.log(`[MarketData] Recovered after ${this.consecutiveErrors} consecutive errors | tokenId=${this.currentTokenId.slice(0, 12)}... | bid=${data.bestBid} ask=${data.bestAsk}`);
         }
@@ -169,6 +173,16 @@ export class MarketDataModule {
     return this.lastData;
   }
 
+  /** L2 book of the current token: the WS book while the feed is live, else the last REST book. */
+  getOrderBook(): OrderBook | null {
+    if (!this.currentTokenId || this.useSimulation) return null;
+    if (this.wsSource && this.isWsActive()) {
+      const book = this.wsSource.getOrderBook(this.currentTokenId);
+      if (book) return book;
+    }
+    return this.lastBook?.tokenId === this.currentTokenId ? this.lastBook : null;
+  }
+
   isSpreadSufficient(minSpread: number): boolean {
     if (!this.lastData) return false;
     return this.lastData.spread >= minSpread;
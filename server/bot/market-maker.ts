@@ -0,0 +1,336 @@
+import { storage } from "../storage";
+import { OrderManager, getStrategyHoldings } from "./order-manager";
+import { realClock, type Clock } from "./clock";
+import { resolvePhaseThresholds } from "./fsm-decision";
+import { exitManager } from "./exit-manager";
+import type { FairValue } from "./fair-value";
+import type { RiskCheck } from "./risk-manager";
+import type { BotConfig, MarketData, MarketMakerQuote, MarketMakerStatus, Order } from "@shared/schema";
+
+export const MARKET_MAKER_STRATEGY_ID = "market_maker";
+/** Minimum time between two requotes of the same slot, so a flickering book does not churn orders. */
+export const MIN_REQUOTE_INTERVAL_MS = 2000;
+/** `purpose` of the mm's resting quotes, as opposed to its exit SELLs. */
+const QUOTE_PURPOSE = "quote";
+const MIN_PRICE = 0.01;
+const MAX_PRICE = 0.99;
+
+export type MarketMakerMode = "both_bids" | "bid_ask";
+
+export interface QuoteInputs {
+  mode: MarketMakerMode;
+  /** P(YES). */
+  fair: number;
+  /** YES book top; the NO book is its inverse. */
+  bestBid: number;
+  bestAsk: number;
+  tickSize: number;
+  size: number;
+  targetProfitMin: number;
+  targetProfitMax: number;
+  /** 0 at window open, 1 at expiry. */
+  elapsedFraction: number;
+  inventory: { yes: number; no: number };
+  maxInventory: number;
+  inventorySkew: number;
+  /** Lowest acceptable ask for held YES shares (bid_ask mode). */
+  exitFloor: number | null;
+}
+
+export interface QuoteSet {
+  halfSpread: number;
+  skew: number;
+  quotes: MarketMakerQuote[];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function roundToTick(price: number, tick: number, direction: "down" | "up"): number {
+  const steps = price / tick;
+  const rounded = direction === "down" ? Math.floor(steps + 1e-9) : Math.ceil(steps - 1e-9);
+  return parseFloat((rounded * tick).toFixed(4));
+}
+
+/**
+ * Quotes around the fair value. The half-spread widens from targetProfitMin/2 to
+ * targetProfitMax/2 as the window runs out, and inventory shifts every quote
+ * against the side already held (harder toward expiry). Bids never cross the
+ * opposing best ask and asks never cross the best bid, so quotes stay passive.
+ */
+export function computeQuotes(inputs: QuoteInputs): QuoteSet {
+  const elapsed = clamp(inputs.elapsedFraction, 0, 1);
+  const tick = inputs.tickSize > 0 ? inputs.tickSize : 0.01;
+  const halfSpread = (inputs.targetProfitMin + (inputs.targetProfitMax - inputs.targetProfitMin) * elapsed) / 2;
+  const net = inputs.mode === "both_bids" ? inputs.inventory.yes - inputs.inventory.no : inputs.inventory.yes;
+  const maxInventory = Math.max(inputs.maxInventory, 1e-9);
+  const skew = inputs.inventorySkew * clamp(net / maxInventory, -1, 1) * (1 + elapsed);
+  const quotes: MarketMakerQuote[] = [];
+
+  const bid = (slot: MarketMakerQuote["slot"], tokenSide: "YES" | "NO", raw: number, bestAsk: number) => {
+    const price = roundToTick(Math.min(raw, bestAsk - tick, MAX_PRICE), tick, "down");
+    if (price >= MIN_PRICE && inputs.size > 0) {
+      quotes.push({ slot, tokenSide, side: "BUY", price, size: inputs.size });
+    }
+  };
+
+  if (net < inputs.maxInventory) {
+    bid("YES_BID", "YES", inputs.fair - halfSpread - skew, inputs.bestAsk);
+  }
+
+  if (inputs.mode === "both_bids") {
+    if (net > -inputs.maxInventory) {
+      bid("NO_BID", "NO", 1 - inputs.fair - halfSpread + skew, 1 - inputs.bestBid);
+    }
+  } else if (inputs.inventory.yes > 0) {
+    const raw = Math.max(inputs.fair + halfSpread - skew, inputs.exitFloor ?? 0);
+    const price = roundToTick(clamp(Math.max(raw, inputs.bestBid + tick), MIN_PRICE, MAX_PRICE), tick, "up");
+    const size = Math.min(inputs.size, inputs.inventory.yes);
+    if (price <= MAX_PRICE && size > 0) {
+      quotes.push({ slot: "YES_ASK", tokenSide: "YES", side: "SELL", price, size: parseFloat(size.toFixed(4)) });
+    }
+  }
+
+  return {
+    halfSpread: parseFloat(halfSpread.toFixed(4)),
+    skew: parseFloat(skew.toFixed(4)),
+    quotes,
+  };
+}
+
+export interface MarketMakerTickContext {
+  config: BotConfig;
+  data: MarketData;
+  remainingMs: number;
+  windowMs: number;
+  fair: FairValue | null;
+  orderManager: OrderManager;
+  /** Take-profit floor for an inventory bought at entryPrice. */
+  exitPrice: (entryPrice: number) => number;
+  /** Pre-trade risk check for the extra notional a new BUY quote would add. */
+  checkRisk: (orderValue: number) => Promise<RiskCheck>;
+  /** The mm strategy's capital budget check for a new BUY quote. */
+  checkBudget: (orderValue: number) => Promise<RiskCheck>;
+}
+
+export class MarketMaker {
+  private lastQuoteAt = new Map<MarketMakerQuote["slot"], number>();
+  private quoteOrders = new Map<MarketMakerQuote["slot"], string>();
+  private lastQuotes: MarketMakerQuote[] = [];
+  private lastFair: { value: number; source: "oracle" | "book" } | null = null;
+  private lastHalfSpread: number | null = null;
+  private lastSkew: number | null = null;
+  private inventory = { yes: 0, no: 0 };
+  private quoting = false;
+  private requotes = 0;
+  private lastBlocked: string | null = null;
+  private busy = false;
+
+  constructor(private readonly clock: Clock = realClock) {}
+
+  getStatus(config: Pick<BotConfig, "mmMode"> | null, enabled: boolean): MarketMakerStatus {
+    return {
+      enabled,
+      mode: (config?.mmMode || "both_bids") as MarketMakerMode,
+      quoting: enabled && this.quoting,
+      fair: this.lastFair?.value ?? null,
+      fairSource: this.lastFair?.source ?? null,
+      halfSpread: this.lastHalfSpread,
+      skew: this.lastSkew,
+      inventory: { ...this.inventory, net: parseFloat((this.inventory.yes - this.inventory.no).toFixed(4)) },
+      quotes: this.lastQuotes.map(q => ({ ...q, orderId: this.quoteOrders.get(q.slot) ?? null })),
+      requotes: this.requotes,
+      lastBlocked: this.lastBlocked,
+    };
+  }
+
+  /** Only called by the engine while the "market_maker" strategy is enabled. */
+  async tick(ctx: MarketMakerTickContext): Promise<void> {
+    if (this.busy) return;
+    this.busy = true;
+    try {
+      await this.runTick(ctx);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private async runTick(ctx: MarketMakerTickContext): Promise<void> {
+    const { config, data, orderManager } = ctx;
+    const yesToken = config.currentMarketId || "";
+    const noToken = config.currentMarketTokenDown || "";
+    const marketId = config.currentMarketSlug || yesToken || "unknown";
+
+    const activeOrders = await orderManager.getActiveOrders();
+    // Exit SELLs for mm inventory carry the same strategy tag but belong to the exit manager.
+    const mmOrders = activeOrders.filter(o => o.strategy === MARKET_MAKER_STRATEGY_ID && o.purpose === QUOTE_PURPOSE);
+
+    const stale = mmOrders.filter(o => o.marketId !== marketId);
+    for (const order of stale) {
+      await orderManager.cancelOrder(order.id);
+    }
+    const current = mmOrders.filter(o => o.marketId === marketId);
+
+    if (!yesToken || yesToken.includes("sim") || data.bestBid <= 0 || data.bestAsk <= 0) {
+      await this.stopQuoting(orderManager, current);
+      return;
+    }
+
+    const { unwindMs } = resolvePhaseThresholds(config.phaseSchedule, ctx.windowMs);
+    if (ctx.remainingMs <= unwindMs) {
+      if (this.quoting) {
+        await storage.createEvent({
+          type: "INFO",
+          message: `[MM] Fin de quoting: quedan ${Math.floor(ctx.remainingMs / 1000)}s (unwind a ${Math.floor(unwindMs / 1000)}s)`,
+          data: { market: marketId, remainingMs: ctx.remainingMs, cancelled: current.length },
+          level: "info",
+        });
+      }
+      await this.stopQuoting(orderManager, current);
+      return;
+    }
+
+    // Only the mm's own fills: other strategies holding the same token are not its inventory.
+    const holdings = await getStrategyHoldings(MARKET_MAKER_STRATEGY_ID, marketId);
+    const yesHolding = holdings.find(h => h.tokenId === yesToken);
+    const noHolding = noToken ? holdings.find(h => h.tokenId === noToken) : undefined;
+    this.inventory = { yes: yesHolding?.size ?? 0, no: noHolding?.size ?? 0 };
+
+    const mode = (config.mmMode || "both_bids") as MarketMakerMode;
+    this.lastFair = ctx.fair
+      ? { value: ctx.fair.probUp, source: "oracle" }
+      : { value: data.midpoint, source: "book" };
+
+    const quoteSet = computeQuotes({
+      mode,
+      fair: this.lastFair.value,
+      bestBid: data.bestBid,
+      bestAsk: data.bestAsk,
+      tickSize: parseFloat(config.currentMarketTickSize || "0.01"),
+      size: config.mmQuoteSize,
+      targetProfitMin: config.targetProfitMin,
+      targetProfitMax: config.targetProfitMax,
+      elapsedFraction: 1 - ctx.remainingMs / ctx.windowMs,
+      inventory: this.inventory,
+      maxInventory: config.mmMaxInventory,
+      inventorySkew: config.mmInventorySkew,
+      exitFloor: yesHolding ? ctx.exitPrice(yesHolding.avgEntryPrice) : null,
+    });
+    const quotes = quoteSet.quotes.filter(q =>
+      (q.tokenSide === "YES" || (noToken && !noToken.includes("sim")))
+      && !(q.side === "SELL" && exitManager.isExiting(MARKET_MAKER_STRATEGY_ID, yesToken))
+    );
+    this.lastHalfSpread = quoteSet.halfSpread;
+    this.lastSkew = quoteSet.skew;
+    this.lastQuotes = quotes;
+    this.quoting = true;
+
+    const slots: MarketMakerQuote["slot"][] = ["YES_BID", "NO_BID", "YES_ASK"];
+    for (const slot of slots) {
+      const desired = quotes.find(q => q.slot === slot);
+      const resting = current.filter(o => slotOf(o) === slot);
+
+      if (!desired) {
+        for (const order of resting) await orderManager.cancelOrder(order.id);
+        this.quoteOrders.delete(slot);
+        continue;
+      }
+
+      const keep = resting.find(o => Math.abs(o.price - desired.price) < config.mmRequoteThreshold);
+      for (const order of resting) {
+        if (order !== keep) await orderManager.cancelOrder(order.id);
+      }
+      if (keep) {
+        this.quoteOrders.set(slot, keep.id);
+        continue;
+      }
+      this.quoteOrders.delete(slot);
+
+      const now = this.clock.now();
+      if (now - (this.lastQuoteAt.get(slot) ?? 0) < MIN_REQUOTE_INTERVAL_MS) continue;
+      this.lastQuoteAt.set(slot, now);
+
+      if (desired.side === "BUY") {
+        const restingBuys = current
+          .filter(o => o.side === "BUY" && slotOf(o) !== slot)
+          .reduce((sum, o) => sum + o.price * (o.size - o.filledSize), 0);
+        const risk = await ctx.checkRisk(restingBuys + desired.price * desired.size);
+        if (!risk.allowed) {
+          await this.block(`${slot}: ${risk.reason}`, { slot, price: desired.price, size: desired.size, restingBuys });
+          continue;
+        }
+        const budget = await ctx.checkBudget(desired.price * desired.size);
+        if (!budget.allowed) {
+          await this.block(`${slot}: ${budget.reason}`, { slot, price: desired.price, size: desired.size });
+          continue;
+        }
+      }
+
+      try {
+        const order = await orderManager.placeOrder({
+          marketId,
+          tokenId: desired.tokenSide === "YES" ? yesToken : noToken,
+          tokenSide: desired.tokenSide,
+          side: desired.side,
+          price: desired.price,
+          size: desired.size,
+          isPaperTrade: config.isPaperTrading,
+          negRisk: config.currentMarketNegRisk ?? false,
+          tickSize: config.currentMarketTickSize ?? "0.01",
+          isMakerOrder: true,
+          strategy: MARKET_MAKER_STRATEGY_ID,
+          purpose: QUOTE_PURPOSE,
+        });
+        if (order.status === "REJECTED") {
+          await this.block(`${slot}: capital budget exceeded`, { slot, price: desired.price, size: desired.size });
+          continue;
+        }
+        this.quoteOrders.set(slot, order.id);
+        if (resting.length > 0) this.requotes++;
+        this.lastBlocked = null;
+      } catch (err: any) {
+        await this.block(`${slot}: ${err.message}`, { slot, price: desired.price, size: desired.size });
+      }
+    }
+  }
+
+  private async stopQuoting(orderManager: OrderManager, orders: Order[]): Promise<void> {
+    for (const order of orders) {
+      await orderManager.cancelOrder(order.id);
+    }
+    this.quoting = false;
+    this.lastQuotes = [];
+    this.quoteOrders.clear();
+  }
+
+  private async block(reason: string, data: Record<string, unknown>): Promise<void> {
+    if (reason === this.lastBlocked) return;
+    this.lastBlocked = reason;
+    console.log(`[MM] Quote blocked — ${reason}`);
+    await storage.createEvent({
+      type: "RISK_ALERT",
+      message: `[MM] Quote bloqueada — ${reason}`,
+      data,
+      level: "warn",
+    });
+  }
+
+  reset(): void {
+    this.lastQuoteAt.clear();
+    this.quoteOrders.clear();
+    this.lastQuotes = [];
+    this.lastFair = null;
+    this.lastHalfSpread = null;
+    this.lastSkew = null;
+    this.inventory = { yes: 0, no: 0 };
+    this.quoting = false;
+    this.requotes = 0;
+    this.lastBlocked = null;
+  }
+}
+
+function slotOf(order: Order): MarketMakerQuote["slot"] {
+  if (order.side === "SELL") return "YES_ASK";
+  return order.tokenSide === "NO" ? "NO_BID" : "YES_BID";
+}
@@ -0,0 +1,346 @@
+import { storage } from "../storage";
+import { db } from "../db";
+import {
+  dualEntryConfig,
+  type InsertRecordedBookEvent, type InsertRecordedTrade, type InsertRecordedOracleTick,
+  type RecordedBookEvent, type RecordedTrade, type RecordedOracleTick,
+  type RecorderStatus,
+} from "@shared/schema";
+import { polymarketWs } from "./polymarket-ws";
+import { polymarketClient } from "./polymarket-client";
+import { oracleRegistry, type OracleTick } from "./binance-oracle";
+import { parseBookLevels, type BookLevel } from "./order-book";
+import { assetFromSlug } from "../strategies/dualEntry5m/market-5m-discovery";
+
+export type TokenOutcome = "UP" | "DOWN";
+
+export type RecordedEvent =
+  | { type: "book"; ts: number; tokenId: string; outcome: string | null; source: string; bids: BookLevel[]; asks: BookLevel[] }
+  | { type: "delta"; ts: number; tokenId: string; outcome: string | null; changes: { price: number; size: number; side: string }[]; bestBid: number | null; bestAsk: number | null }
+  | { type: "trade"; ts: number; tokenId: string; outcome: string | null; price: number; size: number; side: string | null }
+  | { type: "oracle"; ts: number; price: number; source: string };
+
+export interface RecordedSessionData {
+  marketSlug: string;
+  tokens: string[];
+  tokenUp: string | null;
+  tokenDown: string | null;
+  from: number;
+  to: number;
+  events: RecordedEvent[];
+}
+
+const FLUSH_INTERVAL_MS = 2_000;
+const FLUSH_BATCH_SIZE = 500;
+const MAX_BUFFERED = 10_000;
+const PURGE_INTERVAL_MS = 3_600_000;
+const TOKEN_MAP_TTL_MS = 15 * 60_000;
+const ORACLE_PAD_MS = 60_000;
+
+function parseTs(raw: any, fallback: number): number {
+  const n = typeof raw === "string" ? parseInt(raw, 10) : raw;
+  if (!n || !Number.isFinite(n)) return fallback;
+  return n < 1e12 ? n * 1000 : n;
+}
+
+export class MarketRecorder {
+  private enabled = process.env.RECORDER_ENABLED !== "false";
+  private retentionHours = parseFloat(process.env.RECORDER_RETENTION_HOURS || "48");
+  private snapshotIntervalMs = parseInt(process.env.RECORDER_SNAPSHOT_MS || "10000", 10);
+  private oracleSampleMs = parseInt(process.env.RECORDER_ORACLE_SAMPLE_MS || "250", 10);
+
+  private bookBuffer: InsertRecordedBookEvent[] = [];
+  private tradeBuffer: InsertRecordedTrade[] = [];
+  private oracleBuffer: InsertRecordedOracleTick[] = [];
+  private tokenSlugs: Map<string, { slug: string; outcome: TokenOutcome; seenAt: number }> = new Map();
+  private lastOracleTs: Map<string, number> = new Map();
+  private written = { bookEvents: 0, trades: 0, oracleTicks: 0 };
+  private dropped = 0;
+  private lastFlushAt: number | null = null;
+  private lastPurgeAt: number | null = null;
+
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private snapshotTimer: ReturnType<typeof setInterval> | null = null;
+  private purgeTimer: ReturnType<typeof setInterval> | null = null;
+  private hooked = false;
+  private flushing = false;
+
+  start(): void {
+    if (!this.hooked) {
+      polymarketWs.onRawMarketMessage((data, receivedAt) => this.onWsMessage(data, receivedAt));
+      oracleRegistry.onTick((asset, tick) => this.onOracleTick(asset, tick));
+      this.hooked = true;
+    }
+    if (this.flushTimer) return;
+
+    console.log(`[Recorder] ${this.enabled ? "Recording" : "Idle (disabled)"} — snapshots every ${this.snapshotIntervalMs / 1000}s, retention ${this.retentionHours}h`);
+    this.flushTimer = setInterval(() => {
+      this.flush().catch((err: any) => console.error(`[Recorder] Flush error: ${err.message}`));
+    }, FLUSH_INTERVAL_MS);
+    this.scheduleSnapshots();
+    this.purgeTimer = setInterval(() => {
+      this.purge().catch((err: any) => console.error(`[Recorder] Purge error: ${err.message}`));
+    }, PURGE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    for (const t of [this.flushTimer, this.snapshotTimer, this.purgeTimer]) {
+      if (t) clearInterval(t);
+    }
+    this.flushTimer = null;
+    this.snapshotTimer = null;
+    this.purgeTimer = null;
+  }
+
+  updateConfig(updates: { enabled?: boolean; retentionHours?: number; snapshotIntervalMs?: number; oracleSampleMs?: number }): RecorderStatus {
+    if (updates.enabled !== undefined) this.enabled = updates.enabled;
+    if (updates.retentionHours !== undefined) this.retentionHours = updates.retentionHours;
+    if (updates.oracleSampleMs !== undefined) this.oracleSampleMs = updates.oracleSampleMs;
+    if (updates.snapshotIntervalMs !== undefined && updates.snapshotIntervalMs !== this.snapshotIntervalMs) {
+      this.snapshotIntervalMs = updates.snapshotIntervalMs;
+      if (this.flushTimer) this.scheduleSnapshots();
+    }
+    if (!this.enabled) {
+      this.bookBuffer = [];
+      this.tradeBuffer = [];
+      this.oracleBuffer = [];
+    }
+    return this.getStatus();
+  }
+
+  getStatus(): RecorderStatus {
+    return {
+      enabled: this.enabled,
+      retentionHours: this.retentionHours,
+      snapshotIntervalMs: this.snapshotIntervalMs,
+      oracleSampleMs: this.oracleSampleMs,
+      trackedTokens: this.tokenSlugs.size,
+      buffered: this.bookBuffer.length + this.tradeBuffer.length + this.oracleBuffer.length,
+      written: { ...this.written },
+      dropped: this.dropped,
+      lastFlushAt: this.lastFlushAt ? new Date(this.lastFlushAt).toISOString() : null,
+      lastPurgeAt: this.lastPurgeAt ? new Date(this.lastPurgeAt).toISOString() : null,
+    };
+  }
+
+  /** Associates a market's Up/Down token ids with its slug so WS traffic for them is tagged with it. */
+  trackMarket(slug: string, tokenUp: string | null | undefined, tokenDown: string | null | undefined): void {
+    const now = Date.now();
+    if (tokenUp) this.tokenSlugs.set(tokenUp, { slug, outcome: "UP", seenAt: now });
+    if (tokenDown) this.tokenSlugs.set(tokenDown, { slug, outcome: "DOWN", seenAt: now });
+  }
+
+  async loadSession(slug: string): Promise<RecordedSessionData | null> {
+    const [books, trades] = await Promise.all([
+      storage.getRecordedBookEvents(slug),
+      storage.getRecordedTrades(slug),
+    ]);
+    if (books.length === 0 && trades.length === 0) return null;
+
+    const allTs = [...books.map(b => b.ts.getTime()), ...trades.map(t => t.ts.getTime())];
+    const from = allTs.reduce((m, t) => Math.min(m, t), Infinity);
+    const to = allTs.reduce((m, t) => Math.max(m, t), -Infinity);
+    const asset = assetFromSlug(slug) ?? "btc";
+    const ticks = await storage.getRecordedOracleTicks(new Date(from - ORACLE_PAD_MS), new Date(to + ORACLE_PAD_MS), asset);
+
+    const events: RecordedEvent[] = [
+      ...books.map(b => this.toBookEvent(b)),
+      ...trades.map(t => this.toTradeEvent(t)),
+      ...ticks.map(t => this.toOracleEvent(t)),
+    ].sort((a, b) => a.ts - b.ts);
+
+    const tokens = Array.from(new Set([...books.map(b => b.tokenId), ...trades.map(t => t.tokenId)]));
+    const tagged = [...books, ...trades];
+    const tokenUp = tagged.find(r => r.outcome === "UP")?.tokenId || null;
+    const tokenDown = tagged.find(r => r.outcome === "DOWN")?.tokenId || null;
+    return { marketSlug: slug, tokens, tokenUp, tokenDown, from, to, events };
+  }
+
+  private scheduleSnapshots(): void {
+    if (this.snapshotTimer) clearInterval(this.snapshotTimer);
+    this.snapshotTimer = setInterval(() => {
+      this.snapshotTrackedBooks().catch((err: any) => console.error(`[Recorder] Snapshot error: ${err.message}`));
+    }, this.snapshotIntervalMs);
+  }
+
+  private async refreshTrackedMarkets(): Promise<void> {
+    const config = await storage.getBotConfig();
+    if (config?.isActive && config.currentMarketSlug) {
+      this.trackMarket(config.currentMarketSlug, config.currentMarketId, config.currentMarketTokenDown);
+    }
+
+    const [dual] = await db.select().from(dualEntryConfig).limit(1);
+    if (dual?.isActive && dual.marketSlug) {
+      this.trackMarket(dual.marketSlug, dual.marketTokenYes, dual.marketTokenNo);
+    }
+
+    const cutoff = Date.now() - TOKEN_MAP_TTL_MS;
+    for (const [id, entry] of Array.from(this.tokenSlugs.entries())) {
+      if (entry.seenAt < cutoff) this.tokenSlugs.delete(id);
+    }
+  }
+
+  private async snapshotTrackedBooks(): Promise<void> {
+    if (!this.enabled) return;
+    await this.refreshTrackedMarkets();
+
+    const freshCutoff = Date.now() - this.snapshotIntervalMs * 2;
+    for (const [tokenId, entry] of Array.from(this.tokenSlugs.entries())) {
+      if (entry.seenAt < freshCutoff) continue;
+      const ob = await polymarketClient.fetchOrderBook(tokenId);
+      if (!ob) continue;
+      this.pushBook(tokenId, parseBookLevels(ob.bids), parseBookLevels(ob.asks), Date.now(), "rest");
+    }
+  }
+
+  private onWsMessage(data: any, receivedAt: number): void {
+    if (!this.enabled || !data || typeof data !== "object") return;
+    if (Array.isArray(data)) {
+      for (const item of data) this.onWsMessage(item, receivedAt);
+      return;
+    }
+
+    const ts = parseTs(data.timestamp, receivedAt);
+    const eventType = data.event_type;
+
+    if (eventType === "book" && data.asset_id) {
+      this.pushBook(data.asset_id, parseBookLevels(data.bids), parseBookLevels(data.asks), ts, "ws");
+    } else if (eventType === "price_change") {
+      const byToken = new Map<string, any[]>();
+      for (const change of data.price_changes || data.changes || []) {
+        const tokenId = change.asset_id || data.asset_id;
+        if (!tokenId) continue;
+        const list = byToken.get(tokenId) || [];
+        list.push(change);
+        byToken.set(tokenId, list);
+      }
+      for (const [tokenId, changes] of Array.from(byToken.entries())) {
+        const last = changes[changes.length - 1];
+        const bestBid = parseFloat(last.best_bid ?? "");
+        const bestAsk = parseFloat(last.best_ask ?? "");
+        this.push(this.bookBuffer, {
+          marketSlug: this.slugFor(tokenId),
+          tokenId,
+          outcome: this.outcomeFor(tokenId),
+          kind: "DELTA",
+          source: "ws",
+          changes: changes.map((c: any) => ({ price: parseFloat(c.price), size: parseFloat(c.size), side: c.side })),
+          bestBid: Number.isFinite(bestBid) ? bestBid : null,
+          bestAsk: Number.isFinite(bestAsk) ? bestAsk : null,
+          ts: new Date(ts),
+        });
+      }
+    } else if (eventType === "last_trade_price" && data.asset_id) {
+      const price = parseFloat(data.price || "0");
+      if (price <= 0) return;
+      this.push(this.tradeBuffer, {
+        marketSlug: this.slugFor(data.asset_id),
+        tokenId: data.asset_id,
+        outcome: this.outcomeFor(data.asset_id),
+        price,
+        size: parseFloat(data.size || "0"),
+        side: data.side || null,
+        ts: new Date(ts),
+      });
+    }
+  }
+
+  private onOracleTick(asset: string, tick: OracleTick): void {
+    if (!this.enabled || tick.ts - (this.lastOracleTs.get(asset) ?? 0) < this.oracleSampleMs) return;
+    this.lastOracleTs.set(asset, tick.ts);
+    this.push(this.oracleBuffer, {
+      asset,
+      source: tick.source,
+      price: tick.price,
+      ts: new Date(tick.ts),
+    });
+  }
+
+  private pushBook(tokenId: string, bids: BookLevel[], asks: BookLevel[], ts: number, source: string): void {
+    bids.sort((a, b) => b.price - a.price);
+    asks.sort((a, b) => a.price - b.price);
+    this.push(this.bookBuffer, {
+      marketSlug: this.slugFor(tokenId),
+      tokenId,
+      outcome: this.outcomeFor(tokenId),
+      kind: "SNAPSHOT",
+      source,
+      bids,
+      asks,
+      bestBid: bids.length > 0 ? bids[0].price : null,
+      bestAsk: asks.length > 0 ? asks[0].price : null,
+      ts: new Date(ts),
+    });
+  }
+
+  private push<T>(buffer: T[], row: T): void {
+    if (this.bookBuffer.length + this.tradeBuffer.length + this.oracleBuffer.length >= MAX_BUFFERED) {
+      this.dropped++;
+      return;
+    }
+    buffer.push(row);
+    if (buffer.length >= FLUSH_BATCH_SIZE) {
+      this.flush().catch((err: any) => console.error(`[Recorder] Flush error: ${err.message}`));
+    }
+  }
+
+  private slugFor(tokenId: string): string | null {
+    return this.tokenSlugs.get(tokenId)?.slug || null;
+  }
+
+  private outcomeFor(tokenId: string): string | null {
+    return this.tokenSlugs.get(tokenId)?.outcome || null;
+  }
+
+  private async flush(): Promise<void> {
+    if (this.flushing) return;
+    this.flushing = true;
+    const books = this.bookBuffer.splice(0);
+    const trades = this.tradeBuffer.splice(0);
+    const ticks = this.oracleBuffer.splice(0);
+    try {
+      for (let i = 0; i < books.length; i += FLUSH_BATCH_SIZE) {
+        await storage.insertRecordedBookEvents(books.slice(i, i + FLUSH_BATCH_SIZE));
+      }
+      for (let i = 0; i < trades.length; i += FLUSH_BATCH_SIZE) {
+        await storage.insertRecordedTrades(trades.slice(i, i + FLUSH_BATCH_SIZE));
+      }
+      for (let i = 0; i < ticks.length; i += FLUSH_BATCH_SIZE) {
+        await storage.insertRecordedOracleTicks(ticks.slice(i, i + FLUSH_BATCH_SIZE));
+      }
+      this.written.bookEvents += books.length;
+      this.written.trades += trades.length;
+      this.written.oracleTicks += ticks.length;
+      if (books.length + trades.length + ticks.length > 0) this.lastFlushAt = Date.now();
+    } catch (err) {
+      this.dropped += books.length + trades.length + ticks.length;
+      throw err;
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  async purge(): Promise<void> {
+    const cutoff = new Date(Date.now() - this.retentionHours * 3_600_000);
+    await storage.purgeRecordingsBefore(cutoff);
+    this.lastPurgeAt = Date.now();
+    console.log(`[Recorder] Purged recordings older than ${cutoff.toISOString()}`);
+  }
+
+  private toBookEvent(b: RecordedBookEvent): RecordedEvent {
+    if (b.kind === "DELTA") {
+      return { type: "delta", ts: b.ts.getTime(), tokenId: b.tokenId, outcome: b.outcome, changes: (b.changes as any[]) || [], bestBid: b.bestBid, bestAsk: b.bestAsk };
+    }
+    return { type: "book", ts: b.ts.getTime(), tokenId: b.tokenId, outcome: b.outcome, source: b.source, bids: (b.bids as BookLevel[]) || [], asks: (b.asks as BookLevel[]) || [] };
+  }
+
+  private toTradeEvent(t: RecordedTrade): RecordedEvent {
+    return { type: "trade", ts: t.ts.getTime(), tokenId: t.tokenId, outcome: t.outcome, price: t.price, size: t.size, side: t.side };
+  }
+
+  private toOracleEvent(t: RecordedOracleTick): RecordedEvent {
+    return { type: "oracle", ts: t.ts.getTime(), price: t.price, source: t.source };
+  }
+}
+
+export const marketRecorder = new MarketRecorder();
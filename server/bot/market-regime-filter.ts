@@ -1,5 +1,6 @@
-import { binanceOracle } from "./binance-oracle";
+import { binanceOracle, type BinanceOracle } from "./binance-oracle";
 import type { MarketData } from "@shared/schema";
+import type { OrderBook } from "./order-book";
 
 export type MarketRegime = "TRENDING" | "RANGING" | "VOLATILE" | "DEAD";
 
@@ -10,6 +11,7 @@ export interface RegimeResult {
   volatility: number;
   depth: number;
   spread: number;
+  imbalance?: number;
 }
 
 export interface RegimeConfig {
@@ -18,6 +20,7 @@ export interface RegimeConfig {
   maxVolatility: number;
   minVolatility: number;
   maxSpread: number;
+  depthBand: number;
 }
 
 const DEFAULT_CONFIG: RegimeConfig = {
@@ -26,11 +29,14 @@ const DEFAULT_CONFIG: RegimeConfig = {
   maxVolatility: 0.8,
   minVolatility: 0.01,
   maxSpread: 0.20,
+  depthBand: 0.05,
 };
 
 export class MarketRegimeFilter {
   private config: RegimeConfig = { ...DEFAULT_CONFIG };
 
+  constructor(private readonly oracle: BinanceOracle = binanceOracle) {}
+
   getConfig(): RegimeConfig {
     return { ...this.config };
   }
@@ -39,13 +45,21 @@ export class MarketRegimeFilter {
     this.config = { ...this.config, ...partial };
   }
 
-  getRegime(marketData: MarketData): RegimeResult {
-    const vol = binanceOracle.getVolatility(5);
-    const depth = Math.min(marketData.bidDepth, marketData.askDepth);
+  /**
+   * With an L2 book, depth only counts size within `depthBand` of the midpoint, so
+   * far-away resting orders no longer make a thin market look liquid. Pass the
+   * oracle of the traded market's underlying when it is not the default one.
+   */
+  getRegime(marketData: MarketData, book?: OrderBook | null, oracle: BinanceOracle = this.oracle): RegimeResult {
+    const vol = oracle.getVolatility(5);
+    const depth = book?.hasData()
+      ? Math.min(book.depthNearMid("BUY", this.config.depthBand), book.depthNearMid("SELL", this.config.depthBand))
+      : Math.min(marketData.bidDepth, marketData.askDepth);
     const spread = marketData.spread;
+    const imbalance = book?.hasData() ? book.imbalance() : undefined;
 
     if (!this.config.enabled) {
-      return { regime: "TRENDING", tradeable: true, volatility: vol, depth, spread, reason: "Filter disabled" };
+      return { regime: "TRENDING", tradeable: true, volatility: vol, depth, spread, imbalance, reason: "Filter disabled" };
     }
 
     if (depth < this.config.minDepth) {
@@ -56,6 +70,7 @@ export class MarketRegimeFilter {
         volatility: vol,
         depth,
         spread,
+        imbalance,
       };
     }
 
@@ -67,6 +82,7 @@ export class MarketRegimeFilter {
         volatility: vol,
         depth,
         spread,
+        imbalance,
       };
     }
 
@@ -78,6 +94,7 @@ export class MarketRegimeFilter {
         volatility: vol,
         depth,
         spread,
+        imbalance,
       };
     }
 
@@ -88,6 +105,7 @@ export class MarketRegimeFilter {
         volatility: vol,
         depth,
         spread,
+        imbalance,
       };
     }
 
@@ -99,13 +117,14 @@ export class MarketRegimeFilter {
         volatility: vol,
         depth,
         spread,
+        imbalance,
       };
     }
 
-    return { regime: "RANGING", tradeable: true, volatility: vol, depth, spread };
+    return { regime: "RANGING", tradeable: true, volatility: vol, depth, spread, imbalance };
   }
 
-  getStatus(marketData: MarketData | null): {
+  getStatus(marketData: MarketData | null, book?: OrderBook | null, oracle: BinanceOracle = this.oracle): {
     enabled: boolean;
     config: RegimeConfig;
     currentRegime: RegimeResult | null;
@@ -113,7 +132,7 @@ export class MarketRegimeFilter {
     return {
       enabled: this.config.enabled,
       config: { ...this.config },
-      currentRegime: marketData ? this.getRegime(marketData) : null,
+      currentRegime: marketData ? this.getRegime(marketData, book, oracle) : null,
     };
   }
 }
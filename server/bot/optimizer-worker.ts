@@ -0,0 +1,23 @@
+import { parentPort } from "worker_threads";
+import { runFsmBacktest } from "./backtester";
+import { enableSessionCache } from "./backtest-replay";
+import { runDualEntryBacktest } from "../strategies/dualEntry5m/backtest";
+
+// Runs one backtest per message for ParameterOptimizer; params arrive already validated.
+enableSessionCache();
+
+parentPort?.on("message", async (msg: { candidateId: number; strategy: string; params: any; withEquity?: boolean }) => {
+  try {
+    const result = msg.strategy === "fsm"
+      ? await runFsmBacktest(msg.params)
+      : await runDualEntryBacktest(msg.params);
+    parentPort!.postMessage({
+      type: "result",
+      candidateId: msg.candidateId,
+      metrics: result.metrics,
+      equity: msg.withEquity ? result.equity : undefined,
+    });
+  } catch (err: any) {
+    parentPort!.postMessage({ type: "error", candidateId: msg.candidateId, error: err.message });
+  }
+});
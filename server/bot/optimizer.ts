@@ -0,0 +1,540 @@
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { pathToFileURL } from "url";
+import { Worker } from "worker_threads";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { storage } from "../storage";
+import { db } from "../db";
+import { dualEntryConfig, updateBotConfigSchema, updateDualEntryConfigSchema } from "@shared/schema";
+import type { BacktestMetrics, EquityPoint, OptimizationJob, OptimizerCandidate, OptimizerObjective, OptimizerStrategy } from "@shared/schema";
+import { oracleRegistry } from "./binance-oracle";
+import { marketRegimeFilter } from "./market-regime-filter";
+import { fsmBacktestParamsSchema, sessionSelectionSchema } from "./backtester";
+import { createRng, listSessionSlugs } from "./backtest-replay";
+import { buildFolds, describeFold, parameterStability, stitchOutOfSample, walkForwardEfficiency, type FoldSlugs } from "./walk-forward";
+import { dualEntryBacktestParamsSchema } from "../strategies/dualEntry5m/backtest";
+import { assetFromSlug, type AssetType } from "../strategies/dualEntry5m/market-5m-discovery";
+
+const MAX_CANDIDATES = 1000;
+const MAX_JOBS_KEPT = 20;
+const RESULTS_RETURNED = 100;
+
+export const SWEEPABLE_PARAMS: Record<OptimizerStrategy, string[]> = {
+  fsm: [
+    "minSpread", "orderSize",
+    "oracle.strongThreshold", "oracle.weakThreshold", "oracle.minConfidence",
+    "regime.minDepth", "regime.depthBand", "regime.maxVolatility", "regime.minVolatility", "regime.maxSpread",
+  ],
+  dual_entry_5m: [
+    "entryPrice", "tpPrice", "scratchPrice", "orderSize",
+    "entryLeadSecondsPrimary", "entryLeadSecondsRefresh", "postStartCleanupSeconds", "exitTtlSeconds",
+    "volMinThreshold", "volMaxThreshold", "dynamicEntryMin", "dynamicEntryMax",
+    "momentumTpMin", "momentumTpMax", "dynamicSizeMin", "dynamicSizeMax",
+    "oracle.strongThreshold", "oracle.weakThreshold", "oracle.minConfidence",
+  ],
+};
+
+const parameterRangeSchema = z.object({
+  name: z.string(),
+  values: z.array(z.number()).min(1).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  step: z.number().positive().optional(),
+}).refine(p => p.values || (p.min !== undefined && p.max !== undefined && p.min <= p.max), {
+  message: "each parameter needs values or a min <= max range",
+});
+
+export const optimizationRequestSchema = z.object({
+  strategy: z.enum(["fsm", "dual_entry_5m"]),
+  mode: z.enum(["grid", "random"]).default("grid"),
+  objective: z.enum(["pnl", "sharpe", "maxDrawdown"]).default("pnl"),
+  parameters: z.array(parameterRangeSchema).min(1),
+  samples: z.number().int().min(1).max(MAX_CANDIDATES).default(50),
+  minTrades: z.number().int().min(0).default(1),
+  workers: z.number().int().min(1).max(16).optional(),
+  seed: z.number().int().default(1),
+  sessions: sessionSelectionSchema.default({}),
+  base: z.record(z.any()).default({}),
+  validation: z.object({
+    mode: z.enum(["none", "split", "walk_forward"]).default("none"),
+    trainFraction: z.number().min(0.1).max(0.9).default(0.7),
+    trainSessions: z.number().int().min(1).optional(),
+    testSessions: z.number().int().min(1).optional(),
+    stepSessions: z.number().int().min(1).optional(),
+    anchored: z.boolean().default(false),
+  }).default({}),
+});
+
+export type OptimizationRequest = z.infer<typeof optimizationRequestSchema>;
+type ParameterRange = OptimizationRequest["parameters"][number];
+
+interface WorkerReply {
+  type: "result" | "error";
+  candidateId: number;
+  metrics?: BacktestMetrics;
+  equity?: EquityPoint[];
+  error?: string;
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(6));
+}
+
+function gridValues(p: ParameterRange): number[] {
+  if (p.values) return p.values;
+  const step = p.step ?? (p.max! - p.min!) / 4;
+  if (step <= 0) return [p.min!];
+  const values: number[] = [];
+  for (let v = p.min!; v <= p.max! + 1e-9; v += step) values.push(round(v));
+  return values;
+}
+
+function randomValue(p: ParameterRange, rng: () => number): number {
+  if (p.values) return p.values[Math.floor(rng() * p.values.length)];
+  const raw = p.min! + rng() * (p.max! - p.min!);
+  return p.step ? round(p.min! + Math.round((raw - p.min!) / p.step) * p.step) : round(raw);
+}
+
+export function generateCandidates(request: OptimizationRequest): Record<string, number>[] {
+  if (request.mode === "grid") {
+    let combos: Record<string, number>[] = [{}];
+    for (const p of request.parameters) {
+      const values = gridValues(p);
+      if (combos.length * values.length > MAX_CANDIDATES) {
+        throw new Error(`Grid too large: more than ${MAX_CANDIDATES} combinations`);
+      }
+      combos = combos.flatMap(c => values.map(v => ({ ...c, [p.name]: v })));
+    }
+    return combos;
+  }
+
+  const rng = createRng(request.seed);
+  const seen = new Set<string>();
+  const combos: Record<string, number>[] = [];
+  for (let attempt = 0; attempt < request.samples * 20 && combos.length < request.samples; attempt++) {
+    const combo: Record<string, number> = {};
+    for (const p of request.parameters) combo[p.name] = randomValue(p, rng);
+    const key = JSON.stringify(combo);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    combos.push(combo);
+  }
+  return combos;
+}
+
+function withValues(base: Record<string, any>, values: Record<string, number>): Record<string, any> {
+  const params: Record<string, any> = { ...base };
+  for (const [name, value] of Object.entries(values)) {
+    const [group, key] = name.split(".", 2);
+    if (key) params[group] = { ...params[group], [key]: value };
+    else params[name] = value;
+  }
+  return params;
+}
+
+function scoreOf(metrics: BacktestMetrics, objective: OptimizerObjective): number {
+  if (objective === "sharpe") return metrics.sharpe;
+  if (objective === "maxDrawdown") return -metrics.maxDrawdown;
+  return metrics.totalPnl;
+}
+
+function rankCandidates(candidates: OptimizerCandidate[], minTrades: number): OptimizerCandidate[] {
+  const eligible = (c: OptimizerCandidate) => c.metrics !== null && c.metrics.trades >= minTrades;
+  return [...candidates].sort((a, b) => {
+    if (eligible(a) !== eligible(b)) return eligible(a) ? -1 : 1;
+    if (a.score === null || b.score === null) return a.score === null ? 1 : -1;
+    if (b.score !== a.score) return b.score - a.score;
+    return (b.metrics?.totalPnl ?? 0) - (a.metrics?.totalPnl ?? 0);
+  });
+}
+
+function spawnWorker(): Worker {
+  if (process.env.NODE_ENV === "production") {
+    return new Worker(path.resolve(__dirname, "optimizer-worker.cjs"));
+  }
+  // tsx does not hook worker threads, so dev workers register it before loading the TypeScript entry.
+  const entry = pathToFileURL(path.resolve(import.meta.dirname, "optimizer-worker.ts")).href;
+  return new Worker(
+    `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(entry)}); });`,
+    { eval: true },
+  );
+}
+
+interface PoolTask {
+  id: number;
+  params: Record<string, any>;
+  withEquity?: boolean;
+}
+
+type PoolOutcome = { metrics: BacktestMetrics; equity?: EquityPoint[] } | { error: string };
+
+/** Long-lived backtest workers for one job, so per-worker session caches survive across folds. */
+class WorkerPool {
+  private workers: Worker[] = [];
+  private closed = false;
+
+  constructor(private readonly size: number, private readonly strategy: OptimizerStrategy) {}
+
+  async run(tasks: PoolTask[], onOutcome: (task: PoolTask, outcome: PoolOutcome) => void): Promise<void> {
+    while (!this.closed && this.workers.length < Math.min(this.size, tasks.length)) {
+      this.workers.push(spawnWorker());
+    }
+    let next = 0;
+
+    await Promise.all(this.workers.map(worker => new Promise<void>((resolve, reject) => {
+      let current: PoolTask | null = null;
+
+      const detach = () => {
+        worker.off("message", onMessage);
+        worker.off("error", onError);
+        worker.off("exit", onExit);
+      };
+      const dispatch = () => {
+        if (this.closed || next >= tasks.length) {
+          current = null;
+          detach();
+          resolve();
+          return;
+        }
+        current = tasks[next++];
+        worker.postMessage({ candidateId: current.id, strategy: this.strategy, params: current.params, withEquity: !!current.withEquity });
+      };
+      const onMessage = (reply: WorkerReply) => {
+        if (current && reply.candidateId === current.id) {
+          onOutcome(current, reply.type === "result" && reply.metrics
+            ? { metrics: reply.metrics, equity: reply.equity }
+            : { error: reply.error || "unknown error" });
+        }
+        dispatch();
+      };
+      const onError = (err: Error) => {
+        detach();
+        this.workers = this.workers.filter(w => w !== worker);
+        if (current) onOutcome(current, { error: err.message });
+        reject(err);
+      };
+      const onExit = (code: number) => {
+        detach();
+        this.workers = this.workers.filter(w => w !== worker);
+        if (current && !this.closed) onOutcome(current, { error: `worker exited with code ${code}` });
+        resolve();
+      };
+
+      worker.on("message", onMessage);
+      worker.on("error", onError);
+      worker.on("exit", onExit);
+      dispatch();
+    })));
+  }
+
+  close(): void {
+    this.closed = true;
+    for (const w of this.workers) w.terminate().catch(() => {});
+    this.workers = [];
+  }
+}
+
+interface JobRuntime {
+  job: OptimizationJob;
+  candidates: OptimizerCandidate[];
+  minTrades: number;
+  pool: WorkerPool;
+  /** Assets of the swept sessions; an applied oracle candidate updates each one's oracle. */
+  assets: AssetType[];
+}
+
+export class ParameterOptimizer {
+  private jobs: Map<string, JobRuntime> = new Map();
+
+  async startJob(request: OptimizationRequest): Promise<OptimizationJob> {
+    const allowed = SWEEPABLE_PARAMS[request.strategy];
+    const unknown = request.parameters.filter(p => !allowed.includes(p.name)).map(p => p.name);
+    if (unknown.length > 0) {
+      throw new Error(`Not optimizable for ${request.strategy}: ${unknown.join(", ")}`);
+    }
+    if (Array.from(this.jobs.values()).some(r => r.job.status === "running")) {
+      throw new Error("An optimization job is already running");
+    }
+
+    const slugs = await listSessionSlugs(request.sessions);
+    if (slugs.length === 0) throw new Error("No recorded sessions match the selection");
+    const { validation } = request;
+    const folds = validation.mode === "none" ? [] : buildFolds(slugs, { ...validation, mode: validation.mode });
+
+    const assets = Array.from(new Set(slugs.map(slug => assetFromSlug(slug) ?? "btc")));
+    const schema = request.strategy === "fsm" ? fsmBacktestParamsSchema : dualEntryBacktestParamsSchema;
+    const base: Record<string, any> = {
+      ...request.base,
+      slugs,
+      oracle: { ...oracleRegistry.get(assets[0]).getConfig(), ...request.base.oracle },
+    };
+    if (request.strategy === "fsm") {
+      base.regime = { ...marketRegimeFilter.getConfig(), ...request.base.regime };
+    }
+
+    const candidates: OptimizerCandidate[] = generateCandidates(request).map((values, i) => ({
+      id: i + 1,
+      values,
+      status: "pending",
+      metrics: null,
+      score: null,
+      error: null,
+    }));
+
+    const tasks: PoolTask[] = [];
+    for (const candidate of candidates) {
+      const parsed = schema.safeParse(withValues(base, candidate.values));
+      if (parsed.success) {
+        tasks.push({ id: candidate.id, params: parsed.data });
+      } else {
+        candidate.status = "failed";
+        candidate.error = parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`).join("; ");
+      }
+    }
+
+    const runs = Math.max(1, folds.length);
+    const workerCount = Math.max(1, Math.min(request.workers ?? Math.max(1, os.cpus().length - 1), tasks.length || 1));
+    const invalid = candidates.length - tasks.length;
+    const job: OptimizationJob = {
+      id: randomUUID(),
+      strategy: request.strategy,
+      mode: request.mode,
+      objective: request.objective,
+      status: "running",
+      parameters: request.parameters.map(p => p.name),
+      sessions: slugs.length,
+      workers: workerCount,
+      total: candidates.length * runs + folds.length,
+      completed: 0,
+      failed: invalid * runs,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      error: null,
+      appliedCandidateId: null,
+      validation: validation.mode,
+      walkForward: validation.mode === "none" ? null : {
+        mode: validation.mode,
+        anchored: validation.mode === "walk_forward" && validation.anchored,
+        folds: folds.map((f, i) => describeFold(i + 1, f)),
+        oosEquity: [],
+        oosMetrics: null,
+        efficiency: null,
+        stability: [],
+      },
+      results: [],
+    };
+    const runtime: JobRuntime = { job, candidates, minTrades: request.minTrades, pool: new WorkerPool(workerCount, request.strategy), assets };
+    this.jobs.set(job.id, runtime);
+    this.pruneJobs();
+
+    const scope = folds.length > 0 ? `, ${validation.mode} with ${folds.length} fold(s)` : "";
+    console.log(`[Optimizer] Job ${job.id.slice(0, 8)} started: ${request.strategy} ${request.mode} over ${job.parameters.join(", ")} — ${candidates.length} candidates, ${slugs.length} sessions, ${workerCount} workers${scope}`);
+    const run = folds.length > 0 ? this.runWalkForward(runtime, tasks, folds) : this.runSweep(runtime, tasks);
+    run
+      .then(() => {
+        if (job.status !== "running") return;
+        job.status = "done";
+        job.finishedAt = new Date().toISOString();
+        const best = rankCandidates(runtime.candidates, runtime.minTrades)[0];
+        const oos = job.walkForward?.oosMetrics;
+        console.log(`[Optimizer] Job ${job.id.slice(0, 8)} done: ${job.completed} evaluated, ${job.failed} failed${best?.metrics ? ` — best #${best.id} ${JSON.stringify(best.values)} pnl=$${best.metrics.totalPnl.toFixed(4)}` : ""}${oos ? ` — out-of-sample pnl=$${oos.totalPnl.toFixed(4)}` : ""}`);
+      })
+      .catch(err => {
+        job.status = "failed";
+        job.error = err.message;
+        job.finishedAt = new Date().toISOString();
+      })
+      .finally(() => runtime.pool.close());
+
+    return this.snapshot(runtime);
+  }
+
+  getJob(id: string): OptimizationJob | null {
+    const runtime = this.jobs.get(id);
+    return runtime ? this.snapshot(runtime) : null;
+  }
+
+  listJobs(): OptimizationJob[] {
+    return Array.from(this.jobs.values())
+      .map(r => ({ ...this.snapshot(r), results: [], walkForward: null }))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  cancelJob(id: string): boolean {
+    const runtime = this.jobs.get(id);
+    if (!runtime || runtime.job.status !== "running") return false;
+    runtime.job.status = "cancelled";
+    runtime.job.finishedAt = new Date().toISOString();
+    runtime.pool.close();
+    console.log(`[Optimizer] Job ${id.slice(0, 8)} cancelled`);
+    return true;
+  }
+
+  /**
+   * Writes a candidate's values to bot_config / dual_entry_config. Oracle and regime
+   * values only update the in-memory settings (like their config endpoints) and are
+   * returned as `runtimeOnly`, since they are lost on restart.
+   */
+  async applyCandidate(jobId: string, candidateId: number): Promise<{ target: string; applied: Record<string, number>; runtimeOnly: string[] }> {
+    const runtime = this.jobs.get(jobId);
+    if (!runtime) throw new Error("Job not found");
+    const candidate = runtime.candidates.find(c => c.id === candidateId);
+    if (!candidate || candidate.status !== "done") throw new Error("Candidate not found or not evaluated");
+
+    const direct: Record<string, number> = {};
+    const oracle: Record<string, number> = {};
+    const regime: Record<string, number> = {};
+    for (const [name, value] of Object.entries(candidate.values)) {
+      const [group, key] = name.split(".", 2);
+      if (group === "oracle" && key) oracle[key] = value;
+      else if (group === "regime" && key) regime[key] = value;
+      else direct[name] = value;
+    }
+
+    let target: string;
+    if (runtime.job.strategy === "fsm") {
+      target = "bot_config";
+      if (Object.keys(direct).length > 0) await storage.updateBotConfig(updateBotConfigSchema.parse(direct));
+    } else {
+      target = "dual_entry_config";
+      if (Object.keys(direct).length > 0) {
+        const updates = updateDualEntryConfigSchema.parse(direct);
+        const rows = await db.select().from(dualEntryConfig).limit(1);
+        if (rows.length === 0) throw new Error("No dual-entry config found");
+        await db.update(dualEntryConfig).set({ ...updates, updatedAt: new Date() }).where(eq(dualEntryConfig.id, rows[0].id));
+      }
+    }
+    if (Object.keys(oracle).length > 0) {
+      for (const asset of runtime.assets) oracleRegistry.get(asset).updateConfig(oracle);
+    }
+    if (Object.keys(regime).length > 0) marketRegimeFilter.updateConfig(regime);
+    const runtimeOnly = [
+      ...Object.keys(oracle).map(key => `oracle.${key}`),
+      ...Object.keys(regime).map(key => `regime.${key}`),
+    ];
+
+    runtime.job.appliedCandidateId = candidate.id;
+    await storage.createEvent({
+      type: "INFO",
+      message: `[OPTIMIZER] Applied candidate #${candidate.id} to ${target}: ${Object.entries(candidate.values).map(([k, v]) => `${k}=${v}`).join(", ")}${runtimeOnly.length > 0 ? ` (runtime only, lost on restart: ${runtimeOnly.join(", ")})` : ""}`,
+      data: { jobId, candidateId: candidate.id, values: candidate.values, metrics: candidate.metrics, oracleAssets: runtime.assets, runtimeOnly },
+      level: "info",
+    });
+    return { target, applied: candidate.values, runtimeOnly };
+  }
+
+  /** Evaluates every candidate on `slugs`, recording metrics and scores on `candidates` as results arrive. */
+  private async evaluate(runtime: JobRuntime, candidates: OptimizerCandidate[], tasks: PoolTask[], slugs?: string[]): Promise<void> {
+    const { job } = runtime;
+    const byId = new Map(candidates.map(c => [c.id, c]));
+    const scoped = slugs ? tasks.map(t => ({ ...t, params: { ...t.params, slugs } })) : tasks;
+    await runtime.pool.run(scoped, (task, outcome) => {
+      const candidate = byId.get(task.id);
+      if (!candidate || job.status !== "running") return;
+      if ("metrics" in outcome) {
+        candidate.status = "done";
+        candidate.metrics = outcome.metrics;
+        candidate.score = scoreOf(outcome.metrics, job.objective);
+        job.completed++;
+      } else {
+        candidate.status = "failed";
+        candidate.error = outcome.error;
+        job.failed++;
+      }
+    });
+  }
+
+  private async runSweep(runtime: JobRuntime, tasks: PoolTask[]): Promise<void> {
+    await this.evaluate(runtime, runtime.candidates, tasks);
+  }
+
+  /**
+   * Optimizes on each fold's train sessions, then backtests that fold's winner on the
+   * following test sessions. The job's results end up as the last fold's ranking, i.e.
+   * the set tuned on the most recent data.
+   */
+  private async runWalkForward(runtime: JobRuntime, tasks: PoolTask[], folds: FoldSlugs[]): Promise<void> {
+    const { job } = runtime;
+    const report = job.walkForward!;
+    const template = runtime.candidates;
+    const oosParts: { metrics: BacktestMetrics; equity: EquityPoint[] }[] = [];
+    const chosen: Record<string, number>[] = [];
+
+    for (let i = 0; i < folds.length && job.status === "running"; i++) {
+      const fold = report.folds[i];
+      const candidates = template.map(c => c.status === "failed"
+        ? { ...c }
+        : { ...c, status: "pending" as const, metrics: null, score: null, error: null });
+      runtime.candidates = candidates;
+
+      fold.status = "training";
+      await this.evaluate(runtime, candidates, tasks, folds[i].train);
+      if (job.status !== "running") break;
+
+      const best = rankCandidates(candidates, runtime.minTrades)[0];
+      const bestTask = best?.metrics && best.metrics.trades >= runtime.minTrades ? tasks.find(t => t.id === best.id) : undefined;
+      if (!best || !bestTask) {
+        fold.status = "failed";
+        fold.error = `No candidate reached ${runtime.minTrades} trades in-sample`;
+        job.failed++;
+        continue;
+      }
+      fold.bestCandidateId = best.id;
+      fold.bestValues = best.values;
+      fold.inSample = best.metrics;
+      chosen.push(best.values);
+
+      fold.status = "testing";
+      let outcome: PoolOutcome = { error: "not evaluated" };
+      await runtime.pool.run(
+        [{ id: best.id, params: { ...bestTask.params, slugs: folds[i].test }, withEquity: true }],
+        (_task, result) => { outcome = result; },
+      );
+      if (job.status !== "running") break;
+
+      if ("metrics" in outcome) {
+        const { metrics, equity = [] } = outcome as { metrics: BacktestMetrics; equity?: EquityPoint[] };
+        fold.status = "done";
+        fold.outOfSample = metrics;
+        fold.efficiency = walkForwardEfficiency(best.metrics!.totalPnl, fold.trainSessions, metrics.totalPnl, fold.testSessions);
+        oosParts.push({ metrics, equity });
+        job.completed++;
+      } else {
+        fold.status = "failed";
+        fold.error = (outcome as { error: string }).error;
+        job.failed++;
+      }
+
+      const stitched = stitchOutOfSample(oosParts);
+      report.oosEquity = stitched.equity;
+      report.oosMetrics = oosParts.length > 0 ? stitched.metrics : null;
+      report.stability = parameterStability(job.parameters, chosen);
+    }
+
+    const tested = report.folds.filter(f => f.status === "done");
+    const isPnl = tested.reduce((s, f) => s + (f.inSample?.totalPnl ?? 0), 0);
+    const isSessions = tested.reduce((s, f) => s + f.trainSessions, 0);
+    const oosSessions = tested.reduce((s, f) => s + f.testSessions, 0);
+    report.efficiency = walkForwardEfficiency(isPnl, isSessions, report.oosMetrics?.totalPnl ?? 0, oosSessions);
+  }
+
+  private snapshot(runtime: JobRuntime): OptimizationJob {
+    return {
+      ...runtime.job,
+      results: rankCandidates(runtime.candidates, runtime.minTrades).slice(0, RESULTS_RETURNED),
+    };
+  }
+
+  private pruneJobs(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter(r => r.job.status !== "running")
+      .sort((a, b) => a.job.startedAt.localeCompare(b.job.startedAt));
+    while (this.jobs.size > MAX_JOBS_KEPT && finished.length > 0) {
+      this.jobs.delete(finished.shift()!.job.id);
+    }
+  }
+}
+
+export const parameterOptimizer = new ParameterOptimizer();
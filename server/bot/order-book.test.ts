@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { OrderBook, parseBookLevels } from "./order-book";
+
+const seeded = () => OrderBook.fromLevels(
+  "yes",
+  [{ price: 0.48, size: 100 }, { price: 0.47, size: 50 }],
+  [{ price: 0.52, size: 80 }, { price: 0.53, size: 40 }],
+  1000,
+);
+
+test("a snapshot replaces the book and drops zero-size levels", () => {
+  const book = seeded();
+  book.applySnapshot([{ price: 0.45, size: 10 }, { price: 0.46, size: 0 }], [{ price: 0.55, size: 20 }], 2000);
+
+  assert.deepEqual(book.levels("BUY"), [{ price: 0.45, size: 10 }]);
+  assert.deepEqual(book.levels("SELL"), [{ price: 0.55, size: 20 }]);
+  assert.equal(book.updatedAt, 2000);
+});
+
+test("price changes set absolute sizes and size 0 deletes the level", () => {
+  const book = seeded();
+  assert.equal(book.applyPriceChange([
+    { price: 0.48, size: 0, side: "BUY" },
+    { price: 0.47, size: 75, side: "BUY" },
+    { price: 0.51, size: 30, side: "SELL" },
+  ], 3000), true);
+
+  assert.equal(book.bestBid(), 0.47);
+  assert.equal(book.sizeAt("BUY", 0.47), 75);
+  assert.equal(book.sizeAt("BUY", 0.48), 0);
+  assert.equal(book.bestAsk(), 0.51);
+  assert.equal(book.updatedAt, 3000);
+});
+
+test("price changes are ignored until a snapshot seeds the book", () => {
+  const book = new OrderBook("yes");
+  assert.equal(book.applyPriceChange([{ price: 0.5, size: 10, side: "BUY" }]), false);
+  assert.equal(book.hasData(), false);
+  assert.equal(book.toMarketData(), null);
+});
+
+test("parseBookLevels reads object and tuple levels and skips zero prices", () => {
+  assert.deepEqual(
+    parseBookLevels([{ price: "0.5", size: "10" }, ["0.49", "5"], { price: "0", size: "3" }]),
+    [{ price: 0.5, size: 10 }, { price: 0.49, size: 5 }],
+  );
+});
+
+test("vwapToSize walks the opposite side", () => {
+  const result = seeded().vwapToSize("BUY", 100);
+  assert.equal(result.filled, 100);
+  assert.equal(result.vwap, 0.522);
+  assert.equal(result.worstPrice, 0.53);
+});
+
+test("vwapToSize reports a partial fill when depth runs out", () => {
+  const result = seeded().vwapToSize("SELL", 200);
+  assert.equal(result.filled, 150);
+  assert.equal(result.vwap, 0.4767);
+  assert.equal(result.worstPrice, 0.47);
+
+  const empty = OrderBook.fromLevels("yes", [], []).vwapToSize("SELL", 10);
+  assert.deepEqual(empty, { vwap: null, filled: 0, worstPrice: null });
+});
+
+test("invert maps YES bids to NO asks at 1 - p", () => {
+  const book = seeded();
+  book.applyTrade(0.5);
+  const no = book.invert("no");
+
+  assert.equal(no.tokenId, "no");
+  assert.deepEqual(no.levels("SELL"), [{ price: 0.52, size: 100 }, { price: 0.53, size: 50 }]);
+  assert.deepEqual(no.levels("BUY"), [{ price: 0.48, size: 80 }, { price: 0.47, size: 40 }]);
+  assert.equal(no.lastTradePrice(), 0.5);
+  assert.equal(no.updatedAt, 1000);
+
+  assert.equal(new OrderBook("yes").invert().hasData(), false);
+});
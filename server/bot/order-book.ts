@@ -0,0 +1,196 @@
+import type { MarketData, OrderBookSnapshot } from "@shared/schema";
+
+export type BookLevel = { price: number; size: number };
+export type BookSide = "BUY" | "SELL";
+export type PriceChange = { price: number; size: number; side: string };
+
+export function parseBookLevels(levels: any[] | undefined): BookLevel[] {
+  return (levels || []).map((l: any) => ({
+    price: parseFloat(l.price ?? l[0] ?? "0"),
+    size: parseFloat(l.size ?? l[1] ?? "0"),
+  })).filter(l => l.price > 0);
+}
+
+function round(value: number, digits = 4): number {
+  return parseFloat(value.toFixed(digits));
+}
+
+/**
+ * L2 book for one token, keyed by price level. Seeded from a full snapshot (WS `book`
+ * or REST /book) and kept current with `price_change` deltas, where size 0 removes
+ * the level. Bids are resting BUYs, asks resting SELLs.
+ */
+export class OrderBook {
+  private bids: Map<number, number> = new Map();
+  private asks: Map<number, number> = new Map();
+  private lastTrade: number | null = null;
+  private seeded = false;
+  updatedAt = 0;
+
+  constructor(readonly tokenId: string = "") {}
+
+  static fromLevels(tokenId: string, bids: BookLevel[], asks: BookLevel[], ts = Date.now()): OrderBook {
+    const book = new OrderBook(tokenId);
+    book.applySnapshot(bids, asks, ts);
+    return book;
+  }
+
+  hasData(): boolean {
+    return this.seeded;
+  }
+
+  applySnapshot(bids: BookLevel[], asks: BookLevel[], ts = Date.now()): void {
+    this.bids = new Map(bids.filter(l => l.size > 0).map(l => [l.price, l.size]));
+    this.asks = new Map(asks.filter(l => l.size > 0).map(l => [l.price, l.size]));
+    this.seeded = true;
+    this.updatedAt = ts;
+  }
+
+  /** Applies absolute level sizes; ignored until a snapshot has seeded the book. */
+  applyPriceChange(changes: PriceChange[], ts = Date.now()): boolean {
+    if (!this.seeded) return false;
+    for (const c of changes) {
+      if (!(c.price > 0) || !Number.isFinite(c.size)) continue;
+      const levels = c.side === "SELL" ? this.asks : this.bids;
+      if (c.size > 0) levels.set(c.price, c.size);
+      else levels.delete(c.price);
+    }
+    this.updatedAt = ts;
+    return true;
+  }
+
+  applyTrade(price: number): void {
+    if (price > 0) this.lastTrade = price;
+  }
+
+  bestBid(): number {
+    let best = 0;
+    this.bids.forEach((_size, price) => { if (price > best) best = price; });
+    return best;
+  }
+
+  bestAsk(): number {
+    let best = 1;
+    this.asks.forEach((_size, price) => { if (price < best) best = price; });
+    return best;
+  }
+
+  midpoint(): number {
+    return (this.bestBid() + this.bestAsk()) / 2;
+  }
+
+  spread(): number {
+    return this.bestAsk() - this.bestBid();
+  }
+
+  lastTradePrice(): number | null {
+    return this.lastTrade;
+  }
+
+  /** Levels of one side, best price first. */
+  levels(side: BookSide, limit?: number): BookLevel[] {
+    const source = side === "BUY" ? this.bids : this.asks;
+    const levels = Array.from(source.entries())
+      .map(([price, size]) => ({ price, size }))
+      .sort((a, b) => side === "BUY" ? b.price - a.price : a.price - b.price);
+    return limit !== undefined ? levels.slice(0, limit) : levels;
+  }
+
+  /** Size resting at exactly `price` on one side. */
+  sizeAt(side: BookSide, price: number): number {
+    return (side === "BUY" ? this.bids : this.asks).get(price) ?? 0;
+  }
+
+  /** Cumulative size on one side at `price` or better (bids >= price, asks <= price). */
+  depthAtPrice(side: BookSide, price: number): number {
+    let total = 0;
+    const source = side === "BUY" ? this.bids : this.asks;
+    source.forEach((size, p) => {
+      if (side === "BUY" ? p >= price - 1e-9 : p <= price + 1e-9) total += size;
+    });
+    return total;
+  }
+
+  /** Cumulative size on one side within `band` of the midpoint. */
+  depthNearMid(side: BookSide, band: number): number {
+    const mid = this.midpoint();
+    return this.depthAtPrice(side, side === "BUY" ? mid - band : mid + band);
+  }
+
+  totalDepth(side: BookSide): number {
+    let total = 0;
+    (side === "BUY" ? this.bids : this.asks).forEach(size => { total += size; });
+    return total;
+  }
+
+  /**
+   * Average price of taking `size` shares: a BUY walks the asks, a SELL the bids.
+   * `filled` is less than `size` when the book is too thin; `worstPrice` is the last level touched.
+   */
+  vwapToSize(side: BookSide, size: number): { vwap: number | null; filled: number; worstPrice: number | null } {
+    let remaining = size;
+    let cost = 0;
+    let worstPrice: number | null = null;
+    for (const level of this.levels(side === "BUY" ? "SELL" : "BUY")) {
+      if (remaining <= 1e-9) break;
+      const take = Math.min(remaining, level.size);
+      cost += take * level.price;
+      remaining -= take;
+      worstPrice = level.price;
+    }
+    const filled = size - Math.max(0, remaining);
+    return { vwap: filled > 0 ? round(cost / filled) : null, filled: round(filled, 2), worstPrice };
+  }
+
+  /** (bid size - ask size) / (bid size + ask size) over the top `levels` of each side, in [-1, 1]. */
+  imbalance(levels = 5): number {
+    const bidSize = this.levels("BUY", levels).reduce((s, l) => s + l.size, 0);
+    const askSize = this.levels("SELL", levels).reduce((s, l) => s + l.size, 0);
+    const total = bidSize + askSize;
+    return total > 0 ? round((bidSize - askSize) / total) : 0;
+  }
+
+  /** The complementary token's book: a YES bid at p is a NO ask at 1 - p. */
+  invert(tokenId = ""): OrderBook {
+    const flip = (levels: BookLevel[]) => levels.map(l => ({ price: round(1 - l.price), size: l.size }));
+    const inverted = OrderBook.fromLevels(tokenId, flip(this.levels("SELL")), flip(this.levels("BUY")), this.updatedAt);
+    if (!this.seeded) inverted.seeded = false;
+    if (this.lastTrade !== null) inverted.applyTrade(round(1 - this.lastTrade));
+    return inverted;
+  }
+
+  toMarketData(): MarketData | null {
+    if (!this.seeded) return null;
+    const bestBid = this.bestBid();
+    const bestAsk = this.bestAsk();
+    const midpoint = (bestBid + bestAsk) / 2;
+    return {
+      bestBid: round(bestBid),
+      bestAsk: round(bestAsk),
+      spread: round(bestAsk - bestBid),
+      midpoint: round(midpoint),
+      bidDepth: round(this.totalDepth("BUY"), 2),
+      askDepth: round(this.totalDepth("SELL"), 2),
+      lastPrice: round(this.lastTrade ?? midpoint),
+      volume24h: 0,
+    };
+  }
+
+  toSnapshot(source: OrderBookSnapshot["source"], depthLevels?: number): OrderBookSnapshot {
+    return {
+      tokenId: this.tokenId,
+      source,
+      updatedAt: this.updatedAt,
+      bestBid: round(this.bestBid()),
+      bestAsk: round(this.bestAsk()),
+      spread: round(this.spread()),
+      midpoint: round(this.midpoint()),
+      lastTradePrice: this.lastTrade,
+      bidDepth: round(this.totalDepth("BUY"), 2),
+      askDepth: round(this.totalDepth("SELL"), 2),
+      imbalance: this.imbalance(),
+      bids: this.levels("BUY", depthLevels),
+      asks: this.levels("SELL", depthLevels),
+    };
+  }
+}
@@ -1,12 +1,88 @@
 import { storage } from "../storage";
 import { randomUUID } from "crypto";
-import type { Order, InsertOrder } from "@shared/schema";
+import type { Fill, Order, InsertOrder } from "@shared/schema";
 import { liveTradingClient } from "./live-trading-client";
+import { paperFillRng } from "./rng";
+import { PaperFillSimulator, type PaperTrade } from "./paper-fill-simulator";
+import type { OrderBook } from "./order-book";
+import { capitalAllocator } from "../strategies/capital-allocator";
+import { realClock, type Clock, type TimerHandle } from "./clock";
+
+export function calculateFee(price: number, size: number, isMaker: boolean = true): number {
+  if (isMaker) return 0;
+  const takerFeeRate = price * (1 - price) * 0.0222;
+  return parseFloat((size * price * takerFeeRate).toFixed(6));
+}
+
+/** What one strategy holds of a token, from its own orders rather than the shared positions. */
+export interface StrategyHolding {
+  id: string;
+  strategy: string;
+  marketId: string;
+  tokenId: string;
+  tokenSide: string | null;
+  side: "BUY";
+  /** Filled BUYs less filled SELLs. */
+  size: number;
+  /** Average price the BUYs actually filled at. */
+  avgEntryPrice: number;
+}
+
+/**
+ * Open holdings per strategy and token; entries already settled (WON / LOST) are
+ * skipped. BUY cost comes from the orders' fills, or the limit price for a fill
+ * that was not recorded.
+ */
+export function strategyHoldings(rows: Order[], fills: Fill[]): StrategyHolding[] {
+  const fillsByOrder = new Map<string, Fill[]>();
+  for (const fill of fills) {
+    fillsByOrder.set(fill.orderId, [...(fillsByOrder.get(fill.orderId) ?? []), fill]);
+  }
+  const byKey = new Map<string, StrategyHolding & { bought: number; cost: number; sold: number }>();
+  for (const order of rows) {
+    if (order.filledSize <= 0 || !order.tokenId || !order.strategy) continue;
+    if (order.outcome === "WON" || order.outcome === "LOST") continue;
+    const id = `${order.strategy}:${order.tokenId}`;
+    let entry = byKey.get(id);
+    if (!entry) {
+      entry = {
+        id, strategy: order.strategy, marketId: order.marketId, tokenId: order.tokenId, tokenSide: order.tokenSide,
+        side: "BUY", size: 0, avgEntryPrice: 0, bought: 0, cost: 0, sold: 0,
+      };
+      byKey.set(id, entry);
+    }
+    if (order.side === "BUY") {
+      const orderFills = fillsByOrder.get(order.id) ?? [];
+      const recorded = orderFills.reduce((sum, f) => sum + f.size, 0);
+      entry.bought += order.filledSize;
+      entry.cost += orderFills.reduce((sum, f) => sum + f.price * f.size, 0)
+        + Math.max(0, order.filledSize - recorded) * order.price;
+    } else {
+      entry.sold += order.filledSize;
+    }
+  }
+  return Array.from(byKey.values())
+    .map(({ bought, cost, sold, ...holding }) => ({
+      ...holding,
+      size: parseFloat(Math.max(0, bought - sold).toFixed(4)),
+      avgEntryPrice: bought > 0 ? parseFloat((cost / bought).toFixed(4)) : 0,
+    }))
+    .filter(h => h.size > 0);
+}
+
+/** What `strategy` holds in `marketId`, from its own orders and their fills. */
+export async function getStrategyHoldings(strategy: string, marketId: string): Promise<StrategyHolding[]> {
+  const rows = await storage.getStrategyOrdersByMarket(strategy, marketId);
+  const fills = await storage.getFillsByOrderIds(rows.filter(o => o.side === "BUY" && o.filledSize > 0).map(o => o.id));
+  return strategyHoldings(rows, fills);
+}
 
 export class OrderManager {
-  private orderTimeouts: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private orderTimeouts: Map<string, TimerHandle> = new Map();
   private readonly DEFAULT_ORDER_TTL = 5 * 60 * 1000;
 
+  constructor(private readonly clock: Clock = realClock) {}
+
   async reconcileOnStartup(): Promise<void> {
     if (!liveTradingClient.isInitialized()) return;
 
@@ -117,10 +193,10 @@ export class OrderManager {
     const ttl = ttlMs || this.DEFAULT_ORDER_TTL;
 
     if (this.orderTimeouts.has(orderId)) {
-      clearTimeout(this.orderTimeouts.get(orderId)!);
+      this.clock.clearTimeout(this.orderTimeouts.get(orderId)!);
     }
 
-    const timer = setTimeout(async () => {
+    const timer = this.clock.setTimeout(async () => {
       this.orderTimeouts.delete(orderId);
       const order = await storage.getOrderById(orderId);
       if (!order || order.status === "FILLED" || order.status === "CANCELLED" || order.status === "REJECTED") {
@@ -142,11 +218,15 @@ export class OrderManager {
 
   clearAllTimeouts(): void {
     this.orderTimeouts.forEach((timer) => {
-      clearTimeout(timer);
+      this.clock.clearTimeout(timer);
     });
     this.orderTimeouts.clear();
   }
 
+  /**
+   * Places a paper or live order. A tagged BUY over its strategy's capital budget
+   * is not sent: it is stored and returned with status REJECTED.
+   */
   async placeOrder(params: {
     marketId: string;
     tokenId?: string;
@@ -160,14 +240,46 @@ export class OrderManager {
     isMakerOrder?: boolean;
     oracleDirection?: string;
     oracleConfidence?: number;
+    /** Registered strategy placing the order; its BUYs are checked against its capital budget. */
+    strategy?: string;
+    purpose?: string;
   }): Promise<Order> {
-    const clientOrderId = `pm-${Date.now()}-${randomUUID().slice(0, 8)}`;
+    const clientOrderId = `pm-${this.clock.now()}-${randomUUID().slice(0, 8)}`;
 
     const existing = await storage.getOrderByClientId(clientOrderId);
     if (existing) {
       return existing;
     }
 
+    if (params.strategy && params.side === "BUY") {
+      const budget = await capitalAllocator.checkOrder(params.strategy, params.price * params.size);
+      if (!budget.allowed) {
+        await storage.createEvent({
+          type: "RISK_ALERT",
+          message: `[BUDGET] ${params.strategy} order blocked: ${budget.reason}`,
+          data: { strategy: params.strategy, side: params.side, price: params.price, size: params.size, reason: budget.reason },
+          level: "warn",
+        });
+        return storage.createOrder({
+          clientOrderId,
+          marketId: params.marketId,
+          tokenId: params.tokenId || params.marketId,
+          tokenSide: params.tokenSide || null,
+          side: params.side,
+          price: params.price,
+          size: params.size,
+          filledSize: 0,
+          status: "REJECTED",
+          isPaperTrade: params.isPaperTrade,
+          isMakerOrder: params.isMakerOrder ?? true,
+          oracleDirection: params.oracleDirection,
+          oracleConfidence: params.oracleConfidence,
+          strategy: params.strategy,
+          purpose: params.purpose ?? null,
+        });
+      }
+    }
+
     if (!params.isPaperTrade) {
       return this.placeLiveOrder(params, clientOrderId);
     }
@@ -186,6 +298,8 @@ export class OrderManager {
       isMakerOrder: params.isMakerOrder ?? true,
       oracleDirection: params.oracleDirection,
       oracleConfidence: params.oracleConfidence,
+      strategy: params.strategy ?? null,
+      purpose: params.purpose ?? null,
     });
 
     await storage.createEvent({
@@ -212,6 +326,9 @@ export class OrderManager {
     isMakerOrder?: boolean;
     oracleDirection?: string;
     oracleConfidence?: number;
+    /** Registered strategy placing the order; its BUYs are checked against its capital budget. */
+    strategy?: string;
+    purpose?: string;
   }, clientOrderId: string): Promise<Order> {
     if (!liveTradingClient.isInitialized()) {
       const initResult = await liveTradingClient.initialize();
@@ -242,6 +359,8 @@ export class OrderManager {
       isMakerOrder: params.isMakerOrder ?? true,
       oracleDirection: params.oracleDirection,
       oracleConfidence: params.oracleConfidence,
+      strategy: params.strategy ?? null,
+      purpose: params.purpose ?? null,
     });
 
     const sdkTokenId = effectiveTokenId;
@@ -295,7 +414,7 @@ export class OrderManager {
 
   async cancelOrder(orderId: string): Promise<Order | undefined> {
     if (this.orderTimeouts.has(orderId)) {
-      clearTimeout(this.orderTimeouts.get(orderId)!);
+      this.clock.clearTimeout(this.orderTimeouts.get(orderId)!);
       this.orderTimeouts.delete(orderId);
     }
 
@@ -318,6 +437,7 @@ export class OrderManager {
     }
 
     const updated = await storage.updateOrderStatus(orderId, "CANCELLED");
+    this.paperFills.forget(orderId);
 
     await storage.createEvent({
       type: "ORDER_CANCELLED",
@@ -329,7 +449,16 @@ export class OrderManager {
     return updated;
   }
 
-  async cancelAllOrders(): Promise<void> {
+  /** With `strategy`, only that strategy's orders are cancelled, one by one. */
+  async cancelAllOrders(strategy?: string): Promise<void> {
+    if (strategy) {
+      const owned = (await storage.getActiveOrders()).filter(o => o.strategy === strategy);
+      for (const order of owned) {
+        await this.cancelOrder(order.id);
+      }
+      return;
+    }
+
     const activeOrders = await storage.getActiveOrders();
     const hasLiveOrders = activeOrders.some(o => !o.isPaperTrade);
 
@@ -346,6 +475,7 @@ export class OrderManager {
     }
 
     await storage.cancelAllOpenOrders();
+    this.paperFills.reset();
     await storage.createEvent({
       type: "ORDER_CANCELLED",
       message: "All open orders cancelled",
@@ -529,87 +659,74 @@ export class OrderManager {
     }
   }
 
-  private paperFillTicks: Map<string, number> = new Map();
-  private readonly REQUIRED_CROSSING_TICKS = 2;
+  private paperFills = new PaperFillSimulator(paperFillRng());
   private calculateFee(price: number, size: number, isMaker: boolean = true): number {
-    if (isMaker) return 0;
-    const takerFeeRate = price * (1 - price) * 0.0222;
-    return parseFloat((size * price * takerFeeRate).toFixed(6));
+    return calculateFee(price, size, isMaker);
   }
 
-  async simulateFill(orderId: string, marketData?: { bestBid: number; bestAsk: number; bidDepth: number; askDepth: number }): Promise<{ filled: boolean; pnl: number; fee?: number }> {
+  /** Feeds a trade print to the paper matcher; prints at or through a resting order's price are what fill it. */
+  recordPaperTrade(tokenId: string, trade: PaperTrade): void {
+    this.paperFills.recordTrade(tokenId, trade);
+  }
+
+  async simulateFill(orderId: string, book?: OrderBook | null): Promise<{ filled: boolean; pnl: number; fee?: number }> {
     const order = await storage.getOrderById(orderId);
     if (!order || order.status === "FILLED" || order.status === "CANCELLED" || order.status === "REJECTED") {
-      this.paperFillTicks.delete(orderId);
+      this.paperFills.forget(orderId);
       return { filled: false, pnl: 0 };
     }
 
-    if (!marketData) {
+    if (!book) {
       return { filled: false, pnl: 0 };
     }
 
-    let priceCrossed = false;
-    if (order.side === "BUY") {
-      priceCrossed = marketData.bestAsk <= order.price;
-    } else {
-      priceCrossed = marketData.bestBid >= order.price;
-    }
-
-    if (!priceCrossed) {
-      this.paperFillTicks.delete(orderId);
+    const fills = this.paperFills.match({
+      id: order.id,
+      tokenId: order.tokenId || order.marketId,
+      side: order.side as "BUY" | "SELL",
+      price: order.price,
+      size: order.size,
+      filledSize: order.filledSize,
+    }, book);
+    if (fills.length === 0) {
       return { filled: false, pnl: 0 };
     }
 
-    const currentTicks = (this.paperFillTicks.get(orderId) || 0) + 1;
-    this.paperFillTicks.set(orderId, currentTicks);
-
-    if (currentTicks < this.REQUIRED_CROSSING_TICKS) {
-      return { filled: false, pnl: 0 };
-    }
+    let filledSize = order.filledSize;
+    let pnl = 0;
+    let totalFee = 0;
+    for (const fill of fills) {
+      const fee = this.calculateFee(fill.price, fill.size, fill.isMaker);
+      filledSize = parseFloat((filledSize + fill.size).toFixed(4));
+      totalFee += fee;
+
+      await storage.createFill({
+        orderId: order.id,
+        marketId: order.marketId,
+        tokenId: order.tokenId || order.marketId,
+        tokenSide: order.tokenSide || null,
+        side: order.side,
+        price: fill.price,
+        size: fill.size,
+        fee,
+        isPaperTrade: order.isPaperTrade,
+      });
 
-    this.paperFillTicks.delete(orderId);
+      const complete = filledSize >= order.size - 1e-6;
+      await storage.updateOrderStatus(orderId, complete ? "FILLED" : "PARTIALLY_FILLED", complete ? order.size : filledSize);
 
-    const depth = order.side === "BUY" ? marketData.askDepth : marketData.bidDepth;
-    const depthFactor = Math.min(1, depth / 100);
-    if (Math.random() > depthFactor) {
-      return { filled: false, pnl: 0 };
-    }
+      await storage.createEvent({
+        type: "ORDER_FILLED",
+        message: `[PAPER] ${complete ? "Order filled" : "Partial fill"}: ${fill.size.toFixed(2)} @ $${fill.price.toFixed(4)} (${order.side}, ${fill.isMaker ? "maker" : "taker"}) [fee: $${fee.toFixed(4)}] [filled: ${filledSize.toFixed(2)}/${order.size.toFixed(2)}] [token: ${order.tokenSide || '?'}]`,
+        data: { orderId, fillPrice: fill.price, fillSize: fill.size, side: order.side, fee, isMaker: fill.isMaker, totalFilled: filledSize, tokenId: order.tokenId },
+        level: "info",
+      });
 
-    const fillSize = order.size - order.filledSize;
-    let fillPrice: number;
-    if (order.side === "BUY") {
-      const slippage = 0.001 + Math.random() * 0.002;
-      fillPrice = parseFloat(Math.min(order.price + slippage, marketData.bestAsk).toFixed(4));
-    } else {
-      const slippage = 0.001 + Math.random() * 0.002;
-      fillPrice = parseFloat(Math.max(order.price - slippage, marketData.bestBid).toFixed(4));
+      pnl += await this.updatePosition(order.marketId, order.side, fill.size, fill.price, fee, order.tokenId || order.marketId, order.tokenSide);
     }
 
-    const fee = this.calculateFee(fillPrice, fillSize, false);
-
-    await storage.createFill({
-      orderId: order.id,
-      marketId: order.marketId,
-      tokenId: order.tokenId || order.marketId,
-      tokenSide: order.tokenSide || null,
-      side: order.side,
-      price: fillPrice,
-      size: fillSize,
-      fee,
-      isPaperTrade: order.isPaperTrade,
-    });
-
-    await storage.updateOrderStatus(orderId, "FILLED", order.size);
-
-    await storage.createEvent({
-      type: "ORDER_FILLED",
-      message: `[PAPER] Order filled: ${fillSize.toFixed(2)} @ $${fillPrice.toFixed(4)} (${order.side}) [fee: $${fee.toFixed(4)}] [token: ${order.tokenSide || '?'}]`,
-      data: { orderId, fillPrice, fillSize, side: order.side, fee, tokenId: order.tokenId },
-      level: "info",
-    });
-
-    const pnl = await this.updatePosition(order.marketId, order.side, fillSize, fillPrice, fee, order.tokenId || order.marketId, order.tokenSide);
-    return { filled: true, pnl, fee };
+    if (filledSize >= order.size - 1e-6) this.paperFills.forget(orderId);
+    return { filled: true, pnl: parseFloat(pnl.toFixed(4)), fee: parseFloat(totalFee.toFixed(6)) };
   }
 
   private async updatePosition(marketId: string, side: string, fillSize: number, fillPrice: number, fee: number, tokenId?: string, tokenSide?: string | null): Promise<number> {
@@ -0,0 +1,95 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { OrderBook } from "./order-book";
+import { PaperFillSimulator, invertTrade, type PaperFill, type PaperOrder } from "./paper-fill-simulator";
+import { paperFillRng } from "./rng";
+
+const book = () => OrderBook.fromLevels(
+  "yes",
+  [{ price: 0.48, size: 100 }, { price: 0.47, size: 50 }],
+  [{ price: 0.52, size: 30 }, { price: 0.53, size: 40 }],
+);
+
+const order = (overrides: Partial<PaperOrder> = {}): PaperOrder => ({
+  id: "o1", tokenId: "yes", side: "BUY", price: 0.48, size: 50, filledSize: 0, ...overrides,
+});
+
+test("the marketable part fills as taker on first sight, walking the book", () => {
+  const sim = new PaperFillSimulator(() => 0);
+  const fills = sim.match(order({ price: 0.53, size: 50 }), book());
+  assert.deepEqual(fills, [
+    { price: 0.52, size: 30, isMaker: false },
+    { price: 0.53, size: 20, isMaker: false },
+  ]);
+});
+
+test("prints at our price consume the queue ahead before filling us, partially", () => {
+  const sim = new PaperFillSimulator(() => 0);
+  const resting = order();
+  const b = book();
+  assert.deepEqual(sim.match(resting, b), []);
+
+  sim.recordTrade("yes", { price: 0.48, size: 60, side: "SELL", ts: 1 });
+  assert.deepEqual(sim.match(resting, b), [], "60 of the 100 ahead are consumed");
+
+  sim.recordTrade("yes", { price: 0.48, size: 70, side: "SELL", ts: 2 });
+  assert.deepEqual(sim.match(resting, b), [{ price: 0.48, size: 30, isMaker: true }]);
+
+  resting.filledSize = 30;
+  sim.recordTrade("yes", { price: 0.48, size: 50, side: "SELL", ts: 3 });
+  assert.deepEqual(sim.match(resting, b), [{ price: 0.48, size: 20, isMaker: true }], "fills only what is left");
+});
+
+test("prints on our own side and prints that do not reach the limit leave the order alone", () => {
+  const sim = new PaperFillSimulator(() => 0);
+  const resting = order();
+  const b = book();
+  sim.match(resting, b);
+  sim.recordTrade("yes", { price: 0.48, size: 500, side: "BUY", ts: 1 });
+  sim.recordTrade("yes", { price: 0.49, size: 500, side: "SELL", ts: 2 });
+  assert.deepEqual(sim.match(resting, b), []);
+});
+
+test("a print through our price fills us as maker at our limit", () => {
+  const sim = new PaperFillSimulator(() => 0);
+  const resting = order();
+  const b = book();
+  sim.match(resting, b);
+  sim.recordTrade("yes", { price: 0.46, size: 20, side: "SELL", ts: 1 });
+  assert.deepEqual(sim.match(resting, b), [{ price: 0.48, size: 20, isMaker: true }]);
+});
+
+test("invertTrade flips price and taker side", () => {
+  assert.deepEqual(invertTrade({ price: 0.3, size: 5, side: "BUY", ts: 1 }), { price: 0.7, size: 5, side: "SELL", ts: 1 });
+  assert.equal(invertTrade({ price: 0.3, size: 5, side: null, ts: 1 }).side, null);
+});
+
+/** Resting BUY while the level flickers: the rng decides whether the cancelled size sat ahead of us. */
+function seededRun(seed: string): (PaperFill & { round: number })[] {
+  const previous = process.env.PAPER_FILL_SEED;
+  process.env.PAPER_FILL_SEED = seed;
+  const sim = new PaperFillSimulator(paperFillRng());
+  if (previous === undefined) delete process.env.PAPER_FILL_SEED;
+  else process.env.PAPER_FILL_SEED = previous;
+
+  const resting = order({ size: 40 });
+  const b = OrderBook.fromLevels("yes", [{ price: 0.48, size: 100 }], [{ price: 0.52, size: 30 }]);
+  sim.match(resting, b);
+  const fills: (PaperFill & { round: number })[] = [];
+  for (let i = 0; i < 20; i++) {
+    b.applyPriceChange([{ price: 0.48, size: i % 2 === 0 ? 70 : 100, side: "BUY" }]);
+    sim.recordTrade("yes", { price: 0.48, size: 5, side: "SELL", ts: i });
+    for (const fill of sim.match(resting, b)) {
+      fills.push({ ...fill, round: i });
+      resting.filledSize += fill.size;
+    }
+  }
+  return fills;
+}
+
+test("runs reproduce exactly under a fixed PAPER_FILL_SEED", () => {
+  const first = seededRun("3");
+  assert.equal(first.reduce((sum, f) => sum + f.size, 0), 40);
+  assert.deepEqual(seededRun("3"), first);
+  assert.notDeepEqual(seededRun("1"), first, "the scenario depends on the rng");
+});
@@ -0,0 +1,151 @@
+import type { BookSide, OrderBook } from "./order-book";
+
+export interface PaperOrder {
+  id: string;
+  tokenId: string;
+  side: BookSide;
+  price: number;
+  size: number;
+  filledSize: number;
+}
+
+export interface PaperTrade {
+  price: number;
+  size: number;
+  /** Taker side of the print; null when the feed did not say. */
+  side: string | null;
+  ts: number;
+}
+
+export interface PaperFill {
+  price: number;
+  size: number;
+  isMaker: boolean;
+}
+
+/** The same print seen from the complementary token: a YES taker BUY at p is a NO taker SELL at 1 - p. */
+export function invertTrade(trade: PaperTrade): PaperTrade {
+  const side = trade.side === "BUY" ? "SELL" : trade.side === "SELL" ? "BUY" : null;
+  return { ...trade, price: round(1 - trade.price), side };
+}
+
+interface QueueState {
+  queueAhead: number;
+  levelSize: number;
+  crossedDepth: number;
+  tradeSeq: number;
+}
+
+const MAX_TRADES_KEPT = 500;
+const MAX_TOKENS_KEPT = 20;
+const EPSILON = 1e-9;
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(4));
+}
+
+/**
+ * Paper matching against an observed L2 book and trade prints. The marketable part
+ * of an order takes liquidity on first sight (taker). The rest joins the back of the
+ * queue at its price level. Trade prints at that price consume the size queued ahead
+ * before reaching us. Prints or book moves through our price fill us straight away
+ * (maker, at our price). Size that leaves the level without a print counts as a
+ * cancel, and the rng decides whether it sat ahead of us or behind.
+ */
+export class PaperFillSimulator {
+  private queues: Map<string, QueueState> = new Map();
+  private trades: Map<string, (PaperTrade & { seq: number })[]> = new Map();
+  private nextSeq = 1;
+
+  constructor(private rng: () => number = Math.random) {}
+
+  recordTrade(tokenId: string, trade: PaperTrade): void {
+    if (!(trade.price > 0) || !(trade.size > 0)) return;
+    let list = this.trades.get(tokenId);
+    if (!list) {
+      list = [];
+      this.trades.set(tokenId, list);
+      if (this.trades.size > MAX_TOKENS_KEPT) this.trades.delete(this.trades.keys().next().value!);
+    }
+    list.push({ ...trade, seq: this.nextSeq++ });
+    if (list.length > MAX_TRADES_KEPT) list.splice(0, list.length - MAX_TRADES_KEPT);
+  }
+
+  forget(orderId: string): void {
+    this.queues.delete(orderId);
+  }
+
+  reset(): void {
+    this.queues.clear();
+    this.trades.clear();
+  }
+
+  /** One matching round for `order` against the current book and the prints seen since the last round. */
+  match(order: PaperOrder, book: OrderBook): PaperFill[] {
+    let remaining = round(order.size - order.filledSize);
+    if (remaining <= 0 || !book.hasData()) return [];
+
+    const opposite: BookSide = order.side === "BUY" ? "SELL" : "BUY";
+    const crossingDepth = book.depthAtPrice(opposite, order.price);
+    const levelSize = book.sizeAt(order.side, order.price);
+    const tradeSeq = this.nextSeq - 1;
+
+    const queue = this.queues.get(order.id);
+    if (!queue) {
+      this.queues.set(order.id, { queueAhead: levelSize, levelSize, crossedDepth: crossingDepth, tradeSeq });
+      const fills: PaperFill[] = [];
+      for (const level of book.levels(opposite)) {
+        if (remaining <= EPSILON || !this.reaches(order, level.price)) break;
+        const take = round(Math.min(remaining, level.size));
+        fills.push({ price: level.price, size: take, isMaker: false });
+        remaining = round(remaining - take);
+      }
+      return fills;
+    }
+
+    let makerSize = 0;
+    const take = (size: number) => {
+      const filled = Math.min(remaining, Math.max(0, size));
+      makerSize += filled;
+      remaining = round(remaining - filled);
+    };
+
+    const newCrossing = crossingDepth - queue.crossedDepth;
+    queue.crossedDepth = crossingDepth;
+    if (newCrossing > EPSILON) {
+      const ahead = Math.min(queue.queueAhead, newCrossing);
+      queue.queueAhead -= ahead;
+      take(newCrossing - ahead);
+    }
+
+    let tradedAtLevel = 0;
+    for (const trade of this.trades.get(order.tokenId) ?? []) {
+      if (trade.seq <= queue.tradeSeq) continue;
+      // A taker on our side lifts the other side of the book, not our level.
+      if (trade.side === order.side) continue;
+      if (Math.abs(trade.price - order.price) < EPSILON) {
+        const ahead = Math.min(queue.queueAhead, trade.size);
+        queue.queueAhead -= ahead;
+        tradedAtLevel += trade.size;
+        take(trade.size - ahead);
+      } else if (this.reaches(order, trade.price)) {
+        take(trade.size);
+      }
+    }
+    queue.tradeSeq = tradeSeq;
+
+    const cancelled = queue.levelSize - levelSize - tradedAtLevel;
+    if (cancelled > EPSILON && queue.queueAhead > 0 && this.rng() * queue.levelSize < queue.queueAhead) {
+      queue.queueAhead = Math.max(0, queue.queueAhead - cancelled);
+    }
+    queue.queueAhead = Math.min(queue.queueAhead, levelSize);
+    queue.levelSize = levelSize;
+
+    return makerSize > EPSILON ? [{ price: order.price, size: round(makerSize), isMaker: true }] : [];
+  }
+
+  /** Whether a price on the other side is at or through the order's limit. */
+  private reaches(order: PaperOrder, price: number): boolean {
+    return order.side === "BUY" ? price <= order.price + EPSILON : price >= order.price - EPSILON;
+  }
+}
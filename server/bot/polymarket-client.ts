@@ -1,7 +1,6 @@
 import type { MarketData } from "@shared/schema";
-
-const CLOB_BASE = "https://clob.polymarket.com";
-const GAMMA_BASE = "https://gamma-api.polymarket.com";
+import { OrderBook, parseBookLevels } from "./order-book";
+import { CLOB_BASE_URL, GAMMA_BASE_URL } from "./endpoints";
 
 export interface PolymarketMarket {
   id: string;
@@ -42,14 +41,13 @@ export interface OrderBookResponse {
 }
 
 export class PolymarketClient {
-  private lastFetchTime = 0;
-  private cachedData: MarketData | null = null;
+  private cachedBooks: Map<string, OrderBook> = new Map();
   private readonly MIN_FETCH_INTERVAL = 2000;
   private orderbookErrorCount = 0;
   private lastOrderbookErrorLog = 0;
 
   async fetchMarkets(query?: string): Promise<PolymarketMarket[]> {
-    const url = `${GAMMA_BASE}/markets`;
+    const url = `${GAMMA_BASE_URL}/markets`;
     try {
       const params = new URLSearchParams({
         closed: "false",
@@ -103,8 +101,24 @@ export class PolymarketClient {
     }
   }
 
+  async fetchMarketByTokenId(tokenId: string): Promise<PolymarketMarket | null> {
+    const url = `${GAMMA_BASE_URL}/markets?clob_token_ids=${tokenId}`;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        console.error(`[PolymarketClient] fetchMarketByTokenId failed: HTTP ${response.status} | tokenId=${tokenId.slice(0, 12)}...`);
+        return null;
+      }
+      const markets: PolymarketMarket[] = await response.json();
+      return markets && markets.length > 0 ? markets[0] : null;
+    } catch (error: any) {
+      console.error(`[PolymarketClient] fetchMarketByTokenId network error: ${error.message} | tokenId=${tokenId.slice(0, 12)}...`);
+      return null;
+    }
+  }
+
   async fetchOrderBook(tokenId: string): Promise<OrderBookResponse | null> {
-    const url = `${CLOB_BASE}/book?token_id=${tokenId}`;
+    const url = `${CLOB_BASE_URL}/book?token_id=${tokenId}`;
     try {
       const response = await fetch(url);
       if (!response.ok) {
@@ -132,7 +146,7 @@ export class PolymarketClient {
 
   async fetchMidpoint(tokenId: string): Promise<number | null> {
     try {
-      const response = await fetch(`${CLOB_BASE}/midpoint?token_id=${tokenId}`);
+      const response = await fetch(`${CLOB_BASE_URL}/midpoint?token_id=${tokenId}`);
       if (!response.ok) {
         console.warn(`[PolymarketClient] fetchMidpoint HTTP ${response.status}: tokenId=${tokenId.slice(0, 12)}...`);
         return null;
@@ -147,7 +161,7 @@ export class PolymarketClient {
 
   async fetchPrice(tokenId: string, side: "BUY" | "SELL"): Promise<number | null> {
     try {
-      const response = await fetch(`${CLOB_BASE}/price?token_id=${tokenId}&side=${side}`);
+      const response = await fetch(`${CLOB_BASE_URL}/price?token_id=${tokenId}&side=${side}`);
       if (!response.ok) {
         console.warn(`[PolymarketClient] fetchPrice HTTP ${response.status}: tokenId=${tokenId.slice(0, 12)}... side=${side}`);
         return null;
@@ -162,7 +176,7 @@ export class PolymarketClient {
 
   async fetchSpread(tokenId: string): Promise<{ spread: number } | null> {
     try {
-      const response = await fetch(`${CLOB_BASE}/spread?token_id=${tokenId}`);
+      const response = await fetch(`${CLOB_BASE_URL}/spread?token_id=${tokenId}`);
       if (!response.ok) {
         console.warn(`[PolymarketClient] fetchSpread HTTP ${response.status}: tokenId=${tokenId.slice(0, 12)}...`);
         return null;
@@ -175,45 +189,28 @@ export class PolymarketClient {
     }
   }
 
-  async fetchMarketData(tokenId: string): Promise<MarketData | null> {
-    const now = Date.now();
-    if (now - this.lastFetchTime < this.MIN_FETCH_INTERVAL && this.cachedData) {
-      return this.cachedData;
+  /** Full L2 book from REST, cached per token for MIN_FETCH_INTERVAL. */
+  async fetchL2Book(tokenId: string): Promise<OrderBook | null> {
+    const cached = this.cachedBooks.get(tokenId);
+    if (cached && Date.now() - cached.updatedAt < this.MIN_FETCH_INTERVAL) {
+      return cached;
     }
 
+    const orderBook = await this.fetchOrderBook(tokenId);
+    if (!orderBook) return null;
+    const book = OrderBook.fromLevels(tokenId, parseBookLevels(orderBook.bids), parseBookLevels(orderBook.asks));
+    this.cachedBooks.set(tokenId, book);
+    if (this.cachedBooks.size > 50) {
+      const oldest = Array.from(this.cachedBooks.entries()).sort((a, b) => a[1].updatedAt - b[1].updatedAt)[0];
+      this.cachedBooks.delete(oldest[0]);
+    }
+    return book;
+  }
+
+  async fetchMarketData(tokenId: string): Promise<MarketData | null> {
     try {
-      const orderBook = await this.fetchOrderBook(tokenId);
-      if (!orderBook) return null;
-
-      const bids = orderBook.bids
-        .map(b => ({ price: parseFloat(b.price), size: parseFloat(b.size) }))
-        .sort((a, b) => b.price - a.price);
-
-      const asks = orderBook.asks
-        .map(a => ({ price: parseFloat(a.price), size: parseFloat(a.size) }))
-        .sort((a, b) => a.price - b.price);
-
-      const bestBid = bids.length > 0 ? bids[0].price : 0;
-      const bestAsk = asks.length > 0 ? asks[0].price : 1;
-      const spread = bestAsk - bestBid;
-      const midpoint = (bestBid + bestAsk) / 2;
-
-      const bidDepth = bids.reduce((sum, b) => sum + b.size, 0);
-      const askDepth = asks.reduce((sum, a) => sum + a.size, 0);
-
-      this.cachedData = {
-        bestBid: parseFloat(bestBid.toFixed(4)),
-        bestAsk: parseFloat(bestAsk.toFixed(4)),
-        spread: parseFloat(spread.toFixed(4)),
-        midpoint: parseFloat(midpoint.toFixed(4)),
-        bidDepth: parseFloat(bidDepth.toFixed(2)),
-        askDepth: parseFloat(askDepth.toFixed(2)),
-        lastPrice: parseFloat(midpoint.toFixed(4)),
-        volume24h: 0,
-      };
-
-      this.lastFetchTime = now;
-      return this.cachedData;
+      const book = await this.fetchL2Book(tokenId);
+      return book ? book.toMarketData() : null;
     } catch (error: any) {
       console.error(`[PolymarketClient] fetchMarketData error: ${error.message} | tokenId=${tokenId.slice(0, 12)}... | stack: ${error.stack?.split("\n")[1]?.trim() || "none"}`);
       return null;
@@ -229,7 +226,7 @@ export class PolymarketClient {
 
     let publicEndpointsOk = false;
     try {
-      const response = await fetch(`${CLOB_BASE}/time`);
+      const response = await fetch(`${CLOB_BASE_URL}/time`);
       publicEndpointsOk = response.ok;
     } catch (error: any) {
       console.error(`[PolymarketClient] Connection check failed: ${error.message}`);
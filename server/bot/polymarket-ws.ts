@@ -1,9 +1,8 @@
 import WebSocket from "ws";
 import { storage } from "../storage";
 import type { MarketData } from "@shared/schema";
-
-const WS_MARKET_URL = "wss://ws-subscriptions-clob.polymarket.com/ws/market";
-const WS_USER_URL = "wss://ws-subscriptions-clob.polymarket.com/ws/user";
+import { OrderBook, parseBookLevels } from "./order-book";
+import { WS_MARKET_URL, WS_USER_URL } from "./endpoints";
 
 const PING_INTERVAL = 10_000;
 const INITIAL_RECONNECT_DELAY = 1_000;
@@ -34,6 +33,16 @@ export type FillCallback = (data: {
 
 export type MarketDataCallback = (data: MarketData) => void;
 
+export type TradeCallback = (data: {
+  tokenId: string;
+  price: number;
+  size: number;
+  side: string | null;
+  timestamp: number;
+}) => void;
+
+export type RawMarketMessageCallback = (data: any, receivedAt: number) => void;
+
 export class PolymarketWebSocket {
   private marketWs: WebSocket | null = null;
   private userWs: WebSocket | null = null;
@@ -64,7 +73,10 @@ export class PolymarketWebSocket {
 
   private onFillCallbacks: FillCallback[] = [];
   private onMarketDataCallbacks: MarketDataCallback[] = [];
+  private onTradeCallbacks: TradeCallback[] = [];
+  private rawMarketListeners: RawMarketMessageCallback[] = [];
   private lastMarketData: MarketData | null = null;
+  private books: Map<string, OrderBook> = new Map();
   private activeAssetId: string | null = null;
   private onRefreshAssetIdsCallback: (() => Promise<string[]>) | null = null;
   private wsLogThrottle: Map<string, number> = new Map();
@@ -77,6 +89,15 @@ export class PolymarketWebSocket {
     this.onMarketDataCallbacks.push(cb);
   }
 
+  onTrade(cb: TradeCallback) {
+    this.onTradeCallbacks.push(cb);
+  }
+
+  /** Persistent tap on every parsed market message (all subscribed assets); survives disconnectAll(). */
+  onRawMarketMessage(cb: RawMarketMessageCallback) {
+    this.rawMarketListeners.push(cb);
+  }
+
   onRefreshAssetIds(cb: () => Promise<string[]>) {
     this.onRefreshAssetIdsCallback = cb;
   }
@@ -98,6 +119,12 @@ export class PolymarketWebSocket {
     return this.lastMarketData;
   }
 
+  /** Live L2 book for a subscribed token, or null until the WS has delivered a snapshot for it. */
+  getOrderBook(tokenId: string): OrderBook | null {
+    const book = this.books.get(tokenId);
+    return book && book.hasData() && this.marketConnected ? book : null;
+  }
+
   setActiveAssetId(assetId: string): void {
     this.activeAssetId = assetId;
     this.log("info", `Active asset ID set to: ${assetId.slice(0, 12)}...`);
@@ -123,6 +150,7 @@ export class PolymarketWebSocket {
     }
     this.subscribedMarketAssets = validIds;
     this.activeAssetId = validIds[0];
+    this.books.clear();
     this.shouldReconnectMarket = true;
     this.invalidOpCountMarket = 0;
     this.marketReconnects = 0;
@@ -152,6 +180,7 @@ export class PolymarketWebSocket {
     this._cleanupUser();
     this.onFillCallbacks = [];
     this.onMarketDataCallbacks = [];
+    this.onTradeCallbacks = [];
     this.onRefreshAssetIdsCallback = null;
     this.onRefreshApiCredsCallback = null;
     this.log("info", "All WebSocket connections closed");
@@ -164,6 +193,9 @@ export class PolymarketWebSocket {
       return;
     }
     this.subscribedMarketAssets = validIds;
+    for (const tokenId of Array.from(this.books.keys())) {
+      if (!validIds.includes(tokenId)) this.books.delete(tokenId);
+    }
     if (this.marketWs?.readyState === WebSocket.OPEN) {
       this.marketWs.send(JSON.stringify({
         assets_ids: validIds,
@@ -255,6 +287,9 @@ export class PolymarketWebSocket {
 
         try {
           const data = JSON.parse(rawStr);
+          for (const cb of this.rawMarketListeners) {
+            try { cb(data, this.marketLastMessage); } catch {}
+          }
           this._handleMarketMessage(data);
         } catch (e: any) {
           this.log("warn", `Market WS: Failed to parse message: ${e.message}`);
@@ -387,81 +422,86 @@ export class PolymarketWebSocket {
     }
   }
 
-  private _handleMarketMessage(data: any): void {
-    if (!data || typeof data !== "object") return;
+  private bookFor(tokenId: string): OrderBook {
+    let book = this.books.get(tokenId);
+    if (!book) {
+      book = new OrderBook(tokenId);
+      this.books.set(tokenId, book);
+    }
+    return book;
+  }
 
-    const msgAssetId = data.asset_id || data.market || "";
-    if (this.activeAssetId) {
-      if (!msgAssetId) {
-        return;
-      }
-      if (msgAssetId !== this.activeAssetId) {
-        return;
-      }
+  private _handleMarketMessage(data: any): void {
+    if (Array.isArray(data)) {
+      for (const item of data) this._handleMarketMessage(item);
+      return;
     }
+    if (!data || typeof data !== "object") return;
 
     const eventType = data.event_type;
+    const now = Date.now();
+    const touched = new Set<string>();
 
-    if (eventType === "book") {
-      const bids = (data.bids || []).map((b: any) => ({
-        price: parseFloat(b.price || b[0] || "0"),
-        size: parseFloat(b.size || b[1] || "0"),
-      })).sort((a: any, b: any) => b.price - a.price);
-
-      const asks = (data.asks || []).map((a: any) => ({
-        price: parseFloat(a.price || a[0] || "0"),
-        size: parseFloat(a.size || a[1] || "0"),
-      })).sort((a: any, b: any) => a.price - b.price);
-
-      const bestBid = bids.length > 0 ? bids[0].price : 0;
-      const bestAsk = asks.length > 0 ? asks[0].price : 1;
-      const spread = bestAsk - bestBid;
-      const midpoint = (bestBid + bestAsk) / 2;
-      const bidDepth = bids.reduce((s: number, b: any) => s + b.size, 0);
-      const askDepth = asks.reduce((s: number, a: any) => s + a.size, 0);
-
-      this.lastMarketData = {
-        bestBid: parseFloat(bestBid.toFixed(4)),
-        bestAsk: parseFloat(bestAsk.toFixed(4)),
-        spread: parseFloat(spread.toFixed(4)),
-        midpoint: parseFloat(midpoint.toFixed(4)),
-        bidDepth: parseFloat(bidDepth.toFixed(2)),
-        askDepth: parseFloat(askDepth.toFixed(2)),
-        lastPrice: parseFloat(midpoint.toFixed(4)),
-        volume24h: 0,
-      };
-
-      for (const cb of this.onMarketDataCallbacks) {
-        try { cb(this.lastMarketData); } catch {}
-      }
+    if (eventType === "book" && data.asset_id) {
+      this.bookFor(data.asset_id).applySnapshot(parseBookLevels(data.bids), parseBookLevels(data.asks), now);
+      touched.add(data.asset_id);
     } else if (eventType === "price_change") {
       const changes = data.price_changes || data.changes || [];
       for (const change of changes) {
-        const bestBid = parseFloat(change.best_bid || change.bid || "0");
-        const bestAsk = parseFloat(change.best_ask || change.ask || "0");
-        if (bestBid > 0 && bestAsk > 0) {
-          const spread = bestAsk - bestBid;
-          const midpoint = (bestBid + bestAsk) / 2;
-
-          if (this.lastMarketData) {
-            this.lastMarketData.bestBid = parseFloat(bestBid.toFixed(4));
-            this.lastMarketData.bestAsk = parseFloat(bestAsk.toFixed(4));
-            this.lastMarketData.spread = parseFloat(spread.toFixed(4));
-            this.lastMarketData.midpoint = parseFloat(midpoint.toFixed(4));
-            this.lastMarketData.lastPrice = parseFloat(midpoint.toFixed(4));
-          }
-
-          for (const cb of this.onMarketDataCallbacks) {
-            try { cb(this.lastMarketData!); } catch {}
-          }
+        const tokenId = change.asset_id || data.asset_id;
+        if (!tokenId) continue;
+        const applied = this.bookFor(tokenId).applyPriceChange([{
+          price: parseFloat(change.price || "0"),
+          size: parseFloat(change.size ?? "NaN"),
+          side: change.side,
+        }], now);
+        if (applied) {
+          touched.add(tokenId);
+        } else if (!this.activeAssetId || tokenId === this.activeAssetId) {
+          this._applyTopOfBook(change);
         }
       }
     } else if (eventType === "last_trade_price") {
       const price = parseFloat(data.price || "0");
-      if (price > 0 && this.lastMarketData) {
-        this.lastMarketData.lastPrice = parseFloat(price.toFixed(4));
+      const tokenId = data.asset_id || "";
+      if (price > 0) {
+        this.books.get(tokenId)?.applyTrade(price);
+        if (this.lastMarketData && (!this.activeAssetId || tokenId === this.activeAssetId)) {
+          this.lastMarketData.lastPrice = parseFloat(price.toFixed(4));
+        }
+        const trade = { tokenId, price, size: parseFloat(data.size || "0"), side: data.side || null, timestamp: parseInt(data.timestamp, 10) || Date.now() };
+        for (const cb of this.onTradeCallbacks) {
+          try { cb(trade); } catch {}
+        }
       }
     }
+
+    const activeId = this.activeAssetId ?? (touched.size === 1 ? Array.from(touched)[0] : null);
+    if (!activeId || !touched.has(activeId)) return;
+
+    const marketData = this.books.get(activeId)!.toMarketData();
+    if (!marketData) return;
+    this.lastMarketData = marketData;
+    for (const cb of this.onMarketDataCallbacks) {
+      try { cb(this.lastMarketData); } catch {}
+    }
+  }
+
+  /** price_change carries best_bid/best_ask; use them for the top of book until a snapshot seeds the L2 book. */
+  private _applyTopOfBook(change: any): void {
+    const bestBid = parseFloat(change.best_bid || change.bid || "0");
+    const bestAsk = parseFloat(change.best_ask || change.ask || "0");
+    if (!(bestBid > 0 && bestAsk > 0) || !this.lastMarketData) return;
+
+    const midpoint = (bestBid + bestAsk) / 2;
+    this.lastMarketData.bestBid = parseFloat(bestBid.toFixed(4));
+    this.lastMarketData.bestAsk = parseFloat(bestAsk.toFixed(4));
+    this.lastMarketData.spread = parseFloat((bestAsk - bestBid).toFixed(4));
+    this.lastMarketData.midpoint = parseFloat(midpoint.toFixed(4));
+    this.lastMarketData.lastPrice = parseFloat(midpoint.toFixed(4));
+    for (const cb of this.onMarketDataCallbacks) {
+      try { cb(this.lastMarketData); } catch {}
+    }
   }
 
   private _handleUserMessage(data: any): void {
@@ -0,0 +1,242 @@
+import { storage } from "../storage";
+import { db } from "../db";
+import { dualEntryCycles, type RedemptionSummary } from "@shared/schema";
+import { eq, desc } from "drizzle-orm";
+import { liveTradingClient } from "./live-trading-client";
+import { polymarketClient } from "./polymarket-client";
+
+interface ConditionInfo {
+  conditionId: string;
+  slug: string | null;
+  question: string | null;
+  negRisk: boolean;
+  tokenYes: string;
+  tokenNo: string;
+  closed: boolean;
+  outcomePrices: number[];
+}
+
+const MAX_REDEEM_ATTEMPTS = 3;
+
+export class RedemptionService {
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private scanning = false;
+  private lastScanAt: number | null = null;
+  private conditionCache: Map<string, ConditionInfo> = new Map();
+  private settledTokens: Set<string> = new Set();
+
+  start(intervalMs = 300_000): void {
+    if (this.interval) return;
+    console.log(`[Redemption] Scanning for redeemable positions every ${intervalMs / 1000}s`);
+    this.interval = setInterval(() => {
+      this.scan().catch((err: any) => {
+        console.error(`[Redemption] Scan error: ${err.message}`);
+      });
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  async scan(): Promise<{ scanned: number; redeemed: number }> {
+    if (this.scanning || !liveTradingClient.getWalletAddress()) return { scanned: 0, redeemed: 0 };
+    this.scanning = true;
+    let redeemed = 0;
+    try {
+      const tokenIds = (await this.getHeldTokenCandidates()).filter(id => !this.settledTokens.has(id));
+      const conditions = new Map<string, ConditionInfo>();
+
+      for (const tokenId of tokenIds) {
+        const info = await this.resolveCondition(tokenId);
+        if (info && info.closed) conditions.set(info.conditionId, info);
+      }
+
+      for (const info of Array.from(conditions.values())) {
+        if (await this.processCondition(info)) redeemed++;
+      }
+
+      this.lastScanAt = Date.now();
+      return { scanned: conditions.size, redeemed };
+    } finally {
+      this.scanning = false;
+    }
+  }
+
+  async getSummary(): Promise<RedemptionSummary> {
+    const entries = await storage.getRedemptions();
+    const pending = entries.filter(r => r.status === "PENDING" || r.status === "FAILED" || r.status === "UNSUPPORTED");
+    const redeemed = entries.filter(r => r.status === "REDEEMED");
+    const holder = liveTradingClient.getTokenHolderAddress();
+
+    return {
+      pendingCount: pending.length,
+      pendingUsdc: parseFloat(pending.reduce((s, r) => s + r.expectedUsdc, 0).toFixed(2)),
+      redeemedCount: redeemed.length,
+      redeemedUsdc: parseFloat(redeemed.reduce((s, r) => s + (r.usdcReceived || 0), 0).toFixed(2)),
+      lastScanAt: this.lastScanAt ? new Date(this.lastScanAt).toISOString() : null,
+      holderSupported: holder.supported,
+      holderReason: holder.reason || null,
+      entries,
+    };
+  }
+
+  private async getHeldTokenCandidates(): Promise<string[]> {
+    const tokens = new Set(await storage.getLiveTradedTokenIds());
+
+    const cycles = await db.select({ yes: dualEntryCycles.marketTokenYes, no: dualEntryCycles.marketTokenNo })
+      .from(dualEntryCycles)
+      .where(eq(dualEntryCycles.isDryRun, false))
+      .orderBy(desc(dualEntryCycles.createdAt))
+      .limit(500);
+    for (const c of cycles) {
+      if (c.yes) tokens.add(c.yes);
+      if (c.no) tokens.add(c.no);
+    }
+
+    return Array.from(tokens);
+  }
+
+  private async resolveCondition(tokenId: string): Promise<ConditionInfo | null> {
+    const cached = this.conditionCache.get(tokenId);
+    if (cached && cached.closed) return cached;
+
+    const market = await polymarketClient.fetchMarketByTokenId(tokenId);
+    if (!market || !market.conditionId) return null;
+
+    let tokenIds: string[] = [];
+    let prices: number[] = [];
+    try {
+      tokenIds = typeof market.clobTokenIds === "string" ? JSON.parse(market.clobTokenIds) : market.clobTokenIds || [];
+      const rawPrices = typeof market.outcomePrices === "string" ? JSON.parse(market.outcomePrices) : market.outcomePrices || [];
+      prices = rawPrices.map((p: any) => parseFloat(p));
+    } catch {
+      return null;
+    }
+    if (tokenIds.length < 2) return null;
+
+    const info: ConditionInfo = {
+      conditionId: market.conditionId,
+      slug: market.slug || null,
+      question: market.question || null,
+      negRisk: market.negRisk === true || (market.negRisk as any) === "true",
+      tokenYes: tokenIds[0],
+      tokenNo: tokenIds[1],
+      closed: market.closed === true,
+      outcomePrices: prices,
+    };
+    this.conditionCache.set(info.tokenYes, info);
+    this.conditionCache.set(info.tokenNo, info);
+    return info;
+  }
+
+  private async processCondition(info: ConditionInfo): Promise<boolean> {
+    const existing = await storage.getRedemptionByCondition(info.conditionId);
+    if (existing && (existing.status === "REDEEMED" || existing.status === "WORTHLESS")) {
+      this.markSettled(info);
+      return false;
+    }
+
+    const balances = await liveTradingClient.getConditionalTokenBalances([info.tokenYes, info.tokenNo]);
+    if (!balances) return false;
+
+    const yesBalance = balances[info.tokenYes] || 0;
+    const noBalance = balances[info.tokenNo] || 0;
+
+    if (yesBalance <= 0 && noBalance <= 0) {
+      if (existing) {
+        await storage.upsertRedemption({ ...this.baseRow(info, 0, 0, existing.expectedUsdc), status: "EXTERNAL", attempts: existing.attempts });
+      }
+      this.markSettled(info);
+      return false;
+    }
+
+    const expectedUsdc = parseFloat((yesBalance * (info.outcomePrices[0] || 0) + noBalance * (info.outcomePrices[1] || 0)).toFixed(4));
+    const attempts = existing?.attempts || 0;
+
+    if (expectedUsdc <= 0) {
+      await storage.upsertRedemption({ ...this.baseRow(info, yesBalance, noBalance, 0), status: "WORTHLESS", attempts });
+      this.markSettled(info);
+      return false;
+    }
+
+    const holder = liveTradingClient.getTokenHolderAddress();
+    if (!holder.supported) {
+      await storage.upsertRedemption({ ...this.baseRow(info, yesBalance, noBalance, expectedUsdc), status: "UNSUPPORTED", error: holder.reason || null, attempts });
+      return false;
+    }
+
+    if (!(await liveTradingClient.isConditionResolvedOnChain(info.conditionId))) {
+      await storage.upsertRedemption({ ...this.baseRow(info, yesBalance, noBalance, expectedUsdc), status: "PENDING", attempts });
+      return false;
+    }
+
+    if (attempts >= MAX_REDEEM_ATTEMPTS) return false;
+
+    const result = await liveTradingClient.redeemPositions({
+      conditionId: info.conditionId,
+      negRisk: info.negRisk,
+      amounts: [yesBalance, noBalance],
+    });
+
+    if (!result.success) {
+      const nextAttempts = attempts + 1;
+      await storage.upsertRedemption({
+        ...this.baseRow(info, yesBalance, noBalance, expectedUsdc),
+        status: nextAttempts >= MAX_REDEEM_ATTEMPTS ? "FAILED" : "PENDING",
+        error: result.error || null,
+        attempts: nextAttempts,
+      });
+      await storage.createEvent({
+        type: "ERROR",
+        message: `[REDEEM] Failed to redeem ${info.slug || info.conditionId.slice(0, 12)} (attempt ${nextAttempts}/${MAX_REDEEM_ATTEMPTS}): ${result.error}`,
+        data: { conditionId: info.conditionId, negRisk: info.negRisk, yesBalance, noBalance, expectedUsdc, error: result.error },
+        level: "error",
+      });
+      return false;
+    }
+
+    await storage.upsertRedemption({
+      ...this.baseRow(info, yesBalance, noBalance, expectedUsdc),
+      status: "REDEEMED",
+      usdcReceived: result.usdcReceived ?? expectedUsdc,
+      txHash: result.txHash || null,
+      error: null,
+      attempts: attempts + 1,
+      redeemedAt: new Date(),
+    });
+    this.markSettled(info);
+
+    await storage.createEvent({
+      type: "PNL_UPDATE",
+      message: `[REDEEM] ${info.slug || info.conditionId.slice(0, 12)} redeemed: +$${(result.usdcReceived ?? expectedUsdc).toFixed(2)} USDC (YES ${yesBalance.toFixed(2)} / NO ${noBalance.toFixed(2)}, ${info.negRisk ? "neg-risk adapter" : "CTF"})`,
+      data: { conditionId: info.conditionId, txHash: result.txHash, usdcReceived: result.usdcReceived, expectedUsdc, yesBalance, noBalance },
+      level: "info",
+    });
+    return true;
+  }
+
+  private baseRow(info: ConditionInfo, yesBalance: number, noBalance: number, expectedUsdc: number) {
+    return {
+      conditionId: info.conditionId,
+      marketSlug: info.slug,
+      question: info.question,
+      negRisk: info.negRisk,
+      tokenYes: info.tokenYes,
+      tokenNo: info.tokenNo,
+      yesBalance,
+      noBalance,
+      expectedUsdc,
+    };
+  }
+
+  private markSettled(info: ConditionInfo): void {
+    this.settledTokens.add(info.tokenYes);
+    this.settledTokens.add(info.tokenNo);
+  }
+}
+
+export const redemptionService = new RedemptionService();
@@ -7,6 +7,57 @@ export interface RiskCheck {
   warnings?: string[];
 }
 
+/**
+ * Pure pre-trade limit check shared by the live RiskManager and the backtester.
+ */
+export function evaluateRiskLimits(
+  config: Pick<BotConfig, "killSwitchActive" | "isActive" | "currentState" | "maxNetExposure" | "maxDailyLoss" | "maxConsecutiveLosses">,
+  state: { totalExposure: number; orderValue: number; dailyPnl: number; consecutiveLosses: number },
+): RiskCheck {
+  const { totalExposure, orderValue, dailyPnl, consecutiveLosses } = state;
+
+  if (config.killSwitchActive) {
+    return { allowed: false, reason: "Kill switch is active" };
+  }
+
+  if (!config.isActive) {
+    return { allowed: false, reason: "Bot is not active" };
+  }
+
+  if (config.currentState === "CLOSE_ONLY" || config.currentState === "DONE" || config.currentState === "STOPPED") {
+    return { allowed: false, reason: `Cannot open new positions in state: ${config.currentState}` };
+  }
+
+  if (totalExposure + orderValue > config.maxNetExposure) {
+    return { allowed: false, reason: `Max net exposure exceeded: ${totalExposure + orderValue} > ${config.maxNetExposure}` };
+  }
+
+  if (Math.abs(dailyPnl) >= config.maxDailyLoss && dailyPnl < 0) {
+    return { allowed: false, reason: `Max daily loss reached: ${dailyPnl}` };
+  }
+
+  if (consecutiveLosses >= config.maxConsecutiveLosses) {
+    return { allowed: false, reason: `Max consecutive losses reached: ${consecutiveLosses}` };
+  }
+
+  const warnings: string[] = [];
+  const exposureRatio = (totalExposure + orderValue) / config.maxNetExposure;
+  const lossRatio = config.maxDailyLoss > 0 ? Math.abs(dailyPnl) / config.maxDailyLoss : 0;
+  const lossCountRatio = config.maxConsecutiveLosses > 0 ? consecutiveLosses / config.maxConsecutiveLosses : 0;
+
+  if (exposureRatio >= 0.8) {
+    warnings.push(`Exposure at ${(exposureRatio * 100).toFixed(0)}% of limit`);
+  }
+  if (lossRatio >= 0.7 && dailyPnl < 0) {
+    warnings.push(`Daily loss at ${(lossRatio * 100).toFixed(0)}% of limit`);
+  }
+  if (lossCountRatio >= 0.67) {
+    warnings.push(`Consecutive losses at ${consecutiveLosses}/${config.maxConsecutiveLosses}`);
+  }
+
+  return { allowed: true, warnings: warnings.length > 0 ? warnings : undefined };
+}
+
 export class RiskManager {
   private consecutiveLosses = 0;
   private dailyPnl = 0;
@@ -56,53 +107,21 @@ export class RiskManager {
   async checkPreTrade(config: BotConfig, orderValue: number): Promise<RiskCheck> {
     await this.initialize();
 
-    if (config.killSwitchActive) {
-      return { allowed: false, reason: "Kill switch is active" };
-    }
-
-    if (!config.isActive) {
-      return { allowed: false, reason: "Bot is not active" };
-    }
-
-    if (config.currentState === "CLOSE_ONLY" || config.currentState === "DONE" || config.currentState === "STOPPED") {
-      return { allowed: false, reason: `Cannot open new positions in state: ${config.currentState}` };
-    }
-
     const positions = await storage.getPositions();
     const totalExposure = positions.reduce((sum, p) => sum + p.size * p.avgEntryPrice, 0);
 
-    if (totalExposure + orderValue > config.maxNetExposure) {
-      return { allowed: false, reason: `Max net exposure exceeded: ${totalExposure + orderValue} > ${config.maxNetExposure}` };
-    }
-
-    if (Math.abs(this.dailyPnl) >= config.maxDailyLoss && this.dailyPnl < 0) {
-      return { allowed: false, reason: `Max daily loss reached: ${this.dailyPnl}` };
-    }
-
-    if (this.consecutiveLosses >= config.maxConsecutiveLosses) {
-      return { allowed: false, reason: `Max consecutive losses reached: ${this.consecutiveLosses}` };
-    }
-
-    const warnings: string[] = [];
-    const exposureRatio = (totalExposure + orderValue) / config.maxNetExposure;
-    const lossRatio = config.maxDailyLoss > 0 ? Math.abs(this.dailyPnl) / config.maxDailyLoss : 0;
-    const lossCountRatio = config.maxConsecutiveLosses > 0 ? this.consecutiveLosses / config.maxConsecutiveLosses : 0;
-
-    if (exposureRatio >= 0.8) {
-      warnings.push(`Exposure at ${(exposureRatio * 100).toFixed(0)}% of limit`);
-    }
-    if (lossRatio >= 0.7 && this.dailyPnl < 0) {
-      warnings.push(`Daily loss at ${(lossRatio * 100).toFixed(0)}% of limit`);
-    }
-    if (lossCountRatio >= 0.67) {
-      warnings.push(`Consecutive losses at ${this.consecutiveLosses}/${config.maxConsecutiveLosses}`);
-    }
+    const check = evaluateRiskLimits(config, {
+      totalExposure,
+      orderValue,
+      dailyPnl: this.dailyPnl,
+      consecutiveLosses: this.consecutiveLosses,
+    });
 
-    if (warnings.length > 0) {
-      await this.emitProximityAlert(warnings);
+    if (check.warnings) {
+      await this.emitProximityAlert(check.warnings);
     }
 
-    return { allowed: true, warnings: warnings.length > 0 ? warnings : undefined };
+    return check;
   }
 
   private async emitProximityAlert(warnings: string[]): Promise<void> {
@@ -127,6 +146,10 @@ export class RiskManager {
     }
   }
 
+  applyPnlCorrection(delta: number) {
+    this.dailyPnl += delta;
+  }
+
   getConsecutiveLosses(): number {
     return this.consecutiveLosses;
   }
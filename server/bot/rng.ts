@@ -0,0 +1,16 @@
+/** Deterministic PRNG (mulberry32) so simulated fills are reproducible for a given seed. */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** RNG for paper matching: seeded from PAPER_FILL_SEED when set, so paper runs can be reproduced. */
+export function paperFillRng(): () => number {
+  return process.env.PAPER_FILL_SEED ? createRng(parseInt(process.env.PAPER_FILL_SEED, 10)) : Math.random;
+}
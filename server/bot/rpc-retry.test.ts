@@ -0,0 +1,119 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BigNumber } from "@ethersproject/bignumber";
+import { buildGasOverrides, submitTxWithRetry, type FeeDataSource, type ProviderSource } from "./rpc-retry";
+
+const gwei = (n: number) => BigNumber.from(n).mul(1_000_000_000);
+
+/** JSON-RPC stand-in: fee data per the EIP-1559 or legacy shape, and a scripted send. */
+class StubProvider implements FeeDataSource {
+  sends: any[] = [];
+  constructor(
+    readonly name: string,
+    private readonly fees: { maxFeePerGas: BigNumber | null; maxPriorityFeePerGas: BigNumber | null; gasPrice: BigNumber | null },
+    private readonly onSend: (overrides: any) => { wait(): Promise<{ transactionHash: string }> },
+  ) {}
+
+  async getFeeData() {
+    return this.fees;
+  }
+
+  async send(overrides: any) {
+    this.sends.push(overrides);
+    return this.onSend(overrides);
+  }
+}
+
+function stubSource(first: StubProvider, next: StubProvider) {
+  const calls = { fresh: 0, errors: 0 };
+  const source: ProviderSource<StubProvider> = {
+    current: () => first,
+    fresh: async () => {
+      calls.fresh++;
+      return next;
+    },
+    onRetryableError: () => {
+      calls.errors++;
+    },
+  };
+  return { source, calls };
+}
+
+const eip1559 = { maxFeePerGas: gwei(100), maxPriorityFeePerGas: gwei(10), gasPrice: null };
+const noSleep = async () => {};
+const mined = (hash: string) => ({ wait: async () => ({ transactionHash: hash }) });
+
+test("retries a failed send on a fresh provider and applies gas overrides", async () => {
+  const failing = new StubProvider("a", eip1559, () => {
+    throw new Error("could not detect network (event=\"noNetwork\", code=NETWORK_ERROR)");
+  });
+  const healthy = new StubProvider("b", eip1559, () => mined("0xabc"));
+  const { source, calls } = stubSource(failing, healthy);
+
+  const receipt = await submitTxWithRetry(source, (provider, overrides) => provider.send(overrides), { gasLimit: 400000, sleep: noSleep });
+
+  assert.equal(receipt.transactionHash, "0xabc");
+  assert.equal(failing.sends.length, 1);
+  assert.equal(healthy.sends.length, 1);
+  assert.equal(calls.fresh, 1);
+  assert.equal(calls.errors, 1);
+
+  const overrides = healthy.sends[0];
+  assert.ok(overrides.maxFeePerGas.eq(gwei(200)), "maxFeePerGas is doubled");
+  assert.ok(overrides.maxPriorityFeePerGas.eq(gwei(30)), "tip is raised to the 30 gwei floor");
+  assert.equal(overrides.gasLimit, 400000);
+  assert.equal(overrides.gasPrice, undefined);
+});
+
+test("does not resend once the transaction was broadcast", async () => {
+  const broadcastThenLost = new StubProvider("a", eip1559, () => ({
+    wait: async () => {
+      throw new Error("timeout exceeded");
+    },
+  }));
+  const healthy = new StubProvider("b", eip1559, () => mined("0xdef"));
+  const { source, calls } = stubSource(broadcastThenLost, healthy);
+
+  await assert.rejects(
+    submitTxWithRetry(source, (provider, overrides) => provider.send(overrides), { gasLimit: 400000, sleep: noSleep }),
+    /timeout exceeded/,
+  );
+  assert.equal(broadcastThenLost.sends.length, 1);
+  assert.equal(healthy.sends.length, 0);
+  assert.equal(calls.fresh, 0);
+});
+
+test("does not retry errors that are not provider errors", async () => {
+  const reverting = new StubProvider("a", eip1559, () => {
+    throw new Error("execution reverted: SafeMath: subtraction overflow");
+  });
+  const healthy = new StubProvider("b", eip1559, () => mined("0x1"));
+  const { source } = stubSource(reverting, healthy);
+
+  await assert.rejects(
+    submitTxWithRetry(source, (provider, overrides) => provider.send(overrides), { sleep: noSleep }),
+    /execution reverted/,
+  );
+  assert.equal(healthy.sends.length, 0);
+});
+
+test("legacy fee data gets a 50 gwei gas price floor", async () => {
+  const low = await buildGasOverrides(new StubProvider("a", { maxFeePerGas: null, maxPriorityFeePerGas: null, gasPrice: gwei(20) }, () => mined("0x")));
+  assert.ok(low.gasPrice.eq(gwei(50)));
+  assert.equal(low.gasLimit, undefined);
+
+  const high = await buildGasOverrides(new StubProvider("a", { maxFeePerGas: null, maxPriorityFeePerGas: null, gasPrice: gwei(80) }, () => mined("0x")), 250000);
+  assert.ok(high.gasPrice.eq(gwei(80)));
+  assert.equal(high.gasLimit, 250000);
+});
+
+test("falls back to the default gas price when fee data is unavailable", async () => {
+  const broken: FeeDataSource = {
+    getFeeData: async () => {
+      throw new Error("SERVER_ERROR");
+    },
+  };
+  const overrides = await buildGasOverrides(broken, 400000);
+  assert.ok(overrides.gasPrice.eq(gwei(50)));
+  assert.equal(overrides.gasLimit, 400000);
+});
@@ -0,0 +1,103 @@
+import { BigNumber } from "@ethersproject/bignumber";
+
+export function isRetryableRpcError(msg: string | undefined): boolean {
+  if (!msg) return false;
+  return msg.includes("Too many requests") ||
+    msg.includes("rate limit") ||
+    msg.includes("could not detect network") ||
+    msg.includes("NETWORK_ERROR") ||
+    msg.includes("SERVER_ERROR") ||
+    msg.includes("failed to meet quorum") ||
+    msg.includes("timeout") ||
+    msg.includes("ETIMEDOUT") ||
+    msg.includes("ECONNREFUSED");
+}
+
+/** Where RPC calls get their provider: the cached one first, a freshly probed one on retries. */
+export interface ProviderSource<P> {
+  current(): P;
+  fresh(): Promise<P>;
+  /** Called before each retry so the source can rotate endpoints. */
+  onRetryableError(): void;
+}
+
+export interface FeeDataSource {
+  getFeeData(): Promise<{ maxFeePerGas: BigNumber | null; maxPriorityFeePerGas: BigNumber | null; gasPrice: BigNumber | null }>;
+}
+
+export interface RetryOptions {
+  maxRetries?: number;
+  /** Extra condition on top of the error being a retryable RPC error. */
+  canRetry?: () => boolean;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export async function retryWithProviders<P, T>(
+  source: ProviderSource<P>,
+  fn: (provider: P) => Promise<T>,
+  { maxRetries = 4, canRetry = () => true, sleep = defaultSleep }: RetryOptions = {},
+): Promise<T> {
+  let lastErr: Error | null = null;
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      return await fn(attempt === 0 ? source.current() : await source.fresh());
+    } catch (err: any) {
+      lastErr = err;
+      if (isRetryableRpcError(err.message) && attempt < maxRetries - 1 && canRetry()) {
+        source.onRetryableError();
+        const backoffMs = 3000 * (attempt + 1);
+        console.log(`[RPC] Provider error (attempt ${attempt + 1}/${maxRetries}), rotating in ${backoffMs}ms: ${err.message?.slice(0, 80)}`);
+        await sleep(backoffMs);
+      } else {
+        throw err;
+      }
+    }
+  }
+  throw lastErr;
+}
+
+export async function buildGasOverrides(prov: FeeDataSource, gasLimit?: number): Promise<any> {
+  const overrides: any = {};
+  try {
+    const feeData = await prov.getFeeData();
+    const minTipGwei = BigNumber.from("30000000000");
+    if (feeData.maxFeePerGas) {
+      overrides.maxFeePerGas = feeData.maxFeePerGas.mul(2);
+      overrides.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas && feeData.maxPriorityFeePerGas.gt(minTipGwei)
+        ? feeData.maxPriorityFeePerGas
+        : minTipGwei;
+    } else if (feeData.gasPrice) {
+      const minGasPrice = BigNumber.from("50000000000");
+      overrides.gasPrice = feeData.gasPrice.gt(minGasPrice) ? feeData.gasPrice : minGasPrice;
+    }
+  } catch (err: any) {
+    console.warn(`[LiveTrading] Could not fetch fee data, using defaults: ${err.message?.slice(0, 60)}`);
+    overrides.gasPrice = BigNumber.from("50000000000");
+  }
+  if (gasLimit) {
+    overrides.gasLimit = gasLimit;
+  }
+  return overrides;
+}
+
+/**
+ * Sends one transaction with fresh gas overrides per attempt. Provider errors are
+ * retried on another endpoint only until the transaction has been broadcast;
+ * after that (e.g. the receipt wait fails) the error is thrown, so a redeem or
+ * merge is never submitted twice.
+ */
+export async function submitTxWithRetry<P extends FeeDataSource, R>(
+  source: ProviderSource<P>,
+  send: (provider: P, overrides: any) => Promise<{ wait(): Promise<R> }>,
+  { gasLimit, ...options }: RetryOptions & { gasLimit?: number } = {},
+): Promise<R> {
+  let broadcast = false;
+  return retryWithProviders(source, async (provider) => {
+    const overrides = await buildGasOverrides(provider, gasLimit);
+    const tx = await send(provider, overrides);
+    broadcast = true;
+    return tx.wait();
+  }, { ...options, canRetry: () => !broadcast && (options.canRetry?.() ?? true) });
+}
@@ -0,0 +1,222 @@
+import { storage } from "../storage";
+import { fetchMarketResolution, type MarketResolution } from "../strategies/dualEntry5m/market-5m-discovery";
+import type { Position, Settlement } from "@shared/schema";
+import { format } from "date-fns";
+
+export interface SettlementResult {
+  settlementPrice: number;
+  realizedPnl: number;
+  outcome: "WON" | "LOST";
+  isFinal: boolean;
+  marketDirection: "UP" | "DOWN";
+}
+
+export interface SettlementCorrection {
+  settlementId: string;
+  pnlDate: string;
+  pnlDelta: number;
+  provisionalOutcome: string;
+  finalOutcome: string;
+}
+
+type CorrectionCallback = (correction: SettlementCorrection) => void;
+
+export class SettlementTracker {
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private onCorrectionCallbacks: CorrectionCallback[] = [];
+  private polling = false;
+
+  onCorrection(cb: CorrectionCallback): void {
+    this.onCorrectionCallbacks.push(cb);
+  }
+
+  start(intervalMs = 30_000): void {
+    if (this.interval) return;
+    console.log(`[SettlementTracker] Polling Gamma for official resolutions every ${intervalMs / 1000}s`);
+    this.interval = setInterval(() => {
+      this.poll().catch((err: any) => {
+        console.error(`[SettlementTracker] Poll error: ${err.message}`);
+      });
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  async getResolution(slug: string | null): Promise<MarketResolution | null> {
+    if (!slug) return null;
+    try {
+      return await fetchMarketResolution(slug);
+    } catch (err: any) {
+      console.error(`[SettlementTracker] Resolution lookup failed for ${slug}: ${err.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Books a settlement fill for a position held to expiry. Uses the official
+   * Gamma resolution when available; otherwise books a provisional outcome from
+   * the oracle direction and leaves it for poll() to confirm or correct.
+   */
+  async settlePosition(
+    pos: Position,
+    ctx: { marketSlug: string | null; isPaperTrade: boolean; oracleWentUp: boolean; resolution: MarketResolution | null },
+  ): Promise<SettlementResult> {
+    const isFinal = !!ctx.resolution?.resolved;
+    const marketDirection: "UP" | "DOWN" = isFinal
+      ? ctx.resolution!.winner!
+      : (ctx.oracleWentUp ? "UP" : "DOWN");
+
+    const { price: settlementPrice, pnl: realizedPnl, outcome } = this.computeSettlement(pos.tokenSide, pos.avgEntryPrice, pos.size, marketDirection);
+
+    const fill = await storage.createFill({
+      orderId: "settlement",
+      marketId: pos.marketId,
+      tokenId: pos.tokenId || pos.marketId,
+      tokenSide: pos.tokenSide,
+      side: "SELL",
+      price: settlementPrice,
+      size: pos.size,
+      fee: 0,
+      isPaperTrade: ctx.isPaperTrade,
+    });
+
+    await storage.createSettlement({
+      marketId: pos.marketId,
+      marketSlug: ctx.marketSlug,
+      tokenId: pos.tokenId,
+      tokenSide: pos.tokenSide,
+      size: pos.size,
+      entryPrice: pos.avgEntryPrice,
+      fillId: fill.id,
+      pnlDate: format(new Date(), "yyyy-MM-dd"),
+      status: isFinal ? "FINAL" : "PROVISIONAL",
+      provisionalOutcome: outcome,
+      provisionalPrice: settlementPrice,
+      provisionalPnl: realizedPnl,
+      finalOutcome: isFinal ? outcome : null,
+      finalPrice: isFinal ? settlementPrice : null,
+      finalPnl: isFinal ? realizedPnl : null,
+      isPaperTrade: ctx.isPaperTrade,
+      resolvedAt: isFinal ? new Date() : null,
+    });
+
+    return { settlementPrice, realizedPnl, outcome, isFinal, marketDirection };
+  }
+
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const pending = await storage.getPendingSettlements();
+      if (pending.length === 0) return;
+
+      const bySlug = new Map<string, Settlement[]>();
+      for (const s of pending) {
+        if (!s.marketSlug) continue;
+        const list = bySlug.get(s.marketSlug) || [];
+        list.push(s);
+        bySlug.set(s.marketSlug, list);
+      }
+
+      for (const [slug, group] of Array.from(bySlug.entries())) {
+        const resolution = await this.getResolution(slug);
+        if (!resolution?.resolved || !resolution.winner) continue;
+        for (const s of group) {
+          await this.finalize(s, resolution.winner);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private computeSettlement(tokenSide: string | null, entryPrice: number, size: number, direction: "UP" | "DOWN"): { price: number; pnl: number; outcome: "WON" | "LOST" } {
+    const won = (tokenSide === "NO" && direction === "DOWN") || (tokenSide !== "NO" && direction === "UP");
+    const price = won ? 1.00 : 0.00;
+    const pnl = parseFloat(((price - entryPrice) * size).toFixed(4));
+    return { price, pnl, outcome: won ? "WON" : "LOST" };
+  }
+
+  private async finalize(s: Settlement, winner: "UP" | "DOWN"): Promise<void> {
+    const { price: finalPrice, pnl: finalPnl, outcome: finalOutcome } = this.computeSettlement(s.tokenSide, s.entryPrice, s.size, winner);
+    const corrected = finalOutcome !== s.provisionalOutcome;
+
+    await storage.updateSettlement(s.id, {
+      status: "FINAL",
+      finalOutcome,
+      finalPrice,
+      finalPnl,
+      corrected,
+      resolvedAt: new Date(),
+    });
+
+    if (!corrected) {
+      console.log(`[SettlementTracker] ${s.marketSlug} ${s.tokenSide}: provisional ${s.provisionalOutcome} confirmed by official resolution (${winner})`);
+      return;
+    }
+
+    const pnlDelta = parseFloat((finalPnl - s.provisionalPnl).toFixed(4));
+
+    if (s.fillId) {
+      await storage.updateFillPrice(s.fillId, finalPrice);
+    }
+
+    const record = await storage.getPnlByDate(s.pnlDate);
+    if (record) {
+      const nowWin = finalPnl > 0;
+      const wasWin = s.provisionalPnl > 0;
+      await storage.upsertPnlRecord({
+        date: record.date,
+        realizedPnl: parseFloat((record.realizedPnl + pnlDelta).toFixed(4)),
+        unrealizedPnl: record.unrealizedPnl,
+        totalPnl: parseFloat((record.totalPnl + pnlDelta).toFixed(4)),
+        tradesCount: record.tradesCount,
+        winCount: Math.max(0, record.winCount + (nowWin ? 1 : 0) - (wasWin ? 1 : 0)),
+        lossCount: Math.max(0, record.lossCount + (nowWin ? 0 : 1) - (wasWin ? 0 : 1)),
+        volume: record.volume,
+        fees: record.fees,
+      });
+    }
+
+    if (s.tokenSide) {
+      await storage.updateOrdersOutcomeByMarket(s.marketId, finalOutcome, s.tokenSide);
+    }
+
+    const correction: SettlementCorrection = {
+      settlementId: s.id,
+      pnlDate: s.pnlDate,
+      pnlDelta,
+      provisionalOutcome: s.provisionalOutcome,
+      finalOutcome,
+    };
+    for (const cb of this.onCorrectionCallbacks) {
+      try { cb(correction); } catch {}
+    }
+
+    await storage.createEvent({
+      type: "PNL_UPDATE",
+      message: `[SETTLEMENT] Correction: ${s.marketSlug} ${s.tokenSide || "?"} officially resolved ${winner} → ${finalOutcome} (provisional ${s.provisionalOutcome}). PnL ${s.provisionalPnl.toFixed(4)} → ${finalPnl.toFixed(4)} (Δ ${pnlDelta >= 0 ? "+" : ""}$${pnlDelta.toFixed(4)})`,
+      data: {
+        settlementId: s.id,
+        marketId: s.marketId,
+        marketSlug: s.marketSlug,
+        tokenSide: s.tokenSide,
+        winner,
+        provisionalOutcome: s.provisionalOutcome,
+        finalOutcome,
+        provisionalPnl: s.provisionalPnl,
+        finalPnl,
+        pnlDelta,
+        pnlDate: s.pnlDate,
+      },
+      level: "warn",
+    });
+  }
+}
+
+export const settlementTracker = new SettlementTracker();
@@ -0,0 +1,190 @@
+import { storage } from "../storage";
+import { fetchMarketResolution } from "../strategies/dualEntry5m/market-5m-discovery";
+import { parseMarketWindow } from "./backtest-replay";
+import { oracleFairValue } from "./fair-value";
+import { realClock, type Clock, type TimerHandle } from "./clock";
+import type { BinanceOracle, OracleWindow } from "./binance-oracle";
+import type { CalibrationBin, CalibrationGroup, OracleCalibrationReport, OracleSignalRecord } from "@shared/schema";
+
+const SAMPLE_INTERVAL_MS = 30_000;
+const RESOLVE_INTERVAL_MS = 60_000;
+/** Gamma usually flips a window to closed within a minute of its end. */
+const RESOLVE_GRACE_MS = 60_000;
+/** Windows that never resolved are given up on after a day. */
+const RESOLVE_LOOKBACK_MS = 24 * 3600_000;
+const CALIBRATION_BINS = 10;
+
+export interface SignalEntry {
+  tokenSide: "YES" | "NO";
+  entryPrice: number;
+}
+
+/**
+ * Journals the oracle signal the FSM acted on at each entry, plus a periodic
+ * sample through every traded window, and later stamps each row with the
+ * official Gamma outcome so signal confidence can be checked against reality.
+ */
+export class SignalJournal {
+  private resolveTimer: TimerHandle | null = null;
+  private lastSampleAt: Map<string, number> = new Map();
+  private resolving = false;
+
+  constructor(private readonly clock: Clock = realClock) {}
+
+  start(intervalMs = RESOLVE_INTERVAL_MS): void {
+    if (this.resolveTimer) return;
+    console.log(`[SignalJournal] Resolving journaled oracle signals every ${intervalMs / 1000}s`);
+    this.resolveTimer = this.clock.setInterval(() => {
+      this.resolvePending().catch((err: any) => {
+        console.error(`[SignalJournal] Resolve error: ${err.message}`);
+      });
+    }, intervalMs);
+  }
+
+  stop(): void {
+    this.clock.clearInterval(this.resolveTimer);
+    this.resolveTimer = null;
+  }
+
+  recordEntry(oracle: BinanceOracle, window: OracleWindow, marketSlug: string, remainingMs: number, entry: SignalEntry): void {
+    this.record("entry", oracle, window, marketSlug, remainingMs, entry);
+  }
+
+  /** Records at most one sample per window every 30s. */
+  maybeSample(oracle: BinanceOracle, window: OracleWindow, marketSlug: string, remainingMs: number): void {
+    const now = this.clock.now();
+    const last = this.lastSampleAt.get(marketSlug) ?? 0;
+    if (now - last < SAMPLE_INTERVAL_MS || remainingMs <= 0 || !oracle.isConnected()) return;
+    this.lastSampleAt.set(marketSlug, now);
+    for (const slug of Array.from(this.lastSampleAt.keys())) {
+      if (parseMarketWindow(slug, now).end < now) this.lastSampleAt.delete(slug);
+    }
+    this.record("sample", oracle, window, marketSlug, remainingMs, null);
+  }
+
+  async resolvePending(): Promise<number> {
+    if (this.resolving) return 0;
+    this.resolving = true;
+    try {
+      const now = this.clock.now();
+      const slugs = await storage.getUnresolvedOracleSignalSlugs(
+        new Date(now - RESOLVE_GRACE_MS),
+        new Date(now - RESOLVE_LOOKBACK_MS),
+      );
+      let resolved = 0;
+      for (const slug of slugs) {
+        const resolution = await fetchMarketResolution(slug).catch(() => null);
+        if (!resolution?.resolved || !resolution.winner) continue;
+        const count = await storage.resolveOracleSignals(slug, resolution.winner);
+        resolved += count;
+        console.log(`[SignalJournal] ${slug} resolved ${resolution.winner} — ${count} signal(s) scored`);
+      }
+      return resolved;
+    } finally {
+      this.resolving = false;
+    }
+  }
+
+  private record(kind: "entry" | "sample", oracle: BinanceOracle, oracleWindow: OracleWindow, marketSlug: string, remainingMs: number, entry: SignalEntry | null): void {
+    const signal = oracle.getSignal(oracleWindow);
+    const fair = oracleFairValue(oracle, oracleWindow, remainingMs);
+    const window = parseMarketWindow(marketSlug, this.clock.now());
+
+    storage.createOracleSignal({
+      marketSlug,
+      asset: oracle.asset,
+      kind,
+      direction: signal.direction,
+      strength: signal.strength,
+      confidence: signal.confidence,
+      delta: signal.delta,
+      openingPrice: signal.openingPrice,
+      currentPrice: signal.currentPrice,
+      elapsedMs: Math.round(signal.elapsedMs),
+      remainingMs: Math.round(Math.max(0, remainingMs)),
+      fairProbUp: fair?.probUp ?? null,
+      tokenSide: entry?.tokenSide ?? null,
+      entryPrice: entry?.entryPrice ?? null,
+      windowEnd: new Date(window.end),
+    }).catch((err: any) => {
+      console.error(`[SignalJournal] Failed to record ${kind} signal for ${marketSlug}: ${err.message}`);
+    });
+  }
+}
+
+function binIndex(p: number): number {
+  return Math.min(CALIBRATION_BINS - 1, Math.max(0, Math.floor(p * CALIBRATION_BINS)));
+}
+
+function reliabilityCurve(points: Array<{ predicted: number; actual: boolean }>): CalibrationBin[] {
+  const bins = Array.from({ length: CALIBRATION_BINS }, () => ({ samples: 0, predicted: 0, hits: 0 }));
+  for (const point of points) {
+    const bin = bins[binIndex(point.predicted)];
+    bin.samples++;
+    bin.predicted += point.predicted;
+    if (point.actual) bin.hits++;
+  }
+  return bins
+    .map((bin, i) => ({
+      lower: i / CALIBRATION_BINS,
+      upper: (i + 1) / CALIBRATION_BINS,
+      samples: bin.samples,
+      avgPredicted: bin.samples > 0 ? parseFloat((bin.predicted / bin.samples).toFixed(4)) : 0,
+      hitRate: bin.samples > 0 ? parseFloat((bin.hits / bin.samples).toFixed(4)) : 0,
+    }))
+    .filter(bin => bin.samples > 0);
+}
+
+function groupBy(rows: OracleSignalRecord[], keyOf: (row: OracleSignalRecord) => string): CalibrationGroup[] {
+  const groups = new Map<string, OracleSignalRecord[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const list = groups.get(key);
+    if (list) list.push(row);
+    else groups.set(key, [row]);
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, list]) => {
+      const hits = list.filter(r => r.hit).length;
+      return {
+        key,
+        samples: list.length,
+        hits,
+        hitRate: parseFloat((hits / list.length).toFixed(4)),
+        avgConfidence: parseFloat((list.reduce((s, r) => s + r.confidence, 0) / list.length).toFixed(4)),
+        curve: reliabilityCurve(list.map(r => ({ predicted: r.confidence, actual: !!r.hit }))),
+      };
+    });
+}
+
+/**
+ * Reliability curves for journaled signals. Directional rows are scored on
+ * confidence vs hit rate; the fair-value curve scores P(UP) against how often
+ * the window actually resolved UP.
+ */
+export function computeOracleCalibration(rows: OracleSignalRecord[], from: Date | null = null, to: Date | null = null): OracleCalibrationReport {
+  const resolved = rows.filter(r => r.outcome !== null);
+  const directional = resolved.filter(r => r.hit !== null);
+
+  const withFair = resolved.filter(r => r.fairProbUp !== null);
+  const fairPoints = withFair.map(r => ({ predicted: r.fairProbUp!, actual: r.outcome === "UP" }));
+  const brierScore = fairPoints.length > 0
+    ? parseFloat((fairPoints.reduce((s, p) => s + (p.predicted - (p.actual ? 1 : 0)) ** 2, 0) / fairPoints.length).toFixed(4))
+    : null;
+
+  return {
+    from: from ? from.toISOString() : null,
+    to: to ? to.toISOString() : null,
+    totalSignals: rows.length,
+    resolvedSignals: resolved.length,
+    pendingSignals: rows.length - resolved.length,
+    byStrength: groupBy(directional, r => r.strength),
+    byAsset: groupBy(directional, r => r.asset),
+    byHour: groupBy(directional, r => String(new Date(r.ts).getUTCHours()).padStart(2, "0")),
+    fairValue: { curve: reliabilityCurve(fairPoints), brierScore, samples: fairPoints.length },
+  };
+}
+
+export const signalJournal = new SignalJournal();
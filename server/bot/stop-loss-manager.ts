@@ -66,12 +66,12 @@ export class StopLossManager {
   }
 
   checkStopLoss(
-    position: Position,
+    position: Pick<Position, "id" | "marketId" | "tokenId" | "side" | "size" | "avgEntryPrice">,
     marketData: MarketData,
     remainingMs: number,
     marketDurationMs: number,
   ): StopLossResult {
-    const posKey = `${position.marketId}-${position.side}`;
+    const posKey = `${position.tokenId || position.marketId}-${position.side}`;
 
     const currentPrice = position.side === "BUY" ? marketData.bestBid : marketData.bestAsk;
     const entryPrice = position.avgEntryPrice;
@@ -1,48 +1,90 @@
 import { storage } from "../storage";
 import { MarketDataModule } from "./market-data";
-import { OrderManager } from "./order-manager";
+import { OrderManager, getStrategyHoldings } from "./order-manager";
 import { RiskManager } from "./risk-manager";
 import { liveTradingClient } from "./live-trading-client";
-import { polymarketWs } from "./polymarket-ws";
+import { polymarketWs, type TradeCallback } from "./polymarket-ws";
 import { apiRateLimiter } from "./rate-limiter";
-import { binanceOracle, type PriceSignal } from "./binance-oracle";
+import { oracleRegistry, type BinanceOracle, type OracleWindow } from "./binance-oracle";
 import { stopLossManager } from "./stop-loss-manager";
 import { progressiveSizer } from "./progressive-sizer";
 import { marketRegimeFilter } from "./market-regime-filter";
-import type { BotConfig, MarketData, BotStatus, Order } from "@shared/schema";
+import { OrderBook } from "./order-book";
+import { invertTrade } from "./paper-fill-simulator";
+import { DEFAULT_FSM_PHASE_SCHEDULE, type BotConfig, type MarketData, type BotStatus, type EntryEvaluation, type Order } from "@shared/schema";
 import { format } from "date-fns";
-import { fetchCurrentIntervalMarket, type AssetType, type IntervalType } from "../strategies/dualEntry5m/market-5m-discovery";
-import { dualBuyManager } from "./dual-buy-manager";
-
-type BotState = "MAKING" | "UNWIND" | "CLOSE_ONLY" | "HEDGE_LOCK" | "DONE" | "STOPPED";
+import { fetchCurrentIntervalMarket, assetFromSlug, type AssetType, type IntervalType, type MarketResolution } from "../strategies/dualEntry5m/market-5m-discovery";
+import { settlementTracker } from "./settlement-tracker";
+import { DualBuyManager } from "./dual-buy-manager";
+import { MarketMaker, MARKET_MAKER_STRATEGY_ID } from "./market-maker";
+import { exitManager, describeExitPolicy } from "./exit-manager";
+import { realClock, type Clock, type TimerHandle } from "./clock";
+import { calculateFsmState, resolvePhaseThresholds, getOracleAlignedSide, type FsmState, type FsmNotice } from "./fsm-decision";
+import { entryFilterPipeline, evaluateEntryPipeline } from "./entry-filters";
+import { oracleFairValue } from "./fair-value";
+import { signalJournal } from "./signal-journal";
+import { strategyRegistry } from "../strategies/strategy";
+import { capitalAllocator } from "../strategies/capital-allocator";
+import { parseMarketWindow } from "./backtest-replay";
+
+type BotState = FsmState;
 
 export class StrategyEngine {
   private marketData: MarketDataModule;
   private orderManager: OrderManager;
   private riskManager: RiskManager;
-  private interval: ReturnType<typeof setInterval> | null = null;
-  private startTime: number = Date.now();
+  private dualBuy: DualBuyManager;
+  private marketMaker: MarketMaker;
+  private interval: TimerHandle | null = null;
+  private startTime: number;
   private cycleCount = 0;
   private marketCycleStart = 0;
   private MARKET_DURATION = 5 * 60 * 1000;
   private wsSetup = false;
-  private lastDailyReset = new Date().toDateString();
-  private waitForMarketInterval: ReturnType<typeof setInterval> | null = null;
+  private lastDailyReset: string;
+  private waitForMarketInterval: TimerHandle | null = null;
   private isLiquidating = false;
   private lastSeenBestBid = 0;
-  private readonly PRICE_JUMP_THRESHOLD = 0.20;
   private lastEntryTokenSide: "YES" | "NO" | null = null;
   private lastEntryPrice: number | null = null;
   private lastEntrySize: number | null = null;
+  private lastEntryEvaluation: EntryEvaluation | null = null;
+  private oracleAsset: AssetType = "btc";
+  /** Opening reference of the traded window, kept here instead of on the shared oracle. */
+  private oracleWindow: OracleWindow | null = null;
 
-  constructor() {
+  constructor(private readonly clock: Clock = realClock) {
     this.marketData = new MarketDataModule();
-    this.orderManager = new OrderManager();
+    this.orderManager = new OrderManager(clock);
     this.riskManager = new RiskManager();
+    this.dualBuy = new DualBuyManager(clock);
+    this.marketMaker = new MarketMaker(clock);
+    this.startTime = clock.now();
+    this.lastDailyReset = new Date(clock.now()).toDateString();
+
+    settlementTracker.onCorrection((correction) => {
+      if (correction.pnlDate === format(new Date(this.clock.now()), "yyyy-MM-dd")) {
+        this.riskManager.applyPnlCorrection(correction.pnlDelta);
+      }
+    });
+  }
+
+  /** Oracle for the underlying of the market currently traded. */
+  private get oracle(): BinanceOracle {
+    return oracleRegistry.get(this.oracleAsset);
+  }
+
+  private useOracleFor(config: BotConfig): BinanceOracle {
+    this.oracleAsset = assetFromSlug(config.currentMarketSlug) ?? (config.autoRotateAsset || "btc") as AssetType;
+    const oracle = this.oracle;
+    if (!oracle.isConnected()) {
+      oracle.connect();
+    }
+    return oracle;
   }
 
   private alignCycleStartToMarketBoundary(): void {
-    const nowMs = Date.now();
+    const nowMs = this.clock.now();
     const nowSec = Math.floor(nowMs / 1000);
     const intervalSec = this.MARKET_DURATION / 1000;
     const elapsedInCurrentInterval = (nowSec % intervalSec) * 1000;
@@ -52,13 +94,33 @@ export class StrategyEngine {
   }
 
   private alignCycleStartFromTimeRemaining(timeRemainingMs: number): void {
-    this.marketCycleStart = Date.now() - (this.MARKET_DURATION - timeRemainingMs);
+    this.marketCycleStart = this.clock.now() - (this.MARKET_DURATION - timeRemainingMs);
     console.log(`[StrategyEngine] Aligned cycle start from API timeRemaining: remaining=${Math.floor(timeRemainingMs / 1000)}s`);
   }
 
+  /** The traded window's opening reference, or the current interval's when no market start is known yet. */
+  private currentOracleWindow(): OracleWindow {
+    return this.oracleWindow ?? this.oracle.currentWindow(this.MARKET_DURATION);
+  }
+
+  private async alignOracleWindow(oracle: BinanceOracle, slug: string | null, intervalStartMs: number): Promise<void> {
+    const window = oracle.windowAt(intervalStartMs);
+    this.oracleWindow = window;
+    if (window.aligned) {
+      console.log(`[StrategyEngine] Oracle window ${slug ?? "-"} opened at ${new Date(intervalStartMs).toISOString()}: opening=$${window.openingPrice}`);
+      return;
+    }
+    await storage.createEvent({
+      type: "INFO",
+      message: `[ORACLE] Price buffer does not cover the start of ${slug ?? "the market"} (${new Date(intervalStartMs).toISOString()}) — opening price approximated with the current price`,
+      data: { slug, intervalStart: intervalStartMs, openingPrice: window.openingPrice },
+      level: "warn",
+    });
+  }
+
   getMarketRemainingMs(): number {
     if (this.marketCycleStart === 0) return 0;
-    const elapsed = Date.now() - this.marketCycleStart;
+    const elapsed = this.clock.now() - this.marketCycleStart;
     return Math.max(0, this.MARKET_DURATION - elapsed);
   }
 
@@ -66,11 +128,21 @@ export class StrategyEngine {
     let config = await storage.getBotConfig();
     if (!config) return;
 
+    if ((await capitalAllocator.getEnabledEngineStrategies(config)).length === 0) {
+      await storage.createEvent({
+        type: "ERROR",
+        message: "Cannot start: no engine strategy is enabled",
+        data: { activeStrategy: config.activeStrategy },
+        level: "error",
+      });
+      return;
+    }
+
     if (this.interval) {
-      clearInterval(this.interval);
+      this.clock.clearInterval(this.interval);
     }
 
-    this.startTime = Date.now();
+    this.startTime = this.clock.now();
 
     if (config.autoRotateInterval === "15m") {
       this.MARKET_DURATION = 15 * 60 * 1000;
@@ -78,14 +150,13 @@ export class StrategyEngine {
       this.MARKET_DURATION = 5 * 60 * 1000;
     }
 
-    if (!binanceOracle.isConnected()) {
-      binanceOracle.connect();
-    }
+    this.useOracleFor(config);
+    let intervalStartMs: number | null = null;
 
     if (config.autoRotate) {
       const asset = (config.autoRotateAsset || "btc") as AssetType;
       const interval = (config.autoRotateInterval || "5m") as IntervalType;
-      const market = await fetchCurrentIntervalMarket(asset, interval);
+      const market = await fetchCurrentIntervalMarket(asset, interval, this.clock);
       const minRemaining = interval === "15m" ? 90000 : 45000;
       if (market && !market.closed && market.acceptingOrders && market.timeRemainingMs > minRemaining) {
         config = { ...config };
@@ -105,6 +176,7 @@ export class StrategyEngine {
 
         this.marketData.setTokenId(market.tokenUp);
         this.alignCycleStartFromTimeRemaining(market.timeRemainingMs);
+        intervalStartMs = market.intervalStart * 1000;
 
         await storage.createEvent({
           type: "STATE_CHANGE",
@@ -168,15 +240,17 @@ export class StrategyEngine {
       level: "info",
     });
 
-    if (!binanceOracle.isConnected()) {
-      binanceOracle.connect();
+    const oracle = this.useOracleFor(config);
+    if (intervalStartMs !== null) {
+      await this.alignOracleWindow(oracle, config.currentMarketSlug, intervalStartMs);
+    } else {
+      this.oracleWindow = oracle.currentWindow(this.MARKET_DURATION);
     }
-    binanceOracle.markWindowStart();
     stopLossManager.clearAll();
 
     this.setupWebSocket(config);
 
-    this.interval = setInterval(() => this.tick(), 2000);
+    this.interval = this.clock.setInterval(() => this.tick(), 2000);
   }
 
   private setupWebSocket(config: BotConfig): void {
@@ -191,6 +265,7 @@ export class StrategyEngine {
       polymarketWs.onMarketData((data) => {
         this.marketData.updateFromWs(data);
       });
+      polymarketWs.onTrade((trade) => this.recordPaperTrade(trade, (config as any).currentMarketTokenDown));
 
       polymarketWs.onRefreshAssetIds(async () => {
         const freshConfig = await storage.getBotConfig();
@@ -223,6 +298,15 @@ export class StrategyEngine {
     this.wsSetup = true;
   }
 
+  /** Paper NO orders match against the inverted YES book, so YES prints are mirrored onto the NO token too. */
+  private recordPaperTrade(trade: Parameters<TradeCallback>[0], tokenDown?: string | null): void {
+    const paperTrade = { price: trade.price, size: trade.size, side: trade.side, ts: trade.timestamp };
+    this.orderManager.recordPaperTrade(trade.tokenId, paperTrade);
+    if (tokenDown && tokenDown !== trade.tokenId) {
+      this.orderManager.recordPaperTrade(tokenDown, invertTrade(paperTrade));
+    }
+  }
+
   private getMarketAssetIds(config: BotConfig): string[] {
     if (config.currentMarketId) {
       return [config.currentMarketId];
@@ -232,7 +316,7 @@ export class StrategyEngine {
 
   async stop(): Promise<void> {
     if (this.waitForMarketInterval) {
-      clearInterval(this.waitForMarketInterval);
+      this.clock.clearInterval(this.waitForMarketInterval);
       this.waitForMarketInterval = null;
     }
 
@@ -266,11 +350,11 @@ export class StrategyEngine {
     this.lastEntryPrice = null;
     this.lastEntrySize = null;
 
-    for (const t of this.hedgeLockRepriceTimers) clearTimeout(t);
+    for (const t of this.hedgeLockRepriceTimers) this.clock.clearTimeout(t);
     this.hedgeLockRepriceTimers = [];
 
     if (this.interval) {
-      clearInterval(this.interval);
+      this.clock.clearInterval(this.interval);
       this.interval = null;
     }
 
@@ -316,7 +400,7 @@ export class StrategyEngine {
   private async tick(): Promise<void> {
     let tickConfig: BotConfig | undefined | null = null;
     try {
-      const today = new Date().toDateString();
+      const today = new Date(this.clock.now()).toDateString();
       if (today !== this.lastDailyReset) {
         this.riskManager.resetDaily();
         this.lastDailyReset = today;
@@ -343,27 +427,16 @@ export class StrategyEngine {
 
       apiRateLimiter.recordRequest();
       const data = await this.marketData.getData();
-      const elapsed = Date.now() - this.marketCycleStart;
+      const elapsed = this.clock.now() - this.marketCycleStart;
       const remaining = this.MARKET_DURATION - elapsed;
 
       if (config.isPaperTrading) {
         const activeOrders = await this.orderManager.getActiveOrders();
+        const upBook = this.marketData.getOrderBook()
+          ?? OrderBook.fromLevels(config.currentMarketId || "", [{ price: data.bestBid, size: data.bidDepth }], [{ price: data.bestAsk, size: data.askDepth }]);
         for (const order of activeOrders) {
-          const isTokenDown = order.tokenSide === "NO";
-          const orderBookData = isTokenDown
-            ? {
-                bestBid: parseFloat((1 - data.bestAsk).toFixed(4)),
-                bestAsk: parseFloat((1 - data.bestBid).toFixed(4)),
-                bidDepth: data.askDepth,
-                askDepth: data.bidDepth,
-              }
-            : {
-                bestBid: data.bestBid,
-                bestAsk: data.bestAsk,
-                bidDepth: data.bidDepth,
-                askDepth: data.askDepth,
-              };
-          const result = await this.orderManager.simulateFill(order.id, orderBookData);
+          const book = order.tokenSide === "NO" ? upBook.invert(order.tokenId || "") : upBook;
+          const result = await this.orderManager.simulateFill(order.id, book);
           if (result.filled && result.pnl !== 0) {
             this.riskManager.recordTradeResult(result.pnl);
             await this.updateDailyPnl(result.pnl, result.pnl > 0, undefined, result.fee);
@@ -401,73 +474,35 @@ export class StrategyEngine {
         return;
       }
 
-      if (config.activeStrategy === "fsm") {
-        const newState = this.calculateState(config.currentState as BotState, remaining);
-        if (newState !== config.currentState) {
-          await this.transitionState(config.currentState as BotState, newState);
-        }
-
-        if (newState === "MAKING" || newState === "UNWIND") {
-          let stopLossData = data;
-          const allPositions = await storage.getPositions();
-          const hasTokenDownPositions = allPositions.some(p =>
-            p.size > 0 && p.tokenSide === "NO"
-          );
-          if (hasTokenDownPositions) {
-            const tokenDownData = await this.getTokenDownData(config);
-            if (tokenDownData) {
-              stopLossData = tokenDownData;
-            }
-          }
-          const stopLossResults = await stopLossManager.checkAllPositions(stopLossData, remaining, this.MARKET_DURATION);
-          for (const sl of stopLossResults) {
-            await storage.createEvent({
-              type: "RISK_ALERT",
-              message: `[STOP-LOSS] ${sl.reason} (logged only, no sell in hold-to-resolution) | Position ${sl.marketId} entry=$${sl.entryPrice.toFixed(4)} current=$${sl.currentPrice.toFixed(4)} loss=${(sl.lossPct * 100).toFixed(1)}%`,
-              data: { ...sl, holdToResolution: true },
-              level: "warn",
-            });
-          }
-        }
-
-        if (newState === "MAKING") {
-          await this.executeStrategy(config, data);
-        } else if (newState === "UNWIND") {
-          await this.executeUnwind(config, data);
-        } else if (newState === "HEDGE_LOCK") {
-          await this.executeHedgeLock(config, data);
-        } else if (newState === "DONE") {
-          if (this.waitForMarketInterval) return;
-
-          this.cycleCount++;
-          this.lastEntryTokenSide = null;
-          this.lastEntryPrice = null;
-          this.lastEntrySize = null;
-
-          await this.orderManager.cancelAllOrders();
-
-          await this.settleMarketResolution(config, data);
-
-          if (config.autoRotate) {
-            await this.rotateToNextMarket(config);
-          } else {
-            this.alignCycleStartToMarketBoundary();
-            await storage.updateBotConfig({ currentState: "MAKING" });
-            await storage.createEvent({
-              type: "STATE_CHANGE",
-              message: `Market cycle ${this.cycleCount} completed, starting new cycle (same market). Remaining: ${Math.floor(this.getMarketRemainingMs() / 1000)}s`,
-              data: { cycle: this.cycleCount, remainingMs: this.getMarketRemainingMs() },
-              level: "info",
-            });
-          }
-        }
+      try {
+        await exitManager.tick({
+          config,
+          data,
+          getNoData: () => this.getTokenDownData(config),
+          remainingMs: remaining,
+          windowMs: this.MARKET_DURATION,
+          orderManager: this.orderManager,
+        });
+      } catch (error: any) {
+        await storage.createEvent({
+          type: "ERROR",
+          message: `[Exit] Tick error: ${error.message}`,
+          data: { market: config.currentMarketSlug, stack: error.stack?.slice(0, 500) },
+          level: "error",
+        });
       }
 
-      if (config.activeStrategy === "dual_buy") {
+      for (const strategy of await capitalAllocator.getEnabledEngineStrategies(config)) {
+        if (!strategy.onTick) continue;
         try {
-          await dualBuyManager.tick(config, this.orderManager);
-        } catch (dbErr: any) {
-          console.error(`[DualBuy] tick error: ${dbErr.message}`);
+          await strategy.onTick({ config, data, remainingMs: remaining, orderManager: this.orderManager });
+        } catch (error: any) {
+          await storage.createEvent({
+            type: "ERROR",
+            message: `[${strategy.id}] Tick error: ${error.message}`,
+            data: { strategy: strategy.id, market: config.currentMarketSlug, stack: error.stack?.slice(0, 500) },
+            level: "error",
+          });
         }
       }
     } catch (error: any) {
@@ -480,14 +515,89 @@ export class StrategyEngine {
     }
   }
 
-  private calculateState(current: BotState, remainingMs: number): BotState {
-    if (current === "STOPPED") return current;
-    if (current === "DONE") return current;
-    if (remainingMs <= 0) return "DONE";
-    if (remainingMs <= 15000) return "HEDGE_LOCK";
-    if (remainingMs <= 30000) return "CLOSE_ONLY";
-    if (remainingMs <= 60000) return "UNWIND";
-    return "MAKING";
+  /** One tick of the oracle FSM (the "fsm" strategy). */
+  async runFsmTick(config: BotConfig, data: MarketData, remaining: number): Promise<void> {
+    if (config.currentMarketSlug) {
+      signalJournal.maybeSample(this.oracle, this.currentOracleWindow(), config.currentMarketSlug, remaining);
+    }
+
+    const newState = this.calculateState(config, remaining);
+    if (newState !== config.currentState) {
+      await this.transitionState(config.currentState as BotState, newState);
+    }
+
+    if (newState === "MAKING") {
+      await this.executeStrategy(config, data);
+    } else if (newState === "UNWIND") {
+      await this.executeUnwind(config, data);
+    } else if (newState === "HEDGE_LOCK") {
+      await this.executeHedgeLock(config, data);
+    } else if (newState === "DONE") {
+      if (this.waitForMarketInterval) return;
+
+      this.cycleCount++;
+      this.lastEntryTokenSide = null;
+      this.lastEntryPrice = null;
+      this.lastEntrySize = null;
+
+      await this.orderManager.cancelAllOrders("fsm");
+
+      await this.settleMarketResolution(config, data);
+
+      if (config.autoRotate) {
+        await this.rotateToNextMarket(config);
+      } else {
+        this.alignCycleStartToMarketBoundary();
+        await storage.updateBotConfig({ currentState: "MAKING" });
+        await storage.createEvent({
+          type: "STATE_CHANGE",
+          message: `Market cycle ${this.cycleCount} completed, starting new cycle (same market). Remaining: ${Math.floor(this.getMarketRemainingMs() / 1000)}s`,
+          data: { cycle: this.cycleCount, remainingMs: this.getMarketRemainingMs() },
+          level: "info",
+        });
+      }
+    }
+  }
+
+  /** One tick of the "dual_buy" strategy. */
+  async runDualBuyTick(config: BotConfig): Promise<void> {
+    try {
+      await this.dualBuy.tick(config, this.orderManager);
+    } catch (dbErr: any) {
+      console.error(`[DualBuy] tick error: ${dbErr.message}`);
+    }
+  }
+
+  async getDualBuyStatus(config: BotConfig) {
+    return this.dualBuy.getStatus(config, this.getMarketRemainingMs(), await capitalAllocator.isEnabled("dual_buy", config));
+  }
+
+  /** One tick of the "market_maker" strategy. */
+  async runMarketMakerTick(config: BotConfig, data: MarketData, remaining: number): Promise<void> {
+    await this.marketMaker.tick({
+      config,
+      data,
+      remainingMs: remaining,
+      windowMs: this.MARKET_DURATION,
+      fair: oracleFairValue(this.oracle, this.currentOracleWindow(), remaining),
+      orderManager: this.orderManager,
+      exitPrice: (entryPrice) => this.marketData.getExitPrice(entryPrice, config.targetProfitMin, config.targetProfitMax),
+      checkRisk: (orderValue) => this.riskManager.checkPreTrade(config, orderValue),
+      checkBudget: (orderValue) => capitalAllocator.checkOrder(MARKET_MAKER_STRATEGY_ID, orderValue),
+    });
+  }
+
+  async getMarketMakerStatus(config: BotConfig) {
+    return this.marketMaker.getStatus(config, await capitalAllocator.isEnabled(MARKET_MAKER_STRATEGY_ID, config));
+  }
+
+  isRunning(): boolean {
+    return this.interval !== null;
+  }
+
+  private calculateState(config: BotConfig, remainingMs: number): BotState {
+    const phases = resolvePhaseThresholds(config.phaseSchedule, this.MARKET_DURATION);
+    return calculateFsmState(config.currentState as FsmState, remainingMs, phases);
   }
 
   private async transitionState(from: BotState, to: BotState): Promise<void> {
@@ -510,6 +620,8 @@ export class StrategyEngine {
     if (!tokenDown || tokenDown.length < 10 || tokenDown.includes("sim")) return null;
 
     try {
+      const wsBook = polymarketWs.getOrderBook(tokenDown);
+      if (wsBook) return wsBook.toMarketData();
       const { polymarketClient } = await import("./polymarket-client");
       return await polymarketClient.fetchMarketData(tokenDown);
     } catch (err: any) {
@@ -518,66 +630,11 @@ export class StrategyEngine {
     }
   }
 
-  /**
-   * Determines which token side to BUY based on Oracle signal.
-   * side is always "BUY" because in binary markets we buy tokens (YES or NO).
-   * tokenSide determines WHICH token to buy (YES = tokenUp, NO = tokenDown).
-   */
-  private getOracleAlignedSide(signal: PriceSignal, config: BotConfig): { side: "BUY" | null; tokenSide: "YES" | "NO" | null; sizeMultiplier: number } {
-    if (signal.strength === "NONE" || signal.direction === "NEUTRAL") {
-      return { side: null, tokenSide: null, sizeMultiplier: 0 };
-    }
-
-    const sizeMultiplier = signal.strength === "STRONG" ? 1.5 : 0.75;
-    return { side: "BUY", tokenSide: signal.direction === "UP" ? "YES" : "NO", sizeMultiplier };
-  }
-
   private async executeStrategy(config: BotConfig, data: MarketData): Promise<void> {
-    if (this.lastSeenBestBid > 0 && Math.abs(data.bestBid - this.lastSeenBestBid) > this.PRICE_JUMP_THRESHOLD) {
-      await storage.createEvent({
-        type: "RISK_ALERT",
-        message: `[SAFETY] Price jump detected: $${this.lastSeenBestBid.toFixed(4)} → $${data.bestBid.toFixed(4)} (Δ${Math.abs(data.bestBid - this.lastSeenBestBid).toFixed(4)} > ${this.PRICE_JUMP_THRESHOLD}) — skipping tick, possible mixed token data`,
-        data: { filter: "priceJump", previous: this.lastSeenBestBid, current: data.bestBid, delta: Math.abs(data.bestBid - this.lastSeenBestBid) },
-        level: "error",
-      });
-      this.lastSeenBestBid = data.bestBid;
-      return;
-    }
+    const regimeResult = marketRegimeFilter.getRegime(data, this.marketData.getOrderBook(), this.oracle);
+    const lastSeenBestBid = this.lastSeenBestBid;
     this.lastSeenBestBid = data.bestBid;
 
-    if (!this.marketData.isSpreadSufficient(config.minSpread)) {
-      const lastData = this.marketData.getLastData();
-      await storage.createEvent({
-        type: "INFO",
-        message: `[FILTER] Spread insuficiente: ${lastData?.spread?.toFixed(4) ?? "N/A"} < min ${config.minSpread} — no trade`,
-        data: { filter: "spread", spread: lastData?.spread, minSpread: config.minSpread },
-        level: "info",
-      });
-      return;
-    }
-
-    if (!this.marketData.isMarketActive()) {
-      const lastData = this.marketData.getLastData();
-      await storage.createEvent({
-        type: "INFO",
-        message: `[FILTER] Mercado inactivo: bidDepth=${lastData?.bidDepth?.toFixed(0) ?? "0"} askDepth=${lastData?.askDepth?.toFixed(0) ?? "0"} (min 10) — no trade`,
-        data: { filter: "marketActive", bidDepth: lastData?.bidDepth, askDepth: lastData?.askDepth },
-        level: "info",
-      });
-      return;
-    }
-
-    const regimeResult = marketRegimeFilter.getRegime(data);
-    if (!regimeResult.tradeable) {
-      await storage.createEvent({
-        type: "INFO",
-        message: `[FILTER] Regime ${regimeResult.regime}: ${regimeResult.reason} — no trade`,
-        data: { filter: "regime", regime: regimeResult.regime, reason: regimeResult.reason, volatility: regimeResult.volatility, depth: regimeResult.depth, spread: regimeResult.spread },
-        level: "info",
-      });
-      return;
-    }
-
     const tokenId = config.currentMarketId || "";
     const marketId = config.currentMarketSlug || config.currentMarketId || "unknown";
     const negRisk = config.currentMarketNegRisk ?? false;
@@ -594,31 +651,21 @@ export class StrategyEngine {
     }
 
     const activeOrders = await this.orderManager.getActiveOrders();
-    const entryOrders = activeOrders.filter(o => o.side === "BUY");
+    const entryOrders = activeOrders.filter(o => o.side === "BUY" && o.strategy === "fsm");
 
     if (entryOrders.length >= 1) return;
 
-    const positions = await storage.getPositions();
-    const existingPosition = positions.find(p => p.size > 0);
-    if (existingPosition) {
+    // Scoped to fsm's own fills: a market-maker inventory in this market does not block an entry.
+    const existingPosition = (await getStrategyHoldings("fsm", marketId)).length > 0;
+    if (existingPosition || exitManager.hasExited("fsm", marketId)) {
       return;
     }
 
-    const oracleSignal = binanceOracle.getSignal();
-    const oracleResult = this.getOracleAlignedSide(oracleSignal, config);
-
-    if (binanceOracle.isConnected() && !oracleResult.side) {
-      await storage.createEvent({
-        type: "INFO",
-        message: `[FILTER] Oracle NEUTRAL: direction=${oracleSignal.direction} strength=${oracleSignal.strength} delta=$${oracleSignal.delta.toFixed(2)} conf=${(oracleSignal.confidence * 100).toFixed(0)}% — no trade`,
-        data: { filter: "oracle", direction: oracleSignal.direction, strength: oracleSignal.strength, delta: oracleSignal.delta, confidence: oracleSignal.confidence },
-        level: "info",
-      });
-      return;
-    }
+    const oracleSignal = this.oracle.getSignal(this.currentOracleWindow());
+    const tokenSide = getOracleAlignedSide(oracleSignal).tokenSide;
 
     let effectiveTokenId = tokenId;
-    if (binanceOracle.isConnected() && oracleResult.tokenSide === "NO") {
+    if (this.oracle.isConnected() && tokenSide === "NO") {
       const tokenDown = (config as any).currentMarketTokenDown;
       if (tokenDown && tokenDown.length > 10 && !tokenDown.includes("sim")) {
         effectiveTokenId = tokenDown;
@@ -641,61 +688,56 @@ export class StrategyEngine {
       }
     }
 
-    const MAX_ENTRY_PRICE = 0.58;
-    const MIN_ENTRY_PRICE = 0.10;
-
-    if (entryPrice > MAX_ENTRY_PRICE) {
-      await storage.createEvent({
-        type: "INFO",
-        message: `[STRATEGY] Entry price $${entryPrice.toFixed(3)} > max $${MAX_ENTRY_PRICE} — skipping (risk/reward unfavorable)`,
-        data: { filter: "maxPrice", entryPrice, maxAllowed: MAX_ENTRY_PRICE },
-        level: "info",
-      });
+    const fairValue = oracleFairValue(this.oracle, this.currentOracleWindow(), this.getMarketRemainingMs());
+    const pipeline = evaluateEntryPipeline(await entryFilterPipeline.getFilters(config), {
+      data,
+      lastSeenBestBid,
+      regime: regimeResult,
+      signal: oracleSignal,
+      oracleConnected: this.oracle.isConnected(),
+      tokenSide,
+      entryPrice,
+      fair: fairValue,
+      config,
+    });
+    this.lastEntryEvaluation = {
+      ts: this.clock.now(),
+      marketSlug: config.currentMarketSlug,
+      tokenSide,
+      entryPrice,
+      blockedBy: pipeline.blockedBy,
+      verdicts: pipeline.verdicts,
+      sizing: pipeline.sizing && !pipeline.sizing.notice ? { size: pipeline.sizing.size, layer: pipeline.sizing.layer } : null,
+    };
+    if (pipeline.notice) {
+      await this.logNotice(pipeline.notice);
       return;
     }
-
-    if (entryPrice < MIN_ENTRY_PRICE) {
-      await storage.createEvent({
-        type: "INFO",
-        message: `[STRATEGY] Entry price $${entryPrice.toFixed(3)} < min $${MIN_ENTRY_PRICE} — skipping (likely stale data)`,
-        data: { filter: "minPrice", entryPrice, minAllowed: MIN_ENTRY_PRICE },
-        level: "info",
-      });
+    const sizing = pipeline.sizing;
+    if (!sizing || sizing.notice) {
+      if (sizing?.notice) await this.logNotice(sizing.notice);
       return;
     }
+    const effectiveSize = sizing.size;
+    const layer = sizing.layer;
 
-    const oracleConfidence = oracleSignal.confidence;
-    let effectiveSize: number;
-    let layer: string;
-
-    if (oracleSignal.strength === "STRONG" && oracleConfidence >= 0.55) {
-      const maxRisk = config.maxNetExposure * 0.05;
-      effectiveSize = parseFloat(Math.min(maxRisk / entryPrice, config.orderSize).toFixed(2));
-      layer = "L1-STRONG";
-    } else if (oracleSignal.strength !== "NONE" && oracleConfidence >= 0.35) {
-      const maxRisk = config.maxNetExposure * 0.03;
-      effectiveSize = parseFloat(Math.min(maxRisk / entryPrice, config.orderSize * 0.6).toFixed(2));
-      layer = "L2-EARLY";
-    } else {
+    const riskCheck = await this.riskManager.checkPreTrade(config, effectiveSize * entryPrice);
+    if (!riskCheck.allowed) {
       await storage.createEvent({
-        type: "INFO",
-        message: `[STRATEGY] Layer 3: Oracle too weak (confidence=${(oracleConfidence * 100).toFixed(0)}%, strength=${oracleSignal.strength}) — no trade`,
-        data: { filter: "layer3", confidence: oracleConfidence, strength: oracleSignal.strength },
-        level: "info",
+        type: "RISK_ALERT",
+        message: `[FILTER] Risk check blocked: ${riskCheck.reason} — no trade`,
+        data: { filter: "risk", reason: riskCheck.reason, warnings: riskCheck.warnings },
+        level: "warn",
       });
       return;
     }
 
-    if (effectiveSize < 1) {
-      effectiveSize = 1;
-    }
-
-    const riskCheck = await this.riskManager.checkPreTrade(config, effectiveSize * entryPrice);
-    if (!riskCheck.allowed) {
+    const budgetCheck = await capitalAllocator.checkOrder("fsm", effectiveSize * entryPrice);
+    if (!budgetCheck.allowed) {
       await storage.createEvent({
         type: "RISK_ALERT",
-        message: `[FILTER] Risk check blocked: ${riskCheck.reason} — no trade`,
-        data: { filter: "risk", reason: riskCheck.reason, warnings: riskCheck.warnings },
+        message: `[FILTER] Presupuesto de la estrategia agotado: ${budgetCheck.reason} — no trade`,
+        data: { filter: "budget", reason: budgetCheck.reason },
         level: "warn",
       });
       return;
@@ -737,10 +779,10 @@ export class StrategyEngine {
     }
 
     try {
-      await this.orderManager.placeOrder({
+      const order = await this.orderManager.placeOrder({
         marketId,
         tokenId: effectiveTokenId,
-        tokenSide: oracleResult.tokenSide as "YES" | "NO",
+        tokenSide: tokenSide as "YES" | "NO",
         side: "BUY",
         price: entryPrice,
         size: effectiveSize,
@@ -749,19 +791,30 @@ export class StrategyEngine {
         tickSize,
         oracleDirection: oracleSignal.direction,
         oracleConfidence: oracleSignal.confidence,
+        strategy: "fsm",
       });
+      if (order.status === "REJECTED") return;
 
-      this.lastEntryTokenSide = oracleResult.tokenSide as "YES" | "NO";
+      this.lastEntryTokenSide = tokenSide as "YES" | "NO";
       this.lastEntryPrice = entryPrice;
       this.lastEntrySize = effectiveSize;
 
+      if (config.currentMarketSlug) {
+        signalJournal.recordEntry(this.oracle, this.currentOracleWindow(), config.currentMarketSlug, this.getMarketRemainingMs(), {
+          tokenSide: tokenSide as "YES" | "NO",
+          entryPrice,
+        });
+      }
+
       const expectedWin = (1.0 - entryPrice) * effectiveSize;
       const expectedLoss = entryPrice * effectiveSize;
       const rrRatio = ((1.0 - entryPrice) / entryPrice).toFixed(2);
+      const exitPolicy = await exitManager.getPolicy("fsm");
+      const exitPlan = describeExitPolicy(exitPolicy, stopLossManager.getConfig().maxLossPercent);
 
       await storage.createEvent({
         type: "INFO",
-        message: `[${layer}] ENTRY: ${oracleResult.tokenSide} @ $${entryPrice.toFixed(3)} x ${effectiveSize} shares | Oracle: ${oracleSignal.direction}/${oracleSignal.strength} conf=${(oracleSignal.confidence * 100).toFixed(0)}% delta=$${oracleSignal.delta.toFixed(2)} | HOLD TO RESOLUTION | Win=$${expectedWin.toFixed(2)} / Loss=-$${expectedLoss.toFixed(2)} (R:R ${rrRatio}) | regime=${regimeResult.regime}`,
+        message: `[${layer}] ENTRY: ${tokenSide} @ $${entryPrice.toFixed(3)} x ${effectiveSize} shares | Oracle: ${oracleSignal.direction}/${oracleSignal.strength} conf=${(oracleSignal.confidence * 100).toFixed(0)}% delta=$${oracleSignal.delta} | ${exitPlan} | Win=$${expectedWin.toFixed(2)} / Loss=-$${expectedLoss.toFixed(2)} (R:R ${rrRatio}) | regime=${regimeResult.regime}`,
         data: {
           layer,
           oracle: oracleSignal,
@@ -770,10 +823,12 @@ export class StrategyEngine {
           expectedWin,
           expectedLoss,
           riskRewardRatio: rrRatio,
-          holdStrategy: "RESOLUTION",
-          tokenSide: oracleResult.tokenSide,
+          holdStrategy: exitPolicy.mode === "hold" ? "RESOLUTION" : exitPolicy.mode.toUpperCase(),
+          exitPolicy,
+          tokenSide,
           effectiveTokenId,
           regime: regimeResult.regime,
+          fairValue,
         },
         level: "info",
       });
@@ -791,6 +846,10 @@ export class StrategyEngine {
     }
   }
 
+  private async logNotice(notice: FsmNotice): Promise<void> {
+    await storage.createEvent(notice);
+  }
+
   private async executeUnwind(config: BotConfig, data: MarketData): Promise<void> {
     const activeOrders = await this.orderManager.getActiveOrders();
     const buyOrders = activeOrders.filter(o => o.side === "BUY");
@@ -821,7 +880,7 @@ export class StrategyEngine {
     }
   }
 
-  private hedgeLockRepriceTimers: ReturnType<typeof setTimeout>[] = [];
+  private hedgeLockRepriceTimers: TimerHandle[] = [];
 
   private async executeHedgeLock(config: BotConfig, data: MarketData): Promise<void> {
     const activeOrders = await this.orderManager.getActiveOrders();
@@ -835,7 +894,7 @@ export class StrategyEngine {
       });
     }
 
-    for (const t of this.hedgeLockRepriceTimers) clearTimeout(t);
+    for (const t of this.hedgeLockRepriceTimers) this.clock.clearTimeout(t);
     this.hedgeLockRepriceTimers = [];
 
     const positions = await storage.getPositions();
@@ -855,33 +914,33 @@ export class StrategyEngine {
 
   private async settleMarketResolution(config: BotConfig, data: MarketData): Promise<void> {
     const positions = await storage.getPositions();
-    const openPositions = positions.filter(p => p.size > 0);
+    const now = this.clock.now();
+    // Positions other strategies hold in windows that have not ended yet are left alone.
+    const openPositions = positions.filter(p =>
+      p.size > 0 && !(p.marketId.includes("-updown-") && parseMarketWindow(p.marketId, now).end > now)
+    );
 
     if (openPositions.length === 0) return;
 
-    const oracleSignal = binanceOracle.getSignal();
-    const btcWentUp = oracleSignal.delta > 0;
+    const oracleSignal = this.oracle.getSignal(this.currentOracleWindow());
+    const underlyingWentUp = oracleSignal.delta > 0;
+    const resolutions = new Map<string, MarketResolution | null>();
 
     for (const pos of openPositions) {
       const posTokenSide = pos.tokenSide as "YES" | "NO" | null;
       const isTokenDown = posTokenSide === "NO";
+      const marketSlug = pos.marketId.includes("-updown-") ? pos.marketId : (config.currentMarketSlug || null);
+
+      if (marketSlug && !resolutions.has(marketSlug)) {
+        resolutions.set(marketSlug, await settlementTracker.getResolution(marketSlug));
+      }
+      const resolution = marketSlug ? resolutions.get(marketSlug) || null : null;
 
-      const settlementPrice = isTokenDown
-        ? (btcWentUp ? 0.00 : 1.00)
-        : (btcWentUp ? 1.00 : 0.00);
-
-      const realizedPnl = parseFloat(((settlementPrice - pos.avgEntryPrice) * pos.size).toFixed(4));
-
-      await storage.createFill({
-        orderId: "settlement",
-        marketId: pos.marketId,
-        tokenId: pos.tokenId || pos.marketId,
-        tokenSide: posTokenSide,
-        side: "SELL",
-        price: settlementPrice,
-        size: pos.size,
-        fee: 0,
+      const { settlementPrice, realizedPnl, outcome, isFinal, marketDirection } = await settlementTracker.settlePosition(pos, {
+        marketSlug,
         isPaperTrade: config.isPaperTrading,
+        oracleWentUp: underlyingWentUp,
+        resolution,
       });
 
       await storage.deletePosition(pos.id);
@@ -889,17 +948,16 @@ export class StrategyEngine {
       this.riskManager.recordTradeResult(realizedPnl);
       await this.updateDailyPnl(realizedPnl, realizedPnl > 0, undefined, 0);
 
-      const predictionCorrect = (posTokenSide === "YES" && btcWentUp) || (posTokenSide === "NO" && !btcWentUp);
-      const outcome = predictionCorrect ? "WON" : "LOST";
       if (posTokenSide) {
         await storage.updateOrdersOutcomeByMarket(pos.marketId, outcome, posTokenSide);
       }
 
       await storage.createEvent({
         type: "PNL_UPDATE",
-        message: `[SETTLEMENT] Market resolved: ${posTokenSide || "?"} settled @ $${settlementPrice.toFixed(2)} (entry: $${pos.avgEntryPrice.toFixed(4)}, size: ${pos.size}, PnL: ${realizedPnl >= 0 ? "+" : ""}$${realizedPnl.toFixed(4)}) [BTC ${btcWentUp ? "UP" : "DOWN"}] → ${outcome}`,
+        message: `[SETTLEMENT] Market resolved: ${posTokenSide || "?"} settled @ $${settlementPrice.toFixed(2)} (entry: $${pos.avgEntryPrice.toFixed(4)}, size: ${pos.size}, PnL: ${realizedPnl >= 0 ? "+" : ""}$${realizedPnl.toFixed(4)}) [${marketDirection} ${isFinal ? "official" : "provisional, oracle"}] → ${outcome}`,
         data: {
           marketId: pos.marketId,
+          marketSlug,
           tokenId: pos.tokenId,
           tokenSide: posTokenSide,
           isTokenDown,
@@ -907,9 +965,10 @@ export class StrategyEngine {
           entryPrice: pos.avgEntryPrice,
           size: pos.size,
           realizedPnl,
-          btcDirection: btcWentUp ? "UP" : "DOWN",
+          btcDirection: marketDirection,
           oracleDelta: oracleSignal.delta,
           outcome,
+          isFinal,
         },
         level: realizedPnl >= 0 ? "info" : "warn",
       });
@@ -934,7 +993,7 @@ export class StrategyEngine {
       level: "info",
     });
 
-    const market = await fetchCurrentIntervalMarket(asset, interval);
+    const market = await fetchCurrentIntervalMarket(asset, interval, this.clock);
 
     if (!market) {
       await storage.createEvent({
@@ -978,25 +1037,25 @@ export class StrategyEngine {
     await storage.updateBotConfig({ currentState: "DONE" });
 
     if (this.waitForMarketInterval) {
-      clearInterval(this.waitForMarketInterval);
+      this.clock.clearInterval(this.waitForMarketInterval);
     }
 
-    this.waitForMarketInterval = setInterval(async () => {
+    this.waitForMarketInterval = this.clock.setInterval(async () => {
       try {
         const freshConfig = await storage.getBotConfig();
         if (!freshConfig || !freshConfig.isActive || freshConfig.killSwitchActive) {
-          if (this.waitForMarketInterval) clearInterval(this.waitForMarketInterval);
+          if (this.waitForMarketInterval) this.clock.clearInterval(this.waitForMarketInterval);
           this.waitForMarketInterval = null;
           return;
         }
 
-        const market = await fetchCurrentIntervalMarket(asset, interval);
+        const market = await fetchCurrentIntervalMarket(asset, interval, this.clock);
         if (!market || market.closed || !market.acceptingOrders) return;
 
         const minRemaining = interval === "15m" ? 90000 : 45000;
         if (market.timeRemainingMs < minRemaining) return;
 
-        if (this.waitForMarketInterval) clearInterval(this.waitForMarketInterval);
+        if (this.waitForMarketInterval) this.clock.clearInterval(this.waitForMarketInterval);
         this.waitForMarketInterval = null;
         await this.switchToMarket(freshConfig, market);
       } catch (err: any) {
@@ -1005,12 +1064,13 @@ export class StrategyEngine {
     }, 5000);
   }
 
-  private async switchToMarket(config: BotConfig, market: { slug: string; tokenUp: string; tokenDown: string; negRisk: boolean; tickSize: number; timeRemainingMs: number }): Promise<void> {
+  private async switchToMarket(config: BotConfig, market: { slug: string; tokenUp: string; tokenDown: string; negRisk: boolean; tickSize: number; timeRemainingMs: number; intervalStart: number }): Promise<void> {
     const prevSlug = config.currentMarketSlug;
 
-    binanceOracle.markWindowStart();
+    this.oracleAsset = assetFromSlug(market.slug) ?? this.oracleAsset;
+    await this.alignOracleWindow(oracleRegistry.ensureConnected(this.oracleAsset), market.slug, market.intervalStart * 1000);
     stopLossManager.clearAll();
-    for (const t of this.hedgeLockRepriceTimers) clearTimeout(t);
+    for (const t of this.hedgeLockRepriceTimers) this.clock.clearTimeout(t);
     this.hedgeLockRepriceTimers = [];
 
     await storage.updateBotConfig({
@@ -1026,6 +1086,7 @@ export class StrategyEngine {
     this.alignCycleStartFromTimeRemaining(market.timeRemainingMs);
 
     this.RECONNECT_WS(config, market);
+    strategyRegistry.emit({ type: "market_rotated", source: "engine", slug: market.slug });
 
     await storage.createEvent({
       type: "STATE_CHANGE",
@@ -1055,6 +1116,7 @@ export class StrategyEngine {
     polymarketWs.onMarketData((data) => {
       this.marketData.updateFromWs(data);
     });
+    polymarketWs.onTrade((trade) => this.recordPaperTrade(trade, market.tokenDown));
 
     polymarketWs.onRefreshAssetIds(async () => {
       const freshConfig = await storage.getBotConfig();
@@ -1087,7 +1149,7 @@ export class StrategyEngine {
   }
 
   private async updateDailyPnl(pnl: number, isWin: boolean, tradeValue?: number, fee?: number): Promise<void> {
-    const today = format(new Date(), "yyyy-MM-dd");
+    const today = format(new Date(this.clock.now()), "yyyy-MM-dd");
     const existing = await storage.getPnlByDate(today);
 
     if (existing) {
@@ -1125,6 +1187,10 @@ export class StrategyEngine {
     return this.orderManager;
   }
 
+  getLastEntryEvaluation(): EntryEvaluation | null {
+    return this.lastEntryEvaluation;
+  }
+
   getMarketDataStatus(): { source: string; wsActive: boolean; restPolling: boolean; lastUpdate: number | null } {
     return this.marketData.getDataSourceStatus();
   }
@@ -1156,6 +1222,15 @@ export class StrategyEngine {
 
     const sizerStatus = await progressiveSizer.getStatus();
 
+    const fair = oracleFairValue(this.oracle, this.currentOracleWindow(), remainingMs);
+    const fairValue = fair ? {
+      ...fair,
+      edgeYes: marketData ? parseFloat((fair.probUp - marketData.bestBid).toFixed(4)) : null,
+      edgeNo: marketData ? parseFloat((fair.probDown - (1 - marketData.bestAsk)).toFixed(4)) : null,
+      edgeFilterEnabled: config?.edgeFilterEnabled ?? false,
+      minEdge: config?.minEdge ?? 0.03,
+    } : null;
+
     return {
       config: config || {
         id: "",
@@ -1182,6 +1257,14 @@ export class StrategyEngine {
         dualBuyPrice: 0.45,
         dualBuySize: 1,
         dualBuyLeadSeconds: 30,
+        edgeFilterEnabled: false,
+        minEdge: 0.03,
+        phaseSchedule: DEFAULT_FSM_PHASE_SCHEDULE,
+        mmMode: "both_bids",
+        mmQuoteSize: 5,
+        mmMaxInventory: 50,
+        mmInventorySkew: 0.02,
+        mmRequoteThreshold: 0.01,
         updatedAt: new Date(),
       },
       marketData,
@@ -1199,19 +1282,32 @@ export class StrategyEngine {
       openPositions: positions.length,
       dailyPnl: this.riskManager.getDailyPnl(),
       consecutiveLosses: this.riskManager.getConsecutiveLosses(),
-      uptime: Date.now() - this.startTime,
+      uptime: this.clock.now() - this.startTime,
       isLiveData,
       currentTokenId: this.marketData.getTokenId(),
       wsHealth: polymarketWs.getHealth(),
       marketRemainingMs: remainingMs,
       marketDurationMs: this.MARKET_DURATION,
+      entryPipeline: this.lastEntryEvaluation,
+      fsmPhases: {
+        interval: this.MARKET_DURATION > 5 * 60 * 1000 ? "15m" : "5m",
+        windowMs: this.MARKET_DURATION,
+        ...resolvePhaseThresholds(config?.phaseSchedule, this.MARKET_DURATION),
+      },
       isLiquidating: false,
       cycleCount: this.cycleCount,
-      oracle: binanceOracle.getStatus(),
+      oracle: this.oracle.getStatus(this.currentOracleWindow()),
+      fairValue,
       stopLoss: stopLossManager.getStatus(),
+      exits: exitManager.getStatus(),
       progressiveSizer: sizerStatus,
-      marketRegime: marketRegimeFilter.getStatus(marketData),
-      dualBuy: dualBuyManager.getStatus(config || { activeStrategy: "fsm", dualBuyPrice: 0.45, dualBuySize: 1, dualBuyLeadSeconds: 30, isActive: false, autoRotateAsset: "btc", autoRotateInterval: "5m" } as any, remainingMs),
+      marketRegime: marketRegimeFilter.getStatus(marketData, this.marketData.getOrderBook(), this.oracle),
+      dualBuy: config
+        ? await this.getDualBuyStatus(config)
+        : this.dualBuy.getStatus({ activeStrategy: "fsm", dualBuyPrice: 0.45, dualBuySize: 1, dualBuyLeadSeconds: 30, isActive: false, autoRotateAsset: "btc", autoRotateInterval: "5m" } as any, remainingMs, false),
+      marketMaker: config
+        ? await this.getMarketMakerStatus(config)
+        : this.marketMaker.getStatus(null, false),
       lastEntry: this.lastEntryTokenSide ? {
         tokenSide: this.lastEntryTokenSide,
         price: this.lastEntryPrice!,
@@ -0,0 +1,131 @@
+import { storage } from "../storage";
+import type { InsertPriceTick } from "@shared/schema";
+import { oracleRegistry, type OracleTick } from "./binance-oracle";
+import { volatilityTracker, type PriceTick } from "../strategies/dualEntry5m/volatility-tracker";
+import { ASSET_TYPES, type AssetType } from "../strategies/dualEntry5m/market-5m-discovery";
+import { realClock, type Clock, type TimerHandle } from "./clock";
+
+const FLUSH_INTERVAL_MS = 5_000;
+const PURGE_INTERVAL_MS = 10 * 60_000;
+const ORACLE_SAMPLE_MS = 1_000;
+const MAX_BUFFERED = 5_000;
+
+/**
+ * Rolling store of recent oracle and Dual-Entry VolatilityTracker ticks. Runs
+ * independently of the recorder so that after a restart the volatility filters
+ * (regime filter, Dual-Entry vol filter) start from persisted history instead
+ * of an empty buffer.
+ */
+export class TickStore {
+  private retentionMinutes = parseFloat(process.env.TICK_STORE_RETENTION_MINUTES || "90");
+  private buffer: InsertPriceTick[] = [];
+  private lastOracleTs: Map<string, number> = new Map();
+  private flushTimer: TimerHandle | null = null;
+  private purgeTimer: TimerHandle | null = null;
+  private hooked = false;
+  private flushing = false;
+
+  constructor(private readonly clock: Clock = realClock) {}
+
+  /** Reloads persisted ticks into the live oracle and tracker, then starts persisting new ones. */
+  async start(): Promise<void> {
+    if (!this.hooked) {
+      oracleRegistry.onTick((asset, tick) => this.onOracleTick(asset, tick));
+      volatilityTracker.onTick((tick) => this.onVolatilityTick(tick));
+      this.hooked = true;
+    }
+    if (this.flushTimer) return;
+
+    this.flushTimer = this.clock.setInterval(() => {
+      this.flush().catch((err: any) => console.error(`[TickStore] Flush error: ${err.message}`));
+    }, FLUSH_INTERVAL_MS);
+    this.purgeTimer = this.clock.setInterval(() => {
+      this.purge().catch((err: any) => console.error(`[TickStore] Purge error: ${err.message}`));
+    }, PURGE_INTERVAL_MS);
+
+    try {
+      await this.warmStart();
+    } catch (err: any) {
+      console.error(`[TickStore] Warm start failed: ${err.message}`);
+    }
+  }
+
+  stop(): void {
+    this.clock.clearInterval(this.flushTimer);
+    this.clock.clearInterval(this.purgeTimer);
+    this.flushTimer = null;
+    this.purgeTimer = null;
+  }
+
+  async warmStart(): Promise<{ oracle: Record<string, number>; volatility: number }> {
+    const since = new Date(this.clock.now() - this.retentionMinutes * 60_000);
+
+    const oracleRows = await storage.getPriceTicks("oracle", since);
+    const byAsset = new Map<AssetType, { price: number; ts: number }[]>();
+    for (const row of oracleRows) {
+      if (!(ASSET_TYPES as readonly string[]).includes(row.key)) continue;
+      const asset = row.key as AssetType;
+      const list = byAsset.get(asset) ?? [];
+      list.push({ price: row.price, ts: row.ts.getTime() });
+      byAsset.set(asset, list);
+    }
+    const oracle: Record<string, number> = {};
+    for (const [asset, ticks] of Array.from(byAsset.entries())) {
+      oracle[asset] = oracleRegistry.get(asset).seedTicks(ticks);
+    }
+
+    // Volatility ticks are keyed by YES token; only the market tracked last is reloaded.
+    const volRows = await storage.getPriceTicks("volatility", since);
+    const lastKey = volRows.reduce<{ key: string; ts: number } | null>(
+      (latest, row) => !latest || row.ts.getTime() >= latest.ts ? { key: row.key, ts: row.ts.getTime() } : latest,
+      null,
+    )?.key;
+    const volatility = volatilityTracker.seed(volRows.filter(row => row.key === lastKey).map(row => ({
+      ts: row.ts.getTime(),
+      yesPrice: row.price,
+      noPrice: row.price2 ?? 1 - row.price,
+      tokenYes: row.key,
+    })));
+
+    const seeded = Object.entries(oracle).map(([asset, n]) => `${asset}=${n}`).join(", ") || "none";
+    console.log(`[TickStore] Warm start from last ${this.retentionMinutes}m: oracle ticks ${seeded}, volatility ticks ${volatility}`);
+    return { oracle, volatility };
+  }
+
+  private onOracleTick(asset: string, tick: OracleTick): void {
+    if (tick.ts - (this.lastOracleTs.get(asset) ?? 0) < ORACLE_SAMPLE_MS) return;
+    this.lastOracleTs.set(asset, tick.ts);
+    this.push({ source: "oracle", key: asset, price: tick.price, price2: null, ts: new Date(tick.ts) });
+  }
+
+  private onVolatilityTick(tick: PriceTick): void {
+    if (!tick.tokenYes) return;
+    this.push({ source: "volatility", key: tick.tokenYes, price: tick.yesPrice, price2: tick.noPrice, ts: new Date(tick.ts) });
+  }
+
+  private push(row: InsertPriceTick): void {
+    if (this.buffer.length >= MAX_BUFFERED) this.buffer.shift();
+    this.buffer.push(row);
+  }
+
+  private async flush(): Promise<void> {
+    if (this.flushing || this.buffer.length === 0) return;
+    this.flushing = true;
+    const rows = this.buffer;
+    this.buffer = [];
+    try {
+      await storage.insertPriceTicks(rows);
+    } catch (err) {
+      this.buffer = [...rows, ...this.buffer].slice(-MAX_BUFFERED);
+      throw err;
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private async purge(): Promise<void> {
+    await storage.purgePriceTicksBefore(new Date(this.clock.now() - this.retentionMinutes * 60_000));
+  }
+}
+
+export const tickStore = new TickStore();
@@ -0,0 +1,132 @@
+import type { BacktestMetrics, EquityPoint, ParameterStability, WalkForwardFold } from "@shared/schema";
+import { parseMarketWindow, summarizePnlSeries } from "./backtest-replay";
+
+export interface ValidationPlan {
+  mode: "split" | "walk_forward";
+  trainFraction: number;
+  trainSessions?: number;
+  testSessions?: number;
+  stepSessions?: number;
+  anchored: boolean;
+}
+
+export interface FoldSlugs {
+  train: string[];
+  test: string[];
+}
+
+const DEFAULT_TRAIN_SESSIONS = 48;
+const DEFAULT_TEST_SESSIONS = 12;
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(4));
+}
+
+/**
+ * Splits chronologically ordered sessions into train/test folds. `split` is a single
+ * fold at `trainFraction`; `walk_forward` rolls (or, when anchored, grows) the train
+ * block and tests on the sessions right after it, stepping so test blocks never overlap.
+ */
+export function buildFolds(slugs: string[], plan: ValidationPlan): FoldSlugs[] {
+  if (plan.mode === "split") {
+    if (slugs.length < 2) throw new Error("A train/test split needs at least 2 sessions");
+    const cut = Math.min(slugs.length - 1, Math.max(1, Math.floor(slugs.length * plan.trainFraction)));
+    return [{ train: slugs.slice(0, cut), test: slugs.slice(cut) }];
+  }
+
+  const train = plan.trainSessions ?? DEFAULT_TRAIN_SESSIONS;
+  const test = plan.testSessions ?? DEFAULT_TEST_SESSIONS;
+  const step = Math.max(plan.stepSessions ?? test, test);
+  const folds: FoldSlugs[] = [];
+  for (let start = 0; start + train + test <= slugs.length; start += step) {
+    folds.push({
+      train: slugs.slice(plan.anchored ? 0 : start, start + train),
+      test: slugs.slice(start + train, start + train + test),
+    });
+  }
+  if (folds.length === 0) {
+    throw new Error(`Walk-forward needs at least ${train + test} sessions (${train} train + ${test} test), got ${slugs.length}`);
+  }
+  return folds;
+}
+
+export function describeFold(index: number, fold: FoldSlugs): WalkForwardFold {
+  const windowOf = (slug: string) => parseMarketWindow(slug, 0);
+  return {
+    index,
+    status: "pending",
+    trainSessions: fold.train.length,
+    testSessions: fold.test.length,
+    trainStart: windowOf(fold.train[0]).start,
+    trainEnd: windowOf(fold.train[fold.train.length - 1]).end,
+    testStart: windowOf(fold.test[0]).start,
+    testEnd: windowOf(fold.test[fold.test.length - 1]).end,
+    bestCandidateId: null,
+    bestValues: null,
+    inSample: null,
+    outOfSample: null,
+    efficiency: null,
+    error: null,
+  };
+}
+
+/** Out-of-sample pnl per session relative to in-sample pnl per session; null when the in-sample run lost money. */
+export function walkForwardEfficiency(inSamplePnl: number, inSampleSessions: number, oosPnl: number, oosSessions: number): number | null {
+  if (inSamplePnl <= 0 || inSampleSessions === 0 || oosSessions === 0) return null;
+  return round((oosPnl / oosSessions) / (inSamplePnl / inSampleSessions));
+}
+
+/** Chains the out-of-sample equity curves of consecutive folds into one curve and re-derives the metrics over it. */
+export function stitchOutOfSample(parts: { metrics: BacktestMetrics; equity: EquityPoint[] }[]): { equity: EquityPoint[]; metrics: BacktestMetrics } {
+  const points = parts.flatMap(part => part.equity.map((p, i) => ({
+    ts: p.ts,
+    marketSlug: p.marketSlug,
+    pnl: p.equity - (i > 0 ? part.equity[i - 1].equity : 0),
+  })));
+  const { equity, maxDrawdown, sharpe } = summarizePnlSeries(points);
+
+  const sum = (pick: (m: BacktestMetrics) => number) => parts.reduce((s, part) => s + pick(part.metrics), 0);
+  const trades = sum(m => m.trades);
+  const wins = sum(m => m.wins);
+  const totalPnl = sum(m => m.totalPnl);
+  const grossWin = points.filter(p => p.pnl > 0).reduce((s, p) => s + p.pnl, 0);
+  const grossLoss = Math.abs(points.filter(p => p.pnl < 0).reduce((s, p) => s + p.pnl, 0));
+
+  return {
+    equity,
+    metrics: {
+      windows: sum(m => m.windows),
+      trades,
+      wins,
+      losses: sum(m => m.losses),
+      winRate: trades > 0 ? round(wins / trades) : 0,
+      totalPnl: round(totalPnl),
+      avgPnl: trades > 0 ? round(totalPnl / trades) : 0,
+      profitFactor: grossLoss > 0 ? round(grossWin / grossLoss) : null,
+      maxDrawdown,
+      sharpe,
+      fees: round(sum(m => m.fees)),
+    },
+  };
+}
+
+/** How much each parameter's chosen value moves between folds; a high cv means the optimum does not generalize. */
+export function parameterStability(names: string[], chosen: Record<string, number>[]): ParameterStability[] {
+  return names.map(name => {
+    const values = chosen.map(c => c[name]).filter(v => v !== undefined);
+    const mean = values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+    const std = values.length > 1
+      ? Math.sqrt(values.reduce((s, v) => s + Math.pow(v - mean, 2), 0) / (values.length - 1))
+      : 0;
+    return {
+      name,
+      values,
+      mean: round(mean),
+      std: round(std),
+      min: values.length > 0 ? Math.min(...values) : 0,
+      max: values.length > 0 ? Math.max(...values) : 0,
+      cv: mean !== 0 ? round(std / Math.abs(mean)) : null,
+      distinct: new Set(values).size,
+    };
+  });
+}
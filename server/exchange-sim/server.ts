@@ -0,0 +1,326 @@
+import express, { type Request, type Response } from "express";
+import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import { ExchangeVenue, formatBook, type VenueMarket, type VenueOrder, type VenueOrderType, type VenueTrade } from "./venue";
+
+const END_CURSOR = "LTE=";
+const USDC_UNITS = 1e6;
+
+function gammaMarket(venue: ExchangeVenue, m: VenueMarket) {
+  const [up, down] = venue.outcomePrices(m);
+  const label = m.asset.toUpperCase();
+  return {
+    id: m.conditionId.slice(2, 10),
+    slug: m.slug,
+    question: `${label} Up or Down - ${m.interval} window starting ${new Date(m.intervalStart).toISOString()}`,
+    conditionId: m.conditionId,
+    clobTokenIds: JSON.stringify([m.tokenUp, m.tokenDown]),
+    outcomes: JSON.stringify(["Up", "Down"]),
+    outcomePrices: JSON.stringify([up.toString(), down.toString()]),
+    active: !m.closed,
+    closed: m.closed,
+    acceptingOrders: !m.closed,
+    negRisk: false,
+    orderPriceMinTickSize: 0.01,
+    orderMinSize: 5,
+    startDate: new Date(m.intervalStart).toISOString(),
+    endDate: new Date(m.intervalEnd).toISOString(),
+    endDateIso: new Date(m.intervalEnd).toISOString(),
+    volume: m.volume.toString(),
+    volumeNum: m.volume,
+    volume24hr: m.volume,
+    liquidity: "0",
+    liquidityNum: 0,
+  };
+}
+
+function gammaEvent(venue: ExchangeVenue, m: VenueMarket) {
+  return {
+    id: m.conditionId.slice(2, 10),
+    slug: m.slug,
+    title: `${m.asset.toUpperCase()} Up or Down ${m.interval}`,
+    active: !m.closed,
+    closed: m.closed,
+    markets: [gammaMarket(venue, m)],
+  };
+}
+
+function clobOrder(o: VenueOrder) {
+  return {
+    id: o.id,
+    status: o.status,
+    owner: "exchange-sim",
+    market: o.market,
+    asset_id: o.tokenId,
+    side: o.side,
+    original_size: o.size.toString(),
+    size_matched: o.sizeMatched.toString(),
+    price: o.price.toString(),
+    outcome: o.outcome,
+    order_type: o.orderType,
+    created_at: Math.floor(o.createdAt / 1000),
+    expiration: "0",
+    associate_trades: [],
+  };
+}
+
+function clobTrade(t: VenueTrade) {
+  return {
+    id: t.id,
+    taker_order_id: t.traderSide === "TAKER" ? t.orderId : "",
+    maker_orders: t.traderSide === "MAKER"
+      ? [{ order_id: t.orderId, asset_id: t.tokenId, matched_amount: t.size.toString(), price: t.price.toString(), outcome: t.outcome, side: t.side }]
+      : [],
+    market: t.market,
+    asset_id: t.tokenId,
+    side: t.side,
+    size: t.size.toString(),
+    price: t.price.toString(),
+    fee_rate_bps: "0",
+    status: "CONFIRMED",
+    match_time: Math.floor(t.ts / 1000).toString(),
+    outcome: t.outcome,
+    trader_side: t.traderSide,
+  };
+}
+
+/** Price and size of a signed CLOB order from its 1e6-scaled amounts. */
+function parseSignedOrder(order: any): { side: "BUY" | "SELL"; price: number; size: number } | null {
+  const makerAmount = Number(order?.makerAmount);
+  const takerAmount = Number(order?.takerAmount);
+  if (!(makerAmount > 0) || !(takerAmount > 0)) return null;
+  const side = order.side === "SELL" || order.side === 1 ? "SELL" : "BUY";
+  const price = side === "BUY" ? makerAmount / takerAmount : takerAmount / makerAmount;
+  const size = (side === "BUY" ? takerAmount : makerAmount) / USDC_UNITS;
+  return { side, price: parseFloat(price.toFixed(4)), size };
+}
+
+/**
+ * Serves an ExchangeVenue over the same wire protocols the bot uses against Polymarket:
+ * CLOB REST at the root, Gamma under /gamma, market and user WS channels under /ws, and
+ * a Binance-style oracle stream at /oracle/ws with a Coinbase-style spot at /oracle/spot.
+ * Auth headers and order signatures are accepted without checking.
+ */
+export function createExchangeSimServer(venue: ExchangeVenue): Server {
+  const app = express();
+  app.use(express.json());
+
+  const creds = {
+    apiKey: randomBytes(16).toString("hex"),
+    secret: randomBytes(32).toString("base64"),
+    passphrase: randomBytes(16).toString("hex"),
+  };
+
+  const bookFor = (req: Request, res: Response) => {
+    const tokenId = String(req.query.token_id || "");
+    const book = venue.getBook(tokenId);
+    if (!book) {
+      res.status(404).json({ error: "No orderbook exists for the requested token id" });
+      return null;
+    }
+    return book;
+  };
+
+  app.get("/", (_req, res) => { res.json("OK"); });
+  app.get("/time", (_req, res) => { res.json(Math.floor(Date.now() / 1000)); });
+  app.get("/auth/derive-api-key", (_req, res) => { res.json(creds); });
+  app.post("/auth/api-key", (_req, res) => { res.json(creds); });
+  app.get("/tick-size", (_req, res) => { res.json({ minimum_tick_size: 0.01 }); });
+  app.get("/neg-risk", (_req, res) => { res.json({ neg_risk: false }); });
+  app.get("/fee-rate", (_req, res) => { res.json({ base_fee: 0 }); });
+
+  app.get("/book", (req, res) => {
+    const book = bookFor(req, res);
+    if (!book) return;
+    const market = venue.getMarketByToken(book.tokenId)!;
+    res.json({ market: market.conditionId, asset_id: book.tokenId, timestamp: Date.now().toString(), ...formatBook(book) });
+  });
+
+  app.get("/midpoint", (req, res) => {
+    const book = bookFor(req, res);
+    if (book) res.json({ mid: book.midpoint().toFixed(4) });
+  });
+
+  app.get("/price", (req, res) => {
+    const book = bookFor(req, res);
+    if (book) res.json({ price: (req.query.side === "SELL" ? book.bestBid() : book.bestAsk()).toString() });
+  });
+
+  app.get("/spread", (req, res) => {
+    const book = bookFor(req, res);
+    if (book) res.json({ spread: book.spread().toFixed(4) });
+  });
+
+  app.post("/order", (req, res) => {
+    const parsed = parseSignedOrder(req.body?.order);
+    if (!parsed) {
+      return res.status(400).json({ error: "invalid order payload" });
+    }
+    const orderType = (["GTC", "GTD", "FOK", "FAK"].includes(req.body.orderType) ? req.body.orderType : "GTC") as VenueOrderType;
+    const result = venue.placeOrder({
+      tokenId: String(req.body.order.tokenId),
+      ...parsed,
+      orderType,
+      postOnly: req.body.postOnly === true,
+    });
+    if ("error" in result) {
+      return res.status(400).json({ error: result.error });
+    }
+    const o = result.order;
+    res.json({
+      success: true,
+      errorMsg: "",
+      orderID: o.id,
+      status: o.status === "MATCHED" ? "matched" : o.status === "LIVE" ? "live" : "unmatched",
+      takingAmount: "",
+      makingAmount: "",
+      transactionsHashes: [],
+    });
+  });
+
+  const cancelResult = (ids: string[]) => {
+    const canceled: string[] = [];
+    const notCanceled: Record<string, string> = {};
+    for (const id of ids) {
+      if (venue.cancelOrder(id)) canceled.push(id);
+      else notCanceled[id] = venue.getOrder(id) ? "order is not live" : "order not found";
+    }
+    return { canceled, not_canceled: notCanceled };
+  };
+
+  app.delete("/order", (req, res) => { res.json(cancelResult([String(req.body?.orderID || "")])); });
+  app.delete("/orders", (req, res) => { res.json(cancelResult(Array.isArray(req.body) ? req.body.map(String) : [])); });
+  app.delete("/cancel-all", (_req, res) => { res.json({ canceled: venue.cancelOrders(), not_canceled: {} }); });
+  app.delete("/cancel-market-orders", (req, res) => {
+    res.json({ canceled: venue.cancelOrders({ market: req.body?.market, tokenId: req.body?.asset_id }), not_canceled: {} });
+  });
+
+  app.get("/data/orders", (req, res) => {
+    const id = req.query.id as string | undefined;
+    const orders = id
+      ? [venue.getOrder(id)].filter((o): o is VenueOrder => !!o)
+      : venue.listOrders({ market: req.query.market as string | undefined, tokenId: req.query.asset_id as string | undefined });
+    res.json({ data: orders.map(clobOrder), next_cursor: END_CURSOR, limit: orders.length, count: orders.length });
+  });
+
+  app.get("/data/order/:id", (req, res) => {
+    const order = venue.getOrder(req.params.id);
+    if (!order) return res.status(404).json({ error: "order not found" });
+    res.json(clobOrder(order));
+  });
+
+  app.get("/data/trades", (req, res) => {
+    const trades = venue.listTrades({
+      orderId: req.query.id as string | undefined,
+      market: req.query.market as string | undefined,
+      tokenId: req.query.asset_id as string | undefined,
+    });
+    res.json({ data: trades.map(clobTrade), next_cursor: END_CURSOR, limit: trades.length, count: trades.length });
+  });
+
+  app.get("/balance-allowance", (req, res) => {
+    const tokenId = req.query.asset_type === "CONDITIONAL" ? String(req.query.token_id || "") : undefined;
+    const balance = Math.max(0, Math.round(venue.getBalance(tokenId) * USDC_UNITS)).toString();
+    res.json({ balance, allowance: "115792089237316195423570985008687907853269984665640564039457584007913129639935" });
+  });
+  app.get("/balance-allowance/update", (_req, res) => { res.json({}); });
+
+  app.get("/gamma/events", (req, res) => {
+    const market = venue.getMarketBySlug(String(req.query.slug || ""));
+    res.json(market ? [gammaEvent(venue, market)] : []);
+  });
+
+  app.get("/gamma/markets", (req, res) => {
+    if (req.query.clob_token_ids) {
+      const market = venue.getMarketByToken(String(req.query.clob_token_ids));
+      return res.json(market ? [gammaMarket(venue, market)] : []);
+    }
+    if (req.query.slug) {
+      const market = venue.getMarketBySlug(String(req.query.slug));
+      return res.json(market ? [gammaMarket(venue, market)] : []);
+    }
+    res.json(venue.listCurrentMarkets().map(m => gammaMarket(venue, m)));
+  });
+
+  app.get("/oracle/spot", (req, res) => {
+    const asset = String(req.query.asset || "btc");
+    const price = venue.getSpot(asset);
+    if (price === null) return res.status(404).json({ error: `unknown asset ${asset}` });
+    res.json({ data: { amount: price.toString(), base: asset.toUpperCase(), currency: "USD" } });
+  });
+
+  const server = createServer(app);
+  const wss = new WebSocketServer({ noServer: true });
+  const marketSubs: Map<WebSocket, Set<string>> = new Map();
+  const userSubs: Set<WebSocket> = new Set();
+  const oracleSubs: Map<WebSocket, string> = new Map();
+
+  const send = (ws: WebSocket, message: unknown) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  };
+
+  server.on("upgrade", (req, socket, head) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const channel = url.pathname;
+    if (channel !== "/ws/market" && channel !== "/ws/user" && channel !== "/oracle/ws") {
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      if (channel === "/oracle/ws") {
+        oracleSubs.set(ws, url.searchParams.get("asset") || "btc");
+        ws.on("close", () => oracleSubs.delete(ws));
+        return;
+      }
+
+      ws.on("message", (raw) => {
+        let data: any;
+        try {
+          data = JSON.parse(raw.toString());
+        } catch {
+          ws.send("INVALID OPERATION");
+          return;
+        }
+        if (data?.type === "ping") return;
+
+        if (channel === "/ws/market" && Array.isArray(data?.assets_ids)) {
+          const assets = new Set<string>(data.assets_ids.map(String));
+          marketSubs.set(ws, assets);
+          const snapshots = Array.from(assets).map(id => venue.bookMessage(id)).filter(Boolean);
+          if (snapshots.length > 0) send(ws, snapshots);
+        } else if (channel === "/ws/user" && data?.auth) {
+          userSubs.add(ws);
+        } else {
+          ws.send("INVALID OPERATION");
+        }
+      });
+      ws.on("close", () => {
+        marketSubs.delete(ws);
+        userSubs.delete(ws);
+      });
+    });
+  });
+
+  venue.onMarketMessage((assetId, message) => {
+    marketSubs.forEach((assets, ws) => { if (assets.has(assetId)) send(ws, message); });
+  });
+
+  venue.onOrderUpdate((order, type) => {
+    const message = { event_type: "order", type, ...clobOrder(order), timestamp: Date.now() };
+    userSubs.forEach(ws => send(ws, message));
+  });
+
+  venue.onSpot((asset, price, ts) => {
+    oracleSubs.forEach((subAsset, ws) => {
+      if (subAsset === asset) send(ws, { e: "trade", s: `${asset.toUpperCase()}USDT`, p: price.toString(), q: "0.01", T: ts });
+    });
+  });
+
+  server.on("close", () => {
+    wss.clients.forEach(ws => ws.terminate());
+    wss.close();
+  });
+
+  return server;
+}
@@ -0,0 +1,605 @@
+import { createHash, randomBytes } from "crypto";
+import { OrderBook, type BookLevel, type BookSide } from "../bot/order-book";
+import { PaperFillSimulator, invertTrade, type PaperFill, type PaperTrade } from "../bot/paper-fill-simulator";
+import { createRng } from "../bot/rng";
+import { normalCdf } from "../bot/fair-value";
+
+export type VenueInterval = "5m" | "15m";
+export type VenueOrderStatus = "LIVE" | "MATCHED" | "CANCELED";
+export type VenueOrderType = "GTC" | "GTD" | "FOK" | "FAK";
+
+export interface VenueConfig {
+  assets: string[];
+  intervals: VenueInterval[];
+  /** Per-second log-return stdev of the spot random walk. */
+  volatility: number;
+  tickMs: number;
+  /** Chance per tick and market of a synthetic taker print. */
+  takerRate: number;
+  startingUsdc: number;
+  seed: number;
+}
+
+export const DEFAULT_VENUE_CONFIG: VenueConfig = {
+  assets: ["btc"],
+  intervals: ["5m", "15m"],
+  volatility: 0.0003,
+  tickMs: 1000,
+  takerRate: 0.4,
+  startingUsdc: 1000,
+  seed: 1,
+};
+
+export interface VenueMarket {
+  slug: string;
+  asset: string;
+  interval: VenueInterval;
+  conditionId: string;
+  tokenUp: string;
+  tokenDown: string;
+  intervalStart: number;
+  intervalEnd: number;
+  openingPrice: number | null;
+  closingPrice: number | null;
+  closed: boolean;
+  volume: number;
+}
+
+export interface VenueOrder {
+  id: string;
+  market: string;
+  tokenId: string;
+  outcome: "Up" | "Down";
+  side: BookSide;
+  price: number;
+  size: number;
+  sizeMatched: number;
+  status: VenueOrderStatus;
+  orderType: VenueOrderType;
+  createdAt: number;
+}
+
+export interface VenueTrade {
+  id: string;
+  orderId: string;
+  market: string;
+  tokenId: string;
+  outcome: "Up" | "Down";
+  side: BookSide;
+  price: number;
+  size: number;
+  traderSide: "MAKER" | "TAKER";
+  ts: number;
+}
+
+export interface PlaceOrderInput {
+  tokenId: string;
+  side: BookSide;
+  price: number;
+  size: number;
+  orderType: VenueOrderType;
+  postOnly?: boolean;
+}
+
+type MarketMessageCallback = (assetId: string, message: Record<string, unknown>) => void;
+type OrderUpdateCallback = (order: VenueOrder, type: "PLACEMENT" | "UPDATE" | "CANCELLATION") => void;
+type SpotCallback = (asset: string, price: number, ts: number) => void;
+
+const INTERVAL_SECONDS: Record<VenueInterval, number> = { "5m": 300, "15m": 900 };
+const START_PRICES: Record<string, number> = {
+  btc: 100_000, eth: 3_500, sol: 150, xrp: 2.5, doge: 0.2, bnb: 600, link: 20,
+};
+const TICK = 0.01;
+const HALF_SPREAD = 0.01;
+const DEPTH_LEVELS = 5;
+const LOOKAHEAD_MS = 86_400_000;
+const RETENTION_MS = 86_400_000;
+const EPSILON = 1e-9;
+
+function round(value: number, digits = 4): number {
+  return parseFloat(value.toFixed(digits));
+}
+
+/** Long decimal ids shaped like real CLOB token ids, stable for a given slug. */
+function tokenIdFor(slug: string, outcome: string): string {
+  return BigInt(`0x${createHash("sha256").update(`${slug}:${outcome}`).digest("hex")}`).toString();
+}
+
+/**
+ * In-memory stand-in for the Polymarket CLOB: rolling up/down markets per asset and
+ * interval, a random-walk spot price per asset, synthetic liquidity quoted around
+ * the fair Up probability, and matching of the bot's orders against that liquidity
+ * with the paper queue model. Books for Up and Down are mirrors of one another, as
+ * on the real exchange. Markets resolve on the spot move over their window.
+ */
+export class ExchangeVenue {
+  readonly config: VenueConfig;
+  private rng: () => number;
+  private matcher: PaperFillSimulator;
+  private spot: Map<string, number> = new Map();
+  private markets: Map<string, VenueMarket> = new Map();
+  private marketsByToken: Map<string, VenueMarket> = new Map();
+  private liquidity: Map<string, { bids: Map<number, number>; asks: Map<number, number> }> = new Map();
+  private published: Map<string, OrderBook> = new Map();
+  private orders: Map<string, VenueOrder> = new Map();
+  private trades: VenueTrade[] = [];
+  private positions: Map<string, number> = new Map();
+  private usdc: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastTick = Date.now();
+
+  private onMarketMessageCallbacks: MarketMessageCallback[] = [];
+  private onOrderUpdateCallbacks: OrderUpdateCallback[] = [];
+  private onSpotCallbacks: SpotCallback[] = [];
+
+  constructor(config: Partial<VenueConfig> = {}) {
+    this.config = { ...DEFAULT_VENUE_CONFIG, ...config };
+    this.rng = createRng(this.config.seed);
+    this.matcher = new PaperFillSimulator(this.rng);
+    this.usdc = this.config.startingUsdc;
+    for (const asset of this.config.assets) this.spot.set(asset, START_PRICES[asset] ?? 100);
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.lastTick = Date.now();
+    this.timer = setInterval(() => this.tick(), this.config.tickMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  onMarketMessage(cb: MarketMessageCallback): void {
+    this.onMarketMessageCallbacks.push(cb);
+  }
+
+  onOrderUpdate(cb: OrderUpdateCallback): void {
+    this.onOrderUpdateCallbacks.push(cb);
+  }
+
+  onSpot(cb: SpotCallback): void {
+    this.onSpotCallbacks.push(cb);
+  }
+
+  getSpot(asset: string): number | null {
+    return this.spot.get(asset) ?? null;
+  }
+
+  /** Looks a market up by slug, listing it on first request if the slug names a window the venue serves. */
+  getMarketBySlug(slug: string, now = Date.now()): VenueMarket | null {
+    const existing = this.markets.get(slug);
+    if (existing) return existing;
+
+    const match = slug.match(/^([a-z]+)-updown-(5m|15m)-(\d+)$/);
+    if (!match) return null;
+    const [, asset, interval, startStr] = match;
+    const seconds = INTERVAL_SECONDS[interval as VenueInterval];
+    const startSec = parseInt(startStr, 10);
+    if (!this.spot.has(asset) || !this.config.intervals.includes(interval as VenueInterval)) return null;
+    if (startSec % seconds !== 0) return null;
+
+    const intervalStart = startSec * 1000;
+    const intervalEnd = intervalStart + seconds * 1000;
+    if (intervalEnd < now - RETENTION_MS || intervalStart > now + LOOKAHEAD_MS) return null;
+
+    const market: VenueMarket = {
+      slug,
+      asset,
+      interval: interval as VenueInterval,
+      conditionId: `0x${createHash("sha256").update(slug).digest("hex")}`,
+      tokenUp: tokenIdFor(slug, "up"),
+      tokenDown: tokenIdFor(slug, "down"),
+      intervalStart,
+      intervalEnd,
+      openingPrice: intervalStart <= now ? this.spot.get(asset)! : null,
+      closingPrice: null,
+      closed: false,
+      volume: 0,
+    };
+    this.markets.set(slug, market);
+    this.marketsByToken.set(market.tokenUp, market);
+    this.marketsByToken.set(market.tokenDown, market);
+    if (intervalEnd <= now) {
+      this.resolve(market, now);
+    } else {
+      this.liquidity.set(slug, { bids: new Map(), asks: new Map() });
+      this.refreshLiquidity(market, now);
+      this.published.set(slug, this.buildUpBook(market, now));
+    }
+    return market;
+  }
+
+  getMarketByToken(tokenId: string): VenueMarket | null {
+    return this.marketsByToken.get(tokenId) ?? null;
+  }
+
+  /** The current (and next) window of every served asset and interval. */
+  listCurrentMarkets(now = Date.now()): VenueMarket[] {
+    const result: VenueMarket[] = [];
+    for (const asset of this.config.assets) {
+      for (const interval of this.config.intervals) {
+        const seconds = INTERVAL_SECONDS[interval];
+        const current = Math.floor(now / 1000 / seconds) * seconds;
+        for (const startSec of [current, current + seconds]) {
+          const market = this.getMarketBySlug(`${asset}-updown-${interval}-${startSec}`, now);
+          if (market) result.push(market);
+        }
+      }
+    }
+    return result;
+  }
+
+  /** Winning outcome prices once resolved, otherwise the Up midpoint and its complement. */
+  outcomePrices(market: VenueMarket): [number, number] {
+    if (market.closed) {
+      const upWon = (market.closingPrice ?? 0) >= (market.openingPrice ?? 0);
+      return upWon ? [1, 0] : [0, 1];
+    }
+    const mid = this.published.get(market.slug)?.midpoint() ?? 0.5;
+    return [round(mid), round(1 - mid)];
+  }
+
+  /** Published book for a token: synthetic liquidity plus the bot's resting orders. */
+  getBook(tokenId: string): OrderBook | null {
+    const market = this.marketsByToken.get(tokenId);
+    if (!market) return null;
+    const up = this.published.get(market.slug) ?? OrderBook.fromLevels(market.tokenUp, [], []);
+    return tokenId === market.tokenUp ? up : up.invert(market.tokenDown);
+  }
+
+  getOrder(orderId: string): VenueOrder | null {
+    return this.orders.get(orderId) ?? null;
+  }
+
+  listOrders(filter: { market?: string; tokenId?: string } = {}): VenueOrder[] {
+    return Array.from(this.orders.values()).filter(o =>
+      o.status === "LIVE" &&
+      (!filter.market || o.market === filter.market) &&
+      (!filter.tokenId || o.tokenId === filter.tokenId));
+  }
+
+  listTrades(filter: { orderId?: string; market?: string; tokenId?: string } = {}): VenueTrade[] {
+    return this.trades.filter(t =>
+      (!filter.orderId || t.orderId === filter.orderId) &&
+      (!filter.market || t.market === filter.market) &&
+      (!filter.tokenId || t.tokenId === filter.tokenId));
+  }
+
+  getBalance(tokenId?: string): number {
+    return tokenId ? this.positions.get(tokenId) ?? 0 : this.usdc;
+  }
+
+  placeOrder(input: PlaceOrderInput, now = Date.now()): { order: VenueOrder } | { error: string } {
+    const market = this.marketsByToken.get(input.tokenId);
+    if (!market) return { error: "the orderbook does not exist" };
+    if (market.closed || now >= market.intervalEnd) return { error: "the market is not yet ready to process new orders" };
+    if (!(input.price >= TICK && input.price <= 1 - TICK)) return { error: `invalid price (${input.price}), min: ${TICK} - max: ${1 - TICK}` };
+    if (Math.abs(input.price / TICK - Math.round(input.price / TICK)) > 1e-6) return { error: `invalid tick size, minimum for the market is ${TICK}` };
+    if (!(input.size > 0)) return { error: "invalid order size" };
+
+    const order: VenueOrder = {
+      id: `0x${randomBytes(32).toString("hex")}`,
+      market: market.conditionId,
+      tokenId: input.tokenId,
+      outcome: input.tokenId === market.tokenUp ? "Up" : "Down",
+      side: input.side,
+      price: round(input.price),
+      size: round(input.size, 2),
+      sizeMatched: 0,
+      status: "LIVE",
+      orderType: input.orderType,
+      createdAt: now,
+    };
+
+    const book = this.syntheticBook(market, input.tokenId, now);
+    const fills = this.matcher.match({ ...order, filledSize: 0 }, book);
+    const takerSize = fills.reduce((sum, f) => sum + f.size, 0);
+    const immediate = input.orderType === "FOK" || input.orderType === "FAK";
+
+    if (input.postOnly && fills.length > 0) {
+      this.matcher.forget(order.id);
+      return { error: "invalid post-only order: order crosses book" };
+    }
+    if (input.orderType === "FOK" && takerSize < order.size - EPSILON) {
+      this.matcher.forget(order.id);
+      return { error: "order couldn't be fully filled. FOK orders are fully filled or killed." };
+    }
+
+    this.orders.set(order.id, order);
+    this.emitOrder(order, "PLACEMENT");
+    for (const fill of fills) this.applyFill(market, order, fill, now);
+    if (immediate && order.status === "LIVE") this.cancelOrder(order.id);
+    this.publish(market, now);
+    return { order };
+  }
+
+  cancelOrder(orderId: string): boolean {
+    const order = this.orders.get(orderId);
+    if (!order || order.status !== "LIVE") return false;
+    order.status = "CANCELED";
+    this.matcher.forget(orderId);
+    this.emitOrder(order, "CANCELLATION");
+    const market = this.marketsByToken.get(order.tokenId);
+    if (market && !market.closed) this.publish(market, Date.now());
+    return true;
+  }
+
+  cancelOrders(filter: { market?: string; tokenId?: string } = {}): string[] {
+    return this.listOrders(filter).map(o => o.id).filter(id => this.cancelOrder(id));
+  }
+
+  tick(now = Date.now()): void {
+    const dtSec = Math.max(0, (now - this.lastTick) / 1000);
+    this.lastTick = now;
+
+    this.spot.forEach((price, asset) => {
+      const shock = this.gaussian() * this.config.volatility * Math.sqrt(dtSec);
+      const next = parseFloat((price * Math.exp(shock)).toPrecision(8));
+      this.spot.set(asset, next);
+      for (const cb of this.onSpotCallbacks) {
+        try { cb(asset, next, now); } catch {}
+      }
+    });
+
+    this.listCurrentMarkets(now);
+    this.markets.forEach(market => {
+      if (market.closed) {
+        if (market.intervalEnd < now - RETENTION_MS) this.prune(market);
+        return;
+      }
+      if (market.openingPrice === null && now >= market.intervalStart) {
+        market.openingPrice = this.spot.get(market.asset)!;
+      }
+      if (now >= market.intervalEnd) {
+        this.resolve(market, now);
+        return;
+      }
+      this.refreshLiquidity(market, now);
+      this.syntheticTaker(market, now);
+      this.matchResting(market, now);
+      this.publish(market, now);
+    });
+  }
+
+  private gaussian(): number {
+    const u = Math.max(this.rng(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * this.rng());
+  }
+
+  private fairUp(market: VenueMarket, now: number): number {
+    if (market.openingPrice === null || now < market.intervalStart) return 0.5;
+    const remainingSec = Math.max(1, (market.intervalEnd - now) / 1000);
+    const move = Math.log(this.spot.get(market.asset)! / market.openingPrice);
+    const p = normalCdf(move / (this.config.volatility * Math.sqrt(remainingSec)));
+    return Math.min(0.98, Math.max(0.02, p));
+  }
+
+  /** Requotes synthetic Up liquidity around the fair probability, keeping surviving level sizes. */
+  private refreshLiquidity(market: VenueMarket, now: number): void {
+    const levels = this.liquidity.get(market.slug)!;
+    const fair = this.fairUp(market, now);
+    const bestBid = Math.max(TICK, round(Math.floor((fair - HALF_SPREAD) / TICK + EPSILON) * TICK));
+    const bestAsk = Math.min(1 - TICK, round(Math.ceil((fair + HALF_SPREAD) / TICK - EPSILON) * TICK));
+
+    const requote = (side: Map<number, number>, best: number, direction: 1 | -1) => {
+      const band = new Set<number>();
+      for (let k = 0; k < DEPTH_LEVELS; k++) {
+        const price = round(best + direction * k * TICK);
+        if (price >= TICK && price <= 1 - TICK) band.add(price);
+      }
+      side.forEach((_size, price) => { if (!band.has(price)) side.delete(price); });
+      band.forEach(price => {
+        const size = side.get(price);
+        if (size === undefined) side.set(price, round(20 + this.rng() * 180, 2));
+        else if (this.rng() < 0.2) side.set(price, round(Math.max(5, size * (0.8 + 0.4 * this.rng())), 2));
+      });
+    };
+    requote(levels.bids, bestBid, -1);
+    requote(levels.asks, bestAsk, 1);
+  }
+
+  private syntheticBook(market: VenueMarket, tokenId: string, now: number): OrderBook {
+    const levels = this.liquidity.get(market.slug)!;
+    const up = OrderBook.fromLevels(market.tokenUp, toLevels(levels.bids), toLevels(levels.asks), now);
+    return tokenId === market.tokenUp ? up : up.invert(market.tokenDown);
+  }
+
+  /** A random taker sweeps synthetic Up liquidity; its prints feed the queue model for both tokens. */
+  private syntheticTaker(market: VenueMarket, now: number): void {
+    if (this.rng() >= this.config.takerRate) return;
+    const takerSide: BookSide = this.rng() < 0.5 ? "BUY" : "SELL";
+    const levels = this.liquidity.get(market.slug)!;
+    const resting = takerSide === "BUY" ? levels.asks : levels.bids;
+    const prices = Array.from(resting.keys()).sort((a, b) => takerSide === "BUY" ? a - b : b - a);
+
+    let remaining = round(5 + this.rng() * 45, 2);
+    for (const price of prices) {
+      if (remaining <= EPSILON) break;
+      const take = round(Math.min(remaining, resting.get(price)!), 2);
+      remaining = round(remaining - take, 2);
+      this.consume(resting, price, take);
+      this.print(market, { price, size: take, side: takerSide, ts: now });
+    }
+  }
+
+  private matchResting(market: VenueMarket, now: number): void {
+    const upBook = this.syntheticBook(market, market.tokenUp, now);
+    const downBook = upBook.invert(market.tokenDown);
+    for (const order of Array.from(this.orders.values())) {
+      if (order.status !== "LIVE" || order.market !== market.conditionId) continue;
+      const book = order.tokenId === market.tokenUp ? upBook : downBook;
+      for (const fill of this.matcher.match({ ...order, filledSize: order.sizeMatched }, book)) {
+        this.applyFill(market, order, fill, now);
+      }
+    }
+  }
+
+  private applyFill(market: VenueMarket, order: VenueOrder, fill: PaperFill, now: number): void {
+    const size = round(Math.min(fill.size, order.size - order.sizeMatched), 2);
+    if (size <= 0) return;
+    order.sizeMatched = round(order.sizeMatched + size, 2);
+    if (order.sizeMatched >= order.size - EPSILON) {
+      order.status = "MATCHED";
+      this.matcher.forget(order.id);
+    }
+
+    const signed = order.side === "BUY" ? size : -size;
+    this.positions.set(order.tokenId, round((this.positions.get(order.tokenId) ?? 0) + signed, 2));
+    this.usdc = round(this.usdc - signed * fill.price, 6);
+    this.trades.push({
+      id: randomBytes(16).toString("hex"),
+      orderId: order.id,
+      market: order.market,
+      tokenId: order.tokenId,
+      outcome: order.outcome,
+      side: order.side,
+      price: fill.price,
+      size,
+      traderSide: fill.isMaker ? "MAKER" : "TAKER",
+      ts: now,
+    });
+
+    if (!fill.isMaker) {
+      // Our taker fill removed that liquidity; the resting side in Up terms depends on the token.
+      const isUp = order.tokenId === market.tokenUp;
+      const levels = this.liquidity.get(market.slug)!;
+      const restingSide: BookSide = (order.side === "BUY") === isUp ? "SELL" : "BUY";
+      this.consume(restingSide === "SELL" ? levels.asks : levels.bids, isUp ? fill.price : round(1 - fill.price), size);
+      const upTrade: PaperTrade = { price: isUp ? fill.price : round(1 - fill.price), size, side: restingSide === "SELL" ? "BUY" : "SELL", ts: now };
+      this.print(market, upTrade, false);
+    }
+    this.emitOrder(order, "UPDATE");
+  }
+
+  private consume(levels: Map<number, number>, price: number, size: number): void {
+    const left = round((levels.get(price) ?? 0) - size, 2);
+    if (left > EPSILON) levels.set(price, left);
+    else levels.delete(price);
+  }
+
+  /** Emits an Up print and its Down mirror; synthetic prints also feed the queue model. */
+  private print(market: VenueMarket, upTrade: PaperTrade, feedMatcher = true): void {
+    const downTrade = invertTrade(upTrade);
+    market.volume = round(market.volume + upTrade.price * upTrade.size, 2);
+    for (const [tokenId, trade] of [[market.tokenUp, upTrade], [market.tokenDown, downTrade]] as const) {
+      if (feedMatcher) this.matcher.recordTrade(tokenId, trade);
+      this.emitMarket(tokenId, {
+        event_type: "last_trade_price",
+        asset_id: tokenId,
+        market: market.conditionId,
+        price: trade.price.toString(),
+        size: trade.size.toString(),
+        side: trade.side,
+        fee_rate_bps: "0",
+        timestamp: trade.ts.toString(),
+      });
+    }
+  }
+
+  private buildUpBook(market: VenueMarket, now: number): OrderBook {
+    const levels = this.liquidity.get(market.slug)!;
+    const bids = new Map(levels.bids);
+    const asks = new Map(levels.asks);
+    this.orders.forEach(order => {
+      if (order.status !== "LIVE" || order.market !== market.conditionId) return;
+      const isUp = order.tokenId === market.tokenUp;
+      const price = isUp ? order.price : round(1 - order.price);
+      const target = (order.side === "BUY") === isUp ? bids : asks;
+      target.set(price, round((target.get(price) ?? 0) + order.size - order.sizeMatched, 2));
+    });
+    return OrderBook.fromLevels(market.tokenUp, toLevels(bids), toLevels(asks), now);
+  }
+
+  /** Diffs the published book against the last one and sends `price_change` for both tokens. */
+  private publish(market: VenueMarket, now: number): void {
+    const previous = this.published.get(market.slug);
+    const next = this.buildUpBook(market, now);
+    this.published.set(market.slug, next);
+    if (!previous) return;
+
+    const changes: { price: number; size: number; side: BookSide }[] = [];
+    for (const side of ["BUY", "SELL"] as BookSide[]) {
+      const prices = new Set([...previous.levels(side), ...next.levels(side)].map(l => l.price));
+      prices.forEach(price => {
+        const size = next.sizeAt(side, price);
+        if (Math.abs(size - previous.sizeAt(side, price)) > EPSILON) changes.push({ price, size, side });
+      });
+    }
+    if (changes.length === 0) return;
+
+    const down = next.invert(market.tokenDown);
+    for (const [tokenId, book, isUp] of [[market.tokenUp, next, true], [market.tokenDown, down, false]] as const) {
+      this.emitMarket(tokenId, {
+        event_type: "price_change",
+        market: market.conditionId,
+        price_changes: changes.map(c => ({
+          asset_id: tokenId,
+          price: (isUp ? c.price : round(1 - c.price)).toString(),
+          size: c.size.toString(),
+          side: isUp ? c.side : c.side === "BUY" ? "SELL" : "BUY",
+          best_bid: book.bestBid().toString(),
+          best_ask: book.bestAsk().toString(),
+        })),
+        timestamp: now.toString(),
+      });
+    }
+  }
+
+  /** Market WS `book` snapshot for a token, sent on subscribe. */
+  bookMessage(tokenId: string, now = Date.now()): Record<string, unknown> | null {
+    const market = this.marketsByToken.get(tokenId);
+    const book = this.getBook(tokenId);
+    if (!market || !book) return null;
+    return {
+      event_type: "book",
+      asset_id: tokenId,
+      market: market.conditionId,
+      ...formatBook(book),
+      timestamp: now.toString(),
+    };
+  }
+
+  private resolve(market: VenueMarket, now: number): void {
+    const spot = this.spot.get(market.asset)!;
+    if (market.openingPrice === null) market.openingPrice = spot;
+    market.closingPrice = spot;
+    market.closed = true;
+    this.cancelOrders({ market: market.conditionId });
+    this.liquidity.delete(market.slug);
+    this.published.delete(market.slug);
+    const upWon = spot >= market.openingPrice;
+    console.log(`[ExchangeSim] Resolved ${market.slug}: ${upWon ? "Up" : "Down"} (${market.openingPrice} -> ${market.closingPrice}) at ${new Date(now).toISOString()}`);
+  }
+
+  private prune(market: VenueMarket): void {
+    this.markets.delete(market.slug);
+    this.marketsByToken.delete(market.tokenUp);
+    this.marketsByToken.delete(market.tokenDown);
+    this.orders.forEach((order, id) => { if (order.market === market.conditionId) this.orders.delete(id); });
+    this.trades = this.trades.filter(t => t.market !== market.conditionId);
+  }
+
+  private emitMarket(assetId: string, message: Record<string, unknown>): void {
+    for (const cb of this.onMarketMessageCallbacks) {
+      try { cb(assetId, message); } catch {}
+    }
+  }
+
+  private emitOrder(order: VenueOrder, type: "PLACEMENT" | "UPDATE" | "CANCELLATION"): void {
+    for (const cb of this.onOrderUpdateCallbacks) {
+      try { cb(order, type); } catch {}
+    }
+  }
+}
+
+function toLevels(levels: Map<number, number>): BookLevel[] {
+  return Array.from(levels.entries()).map(([price, size]) => ({ price, size }));
+}
+
+/** CLOB wire format: string levels, bids ascending and asks descending so the best sits last. */
+export function formatBook(book: OrderBook): { bids: { price: string; size: string }[]; asks: { price: string; size: string }[] } {
+  const format = (levels: BookLevel[]) => levels.reverse().map(l => ({ price: l.price.toString(), size: l.size.toString() }));
+  return { bids: format(book.levels("BUY")), asks: format(book.levels("SELL")) };
+}
@@ -2,7 +2,8 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { strategyEngine } from "./bot/strategy-engine";
-import { updateBotConfigSchema, dualEntryConfig } from "@shared/schema";
+import { ZodError } from "zod";
+import { updateBotConfigSchema, updateEntryFilterSchema, reorderEntryFiltersSchema, updateExitPolicySchema, dualEntryConfig } from "@shared/schema";
 import type { DualEntry5mInfo, DualEntry5mCycleInfo } from "@shared/schema";
 import { db } from "./db";
 import { polymarketClient } from "./bot/polymarket-client";
@@ -10,14 +11,32 @@ import { liveTradingClient } from "./bot/live-trading-client";
 import { polymarketWs } from "./bot/polymarket-ws";
 import { apiRateLimiter } from "./bot/rate-limiter";
 import { dualEntryRouter } from "./strategies/dualEntry5m/routes";
+import { strategiesRouter } from "./strategies/routes";
+import { strategyRegistry, capitalAllocator } from "./strategies";
 import { dualEntry5mEngine } from "./strategies/dualEntry5m/engine";
-import { fetchCurrent5mMarket, type AssetType } from "./strategies/dualEntry5m/market-5m-discovery";
+import { fetchCurrent5mMarket, ASSET_TYPES, type AssetType } from "./strategies/dualEntry5m/market-5m-discovery";
 import { runHealthCheck, startHealthMonitor } from "./bot/health-monitor";
 import { alertManager } from "./bot/alert-manager";
-import { binanceOracle } from "./bot/binance-oracle";
+import { binanceOracle, oracleRegistry, type BinanceOracle } from "./bot/binance-oracle";
 import { stopLossManager } from "./bot/stop-loss-manager";
 import { progressiveSizer } from "./bot/progressive-sizer";
 import { marketRegimeFilter } from "./bot/market-regime-filter";
+import { settlementTracker } from "./bot/settlement-tracker";
+import { redemptionService } from "./bot/redemption-service";
+import { marketRecorder } from "./bot/market-recorder";
+import { tickStore } from "./bot/tick-store";
+import { signalJournal, computeOracleCalibration } from "./bot/signal-journal";
+import { CLOB_BASE_URL, GAMMA_BASE_URL } from "./bot/endpoints";
+import { runFsmBacktest, fsmBacktestParamsSchema } from "./bot/backtester";
+import { entryFilterPipeline } from "./bot/entry-filters";
+import { exitManager } from "./bot/exit-manager";
+import { parameterOptimizer, optimizationRequestSchema, SWEEPABLE_PARAMS } from "./bot/optimizer";
+
+/** Oracle selected by an optional `?asset=` query (BTC when absent); null for unknown assets. */
+function oracleForQuery(raw: unknown): BinanceOracle | null {
+  const asset = typeof raw === "string" && raw ? raw.toLowerCase() : "btc";
+  return (ASSET_TYPES as readonly string[]).includes(asset) ? oracleRegistry.get(asset as AssetType) : null;
+}
 
 export async function registerRoutes(
   httpServer: Server,
@@ -25,6 +44,7 @@ export async function registerRoutes(
 ): Promise<Server> {
 
   app.use("/api/strategies/dual-entry-5m", dualEntryRouter);
+  app.use("/api/strategies", strategiesRouter);
 
   app.get("/api/bot/status", async (_req, res) => {
     try {
@@ -142,6 +162,10 @@ export async function registerRoutes(
 
       const data = parsed.data;
 
+      if (data.activeStrategy !== undefined && strategyRegistry.get(data.activeStrategy)?.host !== "engine") {
+        return res.status(400).json({ error: `Unknown engine strategy: ${data.activeStrategy}` });
+      }
+
       if (data.isPaperTrading === false) {
         const currentConfig = await storage.getBotConfig();
         if (!currentConfig?.currentMarketId) {
@@ -162,6 +186,9 @@ export async function registerRoutes(
       if (Object.keys(keysToUpdate).length > 0) {
         await storage.updateBotConfig(keysToUpdate);
       }
+      if (data.activeStrategy !== undefined) {
+        await capitalAllocator.selectOnly(data.activeStrategy);
+      }
 
       if (shouldStart) {
         await strategyEngine.start();
@@ -176,6 +203,72 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/bot/entry-filters", async (_req, res) => {
+    try {
+      res.json({
+        filters: await entryFilterPipeline.getFilters(await storage.getBotConfig()),
+        lastEvaluation: strategyEngine.getLastEntryEvaluation(),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/bot/entry-filters/order", async (req, res) => {
+    try {
+      const parsed = reorderEntryFiltersSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const unknown = parsed.data.order.filter(id => !entryFilterPipeline.has(id));
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown entry filter: ${unknown.join(", ")}` });
+      }
+      res.json(await entryFilterPipeline.reorder(parsed.data.order));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/bot/entry-filters/:id", async (req, res) => {
+    try {
+      if (!entryFilterPipeline.has(req.params.id)) {
+        return res.status(404).json({ error: `Unknown entry filter: ${req.params.id}` });
+      }
+      const parsed = updateEntryFilterSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      res.json(await entryFilterPipeline.update(req.params.id, parsed.data));
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.message });
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/bot/exit-policies", async (_req, res) => {
+    try {
+      res.json({ policies: await exitManager.getPolicies(), exits: exitManager.getStatus() });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/bot/exit-policies/:strategyId", async (req, res) => {
+    try {
+      if (!exitManager.has(req.params.strategyId)) {
+        return res.status(404).json({ error: `Unknown engine strategy: ${req.params.strategyId}` });
+      }
+      const parsed = updateExitPolicySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      res.json(await exitManager.update(req.params.strategyId, parsed.data));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   app.post("/api/bot/kill-switch", async (_req, res) => {
     try {
       const config = await storage.getBotConfig();
@@ -183,7 +276,11 @@ export async function registerRoutes(
         await storage.updateBotConfig({ killSwitchActive: false });
       } else {
         await strategyEngine.killSwitch();
-        try { await dualEntry5mEngine.stop(); } catch (_) {}
+        strategyRegistry.emit({ type: "kill_switch" });
+        for (const strategy of strategyRegistry.list()) {
+          if (strategy.host !== "standalone") continue;
+          try { await strategy.stop(); } catch (_) {}
+        }
       }
       const updated = await storage.getBotConfig();
       res.json(updated);
@@ -273,6 +370,160 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/settlements", async (_req, res) => {
+    try {
+      const records = await storage.getSettlements();
+      res.json(records);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/settlements/reconcile", async (_req, res) => {
+    try {
+      await settlementTracker.poll();
+      const pending = await storage.getPendingSettlements();
+      res.json({ success: true, pending: pending.length });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/redemptions", async (_req, res) => {
+    try {
+      const summary = await redemptionService.getSummary();
+      res.json(summary);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/redemptions/scan", async (_req, res) => {
+    try {
+      if (!liveTradingClient.getWalletAddress()) {
+        return res.status(400).json({ error: "Wallet not initialized" });
+      }
+      const result = await redemptionService.scan();
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/recorder/status", (_req, res) => {
+    res.json(marketRecorder.getStatus());
+  });
+
+  app.patch("/api/recorder/config", async (req, res) => {
+    const { enabled, retentionHours, snapshotIntervalMs, oracleSampleMs } = req.body;
+    if (retentionHours !== undefined && !(Number(retentionHours) > 0)) {
+      return res.status(400).json({ error: "retentionHours must be > 0" });
+    }
+    if (snapshotIntervalMs !== undefined && !(Number(snapshotIntervalMs) >= 1000)) {
+      return res.status(400).json({ error: "snapshotIntervalMs must be >= 1000" });
+    }
+    const status = marketRecorder.updateConfig({
+      enabled: enabled !== undefined ? !!enabled : undefined,
+      retentionHours: retentionHours !== undefined ? Number(retentionHours) : undefined,
+      snapshotIntervalMs: snapshotIntervalMs !== undefined ? Number(snapshotIntervalMs) : undefined,
+      oracleSampleMs: oracleSampleMs !== undefined ? Math.max(0, Number(oracleSampleMs)) : undefined,
+    });
+    res.json({ success: true, status });
+  });
+
+  app.post("/api/recorder/purge", async (_req, res) => {
+    try {
+      await marketRecorder.purge();
+      res.json({ success: true, status: marketRecorder.getStatus() });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/recorder/sessions", async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 200;
+      res.json(await storage.getRecordedSessions(limit));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/recorder/sessions/:slug", async (req, res) => {
+    try {
+      const session = await marketRecorder.loadSession(req.params.slug);
+      if (!session) {
+        return res.status(404).json({ error: `No recording for ${req.params.slug}` });
+      }
+      const header = { type: "session", marketSlug: session.marketSlug, tokens: session.tokens, tokenUp: session.tokenUp, tokenDown: session.tokenDown, from: session.from, to: session.to, events: session.events.length };
+      res.setHeader("Content-Type", "application/x-ndjson");
+      res.setHeader("Content-Disposition", `attachment; filename=${session.marketSlug}.jsonl`);
+      res.send([header, ...session.events].map(e => JSON.stringify(e)).join("\n") + "\n");
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/backtest/fsm", async (req, res) => {
+    try {
+      const parsed = fsmBacktestParamsSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const result = await runFsmBacktest(parsed.data);
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/optimizer/params", (_req, res) => {
+    res.json(SWEEPABLE_PARAMS);
+  });
+
+  app.get("/api/optimizer/jobs", (_req, res) => {
+    res.json(parameterOptimizer.listJobs());
+  });
+
+  app.post("/api/optimizer/jobs", async (req, res) => {
+    try {
+      const parsed = optimizationRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const job = await parameterOptimizer.startJob(parsed.data);
+      res.json(job);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/optimizer/jobs/:id", (req, res) => {
+    const job = parameterOptimizer.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    res.json(job);
+  });
+
+  app.post("/api/optimizer/jobs/:id/cancel", (req, res) => {
+    const cancelled = parameterOptimizer.cancelJob(req.params.id);
+    res.json({ success: cancelled });
+  });
+
+  app.post("/api/optimizer/jobs/:id/apply", async (req, res) => {
+    try {
+      const candidateId = Number(req.body?.candidateId);
+      if (!Number.isInteger(candidateId)) {
+        return res.status(400).json({ error: "candidateId is required" });
+      }
+      const result = await parameterOptimizer.applyCandidate(req.params.id, candidateId);
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   app.get("/api/events", async (_req, res) => {
     try {
       const events = await storage.getEvents(1500);
@@ -362,7 +613,6 @@ export async function registerRoutes(
     try {
       const interval = (req.query.interval as string) || "5m";
       const assets: AssetType[] = ["btc", "eth", "sol", "xrp", "doge", "bnb", "link"];
-      const GAMMA_BASE = "https://gamma-api.polymarket.com";
 
       const now = Math.floor(Date.now() / 1000);
       const intervalSeconds = interval === "15m" ? 900 : 300;
@@ -377,7 +627,7 @@ export async function registerRoutes(
         for (const ts of [currentTs, nextTs]) {
           const slug = `${prefix}-${ts}`;
           try {
-            const response = await fetch(`${GAMMA_BASE}/events?slug=${slug}`);
+            const response = await fetch(`${GAMMA_BASE_URL}/events?slug=${slug}`);
             if (!response.ok) continue;
             const events = await response.json();
             if (!events || events.length === 0) continue;
@@ -435,11 +685,18 @@ export async function registerRoutes(
   app.get("/api/markets/orderbook/:tokenId", async (req, res) => {
     try {
       const { tokenId } = req.params;
-      const orderbook = await polymarketClient.fetchOrderBook(tokenId);
-      if (!orderbook) {
+      const depth = req.query.depth ? parseInt(req.query.depth as string) : undefined;
+      const size = req.query.size ? parseFloat(req.query.size as string) : undefined;
+
+      const wsBook = polymarketWs.getOrderBook(tokenId);
+      const book = wsBook ?? await polymarketClient.fetchL2Book(tokenId);
+      if (!book) {
         return res.status(404).json({ error: "Orderbook not found" });
       }
-      res.json(orderbook);
+      const snapshot = book.toSnapshot(wsBook ? "ws" : "rest", depth);
+      res.json(size && size > 0
+        ? { ...snapshot, vwap: { buy: book.vwapToSize("BUY", size), sell: book.vwapToSize("SELL", size) } }
+        : snapshot);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -618,40 +875,71 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/oracle/status", async (_req, res) => {
+  app.get("/api/oracle/status", async (req, res) => {
     try {
-      res.json(binanceOracle.getStatus());
+      const oracle = oracleForQuery(req.query.asset);
+      if (!oracle) {
+      return res.status(400).json({ error: `Unknown oracle asset: ${req.query.asset}` });
+      }
+      res.json(oracle.getStatus());
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/oracle/connect", async (_req, res) => {
+  app.get("/api/oracle/assets", async (_req, res) => {
     try {
-      binanceOracle.connect();
-      res.json({ success: true, message: "Oracle connecting to Binance BTC feed" });
+      res.json(oracleRegistry.list().map(oracle => ({ ...oracle.getStatus(), supported: oracle.isSupported() })));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/oracle/connect", async (req, res) => {
+    try {
+      const oracle = oracleForQuery(req.query.asset);
+      if (!oracle) {
+        return res.status(400).json({ success: false, error: `Unknown oracle asset: ${req.query.asset}` });
+      }
+      if (!oracle.isSupported()) {
+        return res.status(400).json({ success: false, error: `No price feed for ${oracle.asset.toUpperCase()}` });
+      }
+      oracle.connect();
+      res.json({ success: true, message: `Oracle connecting to Binance ${oracle.asset.toUpperCase()} feed` });
     } catch (error: any) {
       res.status(500).json({ success: false, error: error.message });
     }
   });
 
-  app.post("/api/oracle/disconnect", async (_req, res) => {
+  app.post("/api/oracle/disconnect", async (req, res) => {
     try {
-      binanceOracle.disconnect();
+      const oracle = oracleForQuery(req.query.asset);
+      if (!oracle) {
+        return res.status(400).json({ success: false, error: `Unknown oracle asset: ${req.query.asset}` });
+      }
+      oracle.disconnect();
       res.json({ success: true, message: "Oracle disconnected" });
     } catch (error: any) {
       res.status(500).json({ success: false, error: error.message });
     }
   });
 
-  app.get("/api/oracle/config", (_req, res) => {
-    res.json(binanceOracle.getConfig());
+  app.get("/api/oracle/config", (req, res) => {
+    const oracle = oracleForQuery(req.query.asset);
+    if (!oracle) {
+      return res.status(400).json({ error: `Unknown oracle asset: ${req.query.asset}` });
+    }
+    res.json(oracle.getConfig());
   });
 
   app.patch("/api/oracle/config", async (req, res) => {
-    const { strongThreshold, weakThreshold, minConfidence, enabled } = req.body;
-    binanceOracle.updateConfig({ strongThreshold, weakThreshold, minConfidence, enabled });
-    res.json({ success: true, config: binanceOracle.getConfig() });
+    const oracle = oracleForQuery(req.query.asset);
+    if (!oracle) {
+      return res.status(400).json({ error: `Unknown oracle asset: ${req.query.asset}` });
+    }
+    const { strongThreshold, weakThreshold, minConfidence, enabled, compositeMode, minSources, maxStalenessMs, maxDivergencePct } = req.body;
+    oracle.updateConfig({ strongThreshold, weakThreshold, minConfidence, enabled, compositeMode, minSources, maxStalenessMs, maxDivergencePct });
+    res.json({ success: true, config: oracle.getConfig() });
   });
 
   app.get("/api/stoploss/config", (_req, res) => {
@@ -701,7 +989,7 @@ export async function registerRoutes(
   app.get("/api/market-regime/status", async (_req, res) => {
     try {
       const status = await strategyEngine.getStatus();
-      res.json(marketRegimeFilter.getStatus(status.marketData));
+      res.json(marketRegimeFilter.getStatus(status.marketData, strategyEngine.getMarketDataModule().getOrderBook()));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -937,6 +1225,29 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/analytics/oracle-calibration", async (req, res) => {
+    try {
+      const from = req.query.from ? new Date(String(req.query.from)) : null;
+      const to = req.query.to ? new Date(String(req.query.to)) : null;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ error: "Invalid from/to date" });
+      }
+      const kind = req.query.kind ? String(req.query.kind) : undefined;
+      if (kind && kind !== "entry" && kind !== "sample") {
+        return res.status(400).json({ error: `Unknown signal kind: ${kind}` });
+      }
+      const asset = req.query.asset ? String(req.query.asset) : undefined;
+      if (asset && !(ASSET_TYPES as readonly string[]).includes(asset)) {
+        return res.status(400).json({ error: `Unknown oracle asset: ${asset}` });
+      }
+
+      const rows = await storage.getOracleSignals({ from: from ?? undefined, to: to ?? undefined, asset, kind });
+      res.json(computeOracleCalibration(rows, from, to));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   app.get("/api/analytics/optimization", async (_req, res) => {
     try {
       const allOrders = await storage.getOrders();
@@ -1103,7 +1414,7 @@ export async function registerRoutes(
       const pmStart = Date.now();
       let pmLatency = -1;
       try {
-        const pmResp = await fetch("https://clob.polymarket.com/time", {
+        const pmResp = await fetch(`${CLOB_BASE_URL}/time`, {
           signal: AbortSignal.timeout(5000),
         });
         if (pmResp.ok) pmLatency = Date.now() - pmStart;
@@ -1124,6 +1435,11 @@ export async function registerRoutes(
   });
 
   startHealthMonitor(30_000);
+  settlementTracker.start(30_000);
+  signalJournal.start();
+  redemptionService.start(300_000);
+  marketRecorder.start();
+  tickStore.start();
 
   return httpServer;
 }
@@ -5,11 +5,24 @@ import {
   type Position, type InsertPosition,
   type PnlRecord, type InsertPnlRecord,
   type BotEvent, type InsertBotEvent,
+  type Settlement, type InsertSettlement,
+  type Redemption, type InsertRedemption,
+  type RecordedBookEvent, type InsertRecordedBookEvent,
+  type RecordedTrade, type InsertRecordedTrade,
+  type RecordedOracleTick, type InsertRecordedOracleTick,
+  type OracleSignalRecord, type InsertOracleSignal,
+  type PriceTick, type InsertPriceTick,
+  type StrategyAllocation, type InsertStrategyAllocation,
+  type EntryFilterRow, type InsertEntryFilter,
+  type ExitPolicyRow, type InsertExitPolicy,
+  type RecordedSession,
   type UpdateBotConfig,
-  botConfig, orders, fills, positions, pnlRecords, botEvents,
+  botConfig, orders, fills, positions, pnlRecords, botEvents, settlements, redemptions,
+  recordedBookEvents, recordedTrades, recordedOracleTicks, oracleSignals, priceTicks,
+  strategyAllocations, entryFilters, exitPolicies, EXIT_OUTCOMES,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, inArray } from "drizzle-orm";
+import { eq, desc, and, or, inArray, notInArray, gte, lte, lt, asc, isNotNull, isNull, sql } from "drizzle-orm";
 
 export interface IStorage {
   getBotConfig(): Promise<BotConfig | undefined>;
@@ -24,12 +37,15 @@ export interface IStorage {
   updateOrderStatus(id: string, status: string, filledSize?: number): Promise<Order | undefined>;
   updateOrderExchangeId(id: string, exchangeOrderId: string): Promise<Order | undefined>;
   updateOrderOutcome(id: string, outcome: string): Promise<Order | undefined>;
-  updateOrdersOutcomeByMarket(marketId: string, outcome: string, tokenSide?: string): Promise<void>;
+  updateOrdersOutcomeByMarket(marketId: string, outcome: string, tokenSide?: string, strategy?: string): Promise<void>;
   cancelAllOpenOrders(): Promise<void>;
 
   getFills(): Promise<Fill[]>;
   getFillsByOrderId(orderId: string): Promise<Fill[]>;
+  getFillsByOrderIds(orderIds: string[]): Promise<Fill[]>;
   createFill(fill: InsertFill): Promise<Fill>;
+  updateFillPrice(id: string, price: number): Promise<void>;
+  getLiveTradedTokenIds(): Promise<string[]>;
 
   getPositions(): Promise<Position[]>;
   getPositionByMarket(marketId: string, side: string): Promise<Position | undefined>;
@@ -43,6 +59,44 @@ export interface IStorage {
 
   getEvents(limit?: number): Promise<BotEvent[]>;
   createEvent(event: InsertBotEvent): Promise<BotEvent>;
+
+  getSettlements(limit?: number): Promise<Settlement[]>;
+  getPendingSettlements(): Promise<Settlement[]>;
+  createSettlement(settlement: InsertSettlement): Promise<Settlement>;
+  updateSettlement(id: string, updates: Partial<InsertSettlement>): Promise<Settlement | undefined>;
+
+  getRedemptions(limit?: number): Promise<Redemption[]>;
+  getRedemptionByCondition(conditionId: string): Promise<Redemption | undefined>;
+  upsertRedemption(redemption: InsertRedemption): Promise<Redemption>;
+
+  insertRecordedBookEvents(rows: InsertRecordedBookEvent[]): Promise<void>;
+  insertRecordedTrades(rows: InsertRecordedTrade[]): Promise<void>;
+  insertRecordedOracleTicks(rows: InsertRecordedOracleTick[]): Promise<void>;
+  getRecordedSessions(limit?: number): Promise<RecordedSession[]>;
+  getRecordedBookEvents(marketSlug: string): Promise<RecordedBookEvent[]>;
+  getRecordedTrades(marketSlug: string): Promise<RecordedTrade[]>;
+  getRecordedOracleTicks(from: Date, to: Date, asset?: string): Promise<RecordedOracleTick[]>;
+  purgeRecordingsBefore(cutoff: Date): Promise<void>;
+
+  insertPriceTicks(rows: InsertPriceTick[]): Promise<void>;
+  getPriceTicks(source: string, since: Date): Promise<PriceTick[]>;
+  purgePriceTicksBefore(cutoff: Date): Promise<void>;
+
+  createOracleSignal(signal: InsertOracleSignal): Promise<OracleSignalRecord>;
+  getUnresolvedOracleSignalSlugs(endedBefore: Date, endedAfter: Date): Promise<string[]>;
+  resolveOracleSignals(marketSlug: string, outcome: "UP" | "DOWN"): Promise<number>;
+  getOracleSignals(filter: { from?: Date; to?: Date; asset?: string; kind?: string }): Promise<OracleSignalRecord[]>;
+
+  getStrategyAllocations(): Promise<StrategyAllocation[]>;
+  upsertStrategyAllocation(strategyId: string, values: Partial<InsertStrategyAllocation>): Promise<StrategyAllocation>;
+  getStrategyOrdersSince(strategy: string, since: Date): Promise<Order[]>;
+  getStrategyOrdersByMarket(strategy: string, marketId: string): Promise<Order[]>;
+
+  getEntryFilters(): Promise<EntryFilterRow[]>;
+  upsertEntryFilter(filterId: string, values: Partial<InsertEntryFilter>): Promise<EntryFilterRow>;
+
+  getExitPolicies(): Promise<ExitPolicyRow[]>;
+  upsertExitPolicy(strategyId: string, values: Partial<InsertExitPolicy>): Promise<ExitPolicyRow>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -131,11 +185,16 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
-  async updateOrdersOutcomeByMarket(marketId: string, outcome: string, tokenSide?: string): Promise<void> {
+  async updateOrdersOutcomeByMarket(marketId: string, outcome: string, tokenSide?: string, strategy?: string): Promise<void> {
     const conditions = [eq(orders.marketId, marketId), eq(orders.status, "FILLED")];
     if (tokenSide) {
       conditions.push(eq(orders.tokenSide, tokenSide));
     }
+    if (strategy) {
+      conditions.push(eq(orders.strategy, strategy));
+    }
+    // Exit SELLs and the entries they closed keep their STOP_LOSS / TAKE_PROFIT outcome through settlement.
+    conditions.push(or(isNull(orders.outcome), notInArray(orders.outcome, EXIT_OUTCOMES))!);
     await db.update(orders)
       .set({ outcome, updatedAt: new Date() })
       .where(and(...conditions));
@@ -155,11 +214,26 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(fills).where(eq(fills.orderId, orderId));
   }
 
+  async getFillsByOrderIds(orderIds: string[]): Promise<Fill[]> {
+    if (orderIds.length === 0) return [];
+    return db.select().from(fills).where(inArray(fills.orderId, orderIds));
+  }
+
   async createFill(fill: InsertFill): Promise<Fill> {
     const [created] = await db.insert(fills).values(fill).returning();
     return created;
   }
 
+  async updateFillPrice(id: string, price: number): Promise<void> {
+    await db.update(fills).set({ price }).where(eq(fills.id, id));
+  }
+
+  async getLiveTradedTokenIds(): Promise<string[]> {
+    const rows = await db.selectDistinct({ tokenId: fills.tokenId }).from(fills)
+      .where(and(eq(fills.isPaperTrade, false), eq(fills.side, "BUY")));
+    return rows.map(r => r.tokenId).filter((id): id is string => !!id);
+  }
+
   async getPositions(): Promise<Position[]> {
     return db.select().from(positions);
   }
@@ -225,6 +299,231 @@ export class DatabaseStorage implements IStorage {
     const [created] = await db.insert(botEvents).values(event).returning();
     return created;
   }
+
+  async getSettlements(limit = 200): Promise<Settlement[]> {
+    return db.select().from(settlements).orderBy(desc(settlements.createdAt)).limit(limit);
+  }
+
+  async getPendingSettlements(): Promise<Settlement[]> {
+    return db.select().from(settlements).where(eq(settlements.status, "PROVISIONAL"));
+  }
+
+  async createSettlement(settlement: InsertSettlement): Promise<Settlement> {
+    const [created] = await db.insert(settlements).values(settlement).returning();
+    return created;
+  }
+
+  async updateSettlement(id: string, updates: Partial<InsertSettlement>): Promise<Settlement | undefined> {
+    const [updated] = await db.update(settlements)
+      .set(updates)
+      .where(eq(settlements.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getRedemptions(limit = 200): Promise<Redemption[]> {
+    return db.select().from(redemptions).orderBy(desc(redemptions.createdAt)).limit(limit);
+  }
+
+  async getRedemptionByCondition(conditionId: string): Promise<Redemption | undefined> {
+    const [record] = await db.select().from(redemptions).where(eq(redemptions.conditionId, conditionId));
+    return record || undefined;
+  }
+
+  async upsertRedemption(redemption: InsertRedemption): Promise<Redemption> {
+    const existing = await this.getRedemptionByCondition(redemption.conditionId);
+    if (existing) {
+      const [updated] = await db.update(redemptions)
+        .set(redemption)
+        .where(eq(redemptions.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(redemptions).values(redemption).returning();
+    return created;
+  }
+
+  async insertRecordedBookEvents(rows: InsertRecordedBookEvent[]): Promise<void> {
+    if (rows.length === 0) return;
+    await db.insert(recordedBookEvents).values(rows);
+  }
+
+  async insertRecordedTrades(rows: InsertRecordedTrade[]): Promise<void> {
+    if (rows.length === 0) return;
+    await db.insert(recordedTrades).values(rows);
+  }
+
+  async insertRecordedOracleTicks(rows: InsertRecordedOracleTick[]): Promise<void> {
+    if (rows.length === 0) return;
+    await db.insert(recordedOracleTicks).values(rows);
+  }
+
+  async getRecordedSessions(limit = 200): Promise<RecordedSession[]> {
+    const books = await db.select({
+      marketSlug: recordedBookEvents.marketSlug,
+      firstTs: sql<Date>`min(${recordedBookEvents.ts})`,
+      lastTs: sql<Date>`max(${recordedBookEvents.ts})`,
+      count: sql<number>`count(*)::int`,
+    }).from(recordedBookEvents)
+      .where(isNotNull(recordedBookEvents.marketSlug))
+      .groupBy(recordedBookEvents.marketSlug)
+      .orderBy(desc(sql`max(${recordedBookEvents.ts})`))
+      .limit(limit);
+
+    const trades = await db.select({
+      marketSlug: recordedTrades.marketSlug,
+      count: sql<number>`count(*)::int`,
+    }).from(recordedTrades)
+      .where(isNotNull(recordedTrades.marketSlug))
+      .groupBy(recordedTrades.marketSlug);
+    const tradeCounts = new Map(trades.map(t => [t.marketSlug, t.count]));
+
+    return books.map(b => ({
+      marketSlug: b.marketSlug!,
+      firstTs: new Date(b.firstTs).toISOString(),
+      lastTs: new Date(b.lastTs).toISOString(),
+      bookEvents: b.count,
+      trades: tradeCounts.get(b.marketSlug) || 0,
+    }));
+  }
+
+  async getRecordedBookEvents(marketSlug: string): Promise<RecordedBookEvent[]> {
+    return db.select().from(recordedBookEvents)
+      .where(eq(recordedBookEvents.marketSlug, marketSlug))
+      .orderBy(asc(recordedBookEvents.ts));
+  }
+
+  async getRecordedTrades(marketSlug: string): Promise<RecordedTrade[]> {
+    return db.select().from(recordedTrades)
+      .where(eq(recordedTrades.marketSlug, marketSlug))
+      .orderBy(asc(recordedTrades.ts));
+  }
+
+  async getRecordedOracleTicks(from: Date, to: Date, asset = "btc"): Promise<RecordedOracleTick[]> {
+    return db.select().from(recordedOracleTicks)
+      .where(and(eq(recordedOracleTicks.asset, asset), gte(recordedOracleTicks.ts, from), lte(recordedOracleTicks.ts, to)))
+      .orderBy(asc(recordedOracleTicks.ts));
+  }
+
+  async purgeRecordingsBefore(cutoff: Date): Promise<void> {
+    await db.delete(recordedBookEvents).where(lt(recordedBookEvents.ts, cutoff));
+    await db.delete(recordedTrades).where(lt(recordedTrades.ts, cutoff));
+    await db.delete(recordedOracleTicks).where(lt(recordedOracleTicks.ts, cutoff));
+  }
+
+  async insertPriceTicks(rows: InsertPriceTick[]): Promise<void> {
+    if (rows.length === 0) return;
+    await db.insert(priceTicks).values(rows);
+  }
+
+  async getPriceTicks(source: string, since: Date): Promise<PriceTick[]> {
+    return db.select().from(priceTicks)
+      .where(and(eq(priceTicks.source, source), gte(priceTicks.ts, since)))
+      .orderBy(asc(priceTicks.ts));
+  }
+
+  async purgePriceTicksBefore(cutoff: Date): Promise<void> {
+    await db.delete(priceTicks).where(lt(priceTicks.ts, cutoff));
+  }
+
+  async createOracleSignal(signal: InsertOracleSignal): Promise<OracleSignalRecord> {
+    const [created] = await db.insert(oracleSignals).values(signal).returning();
+    return created;
+  }
+
+  async getUnresolvedOracleSignalSlugs(endedBefore: Date, endedAfter: Date): Promise<string[]> {
+    const rows = await db.selectDistinct({ marketSlug: oracleSignals.marketSlug }).from(oracleSignals)
+      .where(and(
+        isNull(oracleSignals.outcome),
+        lte(oracleSignals.windowEnd, endedBefore),
+        gte(oracleSignals.windowEnd, endedAfter),
+      ));
+    return rows.map(r => r.marketSlug);
+  }
+
+  async resolveOracleSignals(marketSlug: string, outcome: "UP" | "DOWN"): Promise<number> {
+    const updated = await db.update(oracleSignals)
+      .set({
+        outcome,
+        hit: sql`case when ${oracleSignals.direction} = 'NEUTRAL' then null else ${oracleSignals.direction} = ${outcome} end`,
+        resolvedAt: new Date(),
+      })
+      .where(and(eq(oracleSignals.marketSlug, marketSlug), isNull(oracleSignals.outcome)))
+      .returning({ id: oracleSignals.id });
+    return updated.length;
+  }
+
+  async getOracleSignals(filter: { from?: Date; to?: Date; asset?: string; kind?: string }): Promise<OracleSignalRecord[]> {
+    const conditions = [];
+    if (filter.from) conditions.push(gte(oracleSignals.ts, filter.from));
+    if (filter.to) conditions.push(lte(oracleSignals.ts, filter.to));
+    if (filter.asset) conditions.push(eq(oracleSignals.asset, filter.asset));
+    if (filter.kind) conditions.push(eq(oracleSignals.kind, filter.kind));
+    return db.select().from(oracleSignals)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(oracleSignals.ts));
+  }
+
+  async getStrategyAllocations(): Promise<StrategyAllocation[]> {
+    return db.select().from(strategyAllocations);
+  }
+
+  async upsertStrategyAllocation(strategyId: string, values: Partial<InsertStrategyAllocation>): Promise<StrategyAllocation> {
+    const [existing] = await db.select().from(strategyAllocations).where(eq(strategyAllocations.strategyId, strategyId));
+    if (existing) {
+      const [updated] = await db.update(strategyAllocations)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(strategyAllocations.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(strategyAllocations).values({ ...values, strategyId }).returning();
+    return created;
+  }
+
+  async getStrategyOrdersSince(strategy: string, since: Date): Promise<Order[]> {
+    return db.select().from(orders)
+      .where(and(eq(orders.strategy, strategy), gte(orders.createdAt, since)));
+  }
+
+  async getStrategyOrdersByMarket(strategy: string, marketId: string): Promise<Order[]> {
+    return db.select().from(orders)
+      .where(and(eq(orders.strategy, strategy), eq(orders.marketId, marketId)));
+  }
+
+  async getEntryFilters(): Promise<EntryFilterRow[]> {
+    return db.select().from(entryFilters).orderBy(asc(entryFilters.position));
+  }
+
+  async upsertEntryFilter(filterId: string, values: Partial<InsertEntryFilter>): Promise<EntryFilterRow> {
+    const [existing] = await db.select().from(entryFilters).where(eq(entryFilters.filterId, filterId));
+    if (existing) {
+      const [updated] = await db.update(entryFilters)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(entryFilters.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(entryFilters).values({ ...values, filterId }).returning();
+    return created;
+  }
+
+  async getExitPolicies(): Promise<ExitPolicyRow[]> {
+    return db.select().from(exitPolicies);
+  }
+
+  async upsertExitPolicy(strategyId: string, values: Partial<InsertExitPolicy>): Promise<ExitPolicyRow> {
+    const [existing] = await db.select().from(exitPolicies).where(eq(exitPolicies.strategyId, strategyId));
+    if (existing) {
+      const [updated] = await db.update(exitPolicies)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(exitPolicies.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(exitPolicies).values({ ...values, strategyId }).returning();
+    return created;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,177 @@
+import { storage } from "../storage";
+import { realClock, type Clock } from "../bot/clock";
+import type { RiskCheck } from "../bot/risk-manager";
+import { EXIT_OUTCOMES, type BotConfig, type Order, type StrategyAllocation, type StrategyAllocationStatus, type StrategyCapitalUsage, type UpdateStrategyAllocation } from "@shared/schema";
+import { strategyRegistry, type Strategy } from "./strategy";
+
+/** Unsettled entries older than this no longer count against a budget. */
+const USAGE_LOOKBACK_MS = 24 * 3600_000;
+const DAY_MS = 24 * 3600_000;
+const OPEN_STATUSES = ["PENDING", "OPEN", "PARTIALLY_FILLED"];
+
+export const EMPTY_USAGE: StrategyCapitalUsage = { committed: 0, exposure: 0, dailyPnl: 0 };
+
+type BudgetLimits = Pick<StrategyAllocation, "capitalBudget" | "maxExposure" | "maxDailyLoss">;
+
+/**
+ * Pure budget check for one strategy: the order must fit in both its capital
+ * budget (resting + held) and its max exposure (held), and the strategy must
+ * not have hit its daily loss limit.
+ */
+export function evaluateBudget(limits: BudgetLimits, usage: StrategyCapitalUsage, orderValue: number): RiskCheck {
+  if (limits.maxDailyLoss !== null && usage.dailyPnl <= -limits.maxDailyLoss) {
+    return { allowed: false, reason: `Daily loss limit reached: $${usage.dailyPnl.toFixed(2)} <= -$${limits.maxDailyLoss.toFixed(2)}` };
+  }
+  if (limits.capitalBudget !== null && usage.committed + orderValue > limits.capitalBudget) {
+    return { allowed: false, reason: `Capital budget exceeded: $${(usage.committed + orderValue).toFixed(2)} > $${limits.capitalBudget.toFixed(2)}` };
+  }
+  if (limits.maxExposure !== null && usage.exposure + orderValue > limits.maxExposure) {
+    return { allowed: false, reason: `Max exposure exceeded: $${(usage.exposure + orderValue).toFixed(2)} > $${limits.maxExposure.toFixed(2)}` };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Usage of an engine strategy from the orders tagged with its id. Entries closed
+ * by an exit count their cost against the day and the exit SELLs their proceeds.
+ * An entry settled after a partial exit is paid out only on the shares still held.
+ */
+export function capitalUsageFromOrders(rows: Order[], dayStart: number): StrategyCapitalUsage {
+  const usage = { ...EMPTY_USAGE };
+  const exitSold = new Map<string, number>();
+  for (const order of rows) {
+    if (order.side === "SELL" && order.outcome && EXIT_OUTCOMES.includes(order.outcome)) {
+      const key = `${order.marketId}:${order.tokenId}`;
+      exitSold.set(key, (exitSold.get(key) ?? 0) + order.filledSize);
+    }
+  }
+  for (const order of rows) {
+    if (order.outcome && EXIT_OUTCOMES.includes(order.outcome)) {
+      if (order.updatedAt.getTime() >= dayStart) {
+        usage.dailyPnl += (order.side === "SELL" ? 1 : -1) * order.filledSize * order.price;
+      }
+      continue;
+    }
+    if (order.side !== "BUY") continue;
+    if (order.outcome === "WON" || order.outcome === "LOST") {
+      const key = `${order.marketId}:${order.tokenId}`;
+      const sold = Math.min(order.filledSize, exitSold.get(key) ?? 0);
+      exitSold.set(key, (exitSold.get(key) ?? 0) - sold);
+      if (order.updatedAt.getTime() >= dayStart) {
+        const payout = order.outcome === "WON" ? order.filledSize - sold : 0;
+        usage.dailyPnl += payout - order.filledSize * order.price;
+      }
+      continue;
+    }
+    const held = order.filledSize * order.price;
+    usage.exposure += held;
+    usage.committed += held;
+    if (OPEN_STATUSES.includes(order.status)) {
+      usage.committed += Math.max(0, order.size - order.filledSize) * order.price;
+    }
+  }
+  return usage;
+}
+
+/**
+ * Shared per-strategy capital budgets. Every order path asks `checkOrder`
+ * before placing a BUY; strategies without an allocation row are unlimited
+ * (the wallet-level RiskManager limits still apply). Also decides which
+ * engine strategies the bot engine ticks.
+ */
+export class CapitalAllocator {
+  private allocations: Map<string, StrategyAllocation> | null = null;
+
+  constructor(private readonly clock: Clock = realClock) {}
+
+  /** Start of the lookback for unsettled entries, and 00:00 UTC today. */
+  usageWindow(): { since: Date; dayStart: number } {
+    const now = this.clock.now();
+    return { since: new Date(now - USAGE_LOOKBACK_MS), dayStart: Math.floor(now / DAY_MS) * DAY_MS };
+  }
+
+  async getAllocation(strategyId: string): Promise<StrategyAllocation | undefined> {
+    if (!this.allocations) {
+      const rows = await storage.getStrategyAllocations();
+      this.allocations = new Map(rows.map(r => [r.strategyId, r]));
+    }
+    return this.allocations.get(strategyId);
+  }
+
+  /** Without an allocation row, only the legacy `activeStrategy` is enabled. */
+  async isEnabled(strategyId: string, config: BotConfig): Promise<boolean> {
+    const allocation = await this.getAllocation(strategyId);
+    return allocation ? allocation.enabled : strategyId === config.activeStrategy;
+  }
+
+  async getEnabledEngineStrategies(config: BotConfig): Promise<Strategy[]> {
+    const enabled: Strategy[] = [];
+    for (const strategy of strategyRegistry.list()) {
+      if (strategy.host === "engine" && await this.isEnabled(strategy.id, config)) enabled.push(strategy);
+    }
+    return enabled;
+  }
+
+  async update(strategyId: string, updates: UpdateStrategyAllocation): Promise<StrategyAllocation> {
+    const row = await storage.upsertStrategyAllocation(strategyId, updates);
+    await this.getAllocation(strategyId);
+    this.allocations!.set(strategyId, row);
+    return row;
+  }
+
+  /** Legacy one-of selection: enables `strategyId` and disables every other engine strategy. */
+  async selectOnly(strategyId: string): Promise<void> {
+    for (const strategy of strategyRegistry.list()) {
+      if (strategy.host !== "engine") continue;
+      await this.update(strategy.id, { enabled: strategy.id === strategyId });
+    }
+  }
+
+  async getUsage(strategyId: string): Promise<StrategyCapitalUsage> {
+    const strategy = strategyRegistry.get(strategyId);
+    return strategy?.getCapitalUsage ? strategy.getCapitalUsage() : { ...EMPTY_USAGE };
+  }
+
+  async checkOrder(strategyId: string, orderValue: number): Promise<RiskCheck> {
+    const allocation = await this.getAllocation(strategyId);
+    if (!allocation) return { allowed: true };
+    return evaluateBudget(allocation, await this.getUsage(strategyId), orderValue);
+  }
+
+  async getStatus(): Promise<StrategyAllocationStatus[]> {
+    const config = await storage.getBotConfig();
+    const statuses: StrategyAllocationStatus[] = [];
+    for (const strategy of strategyRegistry.list()) {
+      const [allocation, usage, running] = await Promise.all([
+        this.getAllocation(strategy.id),
+        this.getUsage(strategy.id),
+        strategy.isRunning(),
+      ]);
+      const enabled = strategy.host === "engine"
+        ? (config ? await this.isEnabled(strategy.id, config) : false)
+        : running;
+      const limits: BudgetLimits = {
+        capitalBudget: allocation?.capitalBudget ?? null,
+        maxExposure: allocation?.maxExposure ?? null,
+        maxDailyLoss: allocation?.maxDailyLoss ?? null,
+      };
+      statuses.push({
+        strategyId: strategy.id,
+        name: strategy.name,
+        host: strategy.host,
+        enabled,
+        running,
+        ...limits,
+        usage: {
+          committed: parseFloat(usage.committed.toFixed(4)),
+          exposure: parseFloat(usage.exposure.toFixed(4)),
+          dailyPnl: parseFloat(usage.dailyPnl.toFixed(4)),
+        },
+        blockedReason: evaluateBudget(limits, usage, 0).reason ?? null,
+      });
+    }
+    return statuses;
+  }
+}
+
+export const capitalAllocator = new CapitalAllocator();
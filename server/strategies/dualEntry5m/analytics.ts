@@ -0,0 +1,85 @@
+import type { DualEntryAnalytics, DualEntryCycle } from "@shared/schema";
+
+const WIN_OUTCOMES = ["TP_HIT", "FULL_EXIT"];
+
+/** TP exits always count as wins; a merge only when the pairs plus any remainder made money. */
+export function isWinningCycle(c: { outcome?: string | null; pnl?: number | null }): boolean {
+  if (c.outcome === "MERGED") return (c.pnl ?? 0) > 0;
+  return WIN_OUTCOMES.includes(c.outcome ?? "");
+}
+
+/** Hour/day/entry-method breakdown of completed cycles, as served by /analytics. */
+export function computeCycleAnalytics(completedCycles: DualEntryCycle[]): DualEntryAnalytics {
+  const hourlyStats: Record<number, { total: number; wins: number; pnl: number; avgVol: number; volCount: number }> = {};
+  for (let h = 0; h < 24; h++) {
+    hourlyStats[h] = { total: 0, wins: 0, pnl: 0, avgVol: 0, volCount: 0 };
+  }
+
+  let totalCycles = 0;
+  let totalWins = 0;
+  let totalPnl = 0;
+  let totalFlat = 0;
+  let totalPartial = 0;
+  let totalMerged = 0;
+
+  for (const c of completedCycles) {
+    const hour = c.hourOfDay ?? 0;
+    const isWin = isWinningCycle(c);
+    const pnl = c.pnl ?? 0;
+
+    hourlyStats[hour].total++;
+    if (isWin) hourlyStats[hour].wins++;
+    hourlyStats[hour].pnl += pnl;
+    if (c.btcVolatility != null) {
+      hourlyStats[hour].avgVol += c.btcVolatility;
+      hourlyStats[hour].volCount++;
+    }
+
+    totalCycles++;
+    if (isWin) totalWins++;
+    totalPnl += pnl;
+    if (c.outcome === "FLAT") totalFlat++;
+    if (c.outcome === "PARTIAL_EXIT") totalPartial++;
+    if (c.outcome === "MERGED") totalMerged++;
+  }
+
+  for (const h of Object.keys(hourlyStats)) {
+    const s = hourlyStats[parseInt(h)];
+    if (s.volCount > 0) s.avgVol = s.avgVol / s.volCount;
+  }
+
+  const dayStats: Record<number, { total: number; wins: number; pnl: number }> = {};
+  for (let d = 0; d < 7; d++) {
+    dayStats[d] = { total: 0, wins: 0, pnl: 0 };
+  }
+  for (const c of completedCycles) {
+    const day = c.dayOfWeek ?? 0;
+    dayStats[day].total++;
+    if (isWinningCycle(c)) dayStats[day].wins++;
+    dayStats[day].pnl += c.pnl ?? 0;
+  }
+
+  const entryMethodStats: Record<string, { total: number; wins: number; pnl: number }> = {};
+  for (const c of completedCycles) {
+    const method = c.entryMethod ?? "fixed";
+    if (!entryMethodStats[method]) entryMethodStats[method] = { total: 0, wins: 0, pnl: 0 };
+    entryMethodStats[method].total++;
+    if (isWinningCycle(c)) entryMethodStats[method].wins++;
+    entryMethodStats[method].pnl += c.pnl ?? 0;
+  }
+
+  return {
+    summary: {
+      totalCycles,
+      totalWins,
+      winRate: totalCycles > 0 ? (totalWins / totalCycles * 100).toFixed(1) : "0",
+      totalPnl: totalPnl.toFixed(4),
+      totalFlat,
+      totalPartial,
+      totalMerged,
+    },
+    hourlyStats,
+    dayStats,
+    entryMethodStats,
+  };
+}
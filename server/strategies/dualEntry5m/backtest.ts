@@ -0,0 +1,243 @@
+import { z } from "zod";
+import { db } from "../../db";
+import { dualEntryConfig, updateDualEntryConfigSchema, type DualEntryBacktestResult } from "@shared/schema";
+import { BinanceOracle, oracleRegistry } from "../../bot/binance-oracle";
+import { SimulatedClock } from "../../bot/clock";
+import { sessionSelectionSchema, oracleOverridesSchema } from "../../bot/backtester";
+import {
+  SessionReplay, createRng, listSessionSlugs, loadReplaySession, parseMarketWindow, summarizePnlSeries,
+  type MarketWindow,
+} from "../../bot/backtest-replay";
+import type { RecordedSessionData } from "../../bot/market-recorder";
+import { DualEntry5mEngine, strategyConfigFromRow } from "./engine";
+import { MemoryDualEntryStore } from "./cycle-store";
+import { SimulatedExchange } from "./simulated-exchange";
+import { VolatilityTracker } from "./volatility-tracker";
+import { computeCycleAnalytics, isWinningCycle } from "./analytics";
+import type { AssetType, Market5mInfo } from "./market-5m-discovery";
+import type { StrategyConfig } from "./types";
+
+export const dualEntryBacktestParamsSchema = updateDualEntryConfigSchema
+  .omit({
+    isActive: true,
+    isDryRun: true,
+    marketTokenYes: true,
+    marketTokenNo: true,
+    marketSlug: true,
+    marketQuestion: true,
+    negRisk: true,
+    tickSize: true,
+    maxConcurrentCycles: true,
+    multiMarketEnabled: true,
+    additionalMarkets: true,
+    autoRotate5m: true,
+    autoRotate5mAsset: true,
+  })
+  .merge(sessionSelectionSchema)
+  .extend({
+    oracle: oracleOverridesSchema.optional(),
+    tickMs: z.number().int().min(250).max(60000).optional(),
+    seed: z.number().int().optional(),
+  });
+
+export type DualEntryBacktestParams = z.infer<typeof dualEntryBacktestParamsSchema>;
+
+interface ActiveSession {
+  slug: string;
+  window: MarketWindow;
+  session: RecordedSessionData;
+  replay: SessionReplay;
+}
+
+const VOLATILITY_SAMPLE_MS = 10_000;
+
+function toMarketInfo(s: ActiveSession, now: number): Market5mInfo {
+  return {
+    slug: s.slug,
+    title: s.slug,
+    question: s.slug,
+    conditionId: "",
+    tokenUp: s.session.tokenUp!,
+    tokenDown: s.session.tokenDown ?? "",
+    outcomes: ["Up", "Down"],
+    outcomePrices: [],
+    negRisk: false,
+    tickSize: 0.01,
+    intervalStart: Math.floor(s.window.start / 1000),
+    intervalEnd: Math.floor(s.window.end / 1000),
+    active: true,
+    closed: false,
+    acceptingOrders: true,
+    timeRemainingMs: Math.max(0, s.window.end - now),
+  };
+}
+
+/**
+ * Drives a private DualEntry5mEngine over recorded sessions on a simulated clock.
+ * Orders go to a SimulatedExchange fed by the replayed books, cycles are kept in
+ * memory as dual_entry_cycles rows; dual_entry_config is only read.
+ */
+export async function runDualEntryBacktest(params: DualEntryBacktestParams = {}): Promise<DualEntryBacktestResult> {
+  const startedAt = Date.now();
+  const [row] = await db.select().from(dualEntryConfig).limit(1);
+  if (!row) throw new Error("No dual-entry config found");
+
+  const { slugs: _slugs, from: _from, to: _to, limit: _limit, oracle: oracleOverrides, tickMs = 2000, seed = 1, ...overrides } = params;
+  const baseConfig: StrategyConfig = {
+    ...strategyConfigFromRow(row),
+    ...overrides,
+    isDryRun: true,
+    autoRotate5m: true,
+    multiMarketEnabled: false,
+    additionalMarkets: [],
+  };
+
+  const clock = new SimulatedClock();
+  const now = () => clock.now();
+  const asset = baseConfig.autoRotate5mAsset as AssetType;
+  const oracle = new BinanceOracle(clock, asset);
+  oracle.updateConfig({ ...oracleRegistry.get(asset).getConfig(), ...oracleOverrides });
+  const exchange = new SimulatedExchange(createRng(seed));
+  const store = new MemoryDualEntryStore(now, "bt");
+  const volatility = new VolatilityTracker(clock);
+
+  const slugs = await listSessionSlugs(params);
+  const active: ActiveSession[] = [];
+  let nextIndex = 0;
+  let pending: ActiveSession | null = null;
+  let lastOracleTs = 0;
+  let sessionsReplayed = 0;
+  let lastWindowEnd = 0;
+  const slugByToken = new Map<string, string>();
+
+  const loadNext = async (): Promise<ActiveSession | null> => {
+    while (nextIndex < slugs.length) {
+      const slug = slugs[nextIndex++];
+      const session = await loadReplaySession(slug);
+      if (!session) continue;
+      const replay = new SessionReplay(
+        session,
+        (price, ts) => {
+          if (ts <= lastOracleTs) return;
+          lastOracleTs = ts;
+          oracle.replayTick(price, ts);
+        },
+        (tokenId, trade) => exchange.recordTrade(tokenId, trade),
+      );
+      slugByToken.set(session.tokenUp!, slug);
+      return { slug, window: parseMarketWindow(slug, session.from), session, replay };
+    }
+    return null;
+  };
+
+  const currentSession = () => active.find(s => s.window.start <= clock.now() && clock.now() < s.window.end) ?? null;
+
+  const engine = new DualEntry5mEngine({
+    clock,
+    exchange,
+    store,
+    volatility,
+    oracleFor: () => oracle,
+    emit: () => {},
+    checkBudget: async () => ({ allowed: true }),
+    quiet: true,
+    discoverMarket: async () => {
+      const current = currentSession();
+      return current ? toMarketInfo(current, clock.now()) : null;
+    },
+  });
+
+  pending = await loadNext();
+  const started = pending !== null;
+  if (pending) {
+    clock.advanceTo(pending.window.start);
+    await engine.startReplay({
+      ...baseConfig,
+      marketTokenYes: pending.session.tokenUp!,
+      marketTokenNo: pending.session.tokenDown ?? "",
+      marketSlug: pending.slug,
+    });
+  }
+
+  const graceMs = (baseConfig.exitTtlSeconds + baseConfig.postStartCleanupSeconds) * 1000 + tickMs;
+  let lastVolSample = 0;
+
+  while (started && (pending || active.length > 0 || clock.now() <= lastWindowEnd + graceMs)) {
+    if (pending && active.length === 0 && engine.getStatus().activeCycles === 0 && pending.window.start > clock.now() + tickMs) {
+      clock.advanceTo(pending.window.start);
+    }
+
+    while (pending && pending.window.start <= clock.now()) {
+      active.push(pending);
+      sessionsReplayed++;
+      lastWindowEnd = Math.max(lastWindowEnd, pending.window.end);
+      pending = await loadNext();
+    }
+
+    for (const s of active.slice()) {
+      s.replay.advanceTo(clock.now());
+      if (clock.now() >= s.window.end) {
+        exchange.updateBook(s.session.tokenUp!, null);
+        if (s.session.tokenDown) exchange.updateBook(s.session.tokenDown, null);
+        active.splice(active.indexOf(s), 1);
+        continue;
+      }
+      const books = s.replay.getOrderBooks();
+      exchange.updateBook(s.session.tokenUp!, books.up);
+      if (s.session.tokenDown) exchange.updateBook(s.session.tokenDown, books.down);
+    }
+    exchange.match();
+
+    const current = currentSession();
+    if (current && clock.now() - lastVolSample >= VOLATILITY_SAMPLE_MS) {
+      const books = current.replay.getOrderBooks();
+      if (books.up) {
+        volatility.addTick(books.up.midpoint(), books.down?.midpoint() ?? null);
+        lastVolSample = clock.now();
+      }
+    }
+
+    await engine.tick();
+    clock.advance(tickMs);
+  }
+
+  await engine.stopReplay("Backtest ended");
+
+  const cycles = store.getCycles();
+  const completed = cycles.filter(c => c.state === "DONE" && c.hourOfDay != null && c.outcome != null);
+  const traded = completed.filter(c => c.yesFilled || c.noFilled);
+  const wins = traded.filter(isWinningCycle);
+  const pnls = traded.map(c => c.pnl ?? 0);
+  const grossWin = pnls.filter(p => p > 0).reduce((s, p) => s + p, 0);
+  const grossLoss = Math.abs(pnls.filter(p => p < 0).reduce((s, p) => s + p, 0));
+  const totalPnl = pnls.reduce((s, p) => s + p, 0);
+  const { equity, maxDrawdown, sharpe } = summarizePnlSeries(completed.map(c => ({
+    ts: (c.windowEnd ?? c.windowStart).getTime(),
+    marketSlug: slugByToken.get(c.marketTokenYes ?? "") ?? "",
+    pnl: c.pnl ?? 0,
+  })));
+
+  return {
+    strategy: "dual_entry_5m",
+    params: { ...baseConfig, oracle: oracle.getConfig(), tickMs, seed },
+    ranAt: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - startedAt,
+    sessions: sessionsReplayed,
+    cycles,
+    analytics: computeCycleAnalytics(completed),
+    equity,
+    metrics: {
+      windows: sessionsReplayed,
+      trades: traded.length,
+      wins: wins.length,
+      losses: traded.length - wins.length,
+      winRate: traded.length > 0 ? parseFloat((wins.length / traded.length).toFixed(4)) : 0,
+      totalPnl: parseFloat(totalPnl.toFixed(4)),
+      avgPnl: traded.length > 0 ? parseFloat((totalPnl / traded.length).toFixed(4)) : 0,
+      profitFactor: grossLoss > 0 ? parseFloat((grossWin / grossLoss).toFixed(4)) : null,
+      maxDrawdown,
+      sharpe,
+      fees: 0,
+    },
+  };
+}
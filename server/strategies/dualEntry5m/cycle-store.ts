@@ -0,0 +1,113 @@
+import { db } from "../../db";
+import { dualEntryConfig, dualEntryCycles, type DualEntryCycle, type InsertDualEntryCycle } from "@shared/schema";
+import { eq, desc } from "drizzle-orm";
+import type { Market5mInfo } from "./market-5m-discovery";
+
+export interface DualEntryStore {
+  getLastCycleNumber(): Promise<number>;
+  insertCycle(values: InsertDualEntryCycle): Promise<string>;
+  updateCycle(id: string, values: Partial<InsertDualEntryCycle>): Promise<void>;
+  saveMarketSelection(market: Market5mInfo): Promise<void>;
+}
+
+export const dbDualEntryStore: DualEntryStore = {
+  async getLastCycleNumber() {
+    const lastCycles = await db.select().from(dualEntryCycles).orderBy(desc(dualEntryCycles.cycleNumber)).limit(1);
+    return lastCycles.length > 0 ? lastCycles[0].cycleNumber : 0;
+  },
+
+  async insertCycle(values) {
+    const [row] = await db.insert(dualEntryCycles).values(values).returning();
+    return row.id;
+  },
+
+  async updateCycle(id, values) {
+    await db.update(dualEntryCycles).set({ ...values, updatedAt: new Date() }).where(eq(dualEntryCycles.id, id));
+  },
+
+  async saveMarketSelection(market) {
+    const rows = await db.select().from(dualEntryConfig).limit(1);
+    if (rows.length === 0) return;
+    await db.update(dualEntryConfig).set({
+      marketTokenYes: market.tokenUp,
+      marketTokenNo: market.tokenDown,
+      marketSlug: market.slug,
+      marketQuestion: market.question,
+      negRisk: market.negRisk,
+      tickSize: String(market.tickSize),
+      updatedAt: new Date(),
+    }).where(eq(dualEntryConfig.id, rows[0].id));
+  },
+};
+
+/** Keeps cycles in memory as dual_entry_cycles rows, stamped with a simulated clock. */
+export class MemoryDualEntryStore implements DualEntryStore {
+  private rows: DualEntryCycle[] = [];
+
+  constructor(private readonly now: () => number, private readonly idPrefix = "mem") {}
+
+  async getLastCycleNumber() {
+    return this.rows.reduce((max, r) => Math.max(max, r.cycleNumber), 0);
+  }
+
+  async insertCycle(values: InsertDualEntryCycle) {
+    const ts = new Date(this.now());
+    const row = {
+      id: `${this.idPrefix}-${this.rows.length + 1}`,
+      state: "IDLE",
+      windowEnd: null,
+      yesOrderId: null,
+      noOrderId: null,
+      yesExchangeOrderId: null,
+      noExchangeOrderId: null,
+      yesFilled: false,
+      noFilled: false,
+      yesFilledSize: 0,
+      noFilledSize: 0,
+      yesFilledPrice: null,
+      noFilledPrice: null,
+      winnerSide: null,
+      tpOrderId: null,
+      scratchOrderId: null,
+      tpExchangeOrderId: null,
+      scratchExchangeOrderId: null,
+      tpFilled: false,
+      scratchFilled: false,
+      outcome: null,
+      pnl: null,
+      logs: [],
+      isDryRun: true,
+      hourOfDay: null,
+      dayOfWeek: null,
+      btcVolatility: null,
+      entryMethod: "fixed",
+      actualEntryPrice: null,
+      actualTpPrice: null,
+      actualOrderSize: null,
+      marketTokenYes: null,
+      marketTokenNo: null,
+      mergedSize: null,
+      mergeTxHash: null,
+      ...values,
+      createdAt: ts,
+      updatedAt: ts,
+    } as DualEntryCycle;
+    this.rows.push(row);
+    return row.id;
+  }
+
+  async updateCycle(id: string, values: Partial<InsertDualEntryCycle>) {
+    const row = this.rows.find(r => r.id === id);
+    if (!row) return;
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== undefined) (row as any)[key] = value;
+    }
+    row.updatedAt = new Date(this.now());
+  }
+
+  async saveMarketSelection() {}
+
+  getCycles(): DualEntryCycle[] {
+    return this.rows;
+  }
+}
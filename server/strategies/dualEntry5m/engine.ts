@@ -1,26 +1,132 @@
 import { db } from "../../db";
-import { dualEntryConfig, dualEntryCycles } from "@shared/schema";
-import { eq, desc, sql } from "drizzle-orm";
+import { dualEntryConfig, type DualEntryConfig } from "@shared/schema";
+import { eq, sql } from "drizzle-orm";
 import { liveTradingClient } from "../../bot/live-trading-client";
-import { polymarketClient } from "../../bot/polymarket-client";
-import { volatilityTracker } from "./volatility-tracker";
-import { fetchCurrentIntervalMarket, type AssetType, type IntervalType } from "./market-5m-discovery";
-import { binanceOracle } from "../../bot/binance-oracle";
+import { volatilityTracker, type VolatilityTracker } from "./volatility-tracker";
+import { fetchCurrentIntervalMarket, assetFromSlug, type AssetType, type IntervalType, type Market5mInfo } from "./market-5m-discovery";
+import { oracleRegistry, type BinanceOracle, type OracleWindow } from "../../bot/binance-oracle";
 import { marketRegimeFilter } from "../../bot/market-regime-filter";
+import { liveExchange, dryRunExchange, type DualEntryExchange, type DualEntryOrderParams } from "./exchange";
+import { dbDualEntryStore, type DualEntryStore } from "./cycle-store";
+import { realClock, type Clock, type TimerHandle } from "../../bot/clock";
+import { strategyRegistry, type StrategyEvent } from "../strategy";
+import { capitalAllocator } from "../capital-allocator";
+import { calculateFee } from "../../bot/order-manager";
+import type { RiskCheck } from "../../bot/risk-manager";
 import type { CycleState, CycleContext, CycleLogEntry, StrategyConfig, EngineStatus, MarketSlot } from "./types";
 
 const WINDOW_DURATION_5M_MS = 5 * 60 * 1000;
 const WINDOW_DURATION_15M_MS = 15 * 60 * 1000;
+const MAX_MERGE_ATTEMPTS = 3;
+/** A merge-remainder SELL still resting after this is cancelled and the rest held to settlement. */
+const MERGE_REMAINDER_TTL_MS = 30_000;
+
+export interface DualEntryEngineDeps {
+  clock: Clock;
+  /** null → live client, or the simulated dry-run venue when config.isDryRun */
+  exchange: DualEntryExchange | null;
+  store: DualEntryStore;
+  discoverMarket: (asset: AssetType, interval: IntervalType) => Promise<Market5mInfo | null>;
+  volatility: VolatilityTracker;
+  /** Oracle for the underlying of the market being traded. */
+  oracleFor: (asset: AssetType) => BinanceOracle;
+  /** Publishes strategy events (market rotation) to the other registered strategies. */
+  emit: (event: StrategyEvent) => void;
+  /** Checks the cost of a cycle's two entry legs against the strategy's capital budget. */
+  checkBudget: (orderValue: number) => Promise<RiskCheck>;
+  quiet: boolean;
+}
+
+export function strategyConfigFromRow(c: DualEntryConfig): StrategyConfig {
+  return {
+    marketTokenYes: c.marketTokenYes || "",
+    marketTokenNo: c.marketTokenNo || "",
+    marketSlug: c.marketSlug || "",
+    negRisk: c.negRisk,
+    tickSize: c.tickSize,
+    entryPrice: c.entryPrice,
+    tpPrice: c.tpPrice,
+    scratchPrice: c.scratchPrice,
+    entryLeadSecondsPrimary: c.entryLeadSecondsPrimary,
+    entryLeadSecondsRefresh: c.entryLeadSecondsRefresh,
+    postStartCleanupSeconds: c.postStartCleanupSeconds,
+    exitTtlSeconds: c.exitTtlSeconds,
+    orderSize: c.orderSize,
+    isDryRun: c.isDryRun,
+    smartScratchCancel: c.smartScratchCancel,
+    volFilterEnabled: c.volFilterEnabled,
+    volMinThreshold: c.volMinThreshold,
+    volMaxThreshold: c.volMaxThreshold,
+    volWindowMinutes: c.volWindowMinutes,
+    dynamicEntryEnabled: c.dynamicEntryEnabled,
+    dynamicEntryMin: c.dynamicEntryMin,
+    dynamicEntryMax: c.dynamicEntryMax,
+    momentumTpEnabled: c.momentumTpEnabled,
+    momentumTpMin: c.momentumTpMin,
+    momentumTpMax: c.momentumTpMax,
+    momentumWindowMinutes: c.momentumWindowMinutes,
+    dynamicSizeEnabled: c.dynamicSizeEnabled,
+    dynamicSizeMin: c.dynamicSizeMin,
+    dynamicSizeMax: c.dynamicSizeMax,
+    hourFilterEnabled: c.hourFilterEnabled,
+    hourFilterAllowed: (c.hourFilterAllowed as number[]) || [],
+    multiMarketEnabled: c.multiMarketEnabled,
+    additionalMarkets: (c.additionalMarkets as MarketSlot[]) || [],
+    dualTpMode: c.dualTpMode,
+    mergeEnabled: c.mergeEnabled,
+    mergeTrigger: c.mergeTrigger === "immediate" ? "immediate" : "scratch_fail",
+    autoRotate5m: c.autoRotate5m,
+    autoRotate5mAsset: c.autoRotate5mAsset || "btc",
+    autoRotateInterval: c.autoRotateInterval || "5m",
+  };
+}
+
+/**
+ * Matched size, average fill price and fee of a venue order status. The CLOB
+ * reports only the limit price and no fee, so those fall back to the limit
+ * price and the standard fee schedule.
+ */
+function isOrderDone(status: any): boolean {
+  return !status || status.status === "MATCHED" || status.status === "CANCELED";
+}
+
+function orderFill(status: any): { size: number; price: number; fee: number } {
+  const size = parseFloat(status?.size_matched || "0");
+  if (!(size > 0)) return { size: 0, price: 0, fee: 0 };
+  const price = parseFloat(status.avg_price ?? status.price ?? "0");
+  const fee = status.fee !== undefined ? parseFloat(status.fee) : calculateFee(price, size);
+  return { size, price, fee };
+}
 
 export class DualEntry5mEngine {
   private running = false;
   private currentCycles: Map<string, CycleContext> = new Map();
   private config: StrategyConfig | null = null;
-  private mainLoopInterval: ReturnType<typeof setInterval> | null = null;
+  private mainLoopInterval: TimerHandle | null = null;
   private cycleCounter = 0;
   private dedupeKeys = new Set<string>();
   private currentMarketSlug: string | null = null;
   private lastRotateCheck = 0;
+  private budgetBlockedWindow: Map<string, number> = new Map();
+  /** Opening reference of the current market's window; the oracle itself is shared with other engines. */
+  private oracleWindow: OracleWindow | null = null;
+  private deps: DualEntryEngineDeps;
+
+  constructor(deps: Partial<DualEntryEngineDeps> = {}) {
+    const clock = deps.clock ?? realClock;
+    this.deps = {
+      clock,
+      exchange: null,
+      store: dbDualEntryStore,
+      discoverMarket: (asset, interval) => fetchCurrentIntervalMarket(asset, interval, clock),
+      volatility: volatilityTracker,
+      oracleFor: (asset) => oracleRegistry.ensureConnected(asset),
+      emit: (event) => strategyRegistry.emit(event),
+      checkBudget: (orderValue) => capitalAllocator.checkOrder("dual_entry_5m", orderValue),
+      quiet: false,
+      ...deps,
+    };
+  }
 
   private getWindowDurationMs(): number {
     const interval = this.config?.autoRotateInterval || "5m";
@@ -36,10 +142,11 @@ export class DualEntry5mEngine {
 
     const cfg = await this.loadConfig();
     if (!cfg) return { success: false, error: "No config found" };
+    this.oracleWindow = null;
 
     if (cfg.autoRotate5m) {
       const interval = (cfg.autoRotateInterval === "15m" ? "15m" : "5m") as IntervalType;
-      const market = await fetchCurrentIntervalMarket(cfg.autoRotate5mAsset as AssetType, interval);
+      const market = await this.deps.discoverMarket(cfg.autoRotate5mAsset as AssetType, interval);
       if (market) {
         cfg.marketTokenYes = market.tokenUp;
         cfg.marketTokenNo = market.tokenDown;
@@ -48,16 +155,8 @@ export class DualEntry5mEngine {
         cfg.tickSize = String(market.tickSize);
         this.currentMarketSlug = market.slug;
 
-        const row = await this.getConfigRow();
-        await db.update(dualEntryConfig).set({
-          marketTokenYes: market.tokenUp,
-          marketTokenNo: market.tokenDown,
-          marketSlug: market.slug,
-          marketQuestion: market.question,
-          negRisk: market.negRisk,
-          tickSize: String(market.tickSize),
-          updatedAt: new Date(),
-        }).where(eq(dualEntryConfig.id, row.id));
+        await this.deps.store.saveMarketSelection(market);
+        this.alignOracleWindow(market);
 
         this.log("AUTO_ROTATE", `Auto-selected ${interval} market: ${market.slug} (${market.question})`);
       } else {
@@ -81,14 +180,13 @@ export class DualEntry5mEngine {
 
     await db.update(dualEntryConfig).set({ isActive: true, updatedAt: new Date() }).where(eq(dualEntryConfig.id, (await this.getConfigRow()).id));
 
-    const lastCycles = await db.select().from(dualEntryCycles).orderBy(desc(dualEntryCycles.cycleNumber)).limit(1);
-    this.cycleCounter = lastCycles.length > 0 ? lastCycles[0].cycleNumber : 0;
+    this.cycleCounter = await this.deps.store.getLastCycleNumber();
 
-    volatilityTracker.start(cfg.marketTokenYes, cfg.marketTokenNo);
+    this.deps.volatility.start(cfg.marketTokenYes, cfg.marketTokenNo);
 
     this.log("ENGINE_START", `Strategy started. Dry-run: ${cfg.isDryRun}. DualTP: ${cfg.dualTpMode}. AutoRotate5m: ${cfg.autoRotate5m}. Smart features: vol=${cfg.volFilterEnabled}, dynEntry=${cfg.dynamicEntryEnabled}, momTP=${cfg.momentumTpEnabled}, dynSize=${cfg.dynamicSizeEnabled}, smartCancel=${cfg.smartScratchCancel}, hourFilter=${cfg.hourFilterEnabled}`);
 
-    this.mainLoopInterval = setInterval(() => this.tick(), 2000);
+    this.mainLoopInterval = this.deps.clock.setInterval(() => this.tick(), 2000);
     this.tick();
 
     return { success: true };
@@ -98,7 +196,7 @@ export class DualEntry5mEngine {
     this.running = false;
 
     if (this.mainLoopInterval) {
-      clearInterval(this.mainLoopInterval);
+      this.deps.clock.clearInterval(this.mainLoopInterval);
       this.mainLoopInterval = null;
     }
 
@@ -113,7 +211,7 @@ export class DualEntry5mEngine {
     }
     this.currentCycles.clear();
 
-    volatilityTracker.stop();
+    this.deps.volatility.stop();
 
     const row = await this.getConfigRow();
     if (row) {
@@ -124,6 +222,38 @@ export class DualEntry5mEngine {
     this.config = null;
   }
 
+  /**
+   * Runs the engine on a clock driven by the caller (backtests): no main-loop
+   * timer, no volatility polling and no writes to dual_entry_config. The caller
+   * advances time and invokes tick().
+   */
+  async startReplay(config: StrategyConfig): Promise<void> {
+    this.config = { ...config };
+    this.running = true;
+    this.dedupeKeys.clear();
+    this.currentCycles.clear();
+    this.currentMarketSlug = config.marketSlug || null;
+    this.lastRotateCheck = 0;
+    this.oracleWindow = null;
+    this.cycleCounter = await this.deps.store.getLastCycleNumber();
+  }
+
+  async stopReplay(reason: string): Promise<void> {
+    const keys = Array.from(this.currentCycles.keys());
+    for (const key of keys) {
+      const cycle = this.currentCycles.get(key);
+      if (!cycle) continue;
+      if (cycle.state !== "DONE" && cycle.state !== "CLEANUP" && cycle.state !== "FAILSAFE") {
+        await this.transitionState(cycle, "CLEANUP");
+        await this.cleanupCycle(cycle, reason);
+      }
+      await this.persistCycle(cycle);
+    }
+    this.currentCycles.clear();
+    this.running = false;
+    this.config = null;
+  }
+
   getStatus(): EngineStatus {
     const primaryCycle = this.currentCycles.get("primary") || null;
     return {
@@ -131,7 +261,7 @@ export class DualEntry5mEngine {
       currentCycle: primaryCycle ? { ...primaryCycle, timers: [] } : null,
       config: this.config,
       nextWindowStart: this.running ? this.getNextWindowStart() : null,
-      volatility: this.config ? volatilityTracker.getSnapshot(
+      volatility: this.config ? this.deps.volatility.getSnapshot(
         this.config.volWindowMinutes,
         this.config.volMinThreshold,
         this.config.volMaxThreshold
@@ -152,7 +282,7 @@ export class DualEntry5mEngine {
     return results;
   }
 
-  private async tick(): Promise<void> {
+  async tick(): Promise<void> {
     if (!this.running || !this.config) return;
 
     try {
@@ -168,7 +298,7 @@ export class DualEntry5mEngine {
 
         if (!cycle) {
           const nextWindow = this.getNextWindowStart();
-          const now = Date.now();
+          const now = this.deps.clock.now();
           const armTime = nextWindow.getTime() - this.config.entryLeadSecondsPrimary * 1000;
 
           if (now >= armTime) {
@@ -188,14 +318,14 @@ export class DualEntry5mEngine {
   private async maybeRotateMarket(): Promise<void> {
     if (!this.config || !this.config.autoRotate5m) return;
 
-    const now = Date.now();
+    const now = this.deps.clock.now();
     if (now - this.lastRotateCheck < 10000) return;
     this.lastRotateCheck = now;
 
     if (this.currentCycles.size > 0) return;
 
     const interval = this.getInterval();
-    const market = await fetchCurrentIntervalMarket(this.config.autoRotate5mAsset as AssetType, interval);
+    const market = await this.deps.discoverMarket(this.config.autoRotate5mAsset as AssetType, interval);
     if (!market) return;
 
     if (market.slug === this.currentMarketSlug) return;
@@ -211,18 +341,11 @@ export class DualEntry5mEngine {
     this.config.negRisk = market.negRisk;
     this.config.tickSize = String(market.tickSize);
 
-    const row = await this.getConfigRow();
-    await db.update(dualEntryConfig).set({
-      marketTokenYes: market.tokenUp,
-      marketTokenNo: market.tokenDown,
-      marketSlug: market.slug,
-      marketQuestion: market.question,
-      negRisk: market.negRisk,
-      tickSize: String(market.tickSize),
-      updatedAt: new Date(),
-    }).where(eq(dualEntryConfig.id, row.id));
-
-    volatilityTracker.updateTokens(market.tokenUp, market.tokenDown);
+    await this.deps.store.saveMarketSelection(market);
+
+    this.deps.volatility.updateTokens(market.tokenUp, market.tokenDown);
+    this.alignOracleWindow(market);
+    this.deps.emit({ type: "market_rotated", source: "dual_entry_5m", slug: market.slug });
 
     this.log("AUTO_ROTATE", `Rotated to new ${interval} market: ${market.slug} | ${market.question} | remaining: ${(market.timeRemainingMs / 1000).toFixed(0)}s`);
   }
@@ -256,14 +379,14 @@ export class DualEntry5mEngine {
     if (!this.config) return false;
 
     if (this.config.hourFilterEnabled && this.config.hourFilterAllowed.length > 0) {
-      const currentHour = new Date().getUTCHours();
+      const currentHour = new Date(this.deps.clock.now()).getUTCHours();
       if (!this.config.hourFilterAllowed.includes(currentHour)) {
         return false;
       }
     }
 
     if (this.config.volFilterEnabled) {
-      const snapshot = volatilityTracker.getSnapshot(
+      const snapshot = this.deps.volatility.getSnapshot(
         this.config.volWindowMinutes,
         this.config.volMinThreshold,
         this.config.volMaxThreshold
@@ -274,8 +397,9 @@ export class DualEntry5mEngine {
       }
     }
 
-    if (binanceOracle.isConnected()) {
-      const signal = binanceOracle.getSignal();
+    const oracle = this.deps.oracleFor(assetFromSlug(this.config.marketSlug) ?? this.config.autoRotate5mAsset as AssetType);
+    if (oracle.isConnected()) {
+      const signal = oracle.getSignal(this.oracleWindow ?? oracle.currentWindow(this.getWindowDurationMs()));
       if (signal.strength === "NONE") {
         return false;
       }
@@ -291,7 +415,7 @@ export class DualEntry5mEngine {
       return { price: this.config.entryPrice, method: "fixed" };
     }
 
-    const prices = volatilityTracker.getLatestPrices();
+    const prices = this.deps.volatility.getLatestPrices();
     if (!prices) return { price: this.config.entryPrice, method: "fixed" };
 
     const spread = Math.abs(prices.yesPrice - prices.noPrice);
@@ -318,7 +442,7 @@ export class DualEntry5mEngine {
       return this.config.tpPrice;
     }
 
-    const momentum = volatilityTracker.getMomentum(this.config.momentumWindowMinutes);
+    const momentum = this.deps.volatility.getMomentum(this.config.momentumWindowMinutes);
     const range = this.config.momentumTpMax - this.config.momentumTpMin;
 
     let tp: number;
@@ -341,7 +465,7 @@ export class DualEntry5mEngine {
       return this.config.orderSize;
     }
 
-    const vol = volatilityTracker.getVolatility(this.config.volWindowMinutes);
+    const vol = this.deps.volatility.getVolatility(this.config.volWindowMinutes);
     const minSize = this.config.dynamicSizeMin;
     const maxSize = this.config.dynamicSizeMax;
 
@@ -360,22 +484,32 @@ export class DualEntry5mEngine {
   }
 
   private async startNewCycle(windowStart: Date, slotKey: string, tokenYes: string, tokenNo: string, negRisk: boolean, tickSize: string): Promise<void> {
-    this.cycleCounter++;
-    const cycleNumber = this.cycleCounter;
-
     const entry = this.computeEntryPrice();
     const tp = this.computeTpPrice();
     const orderSize = this.computeOrderSize(tokenYes);
-    const vol = volatilityTracker.getVolatility(this.config?.volWindowMinutes ?? 15);
 
-    const [row] = await db.insert(dualEntryCycles).values({
+    const budget = await this.deps.checkBudget(entry.price * orderSize * 2);
+    if (!budget.allowed) {
+      if (this.budgetBlockedWindow.get(slotKey) !== windowStart.getTime()) {
+        this.budgetBlockedWindow.set(slotKey, windowStart.getTime());
+        this.log("BUDGET", `Skipping ${slotKey} window ${windowStart.toISOString()}: ${budget.reason}`);
+      }
+      return;
+    }
+
+    this.cycleCounter++;
+    const cycleNumber = this.cycleCounter;
+    const vol = this.deps.volatility.getVolatility(this.config?.volWindowMinutes ?? 15);
+    const nowDate = new Date(this.deps.clock.now());
+
+    const cycleId = await this.deps.store.insertCycle({
       cycleNumber,
       state: "ARMED",
       windowStart,
       windowEnd: new Date(windowStart.getTime() + this.getWindowDurationMs()),
       isDryRun: this.config!.isDryRun,
-      hourOfDay: new Date().getUTCHours(),
-      dayOfWeek: new Date().getUTCDay(),
+      hourOfDay: nowDate.getUTCHours(),
+      dayOfWeek: nowDate.getUTCDay(),
       btcVolatility: vol,
       entryMethod: entry.method,
       actualEntryPrice: entry.price,
@@ -384,10 +518,10 @@ export class DualEntry5mEngine {
       marketTokenYes: tokenYes,
       marketTokenNo: tokenNo,
       logs: [],
-    }).returning();
+    });
 
     const cycle: CycleContext = {
-      cycleId: row.id,
+      cycleId,
       cycleNumber,
       windowStart,
       state: "ARMED",
@@ -401,6 +535,7 @@ export class DualEntry5mEngine {
       scratchFilled: false,
       logs: [],
       timers: [],
+      placedOrderIds: [],
       actualEntryPrice: entry.price,
       actualTpPrice: tp,
       actualOrderSize: orderSize,
@@ -417,7 +552,7 @@ export class DualEntry5mEngine {
 
   private async processCycleState(cycle: CycleContext, slotKey: string): Promise<void> {
     if (!this.config) return;
-    const now = Date.now();
+    const now = this.deps.clock.now();
     const windowMs = cycle.windowStart.getTime();
     const cfg = this.config;
 
@@ -445,9 +580,26 @@ export class DualEntry5mEngine {
 
       case "HEDGED":
       case "EXIT_WORKING": {
+        if (cycle.mergeRemainders) {
+          await this.checkMergeRemainders(cycle, slotKey);
+          break;
+        }
+        if (cycle.state === "HEDGED" && this.shouldMergeImmediately(cycle)) {
+          await this.mergeCycle(cycle, slotKey, "hedged pair with equal fills");
+          break;
+        }
+        if (cycle.scratchRejected && this.canMergeAfterExitFail(cycle)) {
+          await this.mergeCycle(cycle, slotKey, "scratch order rejected");
+          break;
+        }
         await this.checkExitFills(cycle, slotKey);
         const exitElapsed = (now - windowMs) / 1000;
         if (exitElapsed > cfg.exitTtlSeconds && cfg.exitTtlSeconds > 0) {
+          if (cycle.state === "EXIT_WORKING" && this.canMergeAfterExitFail(cycle)) {
+            this.logCycle(cycle, "EXIT_TTL", `Exit TTL expired (${cfg.exitTtlSeconds}s) with both legs still held. Merging instead of cleanup.`);
+            await this.mergeCycle(cycle, slotKey, `exit orders unfilled after ${Math.round(exitElapsed)}s`);
+            break;
+          }
           this.logCycle(cycle, "EXIT_TTL", `Exit TTL expired (${cfg.exitTtlSeconds}s). Cleaning up remaining orders.`);
           await this.cleanupCycle(cycle, `Exit TTL expired after ${Math.round(exitElapsed)}s`);
         }
@@ -458,6 +610,7 @@ export class DualEntry5mEngine {
       case "CLEANUP":
       case "FAILSAFE": {
         this.clearCycleTimers(cycle);
+        this.exchange().release?.(cycle.placedOrderIds);
         await this.persistCycle(cycle);
         this.currentCycles.delete(slotKey);
         break;
@@ -478,7 +631,7 @@ export class DualEntry5mEngine {
 
     if (!this.dedupeKeys.has(dedupeYes)) {
       this.dedupeKeys.add(dedupeYes);
-      const yesResult = await this.placeOrder({
+      const yesResult = await this.placeOrder(cycle, {
         tokenId: tokenYes,
         side: "BUY",
         price: entryPrice,
@@ -498,7 +651,7 @@ export class DualEntry5mEngine {
 
     if (!this.dedupeKeys.has(dedupeNo)) {
       this.dedupeKeys.add(dedupeNo);
-      const noResult = await this.placeOrder({
+      const noResult = await this.placeOrder(cycle, {
         tokenId: tokenNo,
         side: "BUY",
         price: entryPrice,
@@ -536,7 +689,7 @@ export class DualEntry5mEngine {
     if (!cycle.yesFilled && cycle.yesExchangeOrderId) {
       await this.cancelOrder(cycle.yesExchangeOrderId, "refresh YES");
       this.dedupeKeys.add(`refresh-yes-${cycle.cycleNumber}`);
-      const yesResult = await this.placeOrder({
+      const yesResult = await this.placeOrder(cycle, {
         tokenId: tokenYes,
         side: "BUY",
         price: entryPrice,
@@ -554,7 +707,7 @@ export class DualEntry5mEngine {
     if (!cycle.noFilled && cycle.noExchangeOrderId) {
       await this.cancelOrder(cycle.noExchangeOrderId, "refresh NO");
       this.dedupeKeys.add(`refresh-no-${cycle.cycleNumber}`);
-      const noResult = await this.placeOrder({
+      const noResult = await this.placeOrder(cycle, {
         tokenId: tokenNo,
         side: "BUY",
         price: entryPrice,
@@ -576,9 +729,11 @@ export class DualEntry5mEngine {
     if (!cycle.yesFilled && cycle.yesExchangeOrderId) {
       const status = await this.getOrderStatus(cycle.yesExchangeOrderId);
       if (status && parseFloat(status.size_matched || "0") > 0) {
+        const fill = orderFill(status);
         cycle.yesFilled = true;
-        cycle.yesFilledSize = parseFloat(status.size_matched);
-        cycle.yesFilledPrice = cycle.actualEntryPrice ?? this.config.entryPrice;
+        cycle.yesFilledSize = fill.size;
+        cycle.yesFilledPrice = fill.price;
+        cycle.yesFee = fill.fee;
         this.logCycle(cycle, "FILL_YES", `YES filled: ${status.size_matched} @ ${cycle.yesFilledPrice}`);
       }
     }
@@ -586,15 +741,18 @@ export class DualEntry5mEngine {
     if (!cycle.noFilled && cycle.noExchangeOrderId) {
       const status = await this.getOrderStatus(cycle.noExchangeOrderId);
       if (status && parseFloat(status.size_matched || "0") > 0) {
+        const fill = orderFill(status);
         cycle.noFilled = true;
-        cycle.noFilledSize = parseFloat(status.size_matched);
-        cycle.noFilledPrice = cycle.actualEntryPrice ?? this.config.entryPrice;
+        cycle.noFilledSize = fill.size;
+        cycle.noFilledPrice = fill.price;
+        cycle.noFee = fill.fee;
         this.logCycle(cycle, "FILL_NO", `NO filled: ${status.size_matched} @ ${cycle.noFilledPrice}`);
       }
     }
 
     if (cycle.yesFilled && cycle.noFilled) {
       await this.transitionState(cycle, "HEDGED");
+      if (this.shouldMergeImmediately(cycle)) return;
       await this.placeExitOrders(cycle);
     } else if ((cycle.yesFilled || cycle.noFilled) && cycle.state === "ENTRY_WORKING") {
       await this.transitionState(cycle, "PARTIAL_FILL");
@@ -617,7 +775,7 @@ export class DualEntry5mEngine {
 
       if (!this.dedupeKeys.has(dedupeTpYes)) {
         this.dedupeKeys.add(dedupeTpYes);
-        const tpYesResult = await this.placeOrder({
+        const tpYesResult = await this.placeOrder(cycle, {
           tokenId: tokenYes,
           side: "SELL",
           price: tpPrice,
@@ -634,7 +792,7 @@ export class DualEntry5mEngine {
 
       if (!this.dedupeKeys.has(dedupeTpNo)) {
         this.dedupeKeys.add(dedupeTpNo);
-        const tpNoResult = await this.placeOrder({
+        const tpNoResult = await this.placeOrder(cycle, {
           tokenId: tokenNo,
           side: "SELL",
           price: tpPrice,
@@ -663,7 +821,7 @@ export class DualEntry5mEngine {
 
       if (!this.dedupeKeys.has(dedupeTp)) {
         this.dedupeKeys.add(dedupeTp);
-        const tpResult = await this.placeOrder({
+        const tpResult = await this.placeOrder(cycle, {
           tokenId: winnerToken,
           side: "SELL",
           price: tpPrice,
@@ -681,7 +839,7 @@ export class DualEntry5mEngine {
 
       if (!this.dedupeKeys.has(dedupeScratch)) {
         this.dedupeKeys.add(dedupeScratch);
-        const scratchResult = await this.placeOrder({
+        const scratchResult = await this.placeOrder(cycle, {
           tokenId: loserToken,
           side: "SELL",
           price: cfg.scratchPrice,
@@ -694,6 +852,9 @@ export class DualEntry5mEngine {
           cycle.scratchOrderId = dedupeScratch;
           cycle.scratchExchangeOrderId = scratchResult.orderID;
           this.logCycle(cycle, "SCRATCH_PLACED", `Scratch order: SELL loser ${loserSize} @ ${cfg.scratchPrice} (${scratchResult.orderID})`);
+        } else {
+          cycle.scratchRejected = true;
+          this.logCycle(cycle, "SCRATCH_FAIL", `Scratch order rejected: ${scratchResult.errorMsg || "unknown error"}`);
         }
       }
     }
@@ -793,10 +954,9 @@ export class DualEntry5mEngine {
     if (cycle.yesFilled && !cycle.noFilled) {
       if (cycle.noExchangeOrderId) await this.cancelOrder(cycle.noExchangeOrderId, "cancel unfilled NO");
 
-      const bestBid = await this.getBestBid(tokenYes);
-      const exitPrice = bestBid >= cfg.scratchPrice ? bestBid : cfg.scratchPrice;
+      const exitPrice = await this.partialExitPrice(tokenYes, cycle.yesFilledSize, cfg.scratchPrice);
 
-      const result = await this.placeOrder({
+      const result = await this.placeOrder(cycle, {
         tokenId: tokenYes,
         side: "SELL",
         price: exitPrice,
@@ -811,10 +971,9 @@ export class DualEntry5mEngine {
     } else if (cycle.noFilled && !cycle.yesFilled) {
       if (cycle.yesExchangeOrderId) await this.cancelOrder(cycle.yesExchangeOrderId, "cancel unfilled YES");
 
-      const bestBid = await this.getBestBid(tokenNo);
-      const exitPrice = bestBid >= cfg.scratchPrice ? bestBid : cfg.scratchPrice;
+      const exitPrice = await this.partialExitPrice(tokenNo, cycle.noFilledSize, cfg.scratchPrice);
 
-      const result = await this.placeOrder({
+      const result = await this.placeOrder(cycle, {
         tokenId: tokenNo,
         side: "SELL",
         price: exitPrice,
@@ -831,49 +990,200 @@ export class DualEntry5mEngine {
     await this.completeCycle(cycle, slotKey, "PARTIAL_EXIT");
   }
 
+  private shouldMergeImmediately(cycle: CycleContext): boolean {
+    const cfg = this.config;
+    if (!cfg || !cfg.mergeEnabled || cfg.mergeTrigger !== "immediate") return false;
+    return cycle.yesFilledSize > 0 && Math.abs(cycle.yesFilledSize - cycle.noFilledSize) < 1e-6;
+  }
+
+  private canMergeAfterExitFail(cycle: CycleContext): boolean {
+    const cfg = this.config;
+    if (!cfg || !cfg.mergeEnabled || cfg.mergeTrigger !== "scratch_fail") return false;
+    const legsStillHeld = cfg.dualTpMode
+      ? !cycle.tpYesFilled && !cycle.tpNoFilled
+      : !cycle.tpFilled && !cycle.scratchFilled;
+    return legsStillHeld && Math.min(cycle.yesFilledSize, cycle.noFilledSize) > 0;
+  }
+
+  private async mergeCycle(cycle: CycleContext, slotKey: string, reason: string): Promise<void> {
+    if (!this.config) return;
+    const cfg = this.config;
+    const dedupeMerge = `merge-${cycle.cycleNumber}`;
+    if (this.dedupeKeys.has(dedupeMerge)) return;
+    this.dedupeKeys.add(dedupeMerge);
+
+    const tokenYes = cycle.marketTokenYes ?? cfg.marketTokenYes;
+    const tokenNo = cycle.marketTokenNo ?? cfg.marketTokenNo;
+
+    if (cycle.tpExchangeOrderId && !cycle.tpFilled) await this.cancelOrder(cycle.tpExchangeOrderId, "merge: cancel TP");
+    if (cycle.scratchExchangeOrderId && !cycle.scratchFilled) await this.cancelOrder(cycle.scratchExchangeOrderId, "merge: cancel scratch");
+    if (cycle.tpYesExchangeOrderId && !cycle.tpYesFilled) await this.cancelOrder(cycle.tpYesExchangeOrderId, "merge: cancel TP YES");
+    if (cycle.tpNoExchangeOrderId && !cycle.tpNoFilled) await this.cancelOrder(cycle.tpNoExchangeOrderId, "merge: cancel TP NO");
+
+    // Exits can fill partly before their cancel lands: only what is still held can be merged.
+    const yesExit = await this.exitFills(cycle, "YES");
+    const noExit = await this.exitFills(cycle, "NO");
+    const yesHeld = Math.max(0, cycle.yesFilledSize - yesExit.size);
+    const noHeld = Math.max(0, cycle.noFilledSize - noExit.size);
+    const amount = parseFloat(Math.min(yesHeld, noHeld).toFixed(4));
+
+    if (!(amount > 0)) {
+      this.logCycle(cycle, "MERGE_SKIP", `Nothing left to merge (YES held ${yesHeld}, NO held ${noHeld})`);
+      await this.cleanupCycle(cycle, `Merge skipped: exits already filled (${reason})`);
+      return;
+    }
+
+    this.logCycle(cycle, "MERGE", `Merging ${amount} YES+NO pairs into USDC (${reason})`);
+
+    const result = await this.exchange().mergePositions({ tokenYes, negRisk: cfg.negRisk, amount });
+
+    if (!result.success) {
+      this.dedupeKeys.delete(dedupeMerge);
+      cycle.mergeAttempts = (cycle.mergeAttempts ?? 0) + 1;
+      this.logCycle(cycle, "MERGE_FAIL", `Merge failed (attempt ${cycle.mergeAttempts}/${MAX_MERGE_ATTEMPTS}): ${result.error}`);
+      if (cycle.state === "HEDGED") {
+        await this.placeExitOrders(cycle);
+      } else if (cycle.mergeAttempts >= MAX_MERGE_ATTEMPTS) {
+        await this.cleanupCycle(cycle, `Merge failed: ${result.error}`);
+      }
+      return;
+    }
+
+    const { yesPrice, noPrice } = this.entryFillPrices(cycle);
+    cycle.mergedSize = amount;
+    cycle.mergeTxHash = result.txHash;
+    cycle.preMergeExitPnl = (yesExit.revenue - yesExit.fee - yesExit.size * yesPrice) + (noExit.revenue - noExit.fee - noExit.size * noPrice);
+    this.logCycle(cycle, "MERGED", `Merged ${amount} pairs → $${amount.toFixed(2)} USDC${result.txHash ? ` (tx ${result.txHash})` : ""}`);
+
+    const yesLeft = parseFloat((yesHeld - amount).toFixed(4));
+    const noLeft = parseFloat((noHeld - amount).toFixed(4));
+    if (yesLeft > 0) await this.exitMergeRemainder(cycle, "YES", tokenYes, yesLeft);
+    if (noLeft > 0) await this.exitMergeRemainder(cycle, "NO", tokenNo, noLeft);
+
+    if (cycle.mergeRemainders?.some(r => r.orderId)) {
+      await this.transitionState(cycle, "EXIT_WORKING");
+      return;
+    }
+    await this.completeCycle(cycle, slotKey, "MERGED");
+  }
+
+  /** Completes a merged cycle once its remainder SELLs are filled or cancelled (at MERGE_REMAINDER_TTL_MS). */
+  private async checkMergeRemainders(cycle: CycleContext, slotKey: string): Promise<void> {
+    const now = this.deps.clock.now();
+    let working = false;
+    for (const remainder of cycle.mergeRemainders ?? []) {
+      if (!remainder.orderId || isOrderDone(await this.getOrderStatus(remainder.orderId))) continue;
+      if (now - remainder.placedAt < MERGE_REMAINDER_TTL_MS) {
+        working = true;
+        continue;
+      }
+      await this.cancelOrder(remainder.orderId, `merge remainder ${remainder.side} unfilled`);
+      if (!isOrderDone(await this.getOrderStatus(remainder.orderId))) working = true;
+    }
+    if (!working) await this.completeCycle(cycle, slotKey, "MERGED");
+  }
+
+  /** Size, proceeds and fees of a leg's TP/scratch SELLs that matched, read from the venue. */
+  private async exitFills(cycle: CycleContext, side: "YES" | "NO"): Promise<{ size: number; revenue: number; fee: number }> {
+    const orderIds = this.config?.dualTpMode
+      ? [side === "YES" ? cycle.tpYesExchangeOrderId : cycle.tpNoExchangeOrderId]
+      : [cycle.winnerSide === side ? cycle.tpExchangeOrderId : cycle.scratchExchangeOrderId];
+    let size = 0;
+    let revenue = 0;
+    let fee = 0;
+    for (const orderId of orderIds) {
+      if (!orderId) continue;
+      const fill = orderFill(await this.getOrderStatus(orderId));
+      size += fill.size;
+      revenue += fill.size * fill.price;
+      fee += fill.fee;
+    }
+    return { size, revenue, fee };
+  }
+
+  private entryFillPrices(cycle: CycleContext): { yesPrice: number; noPrice: number } {
+    const entryPrice = cycle.actualEntryPrice ?? this.config?.entryPrice ?? 0;
+    return { yesPrice: cycle.yesFilledPrice ?? entryPrice, noPrice: cycle.noFilledPrice ?? entryPrice };
+  }
+
+  /** Unpaired shares left after a merge stay a normal open leg: offered like a partial exit, else held to settlement. */
+  private async exitMergeRemainder(cycle: CycleContext, side: "YES" | "NO", tokenId: string, size: number): Promise<void> {
+    const cfg = this.config!;
+    const exitPrice = await this.partialExitPrice(tokenId, size, cfg.scratchPrice);
+    const result = await this.placeOrder(cycle, {
+      tokenId,
+      side: "SELL",
+      price: exitPrice,
+      size,
+      label: `SELL ${side} (merge remainder)`,
+      negRisk: cfg.negRisk,
+      tickSize: cfg.tickSize,
+    });
+    cycle.mergeRemainders = [
+      ...(cycle.mergeRemainders ?? []),
+      { side, size, orderId: result.success ? result.orderID : undefined, placedAt: this.deps.clock.now() },
+    ];
+    if (result.success) {
+      this.logCycle(cycle, "MERGE_REMAINDER", `Exiting unmerged ${side} ${size} @ ${exitPrice} (${result.orderID})`);
+    } else {
+      this.logCycle(cycle, "MERGE_REMAINDER", `Unmerged ${side} ${size} held to settlement: ${result.errorMsg || "exit rejected"}`);
+    }
+  }
+
   private async determineWinner(cycle: CycleContext): Promise<"YES" | "NO"> {
     if (!this.config) return "YES";
     const tokenYes = cycle.marketTokenYes ?? this.config.marketTokenYes;
     const tokenNo = cycle.marketTokenNo ?? this.config.marketTokenNo;
 
     try {
-      const yesMid = await polymarketClient.fetchMidpoint(tokenYes);
-      const noMid = await polymarketClient.fetchMidpoint(tokenNo);
-      if (yesMid !== null && noMid !== null) {
-        return yesMid >= noMid ? "YES" : "NO";
+      const yesBook = await this.exchange().getOrderBook(tokenYes);
+      const noBook = await this.exchange().getOrderBook(tokenNo);
+      if (yesBook?.hasData() && noBook?.hasData()) {
+        return yesBook.midpoint() >= noBook.midpoint() ? "YES" : "NO";
       }
     } catch {}
 
     return "YES";
   }
 
-  private async getBestBid(tokenId: string): Promise<number> {
-    try {
-      const ob = await polymarketClient.fetchOrderBook(tokenId);
-      if (ob && ob.bids.length > 0) {
-        return parseFloat(ob.bids[0].price);
-      }
-    } catch {}
-    return 0;
+  /** Lowest bid level needed to sell the whole leg, floored at the scratch price. */
+  private async partialExitPrice(tokenId: string, size: number, scratchPrice: number): Promise<number> {
+    const book = await this.exchange().getOrderBook(tokenId);
+    const clearing = book?.vwapToSize("SELL", size).worstPrice ?? 0;
+    return clearing >= scratchPrice ? clearing : scratchPrice;
   }
 
   private async completeCycle(cycle: CycleContext, slotKey: string, outcome: string): Promise<void> {
     if (!this.config) return;
 
     let pnl = 0;
-    const cfg = this.config;
-    const entryPrice = cycle.actualEntryPrice ?? cfg.entryPrice;
-    const tpPrice = cycle.actualTpPrice ?? cfg.tpPrice;
-
-    if (outcome === "DUAL_TP_HIT") {
-      const entryCost = (cycle.yesFilledSize * entryPrice) + (cycle.noFilledSize * entryPrice);
-      const exitRevenue = (cycle.yesFilledSize * tpPrice) + (cycle.noFilledSize * tpPrice);
-      pnl = exitRevenue - entryCost;
-    } else if (outcome === "FULL_EXIT" || outcome === "TP_HIT") {
-      const entryCost = (cycle.yesFilledSize * entryPrice) + (cycle.noFilledSize * entryPrice);
-      const exitRevenue = (cycle.tpFilled ? (cycle.winnerSide === "YES" ? cycle.yesFilledSize : cycle.noFilledSize) * tpPrice : 0)
-        + (cycle.scratchFilled ? (cycle.winnerSide === "YES" ? cycle.noFilledSize : cycle.yesFilledSize) * cfg.scratchPrice : 0);
-      pnl = exitRevenue - entryCost;
+    const { yesPrice, noPrice } = this.entryFillPrices(cycle);
+    const yesFee = cycle.yesFee ?? 0;
+    const noFee = cycle.noFee ?? 0;
+
+    if (outcome === "DUAL_TP_HIT" || outcome === "FULL_EXIT" || outcome === "TP_HIT") {
+      const entryCost = (cycle.yesFilledSize * yesPrice) + (cycle.noFilledSize * noPrice) + yesFee + noFee;
+      const yesExit = await this.exitFills(cycle, "YES");
+      const noExit = await this.exitFills(cycle, "NO");
+      pnl = (yesExit.revenue + noExit.revenue) - (yesExit.fee + noExit.fee) - entryCost;
+    } else if (outcome === "MERGED") {
+      const mergedSize = cycle.mergedSize ?? 0;
+      const mergedFees = (cycle.yesFilledSize > 0 ? yesFee * mergedSize / cycle.yesFilledSize : 0)
+        + (cycle.noFilledSize > 0 ? noFee * mergedSize / cycle.noFilledSize : 0);
+      pnl = mergedSize * (1.0 - yesPrice - noPrice) - mergedFees + (cycle.preMergeExitPnl ?? 0);
+
+      // Remainder SELL fills are booked against their leg's entry; whatever did not sell is held to settlement.
+      for (const remainder of cycle.mergeRemainders ?? []) {
+        const fill = remainder.orderId ? orderFill(await this.getOrderStatus(remainder.orderId)) : { size: 0, price: 0, fee: 0 };
+        const [entryPrice, entryFee, entrySize] = remainder.side === "YES"
+          ? [yesPrice, yesFee, cycle.yesFilledSize]
+          : [noPrice, noFee, cycle.noFilledSize];
+        pnl += fill.size * (fill.price - entryPrice) - fill.fee - (entrySize > 0 ? entryFee * fill.size / entrySize : 0);
+        const held = parseFloat((remainder.size - fill.size).toFixed(4));
+        if (held > 0) {
+          this.logCycle(cycle, "MERGE_REMAINDER", `Unmerged ${remainder.side} ${held} not sold, held to settlement (not in cycle PnL)`);
+        }
+      }
     }
 
     cycle.outcome = outcome;
@@ -916,7 +1226,7 @@ export class DualEntry5mEngine {
 
   private async persistCycle(cycle: CycleContext): Promise<void> {
     try {
-      await db.update(dualEntryCycles).set({
+      await this.deps.store.updateCycle(cycle.cycleId, {
         state: cycle.state,
         yesOrderId: cycle.yesOrderId,
         noOrderId: cycle.noOrderId,
@@ -943,60 +1253,37 @@ export class DualEntry5mEngine {
         actualOrderSize: cycle.actualOrderSize,
         btcVolatility: cycle.btcVolatility,
         entryMethod: cycle.entryMethod,
-        updatedAt: new Date(),
-      }).where(eq(dualEntryCycles.id, cycle.cycleId));
+        mergedSize: cycle.mergedSize,
+        mergeTxHash: cycle.mergeTxHash,
+      });
     } catch (err: any) {
       console.error("[DualEntry5m] Persist cycle error:", err.message);
     }
   }
 
-  private async placeOrder(params: { tokenId: string; side: "BUY" | "SELL"; price: number; size: number; label: string; negRisk: boolean; tickSize: string }): Promise<{ success: boolean; orderID?: string; errorMsg?: string }> {
-    if (!this.config) return { success: false, errorMsg: "No config" };
-
-    if (this.config.isDryRun) {
-      const fakeId = `dry-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-      console.log(`[DualEntry5m] [DRY_ORDER] ${params.label}: ${params.side} ${params.size} @ $${params.price} → ${fakeId}`);
-      return { success: true, orderID: fakeId };
-    }
+  private exchange(): DualEntryExchange {
+    return this.deps.exchange ?? (this.config?.isDryRun ? dryRunExchange : liveExchange);
+  }
 
-    return await liveTradingClient.placeOrder({
-      tokenId: params.tokenId,
-      side: params.side,
-      price: params.price,
-      size: params.size,
-      negRisk: params.negRisk,
-      tickSize: params.tickSize,
-    });
+  private async placeOrder(cycle: CycleContext, params: DualEntryOrderParams): Promise<{ success: boolean; orderID?: string; errorMsg?: string }> {
+    if (!this.config) return { success: false, errorMsg: "No config" };
+    const result = await this.exchange().placeOrder(params);
+    if (result.success && result.orderID) cycle.placedOrderIds.push(result.orderID);
+    return result;
   }
 
   private async cancelOrder(exchangeOrderId: string, reason: string): Promise<void> {
     if (!this.config) return;
-
-    if (this.config.isDryRun) {
-      console.log(`[DualEntry5m] [DRY_CANCEL] Cancel ${exchangeOrderId} (${reason})`);
-      return;
-    }
-
-    try {
-      await liveTradingClient.cancelOrder(exchangeOrderId);
-      console.log(`[DualEntry5m] [CANCEL] Cancelled ${exchangeOrderId} (${reason})`);
-    } catch (err: any) {
-      console.error(`[DualEntry5m] [CANCEL_FAIL] Cancel failed ${exchangeOrderId}: ${err.message}`);
-    }
+    await this.exchange().cancelOrder(exchangeOrderId, reason);
   }
 
   private async getOrderStatus(exchangeOrderId: string): Promise<any | null> {
     if (!this.config) return null;
-
-    if (this.config.isDryRun) {
-      return { size_matched: "0", original_size: String(this.config.orderSize) };
-    }
-
-    return await liveTradingClient.getOrderStatus(exchangeOrderId);
+    return await this.exchange().getOrderStatus(exchangeOrderId);
   }
 
   private getNextWindowStart(): Date {
-    const now = Date.now();
+    const now = this.deps.clock.now();
     const windowMs = this.getWindowDurationMs();
     const nextBoundary = Math.ceil(now / windowMs) * windowMs;
     return new Date(nextBoundary);
@@ -1004,19 +1291,28 @@ export class DualEntry5mEngine {
 
   private clearCycleTimers(cycle: CycleContext): void {
     for (const t of cycle.timers) {
-      clearTimeout(t);
+      this.deps.clock.clearTimeout(t);
     }
     cycle.timers = [];
   }
 
   private logCycle(cycle: CycleContext, event: string, detail: string, data?: any): void {
-    const entry: CycleLogEntry = { ts: Date.now(), event, detail, data };
+    const entry: CycleLogEntry = { ts: this.deps.clock.now(), event, detail, data };
     cycle.logs.push(entry);
-    console.log(`[DualEntry5m] [${event}] ${detail}`);
+    if (!this.deps.quiet) console.log(`[DualEntry5m] [${event}] ${detail}`);
+  }
+
+  private alignOracleWindow(market: Market5mInfo): void {
+    const asset = assetFromSlug(market.slug) ?? "btc";
+    const intervalStartMs = market.intervalStart * 1000;
+    this.oracleWindow = this.deps.oracleFor(asset).windowAt(intervalStartMs);
+    if (!this.oracleWindow.aligned) {
+      this.log("ORACLE", `Price buffer does not cover the start of ${market.slug} (${new Date(intervalStartMs).toISOString()}) — opening price approximated with the current price`);
+    }
   }
 
   private log(event: string, detail: string): void {
-    console.log(`[DualEntry5m] [${event}] ${detail}`);
+    if (!this.deps.quiet) console.log(`[DualEntry5m] [${event}] ${detail}`);
   }
 
   private async loadConfig(): Promise<StrategyConfig | null> {
@@ -1024,45 +1320,7 @@ export class DualEntry5mEngine {
     if (rows.length === 0) return null;
     const c = rows[0];
     if (!c.marketTokenYes || !c.marketTokenNo) return null;
-    return {
-      marketTokenYes: c.marketTokenYes,
-      marketTokenNo: c.marketTokenNo,
-      marketSlug: c.marketSlug || "",
-      negRisk: c.negRisk,
-      tickSize: c.tickSize,
-      entryPrice: c.entryPrice,
-      tpPrice: c.tpPrice,
-      scratchPrice: c.scratchPrice,
-      entryLeadSecondsPrimary: c.entryLeadSecondsPrimary,
-      entryLeadSecondsRefresh: c.entryLeadSecondsRefresh,
-      postStartCleanupSeconds: c.postStartCleanupSeconds,
-      exitTtlSeconds: c.exitTtlSeconds,
-      orderSize: c.orderSize,
-      isDryRun: c.isDryRun,
-      smartScratchCancel: c.smartScratchCancel,
-      volFilterEnabled: c.volFilterEnabled,
-      volMinThreshold: c.volMinThreshold,
-      volMaxThreshold: c.volMaxThreshold,
-      volWindowMinutes: c.volWindowMinutes,
-      dynamicEntryEnabled: c.dynamicEntryEnabled,
-      dynamicEntryMin: c.dynamicEntryMin,
-      dynamicEntryMax: c.dynamicEntryMax,
-      momentumTpEnabled: c.momentumTpEnabled,
-      momentumTpMin: c.momentumTpMin,
-      momentumTpMax: c.momentumTpMax,
-      momentumWindowMinutes: c.momentumWindowMinutes,
-      dynamicSizeEnabled: c.dynamicSizeEnabled,
-      dynamicSizeMin: c.dynamicSizeMin,
-      dynamicSizeMax: c.dynamicSizeMax,
-      hourFilterEnabled: c.hourFilterEnabled,
-      hourFilterAllowed: (c.hourFilterAllowed as number[]) || [],
-      multiMarketEnabled: c.multiMarketEnabled,
-      additionalMarkets: (c.additionalMarkets as MarketSlot[]) || [],
-      dualTpMode: c.dualTpMode,
-      autoRotate5m: c.autoRotate5m,
-      autoRotate5mAsset: c.autoRotate5mAsset || "btc",
-      autoRotateInterval: c.autoRotateInterval || "5m",
-    };
+    return strategyConfigFromRow(c);
   }
 
   private async getConfigRow() {
@@ -0,0 +1,143 @@
+import { liveTradingClient } from "../../bot/live-trading-client";
+import { polymarketClient } from "../../bot/polymarket-client";
+import { polymarketWs } from "../../bot/polymarket-ws";
+import { paperFillRng } from "../../bot/rng";
+import type { OrderBook } from "../../bot/order-book";
+import { SimulatedExchange } from "./simulated-exchange";
+
+export interface DualEntryOrderParams {
+  tokenId: string;
+  side: "BUY" | "SELL";
+  price: number;
+  size: number;
+  label: string;
+  negRisk: boolean;
+  tickSize: string;
+}
+
+/**
+ * Everything DualEntry5mEngine needs from the venue. Live orders go to the CLOB;
+ * dry-run and backtests match them in a SimulatedExchange, against live books
+ * and replayed books respectively.
+ */
+export interface DualEntryExchange {
+  placeOrder(params: DualEntryOrderParams): Promise<{ success: boolean; orderID?: string; errorMsg?: string }>;
+  cancelOrder(orderId: string, reason: string): Promise<void>;
+  getOrderStatus(orderId: string): Promise<any | null>;
+  getOrderBook(tokenId: string): Promise<OrderBook | null>;
+  mergePositions(params: { tokenYes: string; negRisk: boolean; amount: number }): Promise<{ success: boolean; txHash?: string; error?: string }>;
+  /** Drops local bookkeeping for a completed cycle's orders (simulated venues only). */
+  release?(orderIds: string[]): void;
+}
+
+async function fetchOrderBook(tokenId: string): Promise<OrderBook | null> {
+  try {
+    return polymarketWs.getOrderBook(tokenId) ?? await polymarketClient.fetchL2Book(tokenId);
+  } catch {
+    return null;
+  }
+}
+
+export const liveExchange: DualEntryExchange = {
+  async placeOrder(params) {
+    return await liveTradingClient.placeOrder({
+      tokenId: params.tokenId,
+      side: params.side,
+      price: params.price,
+      size: params.size,
+      negRisk: params.negRisk,
+      tickSize: params.tickSize,
+    });
+  },
+
+  async cancelOrder(orderId, reason) {
+    try {
+      await liveTradingClient.cancelOrder(orderId);
+      console.log(`[DualEntry5m] [CANCEL] Cancelled ${orderId} (${reason})`);
+    } catch (err: any) {
+      console.error(`[DualEntry5m] [CANCEL_FAIL] Cancel failed ${orderId}: ${err.message}`);
+    }
+  },
+
+  async getOrderStatus(orderId) {
+    return await liveTradingClient.getOrderStatus(orderId);
+  },
+
+  getOrderBook: fetchOrderBook,
+
+  async mergePositions(params) {
+    const market = await polymarketClient.fetchMarketByTokenId(params.tokenYes);
+    if (!market?.conditionId) {
+      return { success: false, error: "conditionId not found for market" };
+    }
+    return await liveTradingClient.mergePositions({
+      conditionId: market.conditionId,
+      negRisk: market.negRisk ?? params.negRisk,
+      amount: params.amount,
+    });
+  },
+};
+
+/**
+ * Dry-run venue: orders rest in a SimulatedExchange whose books are refreshed from
+ * the live YES/NO books before each placement and status poll, and whose queue
+ * model sees the trade prints of any token on the market WS.
+ */
+class DryRunExchange implements DualEntryExchange {
+  private sim = new SimulatedExchange(paperFillRng(), `dry-${Date.now().toString(36)}`);
+  private hooked = false;
+
+  async placeOrder(params: DualEntryOrderParams) {
+    this.hookTrades();
+    this.sim.updateBook(params.tokenId, await fetchOrderBook(params.tokenId));
+    const result = await this.sim.placeOrder(params);
+    if (result.success) {
+      console.log(`[DualEntry5m] [DRY_ORDER] ${params.label}: ${params.side} ${params.size} @ $${params.price} → ${result.orderID}`);
+    }
+    return result;
+  }
+
+  async cancelOrder(orderId: string, reason: string) {
+    await this.sim.cancelOrder(orderId);
+    console.log(`[DualEntry5m] [DRY_CANCEL] Cancel ${orderId} (${reason})`);
+  }
+
+  async getOrderStatus(orderId: string) {
+    const status = await this.sim.getOrderStatus(orderId);
+    if (!status || status.status !== "LIVE") return status;
+    this.sim.updateBook(status.asset_id, await fetchOrderBook(status.asset_id));
+    this.sim.match();
+    return await this.sim.getOrderStatus(orderId);
+  }
+
+  getOrderBook(tokenId: string) {
+    return fetchOrderBook(tokenId);
+  }
+
+  release(orderIds: string[]): void {
+    this.sim.release(orderIds);
+  }
+
+  async mergePositions(params: { tokenYes: string; negRisk: boolean; amount: number }) {
+    console.log(`[DualEntry5m] [DRY_MERGE] mergePositions ${params.amount} pairs (${params.tokenYes.slice(0, 12)}...)`);
+    return { success: true };
+  }
+
+  private hookTrades(): void {
+    if (this.hooked) return;
+    this.hooked = true;
+    polymarketWs.onRawMarketMessage((data, receivedAt) => {
+      for (const msg of Array.isArray(data) ? data : [data]) {
+        if (msg?.event_type !== "last_trade_price" || !msg.asset_id) continue;
+        this.sim.recordTrade(msg.asset_id, {
+          price: parseFloat(msg.price || "0"),
+          size: parseFloat(msg.size || "0"),
+          side: msg.side || null,
+          ts: parseInt(msg.timestamp, 10) || receivedAt,
+        });
+      }
+    });
+  }
+}
+
+export const dryRunExchange: DualEntryExchange = new DryRunExchange();
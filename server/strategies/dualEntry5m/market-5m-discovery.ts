@@ -1,4 +1,5 @@
-const GAMMA_BASE = "https://gamma-api.polymarket.com";
+import { GAMMA_BASE_URL } from "../../bot/endpoints";
+import { realClock, type Clock } from "../../bot/clock";
 
 export interface Market5mInfo {
   slug: string;
@@ -19,7 +20,9 @@ export interface Market5mInfo {
   timeRemainingMs: number;
 }
 
-export type AssetType = "btc" | "eth" | "sol" | "xrp" | "doge" | "bnb" | "link" | "mstr";
+export const ASSET_TYPES = ["btc", "eth", "sol", "xrp", "doge", "bnb", "link", "mstr"] as const;
+
+export type AssetType = (typeof ASSET_TYPES)[number];
 
 export type IntervalType = "5m" | "15m";
 
@@ -27,34 +30,40 @@ function getSlugPrefix(asset: AssetType, interval: IntervalType = "5m"): string
   return `${asset}-updown-${interval}`;
 }
 
+/** Underlying of an `<asset>-updown-<interval>-<ts>` slug, or null for any other slug. */
+export function assetFromSlug(slug: string | null | undefined): AssetType | null {
+  const prefix = slug?.match(/^([a-z]+)-updown-/)?.[1];
+  return prefix && (ASSET_TYPES as readonly string[]).includes(prefix) ? prefix as AssetType : null;
+}
+
 function getIntervalSeconds(interval: IntervalType): number {
   return interval === "15m" ? 900 : 300;
 }
 
-function getCurrentIntervalTimestamp(interval: IntervalType = "5m"): number {
-  const now = Math.floor(Date.now() / 1000);
+function getCurrentIntervalTimestamp(interval: IntervalType = "5m", clock: Clock = realClock): number {
+  const now = Math.floor(clock.now() / 1000);
   const sec = getIntervalSeconds(interval);
   return now - (now % sec);
 }
 
-function getNextIntervalTimestamp(interval: IntervalType = "5m"): number {
-  return getCurrentIntervalTimestamp(interval) + getIntervalSeconds(interval);
+function getNextIntervalTimestamp(interval: IntervalType = "5m", clock: Clock = realClock): number {
+  return getCurrentIntervalTimestamp(interval, clock) + getIntervalSeconds(interval);
 }
 
 async function fetchEventBySlug(slug: string): Promise<any | null> {
   try {
-    const response = await fetch(`${GAMMA_BASE}/events?slug=${slug}`);
+    const response = await fetch(`${GAMMA_BASE_URL}/events?slug=${slug}`);
     if (!response.ok) return null;
     const events = await response.json();
     if (!events || events.length === 0) return null;
     return events[0];
   } catch (err: any) {
-    console.error(`[Market5mDiscovery] fetchEventBySlug error: ${err.message} | slug=${slug} | URL: ${GAMMA_BASE}/events?slug=${slug}`);
+    console.error(`[Market5mDiscovery] fetchEventBySlug error: ${err.message} | slug=${slug} | URL: ${GAMMA_BASE_URL}/events?slug=${slug}`);
     return null;
   }
 }
 
-function parseEvent(event: any, interval: IntervalType = "5m"): Market5mInfo | null {
+function parseEvent(event: any, interval: IntervalType = "5m", clock: Clock = realClock): Market5mInfo | null {
   if (!event || !event.markets || event.markets.length === 0) return null;
 
   const market = event.markets[0];
@@ -80,7 +89,7 @@ function parseEvent(event: any, interval: IntervalType = "5m"): Market5mInfo | n
   const slugParts = event.slug?.split("-") || [];
   const timestamp = parseInt(slugParts[slugParts.length - 1]) || 0;
   const intervalEnd = timestamp + getIntervalSeconds(interval);
-  const now = Math.floor(Date.now() / 1000);
+  const now = Math.floor(clock.now() / 1000);
 
   return {
     slug: event.slug,
@@ -102,23 +111,23 @@ function parseEvent(event: any, interval: IntervalType = "5m"): Market5mInfo | n
   };
 }
 
-export async function fetchCurrentIntervalMarket(asset: AssetType = "btc", interval: IntervalType = "5m"): Promise<Market5mInfo | null> {
+export async function fetchCurrentIntervalMarket(asset: AssetType = "btc", interval: IntervalType = "5m", clock: Clock = realClock): Promise<Market5mInfo | null> {
   const prefix = getSlugPrefix(asset, interval);
   const sec = getIntervalSeconds(interval);
-  const currentTs = getCurrentIntervalTimestamp(interval);
-  const nextTs = getNextIntervalTimestamp(interval);
+  const currentTs = getCurrentIntervalTimestamp(interval, clock);
+  const nextTs = getNextIntervalTimestamp(interval, clock);
 
   const currentSlug = `${prefix}-${currentTs}`;
   let event = await fetchEventBySlug(currentSlug);
   if (event) {
-    const info = parseEvent(event, interval);
+    const info = parseEvent(event, interval, clock);
     if (info && !info.closed) return info;
   }
 
   const nextSlug = `${prefix}-${nextTs}`;
   event = await fetchEventBySlug(nextSlug);
   if (event) {
-    const info = parseEvent(event, interval);
+    const info = parseEvent(event, interval, clock);
     if (info) return info;
   }
 
@@ -126,7 +135,7 @@ export async function fetchCurrentIntervalMarket(asset: AssetType = "btc", inter
   const prevSlug = `${prefix}-${prevTs}`;
   event = await fetchEventBySlug(prevSlug);
   if (event) {
-    const info = parseEvent(event, interval);
+    const info = parseEvent(event, interval, clock);
     if (info && !info.closed) return info;
   }
 
@@ -138,9 +147,9 @@ export async function fetchCurrent5mMarket(asset: AssetType = "btc"): Promise<Ma
   return fetchCurrentIntervalMarket(asset, "5m");
 }
 
-export async function fetchUpcoming5mMarkets(asset: AssetType = "btc", count: number = 3): Promise<Market5mInfo[]> {
+export async function fetchUpcoming5mMarkets(asset: AssetType = "btc", count: number = 3, clock: Clock = realClock): Promise<Market5mInfo[]> {
   const prefix = getSlugPrefix(asset);
-  const currentTs = getCurrentIntervalTimestamp();
+  const currentTs = getCurrentIntervalTimestamp("5m", clock);
   const results: Market5mInfo[] = [];
 
   for (let i = 0; i < count + 2; i++) {
@@ -148,7 +157,7 @@ export async function fetchUpcoming5mMarkets(asset: AssetType = "btc", count: nu
     const slug = `${prefix}-${ts}`;
     const event = await fetchEventBySlug(slug);
     if (event) {
-      const info = parseEvent(event);
+      const info = parseEvent(event, "5m", clock);
       if (info && !info.closed) {
         results.push(info);
         if (results.length >= count) break;
@@ -159,22 +168,52 @@ export async function fetchUpcoming5mMarkets(asset: AssetType = "btc", count: nu
   return results;
 }
 
-export async function fetchNextIntervalMarket(asset: AssetType = "btc", interval: IntervalType = "5m"): Promise<Market5mInfo | null> {
+export interface MarketResolution {
+  slug: string;
+  closed: boolean;
+  resolved: boolean;
+  outcomePrices: number[];
+  winner: "UP" | "DOWN" | null;
+}
+
+export async function fetchMarketResolution(slug: string): Promise<MarketResolution | null> {
+  const event = await fetchEventBySlug(slug);
+  if (!event) return null;
+  const info = parseEvent(event, slug.includes("-15m-") ? "15m" : "5m");
+  if (!info) return null;
+
+  const [upPrice, downPrice] = info.outcomePrices;
+  let winner: "UP" | "DOWN" | null = null;
+  if (info.closed && upPrice !== undefined && downPrice !== undefined) {
+    if (upPrice >= 0.99 && downPrice <= 0.01) winner = "UP";
+    else if (downPrice >= 0.99 && upPrice <= 0.01) winner = "DOWN";
+  }
+
+  return {
+    slug: info.slug,
+    closed: info.closed,
+    resolved: winner !== null,
+    outcomePrices: info.outcomePrices,
+    winner,
+  };
+}
+
+export async function fetchNextIntervalMarket(asset: AssetType = "btc", interval: IntervalType = "5m", clock: Clock = realClock): Promise<Market5mInfo | null> {
   const prefix = getSlugPrefix(asset, interval);
-  const nextTs = getNextIntervalTimestamp(interval);
+  const nextTs = getNextIntervalTimestamp(interval, clock);
   const slug = `${prefix}-${nextTs}`;
   const event = await fetchEventBySlug(slug);
   if (event) {
-    const info = parseEvent(event, interval);
+    const info = parseEvent(event, interval, clock);
     if (info) return info;
   }
   return null;
 }
 
-export function computeNextIntervalSlug(asset: AssetType = "btc", interval: IntervalType = "5m"): { slug: string; startsInMs: number; intervalStart: number } {
+export function computeNextIntervalSlug(asset: AssetType = "btc", interval: IntervalType = "5m", clock: Clock = realClock): { slug: string; startsInMs: number; intervalStart: number } {
   const prefix = getSlugPrefix(asset, interval);
-  const nextTs = getNextIntervalTimestamp(interval);
-  const now = Math.floor(Date.now() / 1000);
+  const nextTs = getNextIntervalTimestamp(interval, clock);
+  const now = Math.floor(clock.now() / 1000);
   return {
     slug: `${prefix}-${nextTs}`,
     startsInMs: (nextTs - now) * 1000,
@@ -3,6 +3,9 @@ import { db } from "../../db";
 import { dualEntryConfig, dualEntryCycles, updateDualEntryConfigSchema } from "@shared/schema";
 import { desc, sql, eq, and, isNotNull } from "drizzle-orm";
 import { dualEntry5mEngine } from "./engine";
+import { dualEntry5mStrategy } from "./strategy";
+import { computeCycleAnalytics } from "./analytics";
+import { runDualEntryBacktest, dualEntryBacktestParamsSchema } from "./backtest";
 import { fetchCurrent5mMarket, fetchCurrentIntervalMarket, fetchUpcoming5mMarkets, computeNextIntervalSlug, type AssetType, type IntervalType } from "./market-5m-discovery";
 
 export const dualEntryRouter = Router();
@@ -41,12 +44,7 @@ dualEntryRouter.post("/config", async (req, res) => {
 
 dualEntryRouter.post("/start", async (_req, res) => {
   try {
-    const { storage } = await import("../../storage");
-    const botConfig = await storage.getBotConfig();
-    if (botConfig?.isActive) {
-      return res.status(400).json({ success: false, error: "Cannot start Dual-Entry 5m while the main FSM bot is active (hold-to-resolution strategy conflict — SELL orders would be placed)" });
-    }
-    const result = await dualEntry5mEngine.start();
+    const result = await dualEntry5mStrategy.start();
     if (!result.success) {
       return res.status(400).json({ success: false, error: result.error });
     }
@@ -94,75 +92,20 @@ dualEntryRouter.get("/analytics", async (_req, res) => {
       .orderBy(desc(dualEntryCycles.createdAt))
       .limit(500);
 
-    const hourlyStats: Record<number, { total: number; wins: number; pnl: number; avgVol: number; volCount: number }> = {};
-    for (let h = 0; h < 24; h++) {
-      hourlyStats[h] = { total: 0, wins: 0, pnl: 0, avgVol: 0, volCount: 0 };
-    }
-
-    let totalCycles = 0;
-    let totalWins = 0;
-    let totalPnl = 0;
-    let totalFlat = 0;
-    let totalPartial = 0;
-
-    for (const c of completedCycles) {
-      const hour = c.hourOfDay ?? 0;
-      const isWin = c.outcome === "TP_HIT" || c.outcome === "FULL_EXIT";
-      const pnl = c.pnl ?? 0;
-
-      hourlyStats[hour].total++;
-      if (isWin) hourlyStats[hour].wins++;
-      hourlyStats[hour].pnl += pnl;
-      if (c.btcVolatility != null) {
-        hourlyStats[hour].avgVol += c.btcVolatility;
-        hourlyStats[hour].volCount++;
-      }
-
-      totalCycles++;
-      if (isWin) totalWins++;
-      totalPnl += pnl;
-      if (c.outcome === "FLAT") totalFlat++;
-      if (c.outcome === "PARTIAL_EXIT") totalPartial++;
-    }
-
-    for (const h of Object.keys(hourlyStats)) {
-      const s = hourlyStats[parseInt(h)];
-      if (s.volCount > 0) s.avgVol = s.avgVol / s.volCount;
-    }
-
-    const dayStats: Record<number, { total: number; wins: number; pnl: number }> = {};
-    for (let d = 0; d < 7; d++) {
-      dayStats[d] = { total: 0, wins: 0, pnl: 0 };
-    }
-    for (const c of completedCycles) {
-      const day = c.dayOfWeek ?? 0;
-      dayStats[day].total++;
-      if (c.outcome === "TP_HIT" || c.outcome === "FULL_EXIT") dayStats[day].wins++;
-      dayStats[day].pnl += c.pnl ?? 0;
-    }
+    res.json(computeCycleAnalytics(completedCycles));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
 
-    const entryMethodStats: Record<string, { total: number; wins: number; pnl: number }> = {};
-    for (const c of completedCycles) {
-      const method = c.entryMethod ?? "fixed";
-      if (!entryMethodStats[method]) entryMethodStats[method] = { total: 0, wins: 0, pnl: 0 };
-      entryMethodStats[method].total++;
-      if (c.outcome === "TP_HIT" || c.outcome === "FULL_EXIT") entryMethodStats[method].wins++;
-      entryMethodStats[method].pnl += c.pnl ?? 0;
+dualEntryRouter.post("/backtest", async (req, res) => {
+  try {
+    const parsed = dualEntryBacktestParamsSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
     }
-
-    res.json({
-      summary: {
-        totalCycles,
-        totalWins,
-        winRate: totalCycles > 0 ? (totalWins / totalCycles * 100).toFixed(1) : "0",
-        totalPnl: totalPnl.toFixed(4),
-        totalFlat,
-        totalPartial,
-      },
-      hourlyStats,
-      dayStats,
-      entryMethodStats,
-    });
+    const result = await runDualEntryBacktest(parsed.data);
+    res.json(result);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
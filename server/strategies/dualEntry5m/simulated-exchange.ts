@@ -0,0 +1,145 @@
+import type { OrderBook } from "../../bot/order-book";
+import { PaperFillSimulator, type PaperTrade } from "../../bot/paper-fill-simulator";
+import { calculateFee } from "../../bot/order-manager";
+import type { DualEntryExchange, DualEntryOrderParams } from "./exchange";
+
+interface SimulatedOrder {
+  id: string;
+  tokenId: string;
+  side: "BUY" | "SELL";
+  price: number;
+  size: number;
+  sizeMatched: number;
+  /** Sum of fill price × size, for the average fill price. */
+  matchedValue: number;
+  fee: number;
+  status: "LIVE" | "MATCHED" | "CANCELED";
+}
+
+/**
+ * In-memory venue for replayed books, matched with the same PaperFillSimulator
+ * queue model as paper trading: marketable orders take liquidity on placement,
+ * resting ones fill (possibly partially) as prints and book moves reach them.
+ */
+export class SimulatedExchange implements DualEntryExchange {
+  private books: Map<string, OrderBook> = new Map();
+  private orders: Map<string, SimulatedOrder> = new Map();
+  /** Orders whose owner is done with them; dropped once they are no longer LIVE. */
+  private released: Set<string> = new Set();
+  private nextId = 1;
+  private matcher: PaperFillSimulator;
+
+  constructor(rng: () => number, private idPrefix = "sim") {
+    this.matcher = new PaperFillSimulator(rng);
+  }
+
+  updateBook(tokenId: string, book: OrderBook | null): void {
+    if (book) this.books.set(tokenId, book);
+    else this.books.delete(tokenId);
+  }
+
+  recordTrade(tokenId: string, trade: PaperTrade): void {
+    this.matcher.recordTrade(tokenId, trade);
+  }
+
+  /** Runs one matching round of all resting orders against the current books. */
+  match(): void {
+    for (const order of Array.from(this.orders.values())) {
+      if (order.status !== "LIVE") continue;
+      const book = this.books.get(order.tokenId);
+      if (book) this.fill(order, book);
+    }
+  }
+
+  async placeOrder(params: DualEntryOrderParams) {
+    if (!(params.price > 0 && params.price < 1)) {
+      return { success: false, errorMsg: `Invalid price ${params.price}` };
+    }
+    if (!(params.size > 0)) {
+      return { success: false, errorMsg: `Invalid size ${params.size}` };
+    }
+
+    const order: SimulatedOrder = {
+      id: `${this.idPrefix}-${this.nextId++}`,
+      tokenId: params.tokenId,
+      side: params.side,
+      price: params.price,
+      size: params.size,
+      sizeMatched: 0,
+      matchedValue: 0,
+      fee: 0,
+      status: "LIVE",
+    };
+    this.orders.set(order.id, order);
+
+    const book = this.books.get(order.tokenId);
+    if (book) this.fill(order, book);
+
+    return { success: true, orderID: order.id };
+  }
+
+  async cancelOrder(orderId: string) {
+    const order = this.orders.get(orderId);
+    if (order && order.status === "LIVE") {
+      order.status = "CANCELED";
+      this.matcher.forget(orderId);
+      this.prune(order);
+    }
+  }
+
+  /** Forgets a finished cycle's orders: terminal ones now, resting ones once they fill or are cancelled. */
+  release(orderIds: string[]): void {
+    for (const orderId of orderIds) {
+      const order = this.orders.get(orderId);
+      if (!order) continue;
+      this.released.add(orderId);
+      this.prune(order);
+    }
+  }
+
+  async getOrderStatus(orderId: string) {
+    const order = this.orders.get(orderId);
+    if (!order) return null;
+    return {
+      id: order.id,
+      asset_id: order.tokenId,
+      status: order.status,
+      price: String(order.price),
+      original_size: String(order.size),
+      size_matched: String(order.sizeMatched),
+      avg_price: order.sizeMatched > 0 ? String(parseFloat((order.matchedValue / order.sizeMatched).toFixed(6))) : undefined,
+      fee: String(parseFloat(order.fee.toFixed(6))),
+    };
+  }
+
+  async getOrderBook(tokenId: string) {
+    return this.books.get(tokenId) ?? null;
+  }
+
+  async mergePositions() {
+    return { success: true };
+  }
+
+  private fill(order: SimulatedOrder, book: OrderBook): void {
+    const fills = this.matcher.match(
+      { id: order.id, tokenId: order.tokenId, side: order.side, price: order.price, size: order.size, filledSize: order.sizeMatched },
+      book,
+    );
+    for (const fill of fills) {
+      order.sizeMatched = parseFloat((order.sizeMatched + fill.size).toFixed(4));
+      order.matchedValue += fill.price * fill.size;
+      order.fee += calculateFee(fill.price, fill.size, fill.isMaker);
+    }
+    if (order.sizeMatched >= order.size - 1e-6) {
+      order.status = "MATCHED";
+      this.matcher.forget(order.id);
+      this.prune(order);
+    }
+  }
+
+  private prune(order: SimulatedOrder): void {
+    if (order.status === "LIVE" || !this.released.has(order.id)) return;
+    this.orders.delete(order.id);
+    this.released.delete(order.id);
+  }
+}
@@ -0,0 +1,110 @@
+import { db } from "../../db";
+import { dualEntryConfig, dualEntryCycles, updateDualEntryConfigSchema, type DualEntryCycle, type StrategyCapitalUsage, type StrategyConfigField } from "@shared/schema";
+import { eq, gte } from "drizzle-orm";
+import { dualEntry5mEngine } from "./engine";
+import { ASSET_TYPES } from "./market-5m-discovery";
+import { pickConfigFields, type Strategy } from "../strategy";
+import { capitalAllocator, EMPTY_USAGE } from "../capital-allocator";
+
+const ENTRY_STATES = ["ARMED", "ENTRY_WORKING", "PARTIAL_FILL"];
+const HOLDING_STATES = [...ENTRY_STATES, "HEDGED", "EXIT_WORKING"];
+
+async function getConfigRow() {
+  const rows = await db.select().from(dualEntryConfig).limit(1);
+  if (rows.length > 0) return rows[0];
+  const [created] = await db.insert(dualEntryConfig).values({}).returning();
+  return created;
+}
+
+/** Open cycles tie up their filled legs plus, while entering, the unfilled rest of each leg. */
+function capitalUsageFromCycles(rows: DualEntryCycle[], dayStart: number): StrategyCapitalUsage {
+  const usage = { ...EMPTY_USAGE };
+  for (const cycle of rows) {
+    if (cycle.pnl !== null && cycle.updatedAt.getTime() >= dayStart) usage.dailyPnl += cycle.pnl;
+    if (!HOLDING_STATES.includes(cycle.state)) continue;
+
+    const entryPrice = cycle.actualEntryPrice ?? 0;
+    const orderSize = cycle.actualOrderSize ?? 0;
+    const legs = [
+      { orderId: cycle.yesOrderId, filled: cycle.yesFilled, size: cycle.yesFilledSize, price: cycle.yesFilledPrice },
+      { orderId: cycle.noOrderId, filled: cycle.noFilled, size: cycle.noFilledSize, price: cycle.noFilledPrice },
+    ];
+    for (const leg of legs) {
+      const held = leg.size * (leg.price ?? entryPrice);
+      usage.exposure += held;
+      usage.committed += held;
+      if (ENTRY_STATES.includes(cycle.state) && leg.orderId && !leg.filled) {
+        usage.committed += Math.max(0, orderSize - leg.size) * entryPrice;
+      }
+    }
+  }
+  return usage;
+}
+
+const configSchema: StrategyConfigField[] = [
+  { key: "isDryRun", label: "Dry Run", type: "boolean", description: "Simula las órdenes sin enviarlas al exchange" },
+  { key: "entryPrice", label: "Entry Price", type: "number", min: 0.01, max: 0.99, step: 0.01 },
+  { key: "tpPrice", label: "TP Price", type: "number", min: 0.01, max: 0.99, step: 0.01 },
+  { key: "scratchPrice", label: "Scratch Price", type: "number", min: 0.01, max: 0.99, step: 0.01 },
+  { key: "orderSize", label: "Order Size", type: "number", min: 1, max: 10000, step: 1 },
+  { key: "dualTpMode", label: "Dual TP", type: "boolean", description: "Coloca TP en ambos lados en vez de esperar al ganador" },
+  { key: "autoRotate5m", label: "Auto-rotate", type: "boolean" },
+  { key: "autoRotate5mAsset", label: "Asset", type: "select", options: ASSET_TYPES.map(a => ({ value: a, label: a.toUpperCase() })) },
+  { key: "autoRotateInterval", label: "Interval", type: "select", options: [{ value: "5m", label: "5m" }, { value: "15m", label: "15m" }] },
+  { key: "volFilterEnabled", label: "Volatility Filter", type: "boolean" },
+  { key: "volMinThreshold", label: "Vol Min", type: "number", min: 0, max: 50, step: 0.1 },
+  { key: "volMaxThreshold", label: "Vol Max", type: "number", min: 0, max: 50, step: 0.1 },
+];
+
+const configUpdateSchema = updateDualEntryConfigSchema.pick({
+  isDryRun: true, entryPrice: true, tpPrice: true, scratchPrice: true, orderSize: true,
+  dualTpMode: true, autoRotate5m: true, autoRotate5mAsset: true, autoRotateInterval: true,
+  volFilterEnabled: true, volMinThreshold: true, volMaxThreshold: true,
+}).strict();
+
+export const dualEntry5mStrategy: Strategy = {
+  id: "dual_entry_5m",
+  name: "Dual-Entry 5m",
+  description: "Compra YES y NO antes de cada ventana; TP en el lado ganador y scratch en el perdedor",
+  host: "standalone",
+  configSchema,
+
+  start: () => dualEntry5mEngine.start(),
+
+  stop: () => dualEntry5mEngine.stop(),
+
+  async isRunning() {
+    return dualEntry5mEngine.getStatus().isRunning;
+  },
+
+  async getStatus() {
+    const status = dualEntry5mEngine.getStatus();
+    return {
+      marketSlug: status.config?.marketSlug ?? null,
+      cycleState: status.currentCycle?.state ?? null,
+      activeCycles: status.activeCycles,
+      nextWindowStart: status.nextWindowStart ? status.nextWindowStart.toISOString() : null,
+      volatility: status.volatility?.current ?? null,
+    };
+  },
+
+  async getConfig() {
+    return pickConfigFields(await getConfigRow(), configSchema);
+  },
+
+  async updateConfig(updates) {
+    const parsed = configUpdateSchema.parse(updates);
+    const row = await getConfigRow();
+    const [updated] = await db.update(dualEntryConfig)
+      .set({ ...parsed, updatedAt: new Date() })
+      .where(eq(dualEntryConfig.id, row.id))
+      .returning();
+    return pickConfigFields(updated, configSchema);
+  },
+
+  async getCapitalUsage() {
+    const { since, dayStart } = capitalAllocator.usageWindow();
+    const rows = await db.select().from(dualEntryCycles).where(gte(dualEntryCycles.createdAt, since));
+    return capitalUsageFromCycles(rows, dayStart);
+  },
+};
@@ -1,3 +1,5 @@
+import type { TimerHandle } from "../../bot/clock";
+
 export type CycleState = "IDLE" | "ARMED" | "ENTRY_WORKING" | "PARTIAL_FILL" | "HEDGED" | "EXIT_WORKING" | "DONE" | "CLEANUP" | "FAILSAFE";
 
 export interface CycleLogEntry {
@@ -22,6 +24,8 @@ export interface CycleContext {
   noFilledSize: number;
   yesFilledPrice?: number;
   noFilledPrice?: number;
+  yesFee?: number;
+  noFee?: number;
   winnerSide?: "YES" | "NO";
   tpOrderId?: string;
   scratchOrderId?: string;
@@ -36,7 +40,9 @@ export interface CycleContext {
   outcome?: string;
   pnl?: number;
   logs: CycleLogEntry[];
-  timers: NodeJS.Timeout[];
+  timers: TimerHandle[];
+  /** Every order placed for the cycle, released from the venue's bookkeeping when it completes. */
+  placedOrderIds: string[];
   actualEntryPrice?: number;
   actualTpPrice?: number;
   actualOrderSize?: number;
@@ -44,6 +50,14 @@ export interface CycleContext {
   entryMethod?: string;
   marketTokenYes?: string;
   marketTokenNo?: string;
+  scratchRejected?: boolean;
+  mergedSize?: number;
+  mergeTxHash?: string;
+  mergeAttempts?: number;
+  /** Realized PnL of TP/scratch SELLs that filled before the merge cancelled them. */
+  preMergeExitPnl?: number;
+  /** Unpaired shares left by the merge; the cycle is only booked once their SELLs are done. */
+  mergeRemainders?: { side: "YES" | "NO"; size: number; orderId?: string; placedAt: number }[];
 }
 
 export interface StrategyConfig {
@@ -81,6 +95,8 @@ export interface StrategyConfig {
   multiMarketEnabled: boolean;
   additionalMarkets: MarketSlot[];
   dualTpMode: boolean;
+  mergeEnabled: boolean;
+  mergeTrigger: "immediate" | "scratch_fail";
   autoRotate5m: boolean;
   autoRotate5mAsset: string;
   autoRotateInterval: string;
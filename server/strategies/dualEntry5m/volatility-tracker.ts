@@ -1,30 +1,36 @@
 import { polymarketClient } from "../../bot/polymarket-client";
+import { realClock, type Clock, type TimerHandle } from "../../bot/clock";
 import type { VolatilitySnapshot } from "./types";
 
-interface PriceTick {
+export interface PriceTick {
   ts: number;
   yesPrice: number;
   noPrice: number;
+  /** YES token the prices were read from, when the tracker was following one. */
+  tokenYes?: string;
 }
 
 export class VolatilityTracker {
   private ticks: PriceTick[] = [];
   private maxTicks = 500;
-  private pollInterval: ReturnType<typeof setInterval> | null = null;
+  private pollInterval: TimerHandle | null = null;
   private tokenYes: string | null = null;
   private tokenNo: string | null = null;
+  private onTickCallbacks: ((tick: PriceTick) => void)[] = [];
+
+  constructor(private readonly clock: Clock = realClock) {}
 
   start(tokenYes: string, tokenNo: string) {
     this.tokenYes = tokenYes;
     this.tokenNo = tokenNo;
-    if (this.pollInterval) clearInterval(this.pollInterval);
-    this.pollInterval = setInterval(() => this.fetchTick(), 10000);
+    this.clock.clearInterval(this.pollInterval);
+    this.pollInterval = this.clock.setInterval(() => this.fetchTick(), 10000);
     this.fetchTick();
   }
 
   stop() {
     if (this.pollInterval) {
-      clearInterval(this.pollInterval);
+      this.clock.clearInterval(this.pollInterval);
       this.pollInterval = null;
     }
   }
@@ -40,20 +46,41 @@ export class VolatilityTracker {
       const yesPrice = await polymarketClient.fetchMidpoint(this.tokenYes);
       const noPrice = this.tokenNo ? await polymarketClient.fetchMidpoint(this.tokenNo) : null;
       if (yesPrice !== null) {
-        this.ticks.push({
-          ts: Date.now(),
-          yesPrice,
-          noPrice: noPrice ?? (1 - yesPrice),
-        });
-        if (this.ticks.length > this.maxTicks) {
-          this.ticks = this.ticks.slice(-this.maxTicks);
-        }
+        this.addTick(yesPrice, noPrice);
       }
     } catch {}
   }
 
+  addTick(yesPrice: number, noPrice: number | null) {
+    const tick: PriceTick = {
+      ts: this.clock.now(),
+      yesPrice,
+      noPrice: noPrice ?? (1 - yesPrice),
+      tokenYes: this.tokenYes ?? undefined,
+    };
+    this.ticks.push(tick);
+    if (this.ticks.length > this.maxTicks) {
+      this.ticks = this.ticks.slice(-this.maxTicks);
+    }
+    for (const cb of this.onTickCallbacks) {
+      try { cb(tick); } catch {}
+    }
+  }
+
+  onTick(cb: (tick: PriceTick) => void) {
+    this.onTickCallbacks.push(cb);
+  }
+
+  /** Prepends persisted ticks older than the first live one; listeners are not notified. */
+  seed(ticks: PriceTick[]): number {
+    const firstLive = this.ticks.length > 0 ? this.ticks[0].ts : Infinity;
+    const older = ticks.filter(t => t.ts < firstLive).sort((a, b) => a.ts - b.ts);
+    this.ticks = [...older, ...this.ticks].slice(-this.maxTicks);
+    return older.length;
+  }
+
   getVolatility(windowMinutes: number): number {
-    const cutoff = Date.now() - windowMinutes * 60 * 1000;
+    const cutoff = this.clock.now() - windowMinutes * 60 * 1000;
     const recent = this.ticks.filter(t => t.ts >= cutoff);
     if (recent.length < 3) return 0;
 
@@ -73,7 +100,7 @@ export class VolatilityTracker {
 
   getSnapshot(windowMinutes: number, minThreshold: number, maxThreshold: number): VolatilitySnapshot {
     const current = this.getVolatility(windowMinutes);
-    const cutoff = Date.now() - windowMinutes * 60 * 1000;
+    const cutoff = this.clock.now() - windowMinutes * 60 * 1000;
     const priceCount = this.ticks.filter(t => t.ts >= cutoff).length;
     return {
       current,
@@ -86,7 +113,7 @@ export class VolatilityTracker {
   }
 
   getMomentum(windowMinutes: number): { direction: "up" | "down" | "flat"; strength: number } {
-    const cutoff = Date.now() - windowMinutes * 60 * 1000;
+    const cutoff = this.clock.now() - windowMinutes * 60 * 1000;
     const recent = this.ticks.filter(t => t.ts >= cutoff);
     if (recent.length < 3) return { direction: "flat", strength: 0 };
 
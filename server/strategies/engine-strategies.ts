@@ -0,0 +1,144 @@
+import type { z } from "zod";
+import { storage } from "../storage";
+import { strategyEngine } from "../bot/strategy-engine";
+import { updateBotConfigSchema, type BotConfig, type StrategyConfigField } from "@shared/schema";
+import { ASSET_TYPES } from "./dualEntry5m/market-5m-discovery";
+import { pickConfigFields, type Strategy, type StrategyTickContext } from "./strategy";
+import { capitalAllocator, capitalUsageFromOrders } from "./capital-allocator";
+
+const ASSET_OPTIONS = ASSET_TYPES.map(a => ({ value: a, label: a.toUpperCase() }));
+const INTERVAL_OPTIONS = [{ value: "5m", label: "5m" }, { value: "15m", label: "15m" }];
+
+interface EngineStrategySpec {
+  id: string;
+  name: string;
+  description: string;
+  configSchema: StrategyConfigField[];
+  configUpdateSchema: z.ZodTypeAny;
+  tick: (ctx: StrategyTickContext) => Promise<void>;
+  status: (config: BotConfig) => Record<string, unknown> | Promise<Record<string, unknown>>;
+}
+
+/**
+ * Strategies that run inside StrategyEngine on the bot_config market. They share
+ * its lifecycle: starting one enables it in the capital allocator and starts the
+ * engine if it is not already running; stopping the last enabled one stops it.
+ */
+function engineStrategy(spec: EngineStrategySpec): Strategy {
+  const isEnabled = async () => {
+    const config = await storage.getBotConfig();
+    return config ? capitalAllocator.isEnabled(spec.id, config) : false;
+  };
+  const getConfig = async () => pickConfigFields(await storage.getBotConfig(), spec.configSchema);
+
+  return {
+    id: spec.id,
+    name: spec.name,
+    description: spec.description,
+    host: "engine",
+    configSchema: spec.configSchema,
+
+    async start() {
+      const config = await storage.getBotConfig();
+      if (!config) return { success: false, error: "No bot config found" };
+      await capitalAllocator.update(spec.id, { enabled: true });
+      if (!strategyEngine.isRunning()) await strategyEngine.start();
+      return strategyEngine.isRunning()
+        ? { success: true }
+        : { success: false, error: "Bot engine did not start — see the event log" };
+    },
+
+    async stop() {
+      await capitalAllocator.update(spec.id, { enabled: false });
+      const config = await storage.getBotConfig();
+      if (strategyEngine.isRunning() && config && (await capitalAllocator.getEnabledEngineStrategies(config)).length === 0) {
+        await strategyEngine.stop();
+      }
+    },
+
+    async isRunning() {
+      return strategyEngine.isRunning() && await isEnabled();
+    },
+
+    async getStatus() {
+      const config = await storage.getBotConfig();
+      return config ? spec.status(config) : {};
+    },
+
+    getConfig,
+
+    async updateConfig(updates) {
+      const parsed = spec.configUpdateSchema.parse(updates);
+      await storage.updateBotConfig(parsed);
+      return getConfig();
+    },
+
+    async getCapitalUsage() {
+      const { since, dayStart } = capitalAllocator.usageWindow();
+      return capitalUsageFromOrders(await storage.getStrategyOrdersSince(spec.id, since), dayStart);
+    },
+
+    onTick: spec.tick,
+  };
+}
+
+export const fsmStrategy = engineStrategy({
+  id: "fsm",
+  name: "Oracle FSM",
+  description: "Señal del oráculo → dirección UP/DOWN → hold hasta la resolución del mercado",
+  configSchema: [
+    { key: "orderSize", label: "Order Size", type: "number", min: 1, max: 1000, step: 1, description: "Shares por entrada (antes del sizing progresivo)" },
+    { key: "autoRotate", label: "Auto-rotate", type: "boolean", description: "Rota al siguiente mercado up/down al terminar cada ventana" },
+    { key: "autoRotateAsset", label: "Asset", type: "select", options: ASSET_OPTIONS },
+    { key: "autoRotateInterval", label: "Interval", type: "select", options: INTERVAL_OPTIONS },
+    { key: "edgeFilterEnabled", label: "Edge Filter", type: "boolean", description: "Solo entra si el valor justo supera el precio de entrada" },
+    { key: "minEdge", label: "Min Edge", type: "number", min: 0, max: 0.5, step: 0.01 },
+  ],
+  configUpdateSchema: updateBotConfigSchema.pick({
+    orderSize: true, autoRotate: true, autoRotateAsset: true, autoRotateInterval: true, edgeFilterEnabled: true, minEdge: true,
+  }).strict(),
+  tick: (ctx) => strategyEngine.runFsmTick(ctx.config, ctx.data, ctx.remainingMs),
+  status: (config) => ({
+    state: config.currentState,
+    marketSlug: config.currentMarketSlug,
+    remainingMs: strategyEngine.getMarketRemainingMs(),
+  }),
+});
+
+export const dualBuyStrategy = engineStrategy({
+  id: "dual_buy",
+  name: "Dual Buy",
+  description: "2 órdenes límite (YES + NO) antes de cada mercado nuevo",
+  configSchema: [
+    { key: "dualBuyPrice", label: "Limit Price", type: "number", min: 0.01, max: 0.99, step: 0.01 },
+    { key: "dualBuySize", label: "Size", type: "number", min: 0.1, max: 1000, step: 0.1 },
+    { key: "dualBuyLeadSeconds", label: "Lead Seconds", type: "number", min: 5, max: 120, step: 1, description: "Segundos antes del inicio del mercado para colocar las órdenes" },
+    { key: "autoRotateAsset", label: "Asset", type: "select", options: ASSET_OPTIONS },
+    { key: "autoRotateInterval", label: "Interval", type: "select", options: INTERVAL_OPTIONS },
+  ],
+  configUpdateSchema: updateBotConfigSchema.pick({
+    dualBuyPrice: true, dualBuySize: true, dualBuyLeadSeconds: true, autoRotateAsset: true, autoRotateInterval: true,
+  }).strict(),
+  tick: (ctx) => strategyEngine.runDualBuyTick(ctx.config),
+  status: (config) => strategyEngine.getDualBuyStatus(config),
+});
+
+export const marketMakerStrategy = engineStrategy({
+  id: "market_maker",
+  name: "Market Maker",
+  description: "Cotiza ambos lados alrededor del valor justo, con skew por inventario y tiempo a expiración",
+  configSchema: [
+    { key: "mmMode", label: "Mode", type: "select", options: [{ value: "both_bids", label: "Bids YES + NO" }, { value: "bid_ask", label: "Bid/Ask YES" }] },
+    { key: "mmQuoteSize", label: "Quote Size", type: "number", min: 1, max: 1000, step: 1, description: "Shares por cotización" },
+    { key: "targetProfitMin", label: "Target Profit Min", type: "number", min: 0.01, max: 0.5, step: 0.01, description: "Spread total al abrir la ventana" },
+    { key: "targetProfitMax", label: "Target Profit Max", type: "number", min: 0.01, max: 1, step: 0.01, description: "Spread total cerca de la expiración" },
+    { key: "mmInventorySkew", label: "Inventory Skew", type: "number", min: 0, max: 0.2, step: 0.005, description: "Desplazamiento de precio con el inventario al máximo" },
+    { key: "mmMaxInventory", label: "Max Inventory", type: "number", min: 1, max: 10000, step: 1, description: "Shares netas a partir de las cuales deja de comprar ese lado" },
+    { key: "mmRequoteThreshold", label: "Requote Threshold", type: "number", min: 0.001, max: 0.2, step: 0.001, description: "Desvío de precio que fuerza recotizar" },
+  ],
+  configUpdateSchema: updateBotConfigSchema.pick({
+    mmMode: true, mmQuoteSize: true, targetProfitMin: true, targetProfitMax: true, mmInventorySkew: true, mmMaxInventory: true, mmRequoteThreshold: true,
+  }).strict(),
+  tick: (ctx) => strategyEngine.runMarketMakerTick(ctx.config, ctx.data, ctx.remainingMs),
+  status: (config) => strategyEngine.getMarketMakerStatus(config),
+});
@@ -0,0 +1,13 @@
+import { strategyRegistry } from "./strategy";
+import { fsmStrategy, dualBuyStrategy, marketMakerStrategy } from "./engine-strategies";
+import { dualEntry5mStrategy } from "./dualEntry5m/strategy";
+
+// New strategies are added here; everything else (API, dashboard) picks them up from the registry.
+strategyRegistry.register(fsmStrategy);
+strategyRegistry.register(dualBuyStrategy);
+strategyRegistry.register(marketMakerStrategy);
+strategyRegistry.register(dualEntry5mStrategy);
+
+export { strategyRegistry };
+export { capitalAllocator } from "./capital-allocator";
+export type { Strategy, StrategyEvent, StrategyTickContext } from "./strategy";
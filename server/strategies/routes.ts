@@ -0,0 +1,82 @@
+import { Router } from "express";
+import { ZodError } from "zod";
+import { updateStrategyAllocationSchema } from "@shared/schema";
+import { strategyRegistry, capitalAllocator } from "./index";
+
+export const strategiesRouter = Router();
+
+strategiesRouter.get("/", async (_req, res) => {
+  try {
+    const infos = await Promise.all(strategyRegistry.list().map(s => strategyRegistry.describe(s)));
+    res.json(infos);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+strategiesRouter.get("/allocations", async (_req, res) => {
+  try {
+    res.json(await capitalAllocator.getStatus());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+strategiesRouter.get("/:id", async (req, res) => {
+  try {
+    const strategy = strategyRegistry.get(req.params.id);
+    if (!strategy) return res.status(404).json({ error: `Unknown strategy: ${req.params.id}` });
+    res.json(await strategyRegistry.describe(strategy));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+strategiesRouter.post("/:id/start", async (req, res) => {
+  try {
+    const strategy = strategyRegistry.get(req.params.id);
+    if (!strategy) return res.status(404).json({ success: false, error: `Unknown strategy: ${req.params.id}` });
+    const result = await strategy.start();
+    if (!result.success) return res.status(400).json(result);
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+strategiesRouter.post("/:id/stop", async (req, res) => {
+  try {
+    const strategy = strategyRegistry.get(req.params.id);
+    if (!strategy) return res.status(404).json({ success: false, error: `Unknown strategy: ${req.params.id}` });
+    await strategy.stop();
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+strategiesRouter.patch("/:id/config", async (req, res) => {
+  try {
+    const strategy = strategyRegistry.get(req.params.id);
+    if (!strategy) return res.status(404).json({ error: `Unknown strategy: ${req.params.id}` });
+    res.json(await strategy.updateConfig(req.body ?? {}));
+  } catch (error: any) {
+    if (error instanceof ZodError) return res.status(400).json({ error: error.message });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+strategiesRouter.patch("/:id/allocation", async (req, res) => {
+  try {
+    const strategy = strategyRegistry.get(req.params.id);
+    if (!strategy) return res.status(404).json({ error: `Unknown strategy: ${req.params.id}` });
+    const parsed = updateStrategyAllocationSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+    if (parsed.data.enabled !== undefined && strategy.host !== "engine") {
+      return res.status(400).json({ error: `${strategy.name} runs standalone — use start/stop instead of enabled` });
+    }
+    res.json(await capitalAllocator.update(strategy.id, parsed.data));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
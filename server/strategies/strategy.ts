@@ -0,0 +1,103 @@
+import type { BotConfig, MarketData, StrategyCapitalUsage, StrategyConfigField, StrategyInfo } from "@shared/schema";
+import type { OrderManager } from "../bot/order-manager";
+
+export interface StrategyTickContext {
+  config: BotConfig;
+  data: MarketData;
+  remainingMs: number;
+  orderManager: OrderManager;
+}
+
+export type StrategyEvent =
+  | { type: "market_rotated"; source: string; slug: string }
+  | { type: "kill_switch" };
+
+export interface StrategyStartResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * A trading strategy the bot can run. Engine-hosted strategies are driven by
+ * StrategyEngine's tick on the bot_config market (every one the capital
+ * allocator has enabled runs); standalone strategies own their loop, market
+ * and config table.
+ */
+export interface Strategy {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly host: "engine" | "standalone";
+  /** Declares the editable config; the dashboard renders its form from this. */
+  readonly configSchema: StrategyConfigField[];
+
+  start(): Promise<StrategyStartResult>;
+  stop(): Promise<void>;
+  isRunning(): Promise<boolean>;
+  getStatus(): Promise<Record<string, unknown>>;
+  getConfig(): Promise<Record<string, unknown>>;
+  /** Validates and persists a partial config; throws on invalid input. */
+  updateConfig(updates: Record<string, unknown>): Promise<Record<string, unknown>>;
+  /** Capital the strategy has tied up, checked against its allocation budget. */
+  getCapitalUsage?(): Promise<StrategyCapitalUsage>;
+
+  onTick?(ctx: StrategyTickContext): Promise<void>;
+  onEvent?(event: StrategyEvent): void;
+}
+
+/** Copies the fields a strategy declares out of its backing config row. */
+export function pickConfigFields(row: Record<string, any> | null | undefined, fields: StrategyConfigField[]): Record<string, unknown> {
+  const config: Record<string, unknown> = {};
+  for (const field of fields) config[field.key] = row?.[field.key] ?? null;
+  return config;
+}
+
+export class StrategyRegistry {
+  private strategies: Map<string, Strategy> = new Map();
+
+  register(strategy: Strategy): void {
+    if (this.strategies.has(strategy.id)) {
+      throw new Error(`Strategy ${strategy.id} is already registered`);
+    }
+    this.strategies.set(strategy.id, strategy);
+  }
+
+  get(id: string | null | undefined): Strategy | undefined {
+    return id ? this.strategies.get(id) : undefined;
+  }
+
+  list(): Strategy[] {
+    return Array.from(this.strategies.values());
+  }
+
+  emit(event: StrategyEvent): void {
+    for (const strategy of this.list()) {
+      if (!strategy.onEvent) continue;
+      try {
+        strategy.onEvent(event);
+      } catch (err: any) {
+        console.error(`[StrategyRegistry] ${strategy.id} failed to handle ${event.type}: ${err.message}`);
+      }
+    }
+  }
+
+  async describe(strategy: Strategy): Promise<StrategyInfo> {
+    const [running, config, status] = await Promise.all([
+      strategy.isRunning(),
+      strategy.getConfig(),
+      strategy.getStatus(),
+    ]);
+    return {
+      id: strategy.id,
+      name: strategy.name,
+      description: strategy.description,
+      host: strategy.host,
+      running,
+      configSchema: strategy.configSchema,
+      config,
+      status,
+    };
+  }
+}
+
+export const strategyRegistry = new StrategyRegistry();
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, real, boolean, timestamp, jsonb, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, boolean, timestamp, jsonb, pgEnum, index } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -13,6 +13,60 @@ export const eventTypeEnum = pgEnum("event_type", [
   "RECONCILIATION", "POSITION_UPDATE", "PNL_UPDATE"
 ]);
 
+/**
+ * When the FSM leaves MAKING, measured back from the end of the market window:
+ * seconds remaining, or a fraction of the window length.
+ */
+export type FsmPhaseBounds = {
+  mode: "seconds" | "fraction";
+  unwind: number;
+  closeOnly: number;
+  hedgeLock: number;
+};
+
+export type FsmPhaseSchedule = {
+  "5m": FsmPhaseBounds;
+  "15m": FsmPhaseBounds;
+};
+
+export const DEFAULT_FSM_PHASE_SCHEDULE: FsmPhaseSchedule = {
+  "5m": { mode: "seconds", unwind: 60, closeOnly: 30, hedgeLock: 15 },
+  "15m": { mode: "seconds", unwind: 60, closeOnly: 30, hedgeLock: 15 },
+};
+
+const FSM_INTERVAL_SECONDS = { "5m": 300, "15m": 900 } as const;
+
+const fsmPhaseBoundsSchema = z.object({
+  mode: z.enum(["seconds", "fraction"]),
+  unwind: z.number().positive(),
+  closeOnly: z.number().positive(),
+  hedgeLock: z.number().positive(),
+});
+
+/** Phases must shrink towards the end of the window: unwind > closeOnly > hedgeLock > 0. */
+export const fsmPhaseScheduleSchema = z.object({
+  "5m": fsmPhaseBoundsSchema,
+  "15m": fsmPhaseBoundsSchema,
+}).superRefine((schedule, ctx) => {
+  for (const interval of ["5m", "15m"] as const) {
+    const bounds = schedule[interval];
+    const window = bounds.mode === "fraction" ? 1 : FSM_INTERVAL_SECONDS[interval];
+    if (bounds.unwind >= window) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [interval, "unwind"],
+        message: `${interval}: unwind must be shorter than the window (< ${window}${bounds.mode === "fraction" ? "" : "s"})`,
+      });
+    }
+    if (bounds.closeOnly >= bounds.unwind) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [interval, "closeOnly"], message: `${interval}: closeOnly must be less than unwind` });
+    }
+    if (bounds.hedgeLock >= bounds.closeOnly) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [interval, "hedgeLock"], message: `${interval}: hedgeLock must be less than closeOnly` });
+    }
+  }
+});
+
 export const botConfig = pgTable("bot_config", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   isActive: boolean("is_active").notNull().default(false),
@@ -38,6 +92,14 @@ export const botConfig = pgTable("bot_config", {
   dualBuyPrice: real("dual_buy_price").notNull().default(0.45),
   dualBuySize: real("dual_buy_size").notNull().default(1),
   dualBuyLeadSeconds: integer("dual_buy_lead_seconds").notNull().default(30),
+  edgeFilterEnabled: boolean("edge_filter_enabled").notNull().default(false),
+  minEdge: real("min_edge").notNull().default(0.03),
+  phaseSchedule: jsonb("phase_schedule").$type<FsmPhaseSchedule>().notNull().default(DEFAULT_FSM_PHASE_SCHEDULE),
+  mmMode: text("mm_mode").notNull().default("both_bids"),
+  mmQuoteSize: real("mm_quote_size").notNull().default(5),
+  mmMaxInventory: real("mm_max_inventory").notNull().default(50),
+  mmInventorySkew: real("mm_inventory_skew").notNull().default(0.02),
+  mmRequoteThreshold: real("mm_requote_threshold").notNull().default(0.01),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
@@ -58,6 +120,9 @@ export const orders = pgTable("orders", {
   oracleDirection: text("oracle_direction"),
   oracleConfidence: real("oracle_confidence"),
   outcome: text("outcome"),
+  strategy: text("strategy"),
+  /** What a strategy placed the order for when it is not an entry: "quote" (market maker) or "exit" (exit manager). */
+  purpose: text("purpose"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -113,6 +178,161 @@ export const botEvents = pgTable("bot_events", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+export const settlements = pgTable("settlements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketId: text("market_id").notNull(),
+  marketSlug: text("market_slug"),
+  tokenId: text("token_id"),
+  tokenSide: text("token_side"),
+  size: real("size").notNull(),
+  entryPrice: real("entry_price").notNull(),
+  fillId: varchar("fill_id"),
+  pnlDate: text("pnl_date").notNull(),
+  status: text("status").notNull().default("PROVISIONAL"),
+  provisionalOutcome: text("provisional_outcome").notNull(),
+  provisionalPrice: real("provisional_price").notNull(),
+  provisionalPnl: real("provisional_pnl").notNull(),
+  finalOutcome: text("final_outcome"),
+  finalPrice: real("final_price"),
+  finalPnl: real("final_pnl"),
+  corrected: boolean("corrected").notNull().default(false),
+  isPaperTrade: boolean("is_paper_trade").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+export const redemptions = pgTable("redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conditionId: text("condition_id").notNull().unique(),
+  marketSlug: text("market_slug"),
+  question: text("question"),
+  negRisk: boolean("neg_risk").notNull().default(false),
+  tokenYes: text("token_yes"),
+  tokenNo: text("token_no"),
+  yesBalance: real("yes_balance").notNull().default(0),
+  noBalance: real("no_balance").notNull().default(0),
+  expectedUsdc: real("expected_usdc").notNull().default(0),
+  usdcReceived: real("usdc_received"),
+  status: text("status").notNull().default("PENDING"),
+  txHash: text("tx_hash"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  redeemedAt: timestamp("redeemed_at"),
+});
+
+export const recordedBookEvents = pgTable("recorded_book_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketSlug: text("market_slug"),
+  tokenId: text("token_id").notNull(),
+  outcome: text("outcome"),
+  kind: text("kind").notNull(),
+  source: text("source").notNull().default("ws"),
+  bids: jsonb("bids"),
+  asks: jsonb("asks"),
+  changes: jsonb("changes"),
+  bestBid: real("best_bid"),
+  bestAsk: real("best_ask"),
+  ts: timestamp("ts").notNull(),
+}, (t) => [
+  index("recorded_book_events_slug_ts_idx").on(t.marketSlug, t.ts),
+  index("recorded_book_events_ts_idx").on(t.ts),
+]);
+
+export const recordedTrades = pgTable("recorded_trades", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketSlug: text("market_slug"),
+  tokenId: text("token_id").notNull(),
+  outcome: text("outcome"),
+  price: real("price").notNull(),
+  size: real("size").notNull().default(0),
+  side: text("side"),
+  ts: timestamp("ts").notNull(),
+}, (t) => [
+  index("recorded_trades_slug_ts_idx").on(t.marketSlug, t.ts),
+  index("recorded_trades_ts_idx").on(t.ts),
+]);
+
+export const recordedOracleTicks = pgTable("recorded_oracle_ticks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  asset: text("asset").notNull().default("btc"),
+  source: text("source").notNull(),
+  price: real("price").notNull(),
+  ts: timestamp("ts").notNull(),
+}, (t) => [
+  index("recorded_oracle_ticks_ts_idx").on(t.ts),
+]);
+
+export const priceTicks = pgTable("price_ticks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  source: text("source").notNull(),
+  key: text("key").notNull(),
+  price: real("price").notNull(),
+  price2: real("price2"),
+  ts: timestamp("ts").notNull(),
+}, (t) => [
+  index("price_ticks_source_ts_idx").on(t.source, t.ts),
+]);
+
+export const oracleSignals = pgTable("oracle_signals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketSlug: text("market_slug").notNull(),
+  asset: text("asset").notNull().default("btc"),
+  kind: text("kind").notNull(),
+  direction: text("direction").notNull(),
+  strength: text("strength").notNull(),
+  confidence: real("confidence").notNull(),
+  delta: real("delta").notNull(),
+  openingPrice: real("opening_price").notNull(),
+  currentPrice: real("current_price").notNull(),
+  elapsedMs: integer("elapsed_ms").notNull(),
+  remainingMs: integer("remaining_ms").notNull(),
+  fairProbUp: real("fair_prob_up"),
+  tokenSide: text("token_side"),
+  entryPrice: real("entry_price"),
+  windowEnd: timestamp("window_end").notNull(),
+  outcome: text("outcome"),
+  hit: boolean("hit"),
+  ts: timestamp("ts").notNull().defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+}, (t) => [
+  index("oracle_signals_slug_idx").on(t.marketSlug),
+  index("oracle_signals_ts_idx").on(t.ts),
+]);
+
+export const strategyAllocations = pgTable("strategy_allocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  strategyId: text("strategy_id").notNull().unique(),
+  enabled: boolean("enabled").notNull().default(false),
+  capitalBudget: real("capital_budget"),
+  maxExposure: real("max_exposure"),
+  maxDailyLoss: real("max_daily_loss"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const EXIT_POLICY_MODES = ["hold", "stop_loss", "take_profit", "both"] as const;
+export type ExitPolicyMode = typeof EXIT_POLICY_MODES[number];
+/** Order outcomes of exit SELLs and the entries they closed; settlement leaves these alone. */
+export const EXIT_OUTCOMES = ["STOP_LOSS", "TAKE_PROFIT"];
+
+export const exitPolicies = pgTable("exit_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  strategyId: text("strategy_id").notNull().unique(),
+  mode: text("mode").notNull().default("hold"),
+  takeProfitPct: real("take_profit_pct").notNull().default(0.2),
+  maxSlippage: real("max_slippage").notNull().default(0.02),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const entryFilters = pgTable("entry_filters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  filterId: text("filter_id").notNull().unique(),
+  position: integer("position").notNull().default(0),
+  enabled: boolean("enabled").notNull().default(true),
+  params: jsonb("params").$type<Record<string, number>>().notNull().default({}),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 export const fillsRelations = relations(fills, ({ one }) => ({
   order: one(orders, { fields: [fills.orderId], references: [orders.id] }),
 }));
@@ -121,12 +341,22 @@ export const ordersRelations = relations(orders, ({ many }) => ({
   fills: many(fills),
 }));
 
-export const insertBotConfigSchema = createInsertSchema(botConfig).omit({ id: true, updatedAt: true });
+export const insertBotConfigSchema = createInsertSchema(botConfig, { phaseSchedule: fsmPhaseScheduleSchema.optional() }).omit({ id: true, updatedAt: true });
 export const insertOrderSchema = createInsertSchema(orders).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertFillSchema = createInsertSchema(fills).omit({ id: true, createdAt: true });
 export const insertPositionSchema = createInsertSchema(positions).omit({ id: true, updatedAt: true });
 export const insertPnlRecordSchema = createInsertSchema(pnlRecords).omit({ id: true, createdAt: true });
 export const insertBotEventSchema = createInsertSchema(botEvents).omit({ id: true, createdAt: true });
+export const insertSettlementSchema = createInsertSchema(settlements).omit({ id: true, createdAt: true });
+export const insertRedemptionSchema = createInsertSchema(redemptions).omit({ id: true, createdAt: true });
+export const insertRecordedBookEventSchema = createInsertSchema(recordedBookEvents).omit({ id: true });
+export const insertRecordedTradeSchema = createInsertSchema(recordedTrades).omit({ id: true });
+export const insertRecordedOracleTickSchema = createInsertSchema(recordedOracleTicks).omit({ id: true });
+export const insertPriceTickSchema = createInsertSchema(priceTicks).omit({ id: true });
+export const insertOracleSignalSchema = createInsertSchema(oracleSignals).omit({ id: true, ts: true, outcome: true, hit: true, resolvedAt: true });
+export const insertStrategyAllocationSchema = createInsertSchema(strategyAllocations).omit({ id: true, updatedAt: true });
+export const insertExitPolicySchema = createInsertSchema(exitPolicies).omit({ id: true, updatedAt: true });
+export const insertEntryFilterSchema = createInsertSchema(entryFilters, { params: z.record(z.number()).optional() }).omit({ id: true, updatedAt: true });
 
 export type BotConfig = typeof botConfig.$inferSelect;
 export type InsertBotConfig = z.infer<typeof insertBotConfigSchema>;
@@ -140,6 +370,398 @@ export type PnlRecord = typeof pnlRecords.$inferSelect;
 export type InsertPnlRecord = z.infer<typeof insertPnlRecordSchema>;
 export type BotEvent = typeof botEvents.$inferSelect;
 export type InsertBotEvent = z.infer<typeof insertBotEventSchema>;
+export type Settlement = typeof settlements.$inferSelect;
+export type InsertSettlement = z.infer<typeof insertSettlementSchema>;
+export type Redemption = typeof redemptions.$inferSelect;
+export type InsertRedemption = z.infer<typeof insertRedemptionSchema>;
+export type RecordedBookEvent = typeof recordedBookEvents.$inferSelect;
+export type InsertRecordedBookEvent = z.infer<typeof insertRecordedBookEventSchema>;
+export type RecordedTrade = typeof recordedTrades.$inferSelect;
+export type InsertRecordedTrade = z.infer<typeof insertRecordedTradeSchema>;
+export type RecordedOracleTick = typeof recordedOracleTicks.$inferSelect;
+export type InsertRecordedOracleTick = z.infer<typeof insertRecordedOracleTickSchema>;
+export type PriceTick = typeof priceTicks.$inferSelect;
+export type InsertPriceTick = z.infer<typeof insertPriceTickSchema>;
+export type OracleSignalRecord = typeof oracleSignals.$inferSelect;
+export type InsertOracleSignal = z.infer<typeof insertOracleSignalSchema>;
+export type StrategyAllocation = typeof strategyAllocations.$inferSelect;
+export type InsertStrategyAllocation = z.infer<typeof insertStrategyAllocationSchema>;
+export type ExitPolicyRow = typeof exitPolicies.$inferSelect;
+export type InsertExitPolicy = z.infer<typeof insertExitPolicySchema>;
+export type EntryFilterRow = typeof entryFilters.$inferSelect;
+export type InsertEntryFilter = z.infer<typeof insertEntryFilterSchema>;
+
+export type RedemptionSummary = {
+  pendingCount: number;
+  pendingUsdc: number;
+  redeemedCount: number;
+  redeemedUsdc: number;
+  lastScanAt: string | null;
+  holderSupported: boolean;
+  holderReason: string | null;
+  entries: Redemption[];
+};
+
+export type RecordedSession = {
+  marketSlug: string;
+  firstTs: string;
+  lastTs: string;
+  bookEvents: number;
+  trades: number;
+};
+
+export type BacktestTrade = {
+  marketSlug: string;
+  tokenSide: "YES" | "NO";
+  layer: string;
+  entryTs: number;
+  entryPrice: number;
+  size: number;
+  fee: number;
+  exitPrice: number;
+  grossPnl: number;
+  pnl: number;
+  outcome: "WON" | "LOST";
+};
+
+export type BacktestWindow = {
+  marketSlug: string;
+  windowStart: number;
+  windowEnd: number;
+  direction: "UP" | "DOWN" | null;
+  resolutionSource: "oracle" | "book" | null;
+  ticks: number;
+  trades: BacktestTrade[];
+  pnl: number;
+  skips: Record<string, number>;
+};
+
+export type EquityPoint = {
+  ts: number;
+  marketSlug: string;
+  equity: number;
+  drawdown: number;
+};
+
+export type BacktestMetrics = {
+  windows: number;
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  totalPnl: number;
+  avgPnl: number;
+  profitFactor: number | null;
+  maxDrawdown: number;
+  sharpe: number;
+  fees: number;
+};
+
+export type BacktestResult = {
+  strategy: "fsm";
+  params: Record<string, any>;
+  ranAt: string;
+  durationMs: number;
+  halted: { reason: string; ts: number } | null;
+  /** Sim days cut short by the daily loss limit; the run resumes the next day. */
+  dayStops: { day: string; reason: string; ts: number; skippedWindows: number }[];
+  windows: BacktestWindow[];
+  equity: EquityPoint[];
+  metrics: BacktestMetrics;
+};
+
+export type DualEntryAnalytics = {
+  summary: { totalCycles: number; totalWins: number; winRate: string; totalPnl: string; totalFlat: number; totalPartial: number; totalMerged: number };
+  hourlyStats: Record<number, { total: number; wins: number; pnl: number; avgVol: number; volCount: number }>;
+  dayStats: Record<number, { total: number; wins: number; pnl: number }>;
+  entryMethodStats: Record<string, { total: number; wins: number; pnl: number }>;
+};
+
+export type DualEntryBacktestResult = {
+  strategy: "dual_entry_5m";
+  params: Record<string, any>;
+  ranAt: string;
+  durationMs: number;
+  sessions: number;
+  cycles: DualEntryCycle[];
+  analytics: DualEntryAnalytics;
+  equity: EquityPoint[];
+  metrics: BacktestMetrics;
+};
+
+export type OptimizerStrategy = "fsm" | "dual_entry_5m";
+export type OptimizerObjective = "pnl" | "sharpe" | "maxDrawdown";
+export type OptimizerValidation = "none" | "split" | "walk_forward";
+
+export type OptimizerCandidate = {
+  id: number;
+  values: Record<string, number>;
+  status: "pending" | "done" | "failed";
+  metrics: BacktestMetrics | null;
+  score: number | null;
+  error: string | null;
+};
+
+export type OptimizationJob = {
+  id: string;
+  strategy: OptimizerStrategy;
+  mode: "grid" | "random";
+  objective: OptimizerObjective;
+  status: "running" | "done" | "failed" | "cancelled";
+  parameters: string[];
+  sessions: number;
+  workers: number;
+  total: number;
+  completed: number;
+  failed: number;
+  startedAt: string;
+  finishedAt: string | null;
+  error: string | null;
+  appliedCandidateId: number | null;
+  validation: OptimizerValidation;
+  walkForward: WalkForwardReport | null;
+  results: OptimizerCandidate[];
+};
+
+export type WalkForwardFold = {
+  index: number;
+  status: "pending" | "training" | "testing" | "done" | "failed";
+  trainSessions: number;
+  testSessions: number;
+  trainStart: number;
+  trainEnd: number;
+  testStart: number;
+  testEnd: number;
+  bestCandidateId: number | null;
+  bestValues: Record<string, number> | null;
+  inSample: BacktestMetrics | null;
+  outOfSample: BacktestMetrics | null;
+  efficiency: number | null;
+  error: string | null;
+};
+
+export type ParameterStability = {
+  name: string;
+  values: number[];
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+  cv: number | null;
+  distinct: number;
+};
+
+export type WalkForwardReport = {
+  mode: "split" | "walk_forward";
+  anchored: boolean;
+  folds: WalkForwardFold[];
+  oosEquity: EquityPoint[];
+  oosMetrics: BacktestMetrics | null;
+  efficiency: number | null;
+  stability: ParameterStability[];
+};
+
+export type CalibrationBin = {
+  /** Lower edge of the predicted-probability bin (bins are 0.1 wide). */
+  lower: number;
+  upper: number;
+  samples: number;
+  avgPredicted: number;
+  hitRate: number;
+};
+
+export type CalibrationGroup = {
+  key: string;
+  samples: number;
+  hits: number;
+  hitRate: number;
+  avgConfidence: number;
+  curve: CalibrationBin[];
+};
+
+export type OracleCalibrationReport = {
+  from: string | null;
+  to: string | null;
+  totalSignals: number;
+  resolvedSignals: number;
+  pendingSignals: number;
+  /** Directional signals only; NEUTRAL rows have no hit/miss. */
+  byStrength: CalibrationGroup[];
+  byAsset: CalibrationGroup[];
+  byHour: CalibrationGroup[];
+  /** Fair P(UP) against realized UP frequency, over every resolved row with a fair value. */
+  fairValue: { curve: CalibrationBin[]; brierScore: number | null; samples: number };
+};
+
+export type StrategyConfigField = {
+  key: string;
+  label: string;
+  type: "number" | "boolean" | "select";
+  description?: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: { value: string; label: string }[];
+};
+
+export type StrategyInfo = {
+  id: string;
+  name: string;
+  description: string;
+  /** "engine" strategies are ticked by the main bot engine on the bot_config market; "standalone" ones run their own loop. */
+  host: "engine" | "standalone";
+  running: boolean;
+  configSchema: StrategyConfigField[];
+  config: Record<string, unknown>;
+  status: Record<string, unknown>;
+};
+
+/** null limits are not enforced. `enabled` only applies to engine strategies. */
+export const updateStrategyAllocationSchema = z.object({
+  enabled: z.boolean().optional(),
+  capitalBudget: z.number().min(0).nullable().optional(),
+  maxExposure: z.number().min(0).nullable().optional(),
+  maxDailyLoss: z.number().min(0).nullable().optional(),
+}).strict();
+
+export type UpdateStrategyAllocation = z.infer<typeof updateStrategyAllocationSchema>;
+
+export type StrategyCapitalUsage = {
+  /** Resting BUY notional plus the cost of filled, unsettled entries. */
+  committed: number;
+  /** Cost of filled, unsettled entries. */
+  exposure: number;
+  /** Realized PnL of entries settled since 00:00 UTC. */
+  dailyPnl: number;
+};
+
+export type StrategyAllocationStatus = {
+  strategyId: string;
+  name: string;
+  host: "engine" | "standalone";
+  enabled: boolean;
+  running: boolean;
+  capitalBudget: number | null;
+  maxExposure: number | null;
+  maxDailyLoss: number | null;
+  usage: StrategyCapitalUsage;
+  blockedReason: string | null;
+};
+
+export const updateEntryFilterSchema = z.object({
+  enabled: z.boolean().optional(),
+  params: z.record(z.number()).optional(),
+}).strict();
+
+export type UpdateEntryFilter = z.infer<typeof updateEntryFilterSchema>;
+
+export const reorderEntryFiltersSchema = z.object({
+  order: z.array(z.string()).min(1),
+});
+
+/** One stage of the FSM entry pipeline with its effective parameters. */
+export type EntryFilterInfo = {
+  id: string;
+  name: string;
+  description: string;
+  position: number;
+  enabled: boolean;
+  params: Record<string, number>;
+  paramSchema: StrategyConfigField[];
+  /** Parameters (and the enabled flag, under "enabled") that live in bot_config instead of the filter row. */
+  configBindings: Record<string, string>;
+};
+
+export type EntryFilterVerdict = {
+  id: string;
+  name: string;
+  status: "pass" | "block" | "disabled";
+  message: string | null;
+  data: Record<string, any>;
+};
+
+export type EntryEvaluation = {
+  ts: number;
+  marketSlug: string | null;
+  tokenSide: "YES" | "NO" | null;
+  entryPrice: number | null;
+  /** Id of the first enabled filter that blocked, in pipeline order. */
+  blockedBy: string | null;
+  verdicts: EntryFilterVerdict[];
+  sizing: { size: number; layer: string } | null;
+};
+
+export const updateExitPolicySchema = z.object({
+  mode: z.enum(EXIT_POLICY_MODES).optional(),
+  takeProfitPct: z.number().min(0.01).max(5).optional(),
+  maxSlippage: z.number().min(0).max(0.2).optional(),
+}).strict();
+
+export type UpdateExitPolicy = z.infer<typeof updateExitPolicySchema>;
+
+export type ExitPolicyStatus = {
+  strategyId: string;
+  name: string;
+  mode: ExitPolicyMode;
+  /** Gain on entry price (0.2 = +20%) that triggers a take-profit exit. */
+  takeProfitPct: number;
+  /** Exit SELLs are limited to this far below the best bid. */
+  maxSlippage: number;
+};
+
+export type PositionExit = {
+  tokenId: string;
+  tokenSide: "YES" | "NO" | null;
+  marketId: string;
+  strategy: string;
+  kind: "STOP_LOSS" | "TAKE_PROFIT";
+  reason: string;
+  orderId: string | null;
+  entryPrice: number;
+  size: number;
+  filledSize: number;
+  limitPrice: number | null;
+  status: "working" | "filled" | "partial" | "abandoned";
+  realizedPnl: number;
+  startedAt: number;
+  finishedAt: number | null;
+};
+
+export type MarketMakerQuote = {
+  slot: "YES_BID" | "NO_BID" | "YES_ASK";
+  tokenSide: "YES" | "NO";
+  side: "BUY" | "SELL";
+  price: number;
+  size: number;
+};
+
+export type MarketMakerStatus = {
+  enabled: boolean;
+  mode: "both_bids" | "bid_ask";
+  quoting: boolean;
+  /** P(YES) the quotes are centred on. */
+  fair: number | null;
+  fairSource: "oracle" | "book" | null;
+  halfSpread: number | null;
+  skew: number | null;
+  inventory: { yes: number; no: number; net: number };
+  quotes: Array<MarketMakerQuote & { orderId: string | null }>;
+  requotes: number;
+  lastBlocked: string | null;
+};
+
+export type RecorderStatus = {
+  enabled: boolean;
+  retentionHours: number;
+  snapshotIntervalMs: number;
+  oracleSampleMs: number;
+  trackedTokens: number;
+  buffered: number;
+  written: { bookEvents: number; trades: number; oracleTicks: number };
+  dropped: number;
+  lastFlushAt: string | null;
+  lastPurgeAt: string | null;
+};
 
 export const dualEntryCycleStateEnum = pgEnum("dual_entry_cycle_state", [
   "IDLE", "ARMED", "ENTRY_WORKING", "PARTIAL_FILL", "HEDGED", "EXIT_WORKING", "DONE", "CLEANUP", "FAILSAFE"
@@ -184,6 +806,8 @@ export const dualEntryConfig = pgTable("dual_entry_config", {
   multiMarketEnabled: boolean("multi_market_enabled").notNull().default(false),
   additionalMarkets: jsonb("additional_markets").notNull().default([]),
   dualTpMode: boolean("dual_tp_mode").notNull().default(false),
+  mergeEnabled: boolean("merge_enabled").notNull().default(false),
+  mergeTrigger: text("merge_trigger").notNull().default("scratch_fail"),
   autoRotate5m: boolean("auto_rotate_5m").notNull().default(false),
   autoRotate5mAsset: text("auto_rotate_5m_asset").notNull().default("btc"),
   autoRotateInterval: text("auto_rotate_interval").notNull().default("5m"),
@@ -226,6 +850,8 @@ export const dualEntryCycles = pgTable("dual_entry_cycles", {
   actualOrderSize: real("actual_order_size"),
   marketTokenYes: text("market_token_yes"),
   marketTokenNo: text("market_token_no"),
+  mergedSize: real("merged_size"),
+  mergeTxHash: text("merge_tx_hash"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -282,6 +908,8 @@ export const updateDualEntryConfigSchema = z.object({
     tickSize: z.string(),
   })).optional(),
   dualTpMode: z.boolean().optional(),
+  mergeEnabled: z.boolean().optional(),
+  mergeTrigger: z.enum(["immediate", "scratch_fail"]).optional(),
   autoRotate5m: z.boolean().optional(),
   autoRotate5mAsset: z.string().optional(),
   autoRotateInterval: z.string().optional(),
@@ -308,10 +936,18 @@ export const updateBotConfigSchema = z.object({
   autoRotate: z.boolean().optional(),
   autoRotateAsset: z.string().optional(),
   autoRotateInterval: z.string().optional(),
-  activeStrategy: z.enum(["fsm", "dual_buy"]).optional(),
+  activeStrategy: z.string().optional(),
   dualBuyPrice: z.number().min(0.01).max(0.99).optional(),
   dualBuySize: z.number().min(0.1).max(1000).optional(),
   dualBuyLeadSeconds: z.number().min(5).max(120).optional(),
+  edgeFilterEnabled: z.boolean().optional(),
+  minEdge: z.number().min(0).max(0.5).optional(),
+  phaseSchedule: fsmPhaseScheduleSchema.optional(),
+  mmMode: z.enum(["both_bids", "bid_ask"]).optional(),
+  mmQuoteSize: z.number().min(1).max(1000).optional(),
+  mmMaxInventory: z.number().min(1).max(10000).optional(),
+  mmInventorySkew: z.number().min(0).max(0.2).optional(),
+  mmRequoteThreshold: z.number().min(0.001).max(0.2).optional(),
 });
 
 export type UpdateBotConfig = z.infer<typeof updateBotConfigSchema>;
@@ -327,6 +963,24 @@ export type MarketData = {
   volume24h: number;
 };
 
+export type OrderBookLevel = { price: number; size: number };
+
+export type OrderBookSnapshot = {
+  tokenId: string;
+  source: "ws" | "rest" | "replay";
+  updatedAt: number;
+  bestBid: number;
+  bestAsk: number;
+  spread: number;
+  midpoint: number;
+  lastTradePrice: number | null;
+  bidDepth: number;
+  askDepth: number;
+  imbalance: number;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+};
+
 export type WsConnectionHealth = {
   marketConnected: boolean;
   userConnected: boolean;
@@ -394,6 +1048,37 @@ export type OracleStatus = {
     btcPrice: number;
     volatility5m: number;
   };
+  source?: string;
+  composite?: {
+    price: number | null;
+    healthySources: number;
+    requiredSources: number;
+    quorum: boolean;
+    sources: {
+      name: string;
+      kind: "ws" | "rest";
+      connected: boolean;
+      price: number | null;
+      ageMs: number | null;
+      lagMs: number | null;
+      divergencePct: number | null;
+      healthy: boolean;
+      reason: string | null;
+    }[];
+  } | null;
+};
+
+export type FairValueStatus = {
+  probUp: number;
+  probDown: number;
+  sigmaPerSec: number;
+  remainingMs: number;
+  zScore: number;
+  /** Fair value minus the current best bid of each token (the FSM's entry price). */
+  edgeYes: number | null;
+  edgeNo: number | null;
+  edgeFilterEnabled: boolean;
+  minEdge: number;
 };
 
 export type StopLossStatus = {
@@ -452,9 +1137,20 @@ export type BotStatus = {
   dualEntry5m?: DualEntry5mInfo;
   marketRemainingMs?: number;
   marketDurationMs?: number;
+  entryPipeline?: EntryEvaluation | null;
+  marketMaker?: MarketMakerStatus;
+  exits?: { active: PositionExit[]; recent: PositionExit[] };
+  fsmPhases?: {
+    interval: "5m" | "15m";
+    windowMs: number;
+    unwindMs: number;
+    closeOnlyMs: number;
+    hedgeLockMs: number;
+  };
   isLiquidating?: boolean;
   cycleCount?: number;
   oracle?: OracleStatus;
+  fairValue?: FairValueStatus | null;
   stopLoss?: StopLossStatus;
   progressiveSizer?: ProgressiveSizerStatus;
   marketRegime?: MarketRegimeStatus;